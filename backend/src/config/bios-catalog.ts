@@ -0,0 +1,166 @@
+// Known-good BIOS dumps per platform
+export interface KnownBiosDump {
+  md5?: string;
+  sha1?: string;
+  size?: number;
+  region?: string;
+  version?: string;
+}
+
+export interface BiosDefinition {
+  fileName: string;
+  description: string;
+  platforms: string[];
+  isOptional: boolean;
+  dumps: KnownBiosDump[]; // Empty when the file varies per console and cannot be verified
+}
+
+export const BIOS_CATALOG: BiosDefinition[] = [
+  // Nintendo
+  {
+    fileName: 'gba_bios.bin',
+    description: 'Game Boy Advance BIOS',
+    platforms: ['gba'],
+    isOptional: false,
+    dumps: [
+      { md5: 'a860e8c0b6d573d191e4ec7db1b1e4f6', sha1: '300c20df6731a33952ded8c436f7f186d25d3492', size: 16384, region: 'World' },
+    ],
+  },
+  {
+    fileName: 'bios7.bin',
+    description: 'Nintendo DS ARM7 BIOS',
+    platforms: ['ds'],
+    isOptional: false,
+    dumps: [{ md5: 'df692a80a5b1bc90728bc3dfc76cd948', size: 16384, region: 'World' }],
+  },
+  {
+    fileName: 'bios9.bin',
+    description: 'Nintendo DS ARM9 BIOS',
+    platforms: ['ds'],
+    isOptional: false,
+    dumps: [{ md5: 'a392174eb3e572fed6447e956bde4b25', size: 4096, region: 'World' }],
+  },
+  {
+    fileName: 'firmware.bin',
+    description: 'Nintendo DS Firmware',
+    platforms: ['ds'],
+    isOptional: false,
+    dumps: [], // User settings are stored in the firmware, so every dump differs
+  },
+
+  // Sega
+  {
+    fileName: 'sega_101.bin',
+    description: 'Sega Saturn BIOS v1.01 (NTSC-J)',
+    platforms: ['saturn'],
+    isOptional: false,
+    dumps: [{ md5: '85ec9ca47d8f6807718151cbcca8b964', size: 524288, region: 'NTSC-J', version: '1.01' }],
+  },
+  {
+    fileName: 'mpr-17933.bin',
+    description: 'Sega Saturn BIOS v1.00 (NTSC-U/PAL)',
+    platforms: ['saturn'],
+    isOptional: false,
+    dumps: [{ md5: '3240872c70984b6cbfda1586cab68dbe', size: 524288, region: 'NTSC-U', version: '1.00' }],
+  },
+  {
+    fileName: 'dc_boot.bin',
+    description: 'Sega Dreamcast BIOS',
+    platforms: ['dreamcast'],
+    isOptional: false,
+    dumps: [{ md5: 'e10c53c2f8b90bab96ead2d368858623', size: 2097152, region: 'World' }],
+  },
+  {
+    fileName: 'dc_flash.bin',
+    description: 'Sega Dreamcast Flash',
+    platforms: ['dreamcast'],
+    isOptional: true,
+    dumps: [], // Flash contains console settings and varies per unit
+  },
+
+  // Sony
+  {
+    fileName: 'scph1001.bin',
+    description: 'PlayStation BIOS v2.2 (NTSC-U)',
+    platforms: ['psx'],
+    isOptional: true,
+    dumps: [
+      { md5: '924e392ed05558ffdb115408c263dccf', sha1: '10155d8d6e6e832d6ea66db9bc098321fb5e8ebf', size: 524288, region: 'NTSC-U', version: '2.2' },
+    ],
+  },
+  {
+    fileName: 'scph5501.bin',
+    description: 'PlayStation BIOS v3.0 (NTSC-U)',
+    platforms: ['psx'],
+    isOptional: false,
+    dumps: [
+      { md5: '490f666e1afb15b7362b406ed1cea246', sha1: '0555c6fae8906f3f09baf5988f00e55f88e9f30b', size: 524288, region: 'NTSC-U', version: '3.0' },
+    ],
+  },
+  {
+    fileName: 'scph7001.bin',
+    description: 'PlayStation BIOS v4.1 (NTSC-U)',
+    platforms: ['psx'],
+    isOptional: true,
+    dumps: [{ md5: '1e68c231d0896b7eadcad1d7d8e76129', size: 524288, region: 'NTSC-U', version: '4.1' }],
+  },
+  {
+    fileName: 'ps2-0100a-20011027.bin',
+    description: 'PlayStation 2 BIOS v1.00 (NTSC-U)',
+    platforms: ['ps2'],
+    isOptional: true,
+    dumps: [],
+  },
+  {
+    fileName: 'ps2-0120a-20020207.bin',
+    description: 'PlayStation 2 BIOS v1.20 (NTSC-U)',
+    platforms: ['ps2'],
+    isOptional: true,
+    dumps: [],
+  },
+
+  // Arcade
+  {
+    fileName: 'neogeo.zip',
+    description: 'Neo Geo BIOS set',
+    platforms: ['neogeo', 'mame'],
+    isOptional: false,
+    dumps: [], // ROM sets differ between MAME/FBNeo releases
+  },
+
+  // Computer
+  {
+    fileName: 'kick13.rom',
+    description: 'Amiga Kickstart 1.3 (A500)',
+    platforms: ['amiga'],
+    isOptional: true,
+    dumps: [{ md5: '85ad74194e87c08904327de1a9443b7a', size: 262144, version: '34.5' }],
+  },
+  {
+    fileName: 'kick31.rom',
+    description: 'Amiga Kickstart 3.1 (A1200)',
+    platforms: ['amiga'],
+    isOptional: false,
+    dumps: [{ md5: '646773759326fbac3b2311fd8c8793ee', size: 524288, version: '40.68' }],
+  },
+];
+
+// Helper functions
+export function getBiosDefinition(fileName: string): BiosDefinition | null {
+  return BIOS_CATALOG.find(bios => bios.fileName.toLowerCase() === fileName.toLowerCase()) || null;
+}
+
+export function getBiosDefinitionsForPlatform(platformId: string): BiosDefinition[] {
+  return BIOS_CATALOG.filter(bios => bios.platforms.includes(platformId));
+}
+
+export function findKnownDump(
+  definition: BiosDefinition,
+  hashes: { md5: string; sha1: string }
+): KnownBiosDump | null {
+  return definition.dumps.find(dump =>
+    (dump.md5 && dump.md5 === hashes.md5) || (dump.sha1 && dump.sha1 === hashes.sha1)
+  ) || null;
+}
+
+export default BIOS_CATALOG;
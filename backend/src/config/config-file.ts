@@ -1,7 +1,13 @@
 import { z } from 'zod';
 import path from 'path';
+import { loadPlatformRegistry, matchPlatformMagic, PlatformDefinition } from './platformRegistry';
+
+export type { PlatformDefinition, EmulatorCore, MagicCheck, RetroArchSettings } from './platformRegistry';
+export { retroarchSettingsSchema } from './platformRegistry';
 
 // Environment validation schema
+const DEFAULT_JWT_SECRET = 'your-super-secret-jwt-key-change-in-production';
+
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().transform(Number).default('3001'),
@@ -22,11 +28,17 @@ const envSchema = z.object({
   MEDIA_DIR: z.string().default('./media'),
   BIOS_DIR: z.string().default('./bios'),
   TEMP_DIR: z.string().default('./temp'),
+  PATCH_DIR: z.string().default('./patches'),
+  QUARANTINE_DIR: z.string().default('./quarantine'), // Uploads ClamAV found infected
+  LIBRARY_ROOTS: z.string().default(''), // Comma-separated folders scanned in place; defaults to ROM_DIR
+  LIBRARY_WATCH: z.string().transform(value => value === 'true').default('true'),
+  PLATFORMS_FILE: z.string().optional(), // JSON/YAML platform definitions merged over the built-in ones
   
   // Upload settings
   MAX_FILE_SIZE: z.string().transform(Number).default('4294967296'), // 4GB
   CHUNK_SIZE: z.string().transform(Number).default('1048576'), // 1MB
-  UPLOAD_TIMEOUT: z.string().transform(Number).default('3600'), // 1 hour
+  UPLOAD_TIMEOUT: z.string().transform(Number).default('3600'), // 1 hour, extended by every chunk received
+  UPLOAD_CONCURRENCY: z.string().transform(Number).default('4'), // Chunk PUTs a client may have in flight
   
   // Frontend
   FRONTEND_URL: z.string().default('http://localhost:3000'),
@@ -39,14 +51,48 @@ const envSchema = z.object({
   SCREENSCRAPER_PASSWORD: z.string().optional(),
   
   // Security
-  JWT_SECRET: z.string().default('your-super-secret-jwt-key-change-in-production'),
+  JWT_SECRET: z.string().default(DEFAULT_JWT_SECRET),
+  JWT_ACCESS_EXPIRES_IN: z.string().default('15m'),
+  JWT_REFRESH_EXPIRES_DAYS: z.string().transform(Number).default('30'),
+  ALLOW_REGISTRATION: z.string().transform(value => value === 'true').default('true'),
   RATE_LIMIT_MAX: z.string().transform(Number).default('1000'),
   RATE_LIMIT_WINDOW: z.string().default('15'),
   
   // Processing
-  ENABLE_VIRUS_SCAN: z.string().transform(Boolean).default('false'),
-  CLAMAV_HOST: z.string().optional(),
-  CLAMAV_PORT: z.string().transform(Number).optional(),
+  ENABLE_VIRUS_SCAN: z.string().transform(value => value === 'true').default('false'),
+  CLAMAV_HOST: z.string().default('localhost'),
+  CLAMAV_PORT: z.string().transform(Number).default('3310'),
+  CLAMAV_TIMEOUT: z.string().transform(Number).default('60000'), // ms without an answer from clamd
+  ENABLE_CHD_CONVERSION: z.string().transform(value => value === 'true').default('false'),
+  CHDMAN_PATH: z.string().default('chdman'),
+  
+  // Native emulation
+  RETROARCH_PATH: z.string().default('/usr/bin/retroarch'),
+  RETROARCH_SHADER_DIR: z.string().default('/usr/share/libretro/shaders'), // Shader presets are resolved against this
+  RETROARCH_CMD_PORT_BASE: z.string().transform(Number).default('55400'), // First UDP network command port
+  RETROARCH_CMD_PORT_COUNT: z.string().transform(Number).default('100'), // One port per native session
+  RETROARCH_CMD_TIMEOUT: z.string().transform(Number).default('2000'), // ms to wait for RetroArch to answer a query
+  NATIVE_MAX_SESSIONS: z.string().transform(Number).default('4'),
+  NATIVE_QUEUE_TIMEOUT: z.string().transform(Number).default('60000'), // ms a session waits for a free display
+  NATIVE_MAX_RESTARTS: z.string().transform(Number).default('1'), // Restarts of a crashed RetroArch per session
+  XVFB_PATH: z.string().default('Xvfb'),
+  DISPLAY_BASE: z.string().transform(Number).default('100'), // First X display number handed to sessions
+  PACTL_PATH: z.string().default('pactl'),
+  NATIVE_SANDBOX: z.enum(['bwrap', 'none']).default('bwrap'), // How RetroArch is isolated from the server
+  BWRAP_PATH: z.string().default('bwrap'),
+  SANDBOX_CGROUP_ROOT: z.string().default(''), // Delegated cgroup v2 subtree; empty (the default) disables limits
+  SANDBOX_MEMORY_MAX: z.string().default('1G'), // memory.max of each session
+  SANDBOX_CPU_PERCENT: z.string().transform(Number).default('100'), // Share of one CPU each session may use
+  SANDBOX_PIDS_MAX: z.string().transform(Number).default('256'),
+  PULSE_SOCKET: z.string().optional(), // PulseAudio socket bound into the sandbox; defaults to $XDG_RUNTIME_DIR/pulse/native
+  
+  // Background jobs
+  JOB_ATTEMPTS: z.string().transform(Number).default('3'),
+  JOB_BACKOFF: z.string().transform(Number).default('5000'), // ms before the first retry, doubled per retry
+  INGEST_CONCURRENCY: z.string().transform(Number).default('2'),
+  SCRAPE_CONCURRENCY: z.string().transform(Number).default('4'),
+  VERIFY_CONCURRENCY: z.string().transform(Number).default('2'),
+  CONVERT_CONCURRENCY: z.string().transform(Number).default('1'),
   
   // Logging
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
@@ -55,7 +101,15 @@ const envSchema = z.object({
 // Parse and validate environment variables
 const env = envSchema.parse(process.env);
 
-// ROM format definitions with comprehensive platform support
+// Anyone knowing the published default could sign their own admin tokens
+if (env.NODE_ENV === 'production' && env.JWT_SECRET === DEFAULT_JWT_SECRET) {
+  throw new Error('JWT_SECRET must be set to a private value in production');
+}
+
+// Platform registry: built-in definitions, extended or overridden by PLATFORMS_FILE
+export const PLATFORM_REGISTRY: PlatformDefinition[] = loadPlatformRegistry(env.PLATFORMS_FILE);
+
+// ROM format view of the registry, grouped by category
 interface RomFormat {
   extensions: string[];
   mimeTypes: string[];
@@ -71,206 +125,7 @@ interface PlatformConfig {
   [key: string]: RomFormat;
 }
 
-export const ROM_FORMATS: { [category: string]: PlatformConfig } = {
-  nintendo: {
-    nes: {
-      extensions: ['.nes', '.unif', '.fds', '.nsf'],
-      mimeTypes: ['application/x-nes-rom', 'application/octet-stream'],
-      emulator: 'jsnes',
-      cores: ['nestopia', 'fceumm', 'mesen'],
-      biosRequired: false,
-      maxSize: 4 * 1024 * 1024, // 4MB
-      description: 'Nintendo Entertainment System'
-    },
-    snes: {
-      extensions: ['.sfc', '.smc', '.fig', '.swc', '.bs', '.st'],
-      mimeTypes: ['application/x-snes-rom', 'application/octet-stream'],
-      emulator: 'snes9x',
-      cores: ['snes9x', 'bsnes', 'bsnes_balanced'],
-      biosRequired: false,
-      maxSize: 6 * 1024 * 1024, // 6MB
-      description: 'Super Nintendo Entertainment System'
-    },
-    n64: {
-      extensions: ['.n64', '.v64', '.z64', '.rom', '.ndd'],
-      mimeTypes: ['application/x-n64-rom', 'application/octet-stream'],
-      emulator: 'mupen64plus',
-      cores: ['mupen64plus_next', 'parallel_n64'],
-      biosRequired: false,
-      maxSize: 64 * 1024 * 1024, // 64MB
-      description: 'Nintendo 64'
-    },
-    gameboy: {
-      extensions: ['.gb', '.gbc', '.sgb', '.dmg'],
-      mimeTypes: ['application/x-gameboy-rom', 'application/octet-stream'],
-      emulator: 'gambatte',
-      cores: ['gambatte', 'sameboy', 'tgbdual'],
-      biosRequired: false,
-      maxSize: 8 * 1024 * 1024, // 8MB
-      description: 'Game Boy / Game Boy Color'
-    },
-    gba: {
-      extensions: ['.gba', '.agb', '.bin', '.elf'],
-      mimeTypes: ['application/x-gba-rom', 'application/octet-stream'],
-      emulator: 'mgba',
-      cores: ['mgba', 'vba_next', 'vbam'],
-      biosRequired: true,
-      biosFiles: ['gba_bios.bin'],
-      maxSize: 32 * 1024 * 1024, // 32MB
-      description: 'Game Boy Advance'
-    },
-    ds: {
-      extensions: ['.nds', '.ids'],
-      mimeTypes: ['application/x-nintendo-ds-rom', 'application/octet-stream'],
-      emulator: 'desmume',
-      cores: ['desmume', 'melonds'],
-      biosRequired: true,
-      biosFiles: ['bios7.bin', 'bios9.bin', 'firmware.bin'],
-      maxSize: 512 * 1024 * 1024, // 512MB
-      description: 'Nintendo DS'
-    }
-  },
-  sega: {
-    genesis: {
-      extensions: ['.md', '.gen', '.smd', '.bin', '.rom'],
-      mimeTypes: ['application/x-genesis-rom', 'application/octet-stream'],
-      emulator: 'picodrive',
-      cores: ['genesis_plus_gx', 'picodrive'],
-      biosRequired: false,
-      maxSize: 4 * 1024 * 1024, // 4MB
-      description: 'Sega Genesis / Mega Drive'
-    },
-    mastersystem: {
-      extensions: ['.sms', '.gg', '.mv', '.rom'],
-      mimeTypes: ['application/x-sms-rom', 'application/octet-stream'],
-      emulator: 'picodrive',
-      cores: ['genesis_plus_gx', 'picodrive'],
-      biosRequired: false,
-      maxSize: 1024 * 1024, // 1MB
-      description: 'Sega Master System / Game Gear'
-    },
-    saturn: {
-      extensions: ['.iso', '.cue', '.ccd', '.mds', '.chd'],
-      mimeTypes: ['application/x-saturn-rom', 'application/x-iso9660-image'],
-      emulator: 'mednafen_saturn',
-      cores: ['mednafen_saturn', 'kronos'],
-      biosRequired: true,
-      biosFiles: ['sega_101.bin', 'mpr-17933.bin'],
-      maxSize: 700 * 1024 * 1024, // 700MB
-      description: 'Sega Saturn'
-    },
-    dreamcast: {
-      extensions: ['.cdi', '.gdi', '.iso', '.chd'],
-      mimeTypes: ['application/x-dreamcast-rom', 'application/x-iso9660-image'],
-      emulator: 'flycast',
-      cores: ['flycast', 'redream'],
-      biosRequired: true,
-      biosFiles: ['dc_boot.bin', 'dc_flash.bin'],
-      maxSize: 1024 * 1024 * 1024, // 1GB
-      description: 'Sega Dreamcast'
-    }
-  },
-  sony: {
-    psx: {
-      extensions: ['.bin', '.cue', '.iso', '.img', '.mdf', '.pbp', '.chd', '.ecm'],
-      mimeTypes: ['application/x-psx-rom', 'application/x-iso9660-image'],
-      emulator: 'mednafen_psx',
-      cores: ['mednafen_psx_hw', 'pcsx_rearmed', 'beetle_psx'],
-      biosRequired: true,
-      biosFiles: ['scph1001.bin', 'scph5501.bin', 'scph7001.bin'],
-      maxSize: 700 * 1024 * 1024, // 700MB
-      description: 'Sony PlayStation'
-    },
-    ps2: {
-      extensions: ['.iso', '.bin', '.mdf', '.nrg', '.img', '.chd'],
-      mimeTypes: ['application/x-ps2-rom', 'application/x-iso9660-image'],
-      emulator: 'pcsx2',
-      cores: ['pcsx2'],
-      biosRequired: true,
-      biosFiles: ['ps2-0100a-20011027.bin', 'ps2-0120a-20020207.bin'],
-      maxSize: 4.7 * 1024 * 1024 * 1024, // 4.7GB (DVD)
-      description: 'Sony PlayStation 2'
-    },
-    psp: {
-      extensions: ['.iso', '.cso', '.dax', '.pbp', '.elf'],
-      mimeTypes: ['application/x-psp-rom', 'application/x-iso9660-image'],
-      emulator: 'ppsspp',
-      cores: ['ppsspp'],
-      biosRequired: false,
-      maxSize: 1.8 * 1024 * 1024 * 1024, // 1.8GB (UMD)
-      description: 'Sony PlayStation Portable'
-    }
-  },
-  arcade: {
-    mame: {
-      extensions: ['.zip', '.7z', '.rar', '.chd'],
-      mimeTypes: ['application/zip', 'application/x-7z-compressed', 'application/x-rar-compressed'],
-      emulator: 'mame',
-      cores: ['mame', 'mame2003_plus', 'fbneo'],
-      biosRequired: false,
-      maxSize: 700 * 1024 * 1024, // 700MB
-      description: 'MAME Arcade'
-    },
-    neogeo: {
-      extensions: ['.zip', '.neo', '.7z'],
-      mimeTypes: ['application/zip', 'application/x-7z-compressed'],
-      emulator: 'fbneo',
-      cores: ['fbneo', 'mame'],
-      biosRequired: true,
-      biosFiles: ['neogeo.zip'],
-      maxSize: 100 * 1024 * 1024, // 100MB
-      description: 'Neo Geo'
-    },
-    cps: {
-      extensions: ['.zip', '.7z'],
-      mimeTypes: ['application/zip', 'application/x-7z-compressed'],
-      emulator: 'fbneo',
-      cores: ['fbneo', 'mame2003_plus'],
-      biosRequired: false,
-      maxSize: 50 * 1024 * 1024, // 50MB
-      description: 'Capcom Play System'
-    }
-  },
-  computer: {
-    dos: {
-      extensions: ['.exe', '.com', '.bat', '.img', '.ima', '.vhd', '.zip'],
-      mimeTypes: ['application/x-msdos-program', 'application/x-disk-image', 'application/zip'],
-      emulator: 'dosbox',
-      cores: ['dosbox_pure', 'dosbox_core'],
-      biosRequired: false,
-      maxSize: 100 * 1024 * 1024, // 100MB
-      description: 'MS-DOS'
-    },
-    amiga: {
-      extensions: ['.adf', '.dms', '.fdi', '.ipf', '.hdf', '.lha'],
-      mimeTypes: ['application/x-amiga-disk', 'application/x-lzh-compressed'],
-      emulator: 'puae',
-      cores: ['puae', 'uae4arm'],
-      biosRequired: true,
-      biosFiles: ['kick31.rom', 'kick13.rom'],
-      maxSize: 10 * 1024 * 1024, // 10MB
-      description: 'Commodore Amiga'
-    },
-    c64: {
-      extensions: ['.d64', '.t64', '.prg', '.p00', '.crt', '.tap'],
-      mimeTypes: ['application/x-c64-disk', 'application/x-c64-tape'],
-      emulator: 'vice',
-      cores: ['vice_x64', 'vice_x128'],
-      biosRequired: false,
-      maxSize: 1024 * 1024, // 1MB
-      description: 'Commodore 64'
-    },
-    atari2600: {
-      extensions: ['.a26', '.bin', '.rom'],
-      mimeTypes: ['application/x-atari-2600-rom', 'application/octet-stream'],
-      emulator: 'stella',
-      cores: ['stella'],
-      biosRequired: false,
-      maxSize: 1024 * 1024, // 1MB
-      description: 'Atari 2600'
-    }
-  }
-};
+export const ROM_FORMATS: { [category: string]: PlatformConfig } = buildRomFormats(PLATFORM_REGISTRY);
 
 // Main configuration object
 export const config = {
@@ -301,6 +156,17 @@ export const config = {
     mediaDir: path.resolve(env.MEDIA_DIR),
     biosDir: path.resolve(env.BIOS_DIR),
     tempDir: path.resolve(env.TEMP_DIR),
+    patchDir: path.resolve(env.PATCH_DIR),
+    quarantineDir: path.resolve(env.QUARANTINE_DIR),
+  },
+  
+  // Library scanning configuration
+  library: {
+    roots: env.LIBRARY_ROOTS.split(',')
+      .map(root => root.trim())
+      .filter(Boolean)
+      .map(root => path.resolve(root)),
+    watch: env.LIBRARY_WATCH,
   },
   
   // Upload configuration
@@ -308,6 +174,7 @@ export const config = {
     maxFileSize: env.MAX_FILE_SIZE,
     chunkSize: env.CHUNK_SIZE,
     timeout: env.UPLOAD_TIMEOUT,
+    concurrency: env.UPLOAD_CONCURRENCY,
     allowedExtensions: Object.values(ROM_FORMATS)
       .flatMap(category => Object.values(category))
       .flatMap(format => format.extensions),
@@ -336,6 +203,9 @@ export const config = {
   // Security configuration
   security: {
     jwtSecret: env.JWT_SECRET,
+    accessTokenExpiresIn: env.JWT_ACCESS_EXPIRES_IN,
+    refreshTokenTtlMs: env.JWT_REFRESH_EXPIRES_DAYS * 24 * 60 * 60 * 1000,
+    allowRegistration: env.ALLOW_REGISTRATION,
     rateLimit: {
       max: env.RATE_LIMIT_MAX,
       windowMs: env.RATE_LIMIT_WINDOW * 60 * 1000, // Convert to milliseconds
@@ -348,6 +218,49 @@ export const config = {
     clamav: {
       host: env.CLAMAV_HOST,
       port: env.CLAMAV_PORT,
+      timeout: env.CLAMAV_TIMEOUT,
+    },
+    chdConversion: {
+      enabled: env.ENABLE_CHD_CONVERSION,
+      chdmanPath: env.CHDMAN_PATH,
+    },
+  },
+  
+  // Native emulation configuration
+  emulation: {
+    retroarchPath: env.RETROARCH_PATH,
+    shaderDir: env.RETROARCH_SHADER_DIR,
+    commandPorts: {
+      base: env.RETROARCH_CMD_PORT_BASE,
+      count: env.RETROARCH_CMD_PORT_COUNT,
+    },
+    commandTimeout: env.RETROARCH_CMD_TIMEOUT,
+    maxSessions: env.NATIVE_MAX_SESSIONS,
+    queueTimeout: env.NATIVE_QUEUE_TIMEOUT,
+    maxRestarts: env.NATIVE_MAX_RESTARTS,
+    xvfbPath: env.XVFB_PATH,
+    displayBase: env.DISPLAY_BASE,
+    pactlPath: env.PACTL_PATH,
+    sandbox: {
+      mode: env.NATIVE_SANDBOX,
+      bwrapPath: env.BWRAP_PATH,
+      cgroupRoot: env.SANDBOX_CGROUP_ROOT,
+      memoryMax: env.SANDBOX_MEMORY_MAX,
+      cpuPercent: env.SANDBOX_CPU_PERCENT,
+      pidsMax: env.SANDBOX_PIDS_MAX,
+      pulseSocket: env.PULSE_SOCKET,
+    },
+  },
+  
+  // Background job queues
+  jobs: {
+    attempts: env.JOB_ATTEMPTS,
+    backoff: env.JOB_BACKOFF,
+    concurrency: {
+      ingest: env.INGEST_CONCURRENCY,
+      scrape: env.SCRAPE_CONCURRENCY,
+      verify: env.VERIFY_CONCURRENCY,
+      convert: env.CONVERT_CONCURRENCY,
     },
   },
   
@@ -372,6 +285,10 @@ export function getPlatformByExtension(extension: string): string | null {
   return null;
 }
 
+export function getPlatformsByMagic(header: Buffer): string[] {
+  return matchPlatformMagic(PLATFORM_REGISTRY, header);
+}
+
 export function getPlatformConfig(platformId: string): RomFormat | null {
   for (const [category, platforms] of Object.entries(ROM_FORMATS)) {
     if (platforms[platformId]) {
@@ -381,6 +298,10 @@ export function getPlatformConfig(platformId: string): RomFormat | null {
   return null;
 }
 
+export function getPlatformDefinition(platformId: string): PlatformDefinition | null {
+  return PLATFORM_REGISTRY.find(platform => platform.key === platformId) || null;
+}
+
 export function getAllPlatforms(): Array<{ id: string; config: RomFormat; category: string }> {
   const platforms: Array<{ id: string; config: RomFormat; category: string }> = [];
   
@@ -408,4 +329,24 @@ export function getMaxFileSize(platformId?: string): number {
   return config.upload.maxFileSize;
 }
 
+function buildRomFormats(platforms: PlatformDefinition[]): { [category: string]: PlatformConfig } {
+  const formats: { [category: string]: PlatformConfig } = {};
+
+  for (const platform of platforms) {
+    formats[platform.category] = formats[platform.category] || {};
+    formats[platform.category][platform.key] = {
+      extensions: platform.extensions,
+      mimeTypes: platform.mimeTypes,
+      emulator: platform.emulator,
+      cores: platform.retroarchCores,
+      biosRequired: platform.biosRequired,
+      biosFiles: platform.biosFiles,
+      maxSize: platform.maxSize,
+      description: platform.name,
+    };
+  }
+
+  return formats;
+}
+
 export default config;
\ No newline at end of file
@@ -0,0 +1,772 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+
+// Single source of truth for supported platforms: upload validation, ROM processing,
+// the Platform table and emulator selection are all derived from these definitions
+
+export interface EmulatorCore {
+  name: string;
+  core: string;
+  wasm: boolean;
+  performance: 'excellent' | 'good' | 'fair' | 'poor';
+  fileSize?: number;
+  url?: string;
+}
+
+export interface MagicCheck {
+  offset: number;  // Byte offset into the file
+  hex?: string;    // Expected bytes, e.g. "4e45531a"
+  ascii?: string;  // Expected text, e.g. "SEGA SEGASATURN"
+}
+
+// RetroArch settings layered into a native session's config: platform defaults, then per-game
+// overrides, then the player's preferences
+export interface RetroArchSettings {
+  core?: string;               // Preferred RetroArch core (per game)
+  video?: {
+    scale?: number;            // Window scale factor
+    integerScale?: boolean;
+    aspectRatio?: '4:3' | '16:9' | 'square' | 'core' | 'full';
+    smooth?: boolean;          // Bilinear filtering
+    shader?: string;           // Preset relative to RETROARCH_SHADER_DIR, e.g. "crt/crt-easymode.slangp"
+  };
+  coreOptions?: Record<string, string>;   // Written to the session's core options file
+  inputRemaps?: Record<string, string>;   // RetroArch input binds, e.g. { input_player1_a_btn: "1" }
+}
+
+export interface PlatformDefinition {
+  key: string;                 // Short name used in the Platform table, storage paths and config lookups
+  name: string;
+  manufacturer: string;
+  category: string;            // nintendo, sega, sony, arcade, computer, ...
+  releaseYear?: number;
+  icon?: string;
+  extensions: string[];
+  mimeTypes: string[];
+  magic?: MagicCheck[][];      // Header signatures; a group matches when all of its checks match
+  maxSize?: number;            // in bytes
+  biosRequired: boolean;
+  biosFiles?: string[];
+  emulator: string;            // Preferred emulator
+  browserEmulators: EmulatorCore[];
+  retroarchCores: string[];
+  defaultCore: string;
+  controllerSupport: boolean;
+  saveStates: boolean;
+  requiresNative?: boolean;
+  mobileOptimized?: boolean;
+  retroarchDefaults?: RetroArchSettings;
+}
+
+// Validation for definitions loaded from PLATFORMS_FILE
+const emulatorCoreSchema = z.object({
+  name: z.string().min(1),
+  core: z.string().min(1),
+  wasm: z.boolean(),
+  performance: z.enum(['excellent', 'good', 'fair', 'poor']),
+  fileSize: z.number().positive().optional(),
+  url: z.string().optional(),
+});
+
+const magicCheckSchema = z.object({
+  offset: z.number().int().min(0),
+  hex: z.string().regex(/^([0-9a-fA-F]{2})+$/).optional(),
+  ascii: z.string().min(1).optional(),
+}).refine(check => Boolean(check.hex) !== Boolean(check.ascii), {
+  message: 'Magic checks need exactly one of hex or ascii',
+});
+
+export const retroarchSettingsSchema = z.object({
+  core: z.string().min(1).optional(),
+  video: z.object({
+    scale: z.number().int().min(1).max(10).optional(),
+    integerScale: z.boolean().optional(),
+    aspectRatio: z.enum(['4:3', '16:9', 'square', 'core', 'full']).optional(),
+    smooth: z.boolean().optional(),
+    shader: z.string()
+      .regex(/^[\w\-. /]+\.(slangp|glslp|cgp)$/, 'Shaders are .slangp, .glslp or .cgp presets')
+      .refine(shader => !shader.split('/').includes('..') && !shader.startsWith('/'), {
+        message: 'Shader presets must be relative to the shader directory',
+      })
+      .optional(),
+  }).optional(),
+  coreOptions: z.record(z.string().regex(/^[a-z0-9_-]+$/i, 'Invalid core option name'), z.string()).optional(),
+  inputRemaps: z.record(z.string().regex(/^input_[a-z0-9_]+$/, 'Input binds start with input_'), z.string()).optional(),
+});
+
+const platformDefinitionSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/, 'Platform keys are lowercase letters, digits and underscores'),
+  name: z.string().min(1),
+  manufacturer: z.string().min(1),
+  category: z.string().min(1),
+  releaseYear: z.number().int().min(1970).max(2030).optional(),
+  icon: z.string().optional(),
+  extensions: z.array(z.string().regex(/^\.[a-z0-9]+$/, 'Extensions are lowercase and start with a dot')).min(1),
+  mimeTypes: z.array(z.string()),
+  magic: z.array(z.array(magicCheckSchema).min(1)).optional(),
+  maxSize: z.number().positive().optional(),
+  biosRequired: z.boolean(),
+  biosFiles: z.array(z.string()).optional(),
+  emulator: z.string().min(1),
+  browserEmulators: z.array(emulatorCoreSchema),
+  retroarchCores: z.array(z.string()),
+  defaultCore: z.string().min(1),
+  controllerSupport: z.boolean(),
+  saveStates: z.boolean(),
+  requiresNative: z.boolean().optional(),
+  mobileOptimized: z.boolean().optional(),
+  retroarchDefaults: retroarchSettingsSchema.omit({ core: true }).optional(),
+});
+
+// File entries override the built-in platform with the same key field by field,
+// or add a new platform when all required fields are given
+const platformFileSchema = z.object({
+  platforms: z.array(
+    platformDefinitionSchema.partial().extend({
+      key: platformDefinitionSchema.shape.key,
+      enabled: z.boolean().optional(), // false removes a built-in platform
+    })
+  ),
+});
+
+const GB = 1024 * 1024 * 1024;
+const MB = 1024 * 1024;
+
+export const BUILT_IN_PLATFORMS: PlatformDefinition[] = [
+  // Nintendo
+  {
+    key: 'nes',
+    name: 'Nintendo Entertainment System',
+    manufacturer: 'Nintendo',
+    category: 'nintendo',
+    releaseYear: 1985,
+    icon: '🎮',
+    extensions: ['.nes', '.unif', '.unf', '.fds', '.nsf'],
+    mimeTypes: ['application/x-nes-rom', 'application/octet-stream'],
+    magic: [[{ offset: 0, ascii: 'NES\x1A' }]],
+    maxSize: 4 * MB,
+    biosRequired: false,
+    emulator: 'jsnes',
+    browserEmulators: [
+      {
+        name: 'EmulatorJS-NES',
+        core: 'nestopia',
+        wasm: true,
+        performance: 'excellent',
+        fileSize: 1.2 * MB,
+        url: '/emulators/cores/nestopia.wasm'
+      },
+      {
+        name: 'JSNES',
+        core: 'jsnes',
+        wasm: false,
+        performance: 'good',
+        fileSize: 512 * 1024,
+        url: '/emulators/cores/jsnes.js'
+      }
+    ],
+    retroarchCores: ['nestopia', 'fceumm', 'mesen', 'quicknes'],
+    defaultCore: 'nestopia',
+    controllerSupport: true,
+    saveStates: true,
+    mobileOptimized: true,
+    retroarchDefaults: {
+      video: { aspectRatio: '4:3' },
+      coreOptions: { nestopia_overscan_v: 'enabled' }
+    }
+  },
+  {
+    key: 'snes',
+    name: 'Super Nintendo Entertainment System',
+    manufacturer: 'Nintendo',
+    category: 'nintendo',
+    releaseYear: 1991,
+    icon: '🎮',
+    extensions: ['.sfc', '.smc', '.fig', '.swc', '.bs', '.st'],
+    mimeTypes: ['application/x-snes-rom', 'application/octet-stream'],
+    maxSize: 6 * MB,
+    biosRequired: false,
+    emulator: 'snes9x',
+    browserEmulators: [
+      {
+        name: 'EmulatorJS-SNES',
+        core: 'snes9x',
+        wasm: true,
+        performance: 'excellent',
+        fileSize: 2.1 * MB,
+        url: '/emulators/cores/snes9x.wasm'
+      }
+    ],
+    retroarchCores: ['snes9x', 'bsnes', 'bsnes_balanced', 'bsnes_performance'],
+    defaultCore: 'snes9x',
+    controllerSupport: true,
+    saveStates: true,
+    mobileOptimized: true,
+    retroarchDefaults: {
+      video: { aspectRatio: '4:3' }
+    }
+  },
+  {
+    key: 'n64',
+    name: 'Nintendo 64',
+    manufacturer: 'Nintendo',
+    category: 'nintendo',
+    releaseYear: 1996,
+    icon: '🎮',
+    extensions: ['.n64', '.v64', '.z64', '.rom', '.ndd'],
+    mimeTypes: ['application/x-n64-rom', 'application/octet-stream'],
+    magic: [
+      [{ offset: 0, hex: '80371240' }], // .z64 (big-endian)
+      [{ offset: 0, hex: '37804012' }], // .v64 (byte-swapped)
+      [{ offset: 0, hex: '40123780' }], // .n64 (little-endian)
+    ],
+    maxSize: 64 * MB,
+    biosRequired: false,
+    emulator: 'mupen64plus',
+    browserEmulators: [], // Too demanding for browser
+    retroarchCores: ['mupen64plus_next', 'parallel_n64'],
+    defaultCore: 'mupen64plus_next',
+    controllerSupport: true,
+    saveStates: true,
+    requiresNative: true
+  },
+  {
+    key: 'gameboy',
+    name: 'Game Boy / Game Boy Color',
+    manufacturer: 'Nintendo',
+    category: 'nintendo',
+    releaseYear: 1989,
+    icon: '📱',
+    extensions: ['.gb', '.gbc', '.sgb', '.dmg'],
+    mimeTypes: ['application/x-gameboy-rom', 'application/octet-stream'],
+    magic: [[{ offset: 0x104, hex: 'ceed6666' }]], // Nintendo logo
+    maxSize: 8 * MB,
+    biosRequired: false,
+    emulator: 'gambatte',
+    browserEmulators: [
+      {
+        name: 'EmulatorJS-GB',
+        core: 'gambatte',
+        wasm: true,
+        performance: 'excellent',
+        fileSize: 800 * 1024,
+        url: '/emulators/cores/gambatte.wasm'
+      }
+    ],
+    retroarchCores: ['gambatte', 'sameboy', 'tgbdual'],
+    defaultCore: 'gambatte',
+    controllerSupport: true,
+    saveStates: true,
+    mobileOptimized: true,
+    retroarchDefaults: {
+      video: { integerScale: true }
+    }
+  },
+  {
+    key: 'gba',
+    name: 'Game Boy Advance',
+    manufacturer: 'Nintendo',
+    category: 'nintendo',
+    releaseYear: 2001,
+    icon: '📱',
+    extensions: ['.gba', '.agb', '.bin', '.elf'],
+    mimeTypes: ['application/x-gba-rom', 'application/octet-stream'],
+    magic: [[{ offset: 0x04, hex: '24ffae51' }, { offset: 0xB2, hex: '96' }]], // Nintendo logo and fixed value
+    maxSize: 32 * MB,
+    biosRequired: false, // Optional for better compatibility; mGBA ships a replacement BIOS
+    biosFiles: ['gba_bios.bin'],
+    emulator: 'mgba',
+    browserEmulators: [
+      {
+        name: 'EmulatorJS-GBA',
+        core: 'mgba',
+        wasm: true,
+        performance: 'good',
+        fileSize: 1.8 * MB,
+        url: '/emulators/cores/mgba.wasm'
+      }
+    ],
+    retroarchCores: ['mgba', 'vba_next', 'vbam'],
+    defaultCore: 'mgba',
+    controllerSupport: true,
+    saveStates: true,
+    mobileOptimized: true,
+    retroarchDefaults: {
+      video: { integerScale: true }
+    }
+  },
+  {
+    key: 'ds',
+    name: 'Nintendo DS',
+    manufacturer: 'Nintendo',
+    category: 'nintendo',
+    releaseYear: 2004,
+    icon: '📱',
+    extensions: ['.nds', '.ids'],
+    mimeTypes: ['application/x-nintendo-ds-rom', 'application/octet-stream'],
+    magic: [[{ offset: 0xC0, hex: '24ffae51' }, { offset: 0x15C, hex: '56cf' }]], // Nintendo logo and its CRC
+    maxSize: 512 * MB,
+    biosRequired: true,
+    biosFiles: ['bios7.bin', 'bios9.bin', 'firmware.bin'],
+    emulator: 'desmume',
+    browserEmulators: [],
+    retroarchCores: ['desmume', 'melonds'],
+    defaultCore: 'melonds',
+    controllerSupport: true,
+    saveStates: true,
+    requiresNative: true
+  },
+  {
+    key: 'gamecube',
+    name: 'Nintendo GameCube',
+    manufacturer: 'Nintendo',
+    category: 'nintendo',
+    releaseYear: 2001,
+    icon: '💿',
+    extensions: ['.gcm', '.rvz', '.wia', '.gcz'],
+    mimeTypes: ['application/x-gamecube-rom', 'application/octet-stream'],
+    maxSize: 1.5 * GB, // mini DVD
+    biosRequired: false,
+    emulator: 'dolphin',
+    browserEmulators: [], // Too demanding
+    retroarchCores: ['dolphin'],
+    defaultCore: 'dolphin',
+    controllerSupport: true,
+    saveStates: true,
+    requiresNative: true
+  },
+  {
+    key: 'wii',
+    name: 'Nintendo Wii',
+    manufacturer: 'Nintendo',
+    category: 'nintendo',
+    releaseYear: 2006,
+    icon: '💿',
+    extensions: ['.wbfs', '.rvz', '.wia'],
+    mimeTypes: ['application/x-wii-rom', 'application/octet-stream'],
+    maxSize: 8 * GB, // dual-layer DVD
+    biosRequired: false,
+    emulator: 'dolphin',
+    browserEmulators: [], // Too demanding
+    retroarchCores: ['dolphin'],
+    defaultCore: 'dolphin',
+    controllerSupport: true,
+    saveStates: true,
+    requiresNative: true
+  },
+
+  // Sega
+  {
+    key: 'genesis',
+    name: 'Sega Genesis / Mega Drive',
+    manufacturer: 'Sega',
+    category: 'sega',
+    releaseYear: 1989,
+    icon: '🎮',
+    extensions: ['.md', '.gen', '.smd', '.bin', '.rom'],
+    mimeTypes: ['application/x-genesis-rom', 'application/octet-stream'],
+    magic: [[{ offset: 0x100, ascii: 'SEGA' }]],
+    maxSize: 4 * MB,
+    biosRequired: false,
+    emulator: 'picodrive',
+    browserEmulators: [
+      {
+        name: 'EmulatorJS-Genesis',
+        core: 'genesis_plus_gx',
+        wasm: true,
+        performance: 'excellent',
+        fileSize: 1.5 * MB,
+        url: '/emulators/cores/genesis_plus_gx.wasm'
+      }
+    ],
+    retroarchCores: ['genesis_plus_gx', 'picodrive'],
+    defaultCore: 'genesis_plus_gx',
+    controllerSupport: true,
+    saveStates: true,
+    mobileOptimized: true
+  },
+  {
+    key: 'mastersystem',
+    name: 'Sega Master System / Game Gear',
+    manufacturer: 'Sega',
+    category: 'sega',
+    releaseYear: 1986,
+    icon: '🎮',
+    extensions: ['.sms', '.gg', '.mv', '.rom'],
+    mimeTypes: ['application/x-sms-rom', 'application/octet-stream'],
+    // Header at the end of the first 8/16/32KB
+    magic: [
+      [{ offset: 0x7FF0, ascii: 'TMR SEGA' }],
+      [{ offset: 0x3FF0, ascii: 'TMR SEGA' }],
+      [{ offset: 0x1FF0, ascii: 'TMR SEGA' }],
+    ],
+    maxSize: 1 * MB,
+    biosRequired: false,
+    emulator: 'picodrive',
+    browserEmulators: [],
+    retroarchCores: ['genesis_plus_gx', 'picodrive'],
+    defaultCore: 'genesis_plus_gx',
+    controllerSupport: true,
+    saveStates: true
+  },
+  {
+    key: 'saturn',
+    name: 'Sega Saturn',
+    manufacturer: 'Sega',
+    category: 'sega',
+    releaseYear: 1995,
+    icon: '💿',
+    extensions: ['.iso', '.cue', '.ccd', '.mds', '.chd'],
+    mimeTypes: ['application/x-saturn-rom', 'application/x-iso9660-image'],
+    // IP.BIN at the start of an ISO/track file, or after the sync header of a raw sector
+    magic: [
+      [{ offset: 0, ascii: 'SEGA SEGASATURN' }],
+      [{ offset: 0x10, ascii: 'SEGA SEGASATURN' }],
+    ],
+    maxSize: 700 * MB,
+    biosRequired: true,
+    biosFiles: ['sega_101.bin', 'mpr-17933.bin'],
+    emulator: 'mednafen_saturn',
+    browserEmulators: [], // Too demanding
+    retroarchCores: ['mednafen_saturn', 'kronos'],
+    defaultCore: 'mednafen_saturn',
+    controllerSupport: true,
+    saveStates: true,
+    requiresNative: true
+  },
+  {
+    key: 'dreamcast',
+    name: 'Sega Dreamcast',
+    manufacturer: 'Sega',
+    category: 'sega',
+    releaseYear: 1999,
+    icon: '💿',
+    extensions: ['.cdi', '.gdi', '.iso', '.chd'],
+    mimeTypes: ['application/x-dreamcast-rom', 'application/x-iso9660-image'],
+    magic: [
+      [{ offset: 0, ascii: 'SEGA SEGAKATANA' }],
+      [{ offset: 0x10, ascii: 'SEGA SEGAKATANA' }],
+    ],
+    maxSize: 1 * GB,
+    biosRequired: true,
+    biosFiles: ['dc_boot.bin', 'dc_flash.bin'],
+    emulator: 'flycast',
+    browserEmulators: [], // Too demanding
+    retroarchCores: ['flycast', 'redream'],
+    defaultCore: 'flycast',
+    controllerSupport: true,
+    saveStates: true,
+    requiresNative: true
+  },
+
+  // Sony
+  {
+    key: 'psx',
+    name: 'Sony PlayStation',
+    manufacturer: 'Sony',
+    category: 'sony',
+    releaseYear: 1995,
+    icon: '💿',
+    extensions: ['.bin', '.cue', '.iso', '.img', '.mdf', '.pbp', '.chd', '.ecm'],
+    mimeTypes: ['application/x-psx-rom', 'application/x-iso9660-image'],
+    maxSize: 700 * MB,
+    biosRequired: true,
+    biosFiles: ['scph1001.bin', 'scph5501.bin', 'scph7001.bin'],
+    emulator: 'mednafen_psx',
+    browserEmulators: [
+      {
+        name: 'EmulatorJS-PSX',
+        core: 'mednafen_psx',
+        wasm: true,
+        performance: 'fair',
+        fileSize: 3.2 * MB,
+        url: '/emulators/cores/mednafen_psx.wasm'
+      }
+    ],
+    retroarchCores: ['mednafen_psx_hw', 'pcsx_rearmed', 'beetle_psx'],
+    defaultCore: 'pcsx_rearmed',
+    controllerSupport: true,
+    saveStates: true,
+    retroarchDefaults: {
+      video: { aspectRatio: 'core' },
+      coreOptions: { pcsx_rearmed_show_bios_bootlogo: 'disabled' }
+    }
+  },
+  {
+    key: 'ps2',
+    name: 'Sony PlayStation 2',
+    manufacturer: 'Sony',
+    category: 'sony',
+    releaseYear: 2000,
+    icon: '💿',
+    extensions: ['.iso', '.bin', '.mdf', '.nrg', '.img', '.chd'],
+    mimeTypes: ['application/x-ps2-rom', 'application/x-iso9660-image'],
+    maxSize: 4.7 * GB, // DVD
+    biosRequired: true,
+    biosFiles: ['ps2-0100a-20011027.bin', 'ps2-0120a-20020207.bin'],
+    emulator: 'pcsx2',
+    browserEmulators: [], // Too demanding
+    retroarchCores: ['pcsx2'],
+    defaultCore: 'pcsx2',
+    controllerSupport: true,
+    saveStates: false, // Limited support
+    requiresNative: true
+  },
+  {
+    key: 'psp',
+    name: 'Sony PlayStation Portable',
+    manufacturer: 'Sony',
+    category: 'sony',
+    releaseYear: 2005,
+    icon: '📱',
+    extensions: ['.iso', '.cso', '.dax', '.pbp', '.elf'],
+    mimeTypes: ['application/x-psp-rom', 'application/x-iso9660-image'],
+    maxSize: 1.8 * GB, // UMD
+    biosRequired: false,
+    emulator: 'ppsspp',
+    browserEmulators: [], // Too demanding
+    retroarchCores: ['ppsspp'],
+    defaultCore: 'ppsspp',
+    controllerSupport: true,
+    saveStates: true,
+    requiresNative: true
+  },
+
+  // Arcade
+  {
+    key: 'mame',
+    name: 'MAME Arcade',
+    manufacturer: 'Various',
+    category: 'arcade',
+    icon: '🕹️',
+    extensions: ['.zip', '.7z', '.rar', '.chd'],
+    mimeTypes: ['application/zip', 'application/x-7z-compressed', 'application/x-rar-compressed'],
+    maxSize: 700 * MB,
+    biosRequired: false, // Game-dependent
+    emulator: 'mame',
+    browserEmulators: [
+      {
+        name: 'EmulatorJS-MAME',
+        core: 'mame2003_plus',
+        wasm: true,
+        performance: 'good',
+        fileSize: 4.5 * MB,
+        url: '/emulators/cores/mame2003_plus.wasm'
+      }
+    ],
+    retroarchCores: ['mame', 'mame2003_plus', 'mame2010', 'fbneo'],
+    defaultCore: 'mame2003_plus',
+    controllerSupport: true,
+    saveStates: true
+  },
+  {
+    key: 'neogeo',
+    name: 'Neo Geo',
+    manufacturer: 'SNK',
+    category: 'arcade',
+    releaseYear: 1990,
+    icon: '🕹️',
+    extensions: ['.zip', '.neo', '.7z'],
+    mimeTypes: ['application/zip', 'application/x-7z-compressed'],
+    maxSize: 100 * MB,
+    biosRequired: true,
+    biosFiles: ['neogeo.zip'],
+    emulator: 'fbneo',
+    browserEmulators: [
+      {
+        name: 'EmulatorJS-NeoGeo',
+        core: 'fbneo',
+        wasm: true,
+        performance: 'good',
+        fileSize: 2.8 * MB,
+        url: '/emulators/cores/fbneo.wasm'
+      }
+    ],
+    retroarchCores: ['fbneo', 'mame'],
+    defaultCore: 'fbneo',
+    controllerSupport: true,
+    saveStates: true
+  },
+  {
+    key: 'cps',
+    name: 'Capcom Play System',
+    manufacturer: 'Capcom',
+    category: 'arcade',
+    releaseYear: 1988,
+    icon: '🕹️',
+    extensions: ['.zip', '.7z'],
+    mimeTypes: ['application/zip', 'application/x-7z-compressed'],
+    maxSize: 50 * MB,
+    biosRequired: false,
+    emulator: 'fbneo',
+    browserEmulators: [],
+    retroarchCores: ['fbneo', 'mame2003_plus'],
+    defaultCore: 'fbneo',
+    controllerSupport: true,
+    saveStates: true
+  },
+
+  // Computers
+  {
+    key: 'dos',
+    name: 'MS-DOS',
+    manufacturer: 'Microsoft',
+    category: 'computer',
+    releaseYear: 1981,
+    icon: '💾',
+    extensions: ['.exe', '.com', '.bat', '.img', '.ima', '.vhd', '.zip'],
+    mimeTypes: ['application/x-msdos-program', 'application/x-disk-image', 'application/zip'],
+    maxSize: 100 * MB,
+    biosRequired: false,
+    emulator: 'dosbox',
+    browserEmulators: [
+      {
+        name: 'js-dos',
+        core: 'dosbox',
+        wasm: true,
+        performance: 'excellent',
+        fileSize: 2.5 * MB,
+        url: '/emulators/cores/dosbox.wasm'
+      },
+      {
+        name: 'EmulatorJS-DOS',
+        core: 'dosbox_pure',
+        wasm: true,
+        performance: 'excellent',
+        fileSize: 2.2 * MB,
+        url: '/emulators/cores/dosbox_pure.wasm'
+      }
+    ],
+    retroarchCores: ['dosbox_pure', 'dosbox_core'],
+    defaultCore: 'dosbox_pure',
+    controllerSupport: true,
+    saveStates: true,
+    mobileOptimized: true
+  },
+  {
+    key: 'amiga',
+    name: 'Commodore Amiga',
+    manufacturer: 'Commodore',
+    category: 'computer',
+    releaseYear: 1985,
+    icon: '💾',
+    extensions: ['.adf', '.dms', '.fdi', '.ipf', '.hdf', '.lha'],
+    mimeTypes: ['application/x-amiga-disk', 'application/x-lzh-compressed'],
+    magic: [[{ offset: 0, ascii: 'DOS' }]], // AmigaDOS boot block
+    maxSize: 10 * MB,
+    biosRequired: true,
+    biosFiles: ['kick31.rom', 'kick13.rom'],
+    emulator: 'puae',
+    browserEmulators: [],
+    retroarchCores: ['puae', 'uae4arm'],
+    defaultCore: 'puae',
+    controllerSupport: true,
+    saveStates: true
+  },
+  {
+    key: 'c64',
+    name: 'Commodore 64',
+    manufacturer: 'Commodore',
+    category: 'computer',
+    releaseYear: 1982,
+    icon: '💾',
+    extensions: ['.d64', '.t64', '.prg', '.p00', '.crt', '.tap'],
+    mimeTypes: ['application/x-c64-disk', 'application/x-c64-tape'],
+    magic: [
+      [{ offset: 0, ascii: 'C64 CARTRIDGE' }],
+      [{ offset: 0, ascii: 'C64-TAPE-RAW' }],
+    ],
+    maxSize: 1 * MB,
+    biosRequired: false,
+    emulator: 'vice',
+    browserEmulators: [],
+    retroarchCores: ['vice_x64', 'vice_x128'],
+    defaultCore: 'vice_x64',
+    controllerSupport: true,
+    saveStates: true
+  },
+  {
+    key: 'atari2600',
+    name: 'Atari 2600',
+    manufacturer: 'Atari',
+    category: 'computer',
+    releaseYear: 1977,
+    icon: '🕹️',
+    extensions: ['.a26', '.bin', '.rom'],
+    mimeTypes: ['application/x-atari-2600-rom', 'application/octet-stream'],
+    maxSize: 1 * MB,
+    biosRequired: false,
+    emulator: 'stella',
+    browserEmulators: [],
+    retroarchCores: ['stella'],
+    defaultCore: 'stella',
+    controllerSupport: true,
+    saveStates: true
+  },
+];
+
+/**
+ * Build the platform registry from the built-in definitions and an optional JSON/YAML file
+ */
+export function loadPlatformRegistry(filePath?: string): PlatformDefinition[] {
+  const platforms = new Map(BUILT_IN_PLATFORMS.map(platform => [platform.key, platform]));
+
+  if (!filePath) {
+    return Array.from(platforms.values());
+  }
+
+  const resolved = path.resolve(filePath);
+  let parsed: z.infer<typeof platformFileSchema>;
+
+  try {
+    const contents = fs.readFileSync(resolved, 'utf8');
+    const data = ['.yaml', '.yml'].includes(path.extname(resolved).toLowerCase())
+      ? YAML.parse(contents)
+      : JSON.parse(contents);
+    parsed = platformFileSchema.parse(Array.isArray(data) ? { platforms: data } : data);
+  } catch (error) {
+    throw new Error(`Invalid platform file ${resolved}: ${error.message}`);
+  }
+
+  for (const { enabled, ...entry } of parsed.platforms) {
+    if (enabled === false) {
+      platforms.delete(entry.key);
+      continue;
+    }
+
+    const merged = platformDefinitionSchema.safeParse({ ...platforms.get(entry.key), ...entry });
+    if (!merged.success) {
+      const issues = merged.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+      throw new Error(`Invalid platform "${entry.key}" in ${resolved}: ${issues.join('; ')}`);
+    }
+
+    if (!merged.data.retroarchCores.includes(merged.data.defaultCore)
+        && !merged.data.browserEmulators.some(emulator => emulator.core === merged.data.defaultCore)) {
+      throw new Error(`Invalid platform "${entry.key}" in ${resolved}: unknown default core ${merged.data.defaultCore}`);
+    }
+
+    platforms.set(entry.key, merged.data);
+  }
+
+  return Array.from(platforms.values());
+}
+
+/**
+ * Find the platforms whose header signatures match the start of a file
+ */
+export function matchPlatformMagic(platforms: PlatformDefinition[], buffer: Buffer): string[] {
+  return platforms
+    .filter(platform => platform.magic?.some(group => group.every(check => matchesCheck(buffer, check))))
+    .map(platform => platform.key);
+}
+
+// Helper functions
+function matchesCheck(buffer: Buffer, check: MagicCheck): boolean {
+  const expected = check.hex ? Buffer.from(check.hex, 'hex') : Buffer.from(check.ascii || '', 'latin1');
+  if (expected.length === 0 || check.offset + expected.length > buffer.length) {
+    return false;
+  }
+  return buffer.subarray(check.offset, check.offset + expected.length).equals(expected);
+}
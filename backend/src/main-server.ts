@@ -7,13 +7,20 @@ import fastifyHelmet from '@fastify/helmet';
 import fastifyRateLimit from '@fastify/rate-limit';
 import fastifyCors from '@fastify/cors';
 import fastifyWebsocket from '@fastify/websocket';
+import fastifyJwt from '@fastify/jwt';
 import path from 'path';
 import { PrismaClient } from '@prisma/client';
 import { config } from './config';
 import { setupRoutes } from './routes';
 import { logger } from './utils/logger';
 import { setupWebSocket } from './services/websocket';
+import { setupAuth } from './services/auth';
 import { uploadCleanupJob } from './services/cleanup';
+import { libraryScanner } from './services/libraryScanner';
+import { jobQueue } from './services/jobQueue';
+import { displayPool } from './services/displayPool';
+import { sandbox } from './services/sandbox';
+import { registerJobHandlers } from './services/jobHandlers';
 
 // Initialize Prisma client
 export const prisma = new PrismaClient({
@@ -64,6 +71,17 @@ async function buildServer(): Promise<FastifyInstance> {
       db: config.redis.db,
     });
 
+    // JWT authentication
+    await server.register(fastifyJwt, {
+      secret: config.security.jwtSecret,
+      formatUser: (payload) => ({
+        id: payload.sub,
+        username: payload.username,
+        role: payload.role,
+      }),
+    });
+    setupAuth(server, prisma);
+
     // WebSocket support
     await server.register(fastifyWebsocket);
 
@@ -149,9 +167,21 @@ async function buildServer(): Promise<FastifyInstance> {
 async function startServer() {
   try {
     const app = await buildServer();
+
+    // Refuse to start with a sandbox every native session would fail in
+    await sandbox.initialize();
     
     // Start cleanup job
     uploadCleanupJob.start();
+
+    // Run queued ingest, scrape, verify and convert jobs, including those left over from a restart
+    registerJobHandlers(prisma);
+    await jobQueue.start();
+
+    // Watch library folders for new and removed ROMs
+    if (config.library.watch) {
+      await libraryScanner.startWatching();
+    }
     
     // Connect to database
     await prisma.$connect();
@@ -170,6 +200,9 @@ async function startServer() {
       server.log.info(`Received ${signal}, shutting down gracefully`);
       
       uploadCleanupJob.stop();
+      libraryScanner.stopWatching();
+      await jobQueue.stop();
+      await displayPool.shutdown();
       await app.close();
       await prisma.$disconnect();
       
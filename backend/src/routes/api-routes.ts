@@ -4,6 +4,11 @@ import { PrismaClient } from '@prisma/client';
 import { uploadRoutes } from './upload';
 import { gameRoutes } from './games';
 import { platformRoutes } from './platforms';
+import { biosRoutes } from './bios';
+import { datRoutes } from './dat';
+import { libraryRoutes } from './library';
+import { authRoutes } from './auth';
+import { jobRoutes } from './jobs';
 import { config } from '../config';
 
 // Common schemas
@@ -230,9 +235,14 @@ export async function setupRoutes(server: FastifyInstance) {
     });
 
     // Register feature routes
+    await server.register(authRoutes, { prefix: '/auth' });
     await server.register(uploadRoutes, { prefix: '/upload' });
     await server.register(gameRoutes, { prefix: '/games' });
     await server.register(platformRoutes, { prefix: '/platforms' });
+    await server.register(biosRoutes, { prefix: '/bios' });
+    await server.register(datRoutes, { prefix: '/dats' });
+    await server.register(libraryRoutes, { prefix: '/library' });
+    await server.register(jobRoutes, { prefix: '/jobs' });
 
     // Search endpoint (cross-platform search)
     server.post('/search', {
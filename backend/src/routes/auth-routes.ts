@@ -0,0 +1,302 @@
+import { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { PrismaClient, User } from '@prisma/client';
+import { config } from '../config';
+import { AuthService, createAccessTokenPayload, formatUser } from '../services/auth';
+
+// Auth-specific schemas
+const RoleSchema = Type.Union([
+  Type.Literal('admin'),
+  Type.Literal('uploader'),
+  Type.Literal('player'),
+]);
+
+const UserSchema = Type.Object({
+  id: Type.String(),
+  username: Type.String(),
+  email: Type.String(),
+  role: RoleSchema,
+  isActive: Type.Boolean(),
+  lastLogin: Type.Optional(Type.String()),
+  createdAt: Type.String(),
+});
+
+const TokenResponseSchema = Type.Object({
+  user: UserSchema,
+  accessToken: Type.String(),
+  refreshToken: Type.String(),
+  expiresIn: Type.String(),
+});
+
+const RegisterSchema = Type.Object({
+  username: Type.String({ minLength: 3, maxLength: 32, pattern: '^[A-Za-z0-9_.-]+$' }),
+  email: Type.String({ format: 'email', maxLength: 255 }),
+  password: Type.String({ minLength: 8, maxLength: 256 }),
+});
+
+const LoginSchema = Type.Object({
+  username: Type.String({ minLength: 1 }), // Username or email
+  password: Type.String({ minLength: 1 }),
+});
+
+const RefreshSchema = Type.Object({
+  refreshToken: Type.String({ minLength: 1 }),
+});
+
+export async function authRoutes(server: FastifyInstance) {
+  const prisma = new PrismaClient();
+  const authService = new AuthService(prisma);
+
+  // Stricter rate limiting for credential endpoints
+  await server.register(import('@fastify/rate-limit'), {
+    max: 20, // 20 requests per timeWindow
+    timeWindow: '1 minute',
+    keyGenerator: (request) => request.ip,
+  });
+
+  // Build the token pair returned by register/login/refresh
+  async function issueTokens(user: User, refreshToken?: string) {
+    const accessToken = server.jwt.sign(createAccessTokenPayload(user), {
+      expiresIn: config.security.accessTokenExpiresIn,
+    });
+
+    return {
+      user: formatUser(user),
+      accessToken,
+      refreshToken: refreshToken || (await authService.issueRefreshToken(user.id)),
+      expiresIn: config.security.accessTokenExpiresIn,
+    };
+  }
+
+  /**
+   * Register a new account
+   */
+  server.post('/register', {
+    schema: {
+      description: 'Create a new user account',
+      tags: ['Auth'],
+      body: RegisterSchema,
+      response: {
+        201: TokenResponseSchema,
+        403: { $ref: 'ErrorSchema#' },
+        409: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const user = await authService.register(request.body);
+
+      reply.status(201);
+      return await issueTokens(user);
+    } catch (error) {
+      server.log.error('Registration failed:', error);
+
+      if (error.message.includes('already exists') || error.message.includes('try again')) {
+        reply.status(409);
+      } else if (error.message.includes('disabled')) {
+        reply.status(403);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Log in with username/email and password
+   */
+  server.post('/login', {
+    schema: {
+      description: 'Authenticate and receive access and refresh tokens',
+      tags: ['Auth'],
+      body: LoginSchema,
+      response: {
+        200: TokenResponseSchema,
+        401: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { username, password } = request.body;
+
+    try {
+      const user = await authService.login(username, password);
+      return await issueTokens(user);
+    } catch (error) {
+      if (error.message === 'Invalid credentials') {
+        reply.status(401);
+      } else {
+        server.log.error('Login failed:', error);
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Exchange a refresh token for a new token pair
+   */
+  server.post('/refresh', {
+    schema: {
+      description: 'Rotate a refresh token and issue a new access token',
+      tags: ['Auth'],
+      body: RefreshSchema,
+      response: {
+        200: TokenResponseSchema,
+        401: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { user, refreshToken } = await authService.rotateRefreshToken(request.body.refreshToken);
+      return await issueTokens(user, refreshToken);
+    } catch (error) {
+      if (error.message === 'Invalid refresh token') {
+        reply.status(401);
+      } else {
+        server.log.error('Token refresh failed:', error);
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Log out (revoke a refresh token)
+   */
+  server.post('/logout', {
+    schema: {
+      description: 'Revoke a refresh token',
+      tags: ['Auth'],
+      body: RefreshSchema,
+      response: {
+        200: { $ref: 'SuccessSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      await authService.revokeRefreshToken(request.body.refreshToken);
+
+      return {
+        success: true,
+        message: 'Logged out successfully',
+      };
+    } catch (error) {
+      server.log.error('Logout failed:', error);
+      reply.status(500);
+      throw error;
+    }
+  });
+
+  /**
+   * Get the current user
+   */
+  server.get('/me', {
+    onRequest: server.authenticate,
+    schema: {
+      description: 'Get the authenticated user',
+      tags: ['Auth'],
+      response: {
+        200: UserSchema,
+        401: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const user = await authService.getUser(request.user.id);
+      return formatUser(user);
+    } catch (error) {
+      server.log.error('Failed to get current user:', error);
+
+      if (error.message === 'User not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * List users
+   */
+  server.get('/users', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'List all user accounts',
+      tags: ['Auth'],
+      response: {
+        200: Type.Object({
+          users: Type.Array(UserSchema),
+          total: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const users = await authService.listUsers();
+
+      return {
+        users: users.map(formatUser),
+        total: users.length,
+      };
+    } catch (error) {
+      server.log.error('Failed to list users:', error);
+      reply.status(500);
+      throw error;
+    }
+  });
+
+  /**
+   * Update a user's role or active flag
+   */
+  server.put('/users/:id', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Change a user role or disable an account',
+      tags: ['Auth'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      body: Type.Object({
+        role: Type.Optional(RoleSchema),
+        isActive: Type.Optional(Type.Boolean()),
+      }),
+      response: {
+        200: UserSchema,
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      if (id === request.user.id) {
+        reply.status(400);
+        throw new Error('Cannot change your own role or status');
+      }
+
+      const user = await authService.updateUser(id, request.body);
+      return formatUser(user);
+    } catch (error) {
+      server.log.error(`Failed to update user ${id}:`, error);
+
+      if (error.message === 'User not found') {
+        reply.status(404);
+      } else if (error.message.includes('Cannot change')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+}
+
+export { authRoutes };
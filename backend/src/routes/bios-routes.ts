@@ -0,0 +1,325 @@
+import { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { PrismaClient, BiosFile } from '@prisma/client';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import { BiosService } from '../services/bios';
+import { getBiosDefinition } from '../config/biosCatalog';
+
+// BIOS-specific schemas
+const BiosFileSchema = Type.Object({
+  id: Type.String(),
+  fileName: Type.String(),
+  displayName: Type.String(),
+  filePath: Type.String(),
+  fileSize: Type.Number(),
+  fileHash: Type.String(),
+  md5Hash: Type.Optional(Type.String()),
+  sha1Hash: Type.Optional(Type.String()),
+  platforms: Type.Array(Type.String()),
+  region: Type.Optional(Type.String()),
+  version: Type.Optional(Type.String()),
+  description: Type.Optional(Type.String()),
+  status: Type.String(),
+  isRequired: Type.Boolean(),
+  isValidated: Type.Boolean(),
+  validationError: Type.Optional(Type.String()),
+  uploadedAt: Type.String(),
+  lastValidated: Type.Optional(Type.String()),
+});
+
+const BiosValidationSchema = Type.Object({
+  isValid: Type.Boolean(),
+  hash: Type.String(),
+  size: Type.Number(),
+  format: Type.String(),
+  region: Type.Optional(Type.String()),
+  version: Type.Optional(Type.String()),
+  errors: Type.Array(Type.String()),
+  warnings: Type.Array(Type.String()),
+});
+
+const PlatformBiosStatusSchema = Type.Object({
+  platformId: Type.String(),
+  platformName: Type.String(),
+  biosRequired: Type.Boolean(),
+  status: Type.Union([Type.Literal('complete'), Type.Literal('partial'), Type.Literal('missing')]),
+  files: Type.Array(Type.Object({
+    fileName: Type.String(),
+    description: Type.String(),
+    isOptional: Type.Boolean(),
+    status: Type.Union([
+      Type.Literal('present'),
+      Type.Literal('missing'),
+      Type.Literal('bad_dump'),
+      Type.Literal('unverified'),
+    ]),
+    expectedHash: Type.Optional(Type.String()),
+    actualHash: Type.Optional(Type.String()),
+  })),
+  missingFiles: Type.Array(Type.String()),
+  badDumps: Type.Array(Type.String()),
+});
+
+export async function biosRoutes(server: FastifyInstance) {
+  const prisma = new PrismaClient();
+  const biosService = new BiosService(prisma);
+
+  /**
+   * List BIOS files
+   */
+  server.get('/', {
+    schema: {
+      description: 'List uploaded BIOS files',
+      tags: ['BIOS'],
+      querystring: Type.Object({
+        platform: Type.Optional(Type.String()),
+      }),
+      response: {
+        200: Type.Object({
+          biosFiles: Type.Array(BiosFileSchema),
+          total: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { platform } = request.query as any;
+
+    try {
+      const biosFiles = await biosService.listBiosFiles(platform);
+
+      return {
+        biosFiles: biosFiles.map(formatBiosFile),
+        total: biosFiles.length,
+      };
+    } catch (error) {
+      server.log.error('Failed to list BIOS files:', error);
+      reply.status(500);
+      throw error;
+    }
+  });
+
+  /**
+   * Get BIOS status per platform
+   */
+  server.get('/status', {
+    schema: {
+      description: 'Get present/missing/bad-dump BIOS status per platform',
+      tags: ['BIOS'],
+      querystring: Type.Object({
+        platform: Type.Optional(Type.String()),
+      }),
+      response: {
+        200: Type.Object({
+          platforms: Type.Array(PlatformBiosStatusSchema),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { platform } = request.query as any;
+
+    try {
+      const platforms = await biosService.getPlatformStatus(platform);
+      return { platforms };
+    } catch (error) {
+      server.log.error('Failed to get BIOS status:', error);
+      reply.status(500);
+      throw error;
+    }
+  });
+
+  /**
+   * Upload a BIOS file
+   */
+  server.post('/upload', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Upload a BIOS file and verify it against known-good hashes',
+      tags: ['BIOS'],
+      querystring: Type.Object({
+        platform: Type.Optional(Type.String()),
+      }),
+      response: {
+        201: BiosFileSchema,
+        400: { $ref: 'ErrorSchema#' },
+        409: { $ref: 'ErrorSchema#' },
+      },
+    },
+    preHandler: async (request, reply) => {
+      if (!request.isMultipart()) {
+        reply.status(400);
+        throw new Error('Request must be multipart/form-data');
+      }
+    },
+  }, async (request, reply) => {
+    const { platform } = request.query as any;
+
+    try {
+      const data = await request.file();
+      if (!data) {
+        reply.status(400);
+        throw new Error('No file data provided');
+      }
+
+      const buffer = await data.toBuffer();
+      const biosFile = await biosService.uploadBiosFile(data.filename, buffer, platform);
+
+      reply.status(201);
+      return formatBiosFile(biosFile);
+    } catch (error) {
+      server.log.error('BIOS upload failed:', error);
+
+      if (error.message.includes('already exists')) {
+        reply.status(409);
+      } else if (error.message.includes('Invalid') || error.message.includes('No file')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Validate a BIOS file
+   */
+  server.post('/:fileName/validate', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Re-verify a BIOS file against known-good hashes',
+      tags: ['BIOS'],
+      params: Type.Object({
+        fileName: Type.String(),
+      }),
+      response: {
+        200: BiosValidationSchema,
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { fileName } = request.params;
+
+    try {
+      return await biosService.validateBiosFile(fileName);
+    } catch (error) {
+      server.log.error(`Failed to validate BIOS file ${fileName}:`, error);
+
+      if (error.message === 'BIOS file not found') {
+        reply.status(404);
+      } else if (error.message === 'Invalid BIOS filename') {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Download a BIOS file
+   */
+  server.get('/:fileName/download', {
+    schema: {
+      description: 'Download a BIOS file',
+      tags: ['BIOS'],
+      params: Type.Object({
+        fileName: Type.String(),
+      }),
+    },
+  }, async (request, reply) => {
+    const { fileName } = request.params;
+
+    try {
+      const biosPath = await biosService.getBiosFilePath(fileName);
+      const stats = await fs.stat(biosPath);
+
+      reply.header('Content-Type', 'application/octet-stream');
+      reply.header('Content-Length', stats.size.toString());
+      reply.header('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      return reply.send(createReadStream(biosPath));
+    } catch (error) {
+      server.log.error(`Failed to download BIOS file ${fileName}:`, error);
+
+      if (error.message === 'BIOS file not found') {
+        reply.status(404);
+      } else if (error.message === 'Invalid BIOS filename') {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Delete a BIOS file
+   */
+  server.delete('/:id', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Delete a BIOS file',
+      tags: ['BIOS'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        200: { $ref: 'SuccessSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      await biosService.deleteBiosFile(id);
+
+      return {
+        success: true,
+        message: 'BIOS file deleted successfully',
+      };
+    } catch (error) {
+      server.log.error(`Failed to delete BIOS file ${id}:`, error);
+
+      if (error.message === 'BIOS file not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+}
+
+// Map a BiosFile record to the API shape used by the BIOS manager UI
+function formatBiosFile(bios: BiosFile) {
+  const definition = getBiosDefinition(bios.fileName);
+
+  return {
+    id: bios.id,
+    fileName: bios.fileName,
+    displayName: definition?.description || bios.fileName,
+    filePath: bios.filePath,
+    fileSize: Number(bios.fileSize),
+    fileHash: bios.fileHash,
+    md5Hash: bios.md5Hash || undefined,
+    sha1Hash: bios.sha1Hash || undefined,
+    platforms: definition?.platforms || (bios.platformId ? [bios.platformId] : []),
+    region: bios.region || undefined,
+    version: bios.version || undefined,
+    description: bios.description || undefined,
+    status: bios.status,
+    isRequired: bios.isRequired,
+    isValidated: bios.isValidated,
+    validationError: bios.validationError || undefined,
+    uploadedAt: bios.createdAt.toISOString(),
+    lastValidated: bios.lastValidated?.toISOString(),
+  };
+}
+
+export { biosRoutes };
@@ -0,0 +1,246 @@
+import { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { PrismaClient, DatFile, DatSource } from '@prisma/client';
+import { DatService } from '../services/dat';
+
+// DAT-specific schemas
+const DatFileSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  description: Type.Optional(Type.String()),
+  version: Type.Optional(Type.String()),
+  author: Type.Optional(Type.String()),
+  homepage: Type.Optional(Type.String()),
+  source: Type.String(),
+  platformId: Type.Optional(Type.String()),
+  fileName: Type.String(),
+  entryCount: Type.Integer(),
+  importedAt: Type.String(),
+});
+
+const DatMatchSchema = Type.Object({
+  entryId: Type.String(),
+  datName: Type.String(),
+  source: Type.String(),
+  platformId: Type.Optional(Type.String()),
+  gameName: Type.String(),
+  title: Type.String(),
+  region: Type.Optional(Type.String()),
+  revision: Type.Optional(Type.String()),
+  languages: Type.Array(Type.String()),
+  isVerified: Type.Boolean(),
+  matchedBy: Type.String(),
+});
+
+export async function datRoutes(server: FastifyInstance) {
+  const prisma = new PrismaClient();
+  const datService = new DatService(prisma);
+
+  /**
+   * List imported DAT files
+   */
+  server.get('/', {
+    schema: {
+      description: 'List imported No-Intro/Redump DAT files',
+      tags: ['DAT'],
+      querystring: Type.Object({
+        platform: Type.Optional(Type.String()),
+      }),
+      response: {
+        200: Type.Object({
+          datFiles: Type.Array(DatFileSchema),
+          total: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { platform } = request.query as any;
+
+    try {
+      const datFiles = await datService.listDatFiles(platform);
+
+      return {
+        datFiles: datFiles.map(formatDatFile),
+        total: datFiles.length,
+      };
+    } catch (error) {
+      server.log.error('Failed to list DAT files:', error);
+      reply.status(500);
+      throw error;
+    }
+  });
+
+  /**
+   * Import a DAT file
+   */
+  server.post('/import', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Import a Logiqx XML DAT file (No-Intro or Redump), replacing older versions of the same DAT',
+      tags: ['DAT'],
+      querystring: Type.Object({
+        platform: Type.Optional(Type.String()),
+        source: Type.Optional(Type.Union([
+          Type.Literal('NO_INTRO'),
+          Type.Literal('REDUMP'),
+          Type.Literal('OTHER'),
+        ])),
+      }),
+      response: {
+        201: Type.Object({
+          datFile: DatFileSchema,
+          entryCount: Type.Integer(),
+          skippedCount: Type.Integer(),
+          replaced: Type.Boolean(),
+          matchedGames: Type.Integer(),
+        }),
+        400: { $ref: 'ErrorSchema#' },
+      },
+    },
+    preHandler: async (request, reply) => {
+      if (!request.isMultipart()) {
+        reply.status(400);
+        throw new Error('Request must be multipart/form-data');
+      }
+    },
+  }, async (request, reply) => {
+    const { platform, source } = request.query as any;
+
+    try {
+      const data = await request.file();
+      if (!data) {
+        reply.status(400);
+        throw new Error('No file data provided');
+      }
+
+      const buffer = await data.toBuffer();
+      const result = await datService.importDat(data.filename, buffer, {
+        platformId: platform,
+        source: source as DatSource | undefined,
+      });
+
+      reply.status(201);
+      return {
+        ...result,
+        datFile: formatDatFile(result.datFile),
+      };
+    } catch (error) {
+      server.log.error('DAT import failed:', error);
+
+      if (error.message.includes('Invalid') || error.message.includes('No file')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Look up a ROM by checksum
+   */
+  server.get('/lookup', {
+    schema: {
+      description: 'Find the DAT entry matching a CRC32, MD5 or SHA1 checksum',
+      tags: ['DAT'],
+      querystring: Type.Object({
+        crc32: Type.Optional(Type.String({ pattern: '^[0-9a-fA-F]{8}$' })),
+        md5: Type.Optional(Type.String({ pattern: '^[0-9a-fA-F]{32}$' })),
+        sha1: Type.Optional(Type.String({ pattern: '^[0-9a-fA-F]{40}$' })),
+        size: Type.Optional(Type.Integer({ minimum: 0 })),
+        platform: Type.Optional(Type.String()),
+      }),
+      response: {
+        200: DatMatchSchema,
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { crc32, md5, sha1, size, platform } = request.query as any;
+
+    try {
+      if (!crc32 && !md5 && !sha1) {
+        throw new Error('At least one checksum is required');
+      }
+
+      const match = await datService.matchChecksums({ crc32, md5, sha1, size }, platform);
+      if (!match) {
+        throw new Error('No matching DAT entry');
+      }
+
+      return match;
+    } catch (error) {
+      server.log.error('DAT lookup failed:', error);
+
+      if (error.message === 'No matching DAT entry') {
+        reply.status(404);
+      } else if (error.message === 'At least one checksum is required') {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Delete an imported DAT file
+   */
+  server.delete('/:id', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Delete an imported DAT file and its entries',
+      tags: ['DAT'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        200: { $ref: 'SuccessSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      await datService.deleteDatFile(id);
+
+      return {
+        success: true,
+        message: 'DAT file deleted successfully',
+      };
+    } catch (error) {
+      server.log.error(`Failed to delete DAT file ${id}:`, error);
+
+      if (error.message === 'DAT file not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+}
+
+// Map a DatFile record to its API shape
+function formatDatFile(datFile: DatFile) {
+  return {
+    id: datFile.id,
+    name: datFile.name,
+    description: datFile.description || undefined,
+    version: datFile.version || undefined,
+    author: datFile.author || undefined,
+    homepage: datFile.homepage || undefined,
+    source: datFile.source,
+    platformId: datFile.platformId || undefined,
+    fileName: datFile.fileName,
+    entryCount: datFile.entryCount,
+    importedAt: datFile.importedAt.toISOString(),
+  };
+}
+
+export { datRoutes };
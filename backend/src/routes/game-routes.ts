@@ -1,9 +1,148 @@
 import { FastifyInstance } from 'fastify';
 import { Type } from '@sinclair/typebox';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, RomPatch } from '@prisma/client';
 import path from 'path';
 import { formatFileSize } from '../utils/fileUtils';
 import { logger } from '../utils/logger';
+import { UserLibraryService, isUserSortField, toUserGameFields } from '../services/userLibrary';
+import { DuplicateService } from '../services/duplicates';
+import { RomProcessingService } from '../services/romProcessor';
+import { DiscService } from '../services/discs';
+import { ChdService } from '../services/chd';
+import { PatchService } from '../services/patches';
+import { EmulationSettingsService } from '../services/emulationSettings';
+
+// Parsed ROM header, stored in Game.headerInfo; at most one platform section is set
+const NesHeaderSchema = Type.Object({
+  format: Type.Union([Type.Literal('iNES'), Type.Literal('NES 2.0')]),
+  mapper: Type.Integer(),
+  submapper: Type.Optional(Type.Integer()),
+  prgRomSize: Type.Integer(),
+  chrRomSize: Type.Integer(),
+  prgRamSize: Type.Optional(Type.Integer()),
+  prgNvramSize: Type.Optional(Type.Integer()),
+  chrRamSize: Type.Optional(Type.Integer()),
+  chrNvramSize: Type.Optional(Type.Integer()),
+  mirroring: Type.Union([Type.Literal('horizontal'), Type.Literal('vertical'), Type.Literal('four-screen')]),
+  battery: Type.Boolean(),
+  trainer: Type.Boolean(),
+  consoleType: Type.String(),
+  timing: Type.String(),
+});
+
+const SnesHeaderSchema = Type.Object({
+  title: Type.String(),
+  mapping: Type.Union([Type.Literal('LoROM'), Type.Literal('HiROM'), Type.Literal('ExHiROM')]),
+  headerOffset: Type.Integer(),
+  mapMode: Type.Integer(),
+  fastRom: Type.Boolean(),
+  chipset: Type.String(),
+  coprocessor: Type.Optional(Type.String()),
+  battery: Type.Boolean(),
+  romSize: Type.Integer(),
+  ramSize: Type.Integer(),
+  country: Type.Integer(),
+  region: Type.Optional(Type.String()),
+  developerId: Type.Integer(),
+  version: Type.Integer(),
+  checksum: Type.Integer(),
+  complement: Type.Integer(),
+  complementValid: Type.Boolean(),
+  computedChecksum: Type.Integer(),
+  checksumValid: Type.Boolean(),
+});
+
+const GameBoyHeaderSchema = Type.Object({
+  title: Type.String(),
+  cgbFlag: Type.Union([Type.Literal('none'), Type.Literal('supported'), Type.Literal('required')]),
+  sgb: Type.Boolean(),
+  cartridgeType: Type.Integer(),
+  mbc: Type.String(),
+  features: Type.Array(Type.String()),
+  romSize: Type.Integer(),
+  ramSize: Type.Integer(),
+  destination: Type.Union([Type.Literal('japan'), Type.Literal('overseas')]),
+  licensee: Type.String(),
+  version: Type.Integer(),
+  headerChecksum: Type.Integer(),
+  computedHeaderChecksum: Type.Integer(),
+  headerChecksumValid: Type.Boolean(),
+  globalChecksum: Type.Integer(),
+  computedGlobalChecksum: Type.Integer(),
+  globalChecksumValid: Type.Boolean(),
+});
+
+const GbaHeaderSchema = Type.Object({
+  title: Type.String(),
+  gameCode: Type.String(),
+  makerCode: Type.String(),
+  region: Type.Optional(Type.String()),
+  version: Type.Integer(),
+  complementCheck: Type.Integer(),
+  computedComplementCheck: Type.Integer(),
+  complementCheckValid: Type.Boolean(),
+});
+
+const GenesisHeaderSchema = Type.Object({
+  system: Type.String(),
+  copyright: Type.String(),
+  domesticTitle: Type.String(),
+  overseasTitle: Type.String(),
+  serial: Type.String(),
+  checksum: Type.Integer(),
+  computedChecksum: Type.Integer(),
+  checksumValid: Type.Boolean(),
+  ioSupport: Type.Array(Type.String()),
+  ioSupportCodes: Type.String(),
+  romStart: Type.Integer(),
+  romEnd: Type.Integer(),
+  sram: Type.Optional(Type.Object({
+    start: Type.Integer(),
+    end: Type.Integer(),
+  })),
+  regions: Type.Array(Type.String()),
+});
+
+const N64HeaderSchema = Type.Object({
+  title: Type.String(),
+  mediaFormat: Type.String(),
+  gameCode: Type.String(),
+  region: Type.Optional(Type.String()),
+  version: Type.Integer(),
+  crc1: Type.String(),
+  crc2: Type.String(),
+  cic: Type.String(),
+  saveType: Type.String(),
+});
+
+const HeaderChecksumSchema = Type.Object({
+  name: Type.String(),
+  stored: Type.Integer(),
+  computed: Type.Integer(),
+  valid: Type.Boolean(),
+});
+
+const HeaderInfoSchema = Type.Object({
+  headerType: Type.Optional(Type.String()),
+  title: Type.Optional(Type.String()),
+  region: Type.Optional(Type.String()),
+  version: Type.Optional(Type.String()),
+  checksum: Type.Optional(Type.String()),
+  raw: Type.Optional(Type.String()),
+  layout: Type.Optional(Type.Object({
+    headerSize: Type.Integer(),
+    byteOrder: Type.String(),
+    interleaved: Type.Boolean(),
+  })),
+  nes: Type.Optional(NesHeaderSchema),
+  snes: Type.Optional(SnesHeaderSchema),
+  n64: Type.Optional(N64HeaderSchema),
+  gameboy: Type.Optional(GameBoyHeaderSchema),
+  gba: Type.Optional(GbaHeaderSchema),
+  genesis: Type.Optional(GenesisHeaderSchema),
+  chd: Type.Optional(Type.Any()),
+  rvz: Type.Optional(Type.Any()),
+});
 
 // Game-specific schemas
 const GameSchema = Type.Object({
@@ -37,13 +176,15 @@ const GameSchema = Type.Object({
   videoUrl: Type.Optional(Type.String()),
   romVersion: Type.Optional(Type.String()),
   romChecksum: Type.Optional(Type.String()),
-  headerInfo: Type.Optional(Type.Any()),
+  headerInfo: Type.Optional(HeaderInfoSchema),
   players: Type.Optional(Type.Integer()),
   multiplayerType: Type.Optional(Type.String()),
   inputMethods: Type.Array(Type.String()),
   compatibleCores: Type.Array(Type.String()),
   emulationNotes: Type.Optional(Type.String()),
   isValidated: Type.Boolean(),
+  isVerifiedDump: Type.Boolean(),
+  isOrphaned: Type.Boolean(),
   validationError: Type.Optional(Type.String()),
   needsBios: Type.Boolean(),
   requiredBios: Type.Array(Type.String()),
@@ -65,6 +206,51 @@ const GameSchema = Type.Object({
   updatedAt: Type.String(),
 });
 
+const RomPatchSchema = Type.Object({
+  id: Type.String(),
+  gameId: Type.String(),
+  name: Type.String(),
+  description: Type.Optional(Type.String()),
+  format: Type.Union([Type.Literal('IPS'), Type.Literal('BPS'), Type.Literal('UPS')]),
+  fileName: Type.String(),
+  fileSize: Type.Integer(),
+  sourceCrc32: Type.Optional(Type.String()),
+  targetCrc32: Type.Optional(Type.String()),
+  targetSize: Type.Optional(Type.Integer()),
+  canonicalSource: Type.Boolean(),
+  derivedGameId: Type.Optional(Type.String()),
+  createdAt: Type.String(),
+});
+
+// RetroArch overrides layered over the platform defaults in native sessions
+const RetroArchSettingsSchema = Type.Object({
+  core: Type.Optional(Type.String()), // Preferred RetroArch core
+  video: Type.Optional(Type.Object({
+    scale: Type.Optional(Type.Integer({ minimum: 1, maximum: 10 })),
+    integerScale: Type.Optional(Type.Boolean()),
+    aspectRatio: Type.Optional(Type.Union([
+      Type.Literal('4:3'),
+      Type.Literal('16:9'),
+      Type.Literal('square'),
+      Type.Literal('core'),
+      Type.Literal('full'),
+    ])),
+    smooth: Type.Optional(Type.Boolean()),
+    shader: Type.Optional(Type.String()), // Preset relative to RETROARCH_SHADER_DIR
+  })),
+  coreOptions: Type.Optional(Type.Record(Type.String(), Type.String())),
+  inputRemaps: Type.Optional(Type.Record(Type.String(), Type.String())), // RetroArch input binds
+});
+
+const GameEmulationSchema = Type.Object({
+  gameId: Type.String(),
+  compatibleCores: Type.Array(Type.String()),
+  emulationNotes: Type.Optional(Type.String()),
+  settings: RetroArchSettingsSchema,
+  platformDefaults: RetroArchSettingsSchema,
+  availableCores: Type.Array(Type.String()),
+});
+
 const GameListSchema = Type.Object({
   games: Type.Array(GameSchema),
   pagination: Type.Object({
@@ -107,11 +293,19 @@ const GameStatsSchema = Type.Object({
 
 export async function gameRoutes(server: FastifyInstance) {
   const prisma = new PrismaClient();
+  const userLibrary = new UserLibraryService(prisma);
+  const duplicateService = new DuplicateService(prisma);
+  const romProcessor = new RomProcessingService(prisma);
+  const discService = new DiscService(prisma);
+  const chdService = new ChdService(prisma);
+  const patchService = new PatchService(prisma);
+  const emulationSettings = new EmulationSettingsService(prisma);
 
   /**
    * Get all games with pagination and filtering
    */
   server.get('/', {
+    onRequest: server.optionalAuth,
     schema: {
       description: 'Get all games with pagination and filtering',
       tags: ['Games'],
@@ -131,6 +325,7 @@ export async function gameRoutes(server: FastifyInstance) {
       }),
       response: {
         200: GameListSchema,
+        401: { $ref: 'ErrorSchema#' },
       },
     },
   }, async (request, reply) => {
@@ -148,6 +343,7 @@ export async function gameRoutes(server: FastifyInstance) {
       sortBy = 'title',
       sortOrder = 'asc',
     } = request.query as any;
+    const userId = request.user?.id;
 
     try {
       // Build where clause
@@ -159,7 +355,17 @@ export async function gameRoutes(server: FastifyInstance) {
       if (publisher) where.publisher = { contains: publisher, mode: 'insensitive' };
       if (year) where.releaseYear = year;
       if (rating) where.rating = { gte: rating };
-      if (favorite !== undefined) where.isFavorite = favorite;
+
+      // Favorites belong to the caller
+      if (favorite !== undefined) {
+        if (!userId) {
+          reply.status(401);
+          throw new Error('Authentication required to filter by favorites');
+        }
+        where.userStates = favorite
+          ? { some: { userId, isFavorite: true } }
+          : { none: { userId, isFavorite: true } };
+      }
 
       if (search) {
         where.OR = [
@@ -176,23 +382,29 @@ export async function gameRoutes(server: FastifyInstance) {
         orderBy[sortBy] = sortOrder;
       } else if (sortBy === 'createdAt' || sortBy === 'updatedAt') {
         orderBy[sortBy] = sortOrder;
+      } else if (sortBy === 'userRating') {
+        orderBy.rating = sortOrder; // Anonymous callers fall back to the community rating
       } else {
         orderBy[sortBy] = sortOrder;
       }
 
       // Execute queries
-      const [games, total] = await Promise.all([
-        prisma.game.findMany({
-          where,
-          include: {
-            platform: true,
-          },
-          orderBy,
-          skip: (page - 1) * limit,
-          take: limit,
-        }),
-        prisma.game.count({ where }),
-      ]);
+      const [games, total] = userId && isUserSortField(sortBy)
+        ? await findGamesByUserState(userId, where, sortBy, sortOrder, page, limit)
+        : await Promise.all([
+          prisma.game.findMany({
+            where,
+            include: {
+              platform: true,
+            },
+            orderBy,
+            skip: (page - 1) * limit,
+            take: limit,
+          }),
+          prisma.game.count({ where }),
+        ]);
+
+      const userStates = await userLibrary.getStates(userId, games.map(game => game.id));
 
       // Format response
       const formattedGames = games.map(game => ({
@@ -226,21 +438,19 @@ export async function gameRoutes(server: FastifyInstance) {
         videoUrl: game.videoUrl,
         romVersion: game.romVersion,
         romChecksum: game.romChecksum,
-        headerInfo: game.headerInfo,
+        headerInfo: game.headerInfo || undefined,
         players: game.players,
         multiplayerType: game.multiplayerType,
         inputMethods: game.inputMethods,
         compatibleCores: game.compatibleCores,
         emulationNotes: game.emulationNotes,
         isValidated: game.isValidated,
+        isVerifiedDump: game.isVerifiedDump,
+        isOrphaned: game.isOrphaned,
         validationError: game.validationError,
         needsBios: game.needsBios,
         requiredBios: game.requiredBios,
-        playCount: game.playCount,
-        lastPlayed: game.lastPlayed?.toISOString(),
-        isFavorite: game.isFavorite,
-        userRating: game.userRating,
-        userNotes: game.userNotes,
+        ...toUserGameFields(userStates.get(game.id)),
         isArchive: game.isArchive,
         archiveContents: game.archiveContents,
         extractedPath: game.extractedPath,
@@ -265,7 +475,13 @@ export async function gameRoutes(server: FastifyInstance) {
       };
     } catch (error) {
       server.log.error('Failed to get games:', error);
-      reply.status(500);
+
+      if (error.message.includes('Authentication required')) {
+        reply.status(401);
+      } else {
+        reply.status(500);
+      }
+
       throw error;
     }
   });
@@ -274,6 +490,7 @@ export async function gameRoutes(server: FastifyInstance) {
    * Get a specific game by ID
    */
   server.get('/:id', {
+    onRequest: server.optionalAuth,
     schema: {
       description: 'Get a specific game by ID',
       tags: ['Games'],
@@ -306,6 +523,8 @@ export async function gameRoutes(server: FastifyInstance) {
         throw new Error('Game not found');
       }
 
+      const userState = await userLibrary.getState(request.user?.id, id);
+
       return {
         id: game.id,
         title: game.title,
@@ -337,21 +556,19 @@ export async function gameRoutes(server: FastifyInstance) {
         videoUrl: game.videoUrl,
         romVersion: game.romVersion,
         romChecksum: game.romChecksum,
-        headerInfo: game.headerInfo,
+        headerInfo: game.headerInfo || undefined,
         players: game.players,
         multiplayerType: game.multiplayerType,
         inputMethods: game.inputMethods,
         compatibleCores: game.compatibleCores,
         emulationNotes: game.emulationNotes,
         isValidated: game.isValidated,
+        isVerifiedDump: game.isVerifiedDump,
+        isOrphaned: game.isOrphaned,
         validationError: game.validationError,
         needsBios: game.needsBios,
         requiredBios: game.requiredBios,
-        playCount: game.playCount,
-        lastPlayed: game.lastPlayed?.toISOString(),
-        isFavorite: game.isFavorite,
-        userRating: game.userRating,
-        userNotes: game.userNotes,
+        ...toUserGameFields(userState),
         isArchive: game.isArchive,
         archiveContents: game.archiveContents,
         extractedPath: game.extractedPath,
@@ -381,6 +598,7 @@ export async function gameRoutes(server: FastifyInstance) {
    * Update a game
    */
   server.put('/:id', {
+    onRequest: server.requireRole('uploader'),
     schema: {
       description: 'Update a game',
       tags: ['Games'],
@@ -395,7 +613,7 @@ export async function gameRoutes(server: FastifyInstance) {
     },
   }, async (request, reply) => {
     const { id } = request.params;
-    const updates = request.body;
+    const { isFavorite, userRating, userNotes, ...updates } = request.body;
 
     try {
       // Check if game exists
@@ -421,6 +639,15 @@ export async function gameRoutes(server: FastifyInstance) {
         },
       });
 
+      // Favorite/rating/notes are stored against the caller, not the game
+      const userState = isFavorite !== undefined || userRating !== undefined || userNotes !== undefined
+        ? await userLibrary.updateState(request.user.id, id, {
+          isFavorite,
+          rating: userRating,
+          notes: userNotes,
+        })
+        : await userLibrary.getState(request.user.id, id);
+
       logger.info(`Game updated: ${updatedGame.title} (${id})`);
 
       return {
@@ -454,21 +681,19 @@ export async function gameRoutes(server: FastifyInstance) {
         videoUrl: updatedGame.videoUrl,
         romVersion: updatedGame.romVersion,
         romChecksum: updatedGame.romChecksum,
-        headerInfo: updatedGame.headerInfo,
+        headerInfo: updatedGame.headerInfo || undefined,
         players: updatedGame.players,
         multiplayerType: updatedGame.multiplayerType,
         inputMethods: updatedGame.inputMethods,
         compatibleCores: updatedGame.compatibleCores,
         emulationNotes: updatedGame.emulationNotes,
         isValidated: updatedGame.isValidated,
+        isVerifiedDump: updatedGame.isVerifiedDump,
+        isOrphaned: updatedGame.isOrphaned,
         validationError: updatedGame.validationError,
         needsBios: updatedGame.needsBios,
         requiredBios: updatedGame.requiredBios,
-        playCount: updatedGame.playCount,
-        lastPlayed: updatedGame.lastPlayed?.toISOString(),
-        isFavorite: updatedGame.isFavorite,
-        userRating: updatedGame.userRating,
-        userNotes: updatedGame.userNotes,
+        ...toUserGameFields(userState),
         isArchive: updatedGame.isArchive,
         archiveContents: updatedGame.archiveContents,
         extractedPath: updatedGame.extractedPath,
@@ -498,6 +723,7 @@ export async function gameRoutes(server: FastifyInstance) {
    * Delete a game
    */
   server.delete('/:id', {
+    onRequest: server.requireRole('admin'),
     schema: {
       description: 'Delete a game',
       tags: ['Games'],
@@ -613,6 +839,7 @@ export async function gameRoutes(server: FastifyInstance) {
    * Record game play session
    */
   server.post('/:id/play', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Record a game play session',
       tags: ['Games'],
@@ -648,7 +875,10 @@ export async function gameRoutes(server: FastifyInstance) {
       const currentMonth = now.getMonth() + 1;
       const currentYear = now.getFullYear();
 
-      // Update game play count and last played
+      // Update the caller's play history
+      await userLibrary.recordPlay(request.user.id, id, now);
+
+      // Update library-wide play count and last played
       await prisma.game.update({
         where: { id },
         data: {
@@ -716,8 +946,9 @@ export async function gameRoutes(server: FastifyInstance) {
    * Toggle favorite status
    */
   server.post('/:id/favorite', {
+    onRequest: server.requireRole('player'),
     schema: {
-      description: 'Toggle game favorite status',
+      description: 'Toggle your favorite status for a game',
       tags: ['Games'],
       params: Type.Object({
         id: Type.String(),
@@ -736,7 +967,7 @@ export async function gameRoutes(server: FastifyInstance) {
     try {
       const game = await prisma.game.findUnique({
         where: { id },
-        select: { isFavorite: true, title: true },
+        select: { title: true },
       });
 
       if (!game) {
@@ -744,17 +975,7 @@ export async function gameRoutes(server: FastifyInstance) {
         throw new Error('Game not found');
       }
 
-      const newFavoriteStatus = !game.isFavorite;
-
-      await prisma.game.update({
-        where: { id },
-        data: {
-          isFavorite: newFavoriteStatus,
-          updatedAt: new Date(),
-        },
-      });
-
-      logger.info(`Game ${game.title} favorite status changed to: ${newFavoriteStatus}`);
+      const newFavoriteStatus = await userLibrary.toggleFavorite(request.user.id, id);
 
       return {
         success: true,
@@ -774,29 +995,40 @@ export async function gameRoutes(server: FastifyInstance) {
   });
 
   /**
-   * Get game duplicates
+   * Update the caller's favorite, rating and notes for a game
    */
-  server.get('/:id/duplicates', {
+  server.put('/:id/state', {
+    onRequest: server.requireRole('player'),
     schema: {
-      description: 'Get game duplicates',
+      description: 'Update your favorite, rating and notes for a game',
       tags: ['Games'],
       params: Type.Object({
         id: Type.String(),
       }),
+      body: Type.Object({
+        isFavorite: Type.Optional(Type.Boolean()),
+        userRating: Type.Optional(Type.Union([Type.Number({ minimum: 0, maximum: 10 }), Type.Null()])),
+        userNotes: Type.Optional(Type.Union([Type.String({ maxLength: 5000 }), Type.Null()])),
+      }),
       response: {
         200: Type.Object({
-          duplicates: Type.Array(GameSchema),
+          isFavorite: Type.Boolean(),
+          userRating: Type.Optional(Type.Number()),
+          userNotes: Type.Optional(Type.String()),
+          playCount: Type.Integer(),
+          lastPlayed: Type.Optional(Type.String()),
         }),
         404: { $ref: 'ErrorSchema#' },
       },
     },
   }, async (request, reply) => {
     const { id } = request.params;
+    const { isFavorite, userRating, userNotes } = request.body;
 
     try {
       const game = await prisma.game.findUnique({
         where: { id },
-        select: { fileHash: true, duplicates: true },
+        select: { id: true },
       });
 
       if (!game) {
@@ -804,17 +1036,56 @@ export async function gameRoutes(server: FastifyInstance) {
         throw new Error('Game not found');
       }
 
-      // Find games with the same file hash
-      const duplicates = await prisma.game.findMany({
-        where: {
-          fileHash: game.fileHash,
-          id: { not: id },
-        },
-        include: {
-          platform: true,
-        },
+      const state = await userLibrary.updateState(request.user.id, id, {
+        isFavorite,
+        rating: userRating,
+        notes: userNotes,
       });
 
+      return toUserGameFields(state);
+    } catch (error) {
+      server.log.error(`Failed to update state for game ${id}:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Get game duplicates
+   */
+  server.get('/:id/duplicates', {
+    onRequest: server.optionalAuth,
+    schema: {
+      description: 'Get game duplicates',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        200: Type.Object({
+          duplicates: Type.Array(GameSchema),
+        }),
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      // Same file or same game with a different header/dump
+      const duplicates = await duplicateService.getDuplicateGroup(id);
+
+      const userStates = await userLibrary.getStates(
+        request.user?.id,
+        duplicates.map(duplicate => duplicate.id)
+      );
+
       const formattedDuplicates = duplicates.map(duplicate => ({
         id: duplicate.id,
         title: duplicate.title,
@@ -846,21 +1117,19 @@ export async function gameRoutes(server: FastifyInstance) {
         videoUrl: duplicate.videoUrl,
         romVersion: duplicate.romVersion,
         romChecksum: duplicate.romChecksum,
-        headerInfo: duplicate.headerInfo,
+        headerInfo: duplicate.headerInfo || undefined,
         players: duplicate.players,
         multiplayerType: duplicate.multiplayerType,
         inputMethods: duplicate.inputMethods,
         compatibleCores: duplicate.compatibleCores,
         emulationNotes: duplicate.emulationNotes,
         isValidated: duplicate.isValidated,
+        isVerifiedDump: duplicate.isVerifiedDump,
+        isOrphaned: duplicate.isOrphaned,
         validationError: duplicate.validationError,
         needsBios: duplicate.needsBios,
         requiredBios: duplicate.requiredBios,
-        playCount: duplicate.playCount,
-        lastPlayed: duplicate.lastPlayed?.toISOString(),
-        isFavorite: duplicate.isFavorite,
-        userRating: duplicate.userRating,
-        userNotes: duplicate.userNotes,
+        ...toUserGameFields(userStates.get(duplicate.id)),
         isArchive: duplicate.isArchive,
         archiveContents: duplicate.archiveContents,
         extractedPath: duplicate.extractedPath,
@@ -889,6 +1158,634 @@ export async function gameRoutes(server: FastifyInstance) {
       throw error;
     }
   });
+
+  /**
+   * Merge duplicates into a game
+   */
+  server.post('/:id/merge', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Keep this game and merge stats, save states and user state from duplicates into it',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      body: Type.Object({
+        mergeIds: Type.Array(Type.String(), { minItems: 1 }),
+        deleteFiles: Type.Optional(Type.Boolean({ default: true })),
+      }),
+      response: {
+        200: Type.Object({
+          keptGameId: Type.String(),
+          mergedGameIds: Type.Array(Type.String()),
+          movedSaveStates: Type.Integer(),
+          mergedStats: Type.Integer(),
+          mergedUserStates: Type.Integer(),
+          movedPatches: Type.Integer(),
+          movedDiscs: Type.Integer(),
+        }),
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+    const { mergeIds, deleteFiles = true } = request.body;
+
+    try {
+      return await duplicateService.mergeGames(id, mergeIds, deleteFiles);
+    } catch (error) {
+      server.log.error(`Failed to merge duplicates into game ${id}:`, error);
+
+      if (error.message.includes('not found')) {
+        reply.status(404);
+      } else if (error.message === 'No games to merge') {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Get game discs
+   */
+  server.get('/:id/discs', {
+    schema: {
+      description: 'List the discs and track files of a disc-based game',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        200: Type.Object({
+          discs: Type.Array(Type.Object({
+            id: Type.String(),
+            discNumber: Type.Integer(),
+            label: Type.Optional(Type.String()),
+            fileName: Type.String(),
+            fileSize: Type.Number(),
+            formattedSize: Type.String(),
+            tracks: Type.Array(Type.Object({
+              trackNumber: Type.Integer(),
+              fileName: Type.String(),
+              fileSize: Type.Number(),
+              trackType: Type.Optional(Type.String()),
+            })),
+          })),
+        }),
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const game = await prisma.game.findUnique({ where: { id } });
+      if (!game) {
+        throw new Error('Game not found');
+      }
+
+      const discs = await discService.getDiscs(id);
+
+      return {
+        discs: discs.map(disc => ({
+          id: disc.id,
+          discNumber: disc.discNumber,
+          label: disc.label || undefined,
+          fileName: path.basename(disc.filePath),
+          fileSize: Number(disc.fileSize),
+          formattedSize: formatFileSize(Number(disc.fileSize)),
+          tracks: disc.tracks.map(track => ({
+            trackNumber: track.trackNumber,
+            fileName: path.basename(track.filePath),
+            fileSize: Number(track.fileSize),
+            trackType: track.trackType || undefined,
+          })),
+        })),
+      };
+    } catch (error) {
+      server.log.error(`Failed to get discs for game ${id}:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Get a game's emulation settings
+   */
+  server.get('/:id/emulation', {
+    schema: {
+      description: 'Get the RetroArch overrides, compatible cores and emulation notes of a game, with the platform defaults they apply over',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        200: GameEmulationSchema,
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      return await emulationSettings.getGameSettings(id);
+    } catch (error) {
+      server.log.error(`Failed to get emulation settings for game ${id}:`, error);
+      reply.status(error.message === 'Game not found' ? 404 : 500);
+      throw error;
+    }
+  });
+
+  /**
+   * Update a game's emulation settings
+   */
+  server.put('/:id/emulation', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Replace the RetroArch overrides (core, video scaling, shader, core options, input binds) of a game, or edit its compatible cores and emulation notes',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      body: Type.Object({
+        compatibleCores: Type.Optional(Type.Array(Type.String())),
+        emulationNotes: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+        settings: Type.Optional(RetroArchSettingsSchema),
+      }),
+      response: {
+        200: GameEmulationSchema,
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      return await emulationSettings.updateGameSettings(id, request.body);
+    } catch (error) {
+      server.log.error(`Failed to update emulation settings for game ${id}:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else if (error.message.startsWith('Invalid emulation settings')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * List a game's patches
+   */
+  server.get('/:id/patches', {
+    schema: {
+      description: 'List the IPS/BPS/UPS patches (translations, romhacks) stored for a game',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        200: Type.Object({
+          patches: Type.Array(RomPatchSchema),
+        }),
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const patches = await patchService.listPatches(id);
+      return { patches: patches.map(formatPatch) };
+    } catch (error) {
+      server.log.error(`Failed to list patches for game ${id}:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Upload a patch for a game
+   */
+  server.post('/:id/patches', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Upload an IPS, BPS or UPS patch. BPS/UPS patches must have been made against this game (source CRC32), and every patch is test-applied before it is stored.',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      querystring: Type.Object({
+        name: Type.Optional(Type.String({ minLength: 1 })),
+        description: Type.Optional(Type.String()),
+      }),
+      response: {
+        201: RomPatchSchema,
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+        409: { $ref: 'ErrorSchema#' },
+        422: { $ref: 'ErrorSchema#' },
+      },
+    },
+    preHandler: async (request, reply) => {
+      if (!request.isMultipart()) {
+        reply.status(400);
+        throw new Error('Request must be multipart/form-data');
+      }
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+    const { name, description } = request.query as any;
+
+    try {
+      const data = await request.file();
+      if (!data) {
+        reply.status(400);
+        throw new Error('No file data provided');
+      }
+
+      const patch = await patchService.uploadPatch(id, data.filename, await data.toBuffer(), {
+        name,
+        description,
+        uploadedBy: request.user?.id,
+      });
+
+      reply.status(201);
+      return formatPatch(patch);
+    } catch (error) {
+      server.log.error(`Patch upload for game ${id} failed:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else if (error.message.includes('already exists')) {
+        reply.status(409);
+      } else if (error.message.includes('expects a base ROM') || error.message.includes('CRC mismatch')) {
+        reply.status(422);
+      } else if (
+        error.message.includes('Invalid') ||
+        error.message.includes('Unsupported') ||
+        error.message.includes('No file') ||
+        error.message.includes('single-file ROMs')
+      ) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Delete a patch
+   */
+  server.delete('/:id/patches/:patchId', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Delete a patch; games materialised from it are kept',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+        patchId: Type.String(),
+      }),
+      response: {
+        200: { $ref: 'SuccessSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id, patchId } = request.params;
+
+    try {
+      await patchService.deletePatch(id, patchId);
+      return { success: true, message: 'Patch deleted' };
+    } catch (error) {
+      server.log.error(`Failed to delete patch ${patchId}:`, error);
+
+      if (error.message === 'Patch not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Materialise a patched game
+   */
+  server.post('/:id/patches/:patchId/materialise', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Apply a patch and add the result to the library as its own game. Returns the existing game if the patch was already materialised.',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+        patchId: Type.String(),
+      }),
+      response: {
+        200: Type.Object({
+          gameId: Type.String(),
+          title: Type.String(),
+        }),
+        404: { $ref: 'ErrorSchema#' },
+        422: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id, patchId } = request.params;
+
+    try {
+      const game = await patchService.materialisePatch(id, patchId);
+      return { gameId: game.id, title: game.title };
+    } catch (error) {
+      server.log.error(`Failed to materialise patch ${patchId}:`, error);
+
+      if (error.message === 'Patch not found') {
+        reply.status(404);
+      } else if (error.message.includes('CRC mismatch')) {
+        reply.status(422);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Verify a game against imported DATs
+   */
+  server.post('/:id/verify', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Recalculate CRC32/MD5/SHA1 and match them against imported No-Intro/Redump DATs',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        200: Type.Object({
+          crc32: Type.String(),
+          md5: Type.String(),
+          sha1: Type.String(),
+          isVerifiedDump: Type.Boolean(),
+          datMatch: Type.Optional(Type.Object({
+            datName: Type.String(),
+            source: Type.String(),
+            gameName: Type.String(),
+            title: Type.String(),
+            region: Type.Optional(Type.String()),
+            revision: Type.Optional(Type.String()),
+            languages: Type.Array(Type.String()),
+            matchedBy: Type.String(),
+          })),
+        }),
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const { checksums, datMatch } = await romProcessor.verifyGame(id);
+
+      return {
+        crc32: checksums.crc32,
+        md5: checksums.md5,
+        sha1: checksums.sha1,
+        isVerifiedDump: datMatch?.isVerified || false,
+        datMatch,
+      };
+    } catch (error) {
+      server.log.error(`Failed to verify game ${id}:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Validate a game's ROM
+   */
+  server.post('/:id/validate', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Check the ROM header signature and internal checksums, and record the result on the game. Checksum mismatches are warnings: hacks and translations rarely fix them.',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        200: Type.Object({
+          isValid: Type.Boolean(),
+          errors: Type.Array(Type.String()),
+          warnings: Type.Array(Type.String()),
+          checksums: Type.Array(HeaderChecksumSchema),
+        }),
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      return await romProcessor.validateGame(id);
+    } catch (error) {
+      server.log.error(`Failed to validate game ${id}:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Download a copy of a game's ROM with corrected checksums
+   */
+  server.post('/:id/fix-checksum', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Download a copy of the ROM with its internal checksums recalculated (SNES, Game Boy, GBA, Genesis). The stored ROM is left unchanged.',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+        409: { $ref: 'ErrorSchema#' },
+        422: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const { fileName, data, fixed } = await romProcessor.repairChecksums(id);
+
+      reply.header('Content-Type', 'application/octet-stream');
+      reply.header('Content-Length', data.length.toString());
+      reply.header('Content-Disposition', `attachment; filename="${fileName.replace(/"/g, '')}"`);
+      reply.header('X-Fixed-Checksums', fixed.map(checksum => checksum.name).join(', '));
+
+      return reply.send(data);
+    } catch (error) {
+      server.log.error(`Failed to fix checksums of game ${id}:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else if (error.message === 'Checksums are already correct') {
+        reply.status(409);
+      } else if (error.message.includes('not supported') || error.message.includes('uncompressed ROM')) {
+        reply.status(400);
+      } else if (error.message.includes('header not found')) {
+        reply.status(422);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Convert a game's disc images to CHD
+   */
+  server.post('/:id/convert-chd', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Queue a convert job compressing cue/bin, gdi or iso disc images to CHD; originals are removed once the CHD verifies',
+      tags: ['Games'],
+      params: Type.Object({
+        id: Type.String(),
+      }),
+      response: {
+        202: Type.Object({
+          success: Type.Boolean(),
+          message: Type.String(),
+          imageCount: Type.Integer(),
+          jobId: Type.String(),
+        }),
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+        409: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const { imageCount, job } = await chdService.startConversion(id);
+
+      reply.status(202);
+      return {
+        success: true,
+        message: 'CHD conversion queued',
+        imageCount,
+        jobId: job.id,
+      };
+    } catch (error) {
+      server.log.error(`Failed to start CHD conversion for game ${id}:`, error);
+
+      if (error.message === 'Game not found') {
+        reply.status(404);
+      } else if (error.message === 'CHD conversion already in progress') {
+        reply.status(409);
+      } else if (error.message.includes('not supported') || error.message.includes('no convertible')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  // Page through games ordered by the caller's own play history or rating.
+  // Games the caller has no history for follow, ordered by title.
+  async function findGamesByUserState(
+    userId: string,
+    where: any,
+    sortBy: 'lastPlayed' | 'playCount' | 'userRating',
+    sortOrder: 'asc' | 'desc',
+    page: number,
+    limit: number
+  ) {
+    const skip = (page - 1) * limit;
+    const [orderedIds, total] = await Promise.all([
+      userLibrary.getOrderedGameIds(userId, where, sortBy, sortOrder),
+      prisma.game.count({ where }),
+    ]);
+
+    const pageIds = orderedIds.slice(skip, skip + limit);
+    const ordered = await prisma.game.findMany({
+      where: { id: { in: pageIds } },
+      include: { platform: true },
+    });
+    ordered.sort((a, b) => pageIds.indexOf(a.id) - pageIds.indexOf(b.id));
+
+    const remaining = limit - ordered.length;
+    const rest = remaining > 0
+      ? await prisma.game.findMany({
+        where: { AND: [where, { id: { notIn: orderedIds } }] },
+        include: { platform: true },
+        orderBy: { title: 'asc' },
+        skip: Math.max(0, skip - orderedIds.length),
+        take: remaining,
+      })
+      : [];
+
+    return [[...ordered, ...rest], total] as const;
+  }
+}
+
+function formatPatch(patch: RomPatch) {
+  return {
+    id: patch.id,
+    gameId: patch.gameId,
+    name: patch.name,
+    description: patch.description || undefined,
+    format: patch.format,
+    fileName: patch.fileName,
+    fileSize: patch.fileSize,
+    sourceCrc32: patch.sourceCrc32 || undefined,
+    targetCrc32: patch.targetCrc32 || undefined,
+    targetSize: patch.targetSize ?? undefined,
+    canonicalSource: patch.canonicalSource,
+    derivedGameId: patch.derivedGameId || undefined,
+    createdAt: patch.createdAt.toISOString(),
+  };
 }
 
 export { gameRoutes };
\ No newline at end of file
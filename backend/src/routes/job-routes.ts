@@ -0,0 +1,240 @@
+import { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { PrismaClient } from '@prisma/client';
+import { jobQueue, Job, QueueName, QUEUE_NAMES } from '../services/jobQueue';
+
+// Job-specific schemas
+const QueueNameSchema = Type.Union(QUEUE_NAMES.map(queue => Type.Literal(queue)));
+
+const JobSchema = Type.Object({
+  id: Type.String(),
+  queue: Type.String(),
+  data: Type.Any(),
+  state: Type.String(), // waiting, active, delayed, completed or dead
+  attempts: Type.Integer(),
+  maxAttempts: Type.Integer(),
+  progress: Type.Number(),
+  result: Type.Optional(Type.Any()),
+  error: Type.Optional(Type.String()),
+  createdAt: Type.String(),
+  startedAt: Type.Optional(Type.String()),
+  finishedAt: Type.Optional(Type.String()),
+  runAt: Type.Optional(Type.String()), // When a delayed job is retried
+});
+
+const QueueStatsSchema = Type.Object({
+  queue: Type.String(),
+  waiting: Type.Integer(),
+  active: Type.Integer(),
+  delayed: Type.Integer(),
+  dead: Type.Integer(),
+  concurrency: Type.Integer(),
+  running: Type.Boolean(),
+});
+
+export async function jobRoutes(server: FastifyInstance) {
+  const prisma = new PrismaClient();
+
+  /**
+   * Get job counts per queue
+   */
+  server.get('/', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Count the waiting, active, delayed and dead jobs of each queue',
+      tags: ['Jobs'],
+      response: {
+        200: Type.Object({ queues: Type.Array(QueueStatsSchema) }),
+      },
+    },
+  }, async () => {
+    return { queues: await jobQueue.getStats() };
+  });
+
+  /**
+   * List the jobs of a queue
+   */
+  server.get('/queues/:queue', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'List the jobs of a queue in one state, newest first; state=dead lists the dead-letter list',
+      tags: ['Jobs'],
+      params: Type.Object({
+        queue: QueueNameSchema,
+      }),
+      querystring: Type.Object({
+        state: Type.Optional(Type.Union([
+          Type.Literal('waiting'),
+          Type.Literal('active'),
+          Type.Literal('delayed'),
+          Type.Literal('dead'),
+        ], { default: 'waiting' })),
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 500, default: 50 })),
+      }),
+      response: {
+        200: Type.Object({ jobs: Type.Array(JobSchema) }),
+      },
+    },
+  }, async (request) => {
+    const { queue } = request.params as { queue: QueueName };
+    const { state = 'waiting', limit = 50 } = request.query as any;
+
+    return { jobs: await jobQueue.listJobs(queue, state, limit) };
+  });
+
+  /**
+   * Get a job
+   */
+  server.get('/:jobId', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Get the state, attempts, progress and result of a job',
+      tags: ['Jobs'],
+      params: Type.Object({
+        jobId: Type.String(),
+      }),
+      response: {
+        200: JobSchema,
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { jobId } = request.params;
+
+    const job = await jobQueue.getJob(jobId);
+    if (!job) {
+      reply.status(404);
+      throw new Error('Job not found');
+    }
+
+    return job;
+  });
+
+  /**
+   * Retry a dead job
+   */
+  server.post('/:jobId/retry', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Move a job from the dead-letter list back to its queue with a fresh set of attempts',
+      tags: ['Jobs'],
+      params: Type.Object({
+        jobId: Type.String(),
+      }),
+      response: {
+        200: JobSchema,
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { jobId } = request.params;
+
+    try {
+      return await jobQueue.retryJob(jobId);
+    } catch (error) {
+      server.log.error(`Failed to retry job ${jobId}:`, error);
+
+      if (error.message === 'Job not found') {
+        reply.status(404);
+      } else if (error.message.startsWith('Only dead jobs')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Remove a finished or dead job
+   */
+  server.delete('/:jobId', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Remove a completed or dead job',
+      tags: ['Jobs'],
+      params: Type.Object({
+        jobId: Type.String(),
+      }),
+      response: {
+        200: { $ref: 'SuccessSchema#' },
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { jobId } = request.params;
+
+    try {
+      await jobQueue.removeJob(jobId);
+
+      return {
+        success: true,
+        message: 'Job removed',
+      };
+    } catch (error) {
+      server.log.error(`Failed to remove job ${jobId}:`, error);
+
+      if (error.message === 'Job not found') {
+        reply.status(404);
+      } else if (error.message.startsWith('Cannot remove')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Queue DAT verification of the library
+   */
+  server.post('/verify', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Queue a verify job per game, recalculating its checksums and matching them against the imported DATs',
+      tags: ['Jobs'],
+      body: Type.Optional(Type.Object({
+        platformId: Type.Optional(Type.String({ minLength: 1 })), // Platform short name, e.g. "snes"
+      })),
+      response: {
+        202: Type.Object({
+          success: Type.Boolean(),
+          queued: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { platformId } = (request.body as any) || {};
+
+    try {
+      const games = await prisma.game.findMany({
+        where: {
+          isOrphaned: false,
+          platform: platformId ? { shortName: platformId } : undefined,
+        },
+        select: { id: true },
+      });
+
+      const jobs: Job[] = [];
+      for (const game of games) {
+        jobs.push(await jobQueue.add('verify', { gameId: game.id }, { jobId: `verify-${game.id}` }));
+      }
+
+      reply.status(202);
+      return {
+        success: true,
+        queued: jobs.length,
+      };
+    } catch (error) {
+      server.log.error('Failed to queue library verification:', error);
+      reply.status(500);
+      throw error;
+    }
+  });
+}
+
+export { jobRoutes };
@@ -0,0 +1,84 @@
+import { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { libraryScanner } from '../services/libraryScanner';
+
+// Library-specific schemas
+const LibraryScanStatusSchema = Type.Object({
+  state: Type.Union([Type.Literal('idle'), Type.Literal('scanning')]),
+  roots: Type.Array(Type.String()),
+  watching: Type.Array(Type.String()),
+  startedAt: Type.Optional(Type.String()),
+  finishedAt: Type.Optional(Type.String()),
+  filesFound: Type.Integer(),
+  filesProcessed: Type.Integer(),
+  added: Type.Integer(),
+  skipped: Type.Integer(),
+  failed: Type.Integer(),
+  orphaned: Type.Integer(),
+  restored: Type.Integer(),
+  currentFile: Type.Optional(Type.String()),
+  errors: Type.Array(Type.Object({
+    filePath: Type.String(),
+    error: Type.String(),
+  })),
+});
+
+export async function libraryRoutes(server: FastifyInstance) {
+  /**
+   * Start a library scan
+   */
+  server.post('/scan', {
+    onRequest: server.requireRole('admin'),
+    schema: {
+      description: 'Scan the library folders (or the given folders inside them) for new and missing ROMs. Progress is broadcast over WebSocket as library_scan messages.',
+      tags: ['Library'],
+      body: Type.Optional(Type.Object({
+        paths: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+      })),
+      response: {
+        202: LibraryScanStatusSchema,
+        400: { $ref: 'ErrorSchema#' },
+        409: { $ref: 'ErrorSchema#' },
+      },
+    },
+  }, async (request, reply) => {
+    const { paths } = (request.body as any) || {};
+
+    try {
+      const status = libraryScanner.startScan(paths);
+
+      reply.status(202);
+      return status;
+    } catch (error) {
+      server.log.error('Failed to start library scan:', error);
+
+      if (error.message === 'Library scan already running') {
+        reply.status(409);
+      } else if (error.message.includes('outside the library roots')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Get library scan status
+   */
+  server.get('/scan', {
+    onRequest: server.requireRole('uploader'),
+    schema: {
+      description: 'Get the progress of the running library scan, or the results of the last one',
+      tags: ['Library'],
+      response: {
+        200: LibraryScanStatusSchema,
+      },
+    },
+  }, async () => {
+    return libraryScanner.getStatus();
+  });
+}
+
+export { libraryRoutes };
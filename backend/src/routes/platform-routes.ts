@@ -1,8 +1,9 @@
 import { FastifyInstance } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { PrismaClient } from '@prisma/client';
-import { config, getAllPlatforms } from '../config';
+import { config, PLATFORM_REGISTRY } from '../config';
 import { logger } from '../utils/logger';
+import { UserLibraryService } from '../services/userLibrary';
 
 // Platform-specific schemas
 const PlatformSchema = Type.Object({
@@ -78,6 +79,12 @@ const PlatformStatsSchema = Type.Object({
 
 export async function platformRoutes(server: FastifyInstance) {
   const prisma = new PrismaClient();
+  const userLibrary = new UserLibraryService(prisma);
+
+  // Platforms added to or changed in the registry are picked up on every start
+  server.addHook('onReady', async () => {
+    await initializePlatforms();
+  });
 
   /**
    * Get all platforms
@@ -254,6 +261,7 @@ export async function platformRoutes(server: FastifyInstance) {
    * Create a new platform
    */
   server.post('/', {
+    onRequest: server.requireRole('admin'),
     schema: {
       description: 'Create a new platform',
       tags: ['Platforms'],
@@ -327,6 +335,7 @@ export async function platformRoutes(server: FastifyInstance) {
    * Update a platform
    */
   server.put('/:id', {
+    onRequest: server.requireRole('admin'),
     schema: {
       description: 'Update a platform',
       tags: ['Platforms'],
@@ -437,6 +446,7 @@ export async function platformRoutes(server: FastifyInstance) {
    * Delete a platform
    */
   server.delete('/:id', {
+    onRequest: server.requireRole('admin'),
     schema: {
       description: 'Delete a platform',
       tags: ['Platforms'],
@@ -623,6 +633,7 @@ export async function platformRoutes(server: FastifyInstance) {
    * Get games for a specific platform
    */
   server.get('/:id/games', {
+    onRequest: server.optionalAuth,
     schema: {
       description: 'Get games for a specific platform',
       tags: ['Platforms'],
@@ -714,14 +725,15 @@ export async function platformRoutes(server: FastifyInstance) {
             releaseYear: true,
             rating: true,
             fileSize: true,
-            playCount: true,
-            isFavorite: true,
             createdAt: true,
           },
         }),
         prisma.game.count({ where }),
       ]);
 
+      // Play count and favorites are per user
+      const userStates = await userLibrary.getStates(request.user?.id, games.map(game => game.id));
+
       return {
         games: games.map(game => ({
           id: game.id,
@@ -730,8 +742,8 @@ export async function platformRoutes(server: FastifyInstance) {
           releaseYear: game.releaseYear,
           rating: game.rating,
           fileSize: formatFileSize(Number(game.fileSize)),
-          playCount: game.playCount,
-          isFavorite: game.isFavorite,
+          playCount: userStates.get(game.id)?.playCount ?? 0,
+          isFavorite: userStates.get(game.id)?.isFavorite ?? false,
           createdAt: game.createdAt.toISOString(),
         })),
         pagination: {
@@ -755,97 +767,40 @@ export async function platformRoutes(server: FastifyInstance) {
   });
 
   /**
-   * Initialize platforms from configuration
+   * Sync platforms from the platform registry
    */
   async function initializePlatforms(): Promise<void> {
-    logger.info('Initializing platforms from configuration...');
+    logger.info('Syncing platforms from the platform registry...');
+
+    for (const platform of PLATFORM_REGISTRY) {
+      const definition = {
+        name: platform.name,
+        manufacturer: platform.manufacturer,
+        releaseYear: platform.releaseYear ?? null,
+        supportedFormats: platform.extensions,
+        emulatorCores: platform.retroarchCores,
+        biosRequired: platform.biosRequired,
+        biosFiles: platform.biosFiles || [],
+      };
 
-    const configPlatforms = getAllPlatforms();
-    
-    for (const { id, config: platformConfig, category } of configPlatforms) {
       try {
         await prisma.platform.upsert({
-          where: { shortName: id },
+          where: { shortName: platform.key },
           create: {
-            name: platformConfig.description,
-            shortName: id,
-            manufacturer: getManufacturerFromCategory(category),
-            releaseYear: getReleaseYearFromPlatform(id),
-            description: platformConfig.description,
-            icon: getPlatformIcon(id),
-            supportedFormats: platformConfig.extensions,
-            emulatorCores: platformConfig.cores,
-            biosRequired: platformConfig.biosRequired,
-            biosFiles: platformConfig.biosFiles || [],
-          },
-          update: {
-            supportedFormats: platformConfig.extensions,
-            emulatorCores: platformConfig.cores,
-            biosRequired: platformConfig.biosRequired,
-            biosFiles: platformConfig.biosFiles || [],
+            ...definition,
+            shortName: platform.key,
+            description: platform.name,
+            icon: platform.icon || '🎮',
           },
+          // Description and icon stay as edited by admins
+          update: definition,
         });
       } catch (error) {
-        logger.error(`Failed to initialize platform ${id}:`, error);
+        logger.error(`Failed to initialize platform ${platform.key}:`, error);
       }
     }
 
-    logger.info(`Initialized ${configPlatforms.length} platforms`);
-  }
-
-  /**
-   * Helper functions
-   */
-  function getManufacturerFromCategory(category: string): string {
-    const manufacturers: Record<string, string> = {
-      nintendo: 'Nintendo',
-      sega: 'Sega',
-      sony: 'Sony',
-      arcade: 'Various',
-      computer: 'Various',
-    };
-    return manufacturers[category] || 'Unknown';
-  }
-
-  function getReleaseYearFromPlatform(platformId: string): number | null {
-    const releaseYears: Record<string, number> = {
-      nes: 1985,
-      snes: 1991,
-      n64: 1996,
-      gameboy: 1989,
-      gbc: 1998,
-      gba: 2001,
-      genesis: 1989,
-      mastersystem: 1986,
-      saturn: 1995,
-      dreamcast: 1999,
-      psx: 1995,
-      ps2: 2000,
-      psp: 2005,
-    };
-    return releaseYears[platformId] || null;
-  }
-
-  function getPlatformIcon(platformId: string): string {
-    const icons: Record<string, string> = {
-      nes: '🎮',
-      snes: '🎮',
-      n64: '🎮',
-      gameboy: '📱',
-      gbc: '📱',
-      gba: '📱',
-      genesis: '🎮',
-      mastersystem: '🎮',
-      saturn: '🎮',
-      dreamcast: '🎮',
-      psx: '💿',
-      ps2: '💿',
-      psp: '📱',
-      mame: '🕹️',
-      neogeo: '🕹️',
-      cps: '🕹️',
-    };
-    return icons[platformId] || '🎮';
+    logger.info(`Synced ${PLATFORM_REGISTRY.length} platforms`);
   }
 }
 
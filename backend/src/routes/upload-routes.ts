@@ -1,7 +1,10 @@
 import { FastifyInstance } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { PrismaClient } from '@prisma/client';
-import { UploadService } from '../services/upload';
+import { config } from '../config';
+import { UploadService, UploadDetails, encodeMissingChunks } from '../services/upload';
+import { Job } from '../services/jobQueue';
+import { isAmbiguous, PlatformCandidate } from '../utils/platformDetector';
 
 // Upload-specific schemas
 const UploadInitiateSchema = Type.Object({
@@ -10,6 +13,14 @@ const UploadInitiateSchema = Type.Object({
   fileHash: Type.String({ minLength: 32, maxLength: 64 }),
   chunkSize: Type.Integer({ minimum: 1024, maximum: 10 * 1024 * 1024 }), // 1KB to 10MB
   mimeType: Type.Optional(Type.String()),
+  platformId: Type.Optional(Type.String({ minLength: 1 })), // Platform id or short name, overrides detection
+  chunkHashes: Type.Optional(Type.Array(Type.String({ pattern: '^[a-fA-F0-9]{64}$' }))), // SHA-256 per chunk
+});
+
+const PlatformCandidateSchema = Type.Object({
+  platformId: Type.String(),
+  confidence: Type.Number(),
+  reasons: Type.Array(Type.String()),
 });
 
 const UploadResponseSchema = Type.Object({
@@ -19,8 +30,14 @@ const UploadResponseSchema = Type.Object({
   totalChunks: Type.Integer(),
   chunkSize: Type.Integer(),
   detectedPlatform: Type.Optional(Type.String()),
+  platformCandidates: Type.Array(PlatformCandidateSchema),
+  platformAmbiguous: Type.Boolean(), // Extension alone cannot tell the platform; the contents will decide unless platformId is given
   status: Type.String(),
   expiresAt: Type.String(),
+  alreadyPresent: Type.Boolean(), // The file is already in the library: nothing to send, see gameId
+  gameId: Type.Optional(Type.String()),
+  reusedChunks: Type.Array(Type.Integer()), // Chunks the server already holds; do not send them
+  concurrency: Type.Integer(), // Chunk uploads the client may have in flight at once
 });
 
 const UploadStatusSchema = Type.Object({
@@ -33,18 +50,43 @@ const UploadStatusSchema = Type.Object({
   progress: Type.Number(),
   status: Type.String(),
   detectedPlatform: Type.Optional(Type.String()),
+  platformCandidates: Type.Optional(Type.Array(PlatformCandidateSchema)),
   createdAt: Type.String(),
   updatedAt: Type.String(),
-  expiresAt: Type.String(),
+  expiresAt: Type.String(), // Pushed back by every chunk received
+  missingChunks: Type.String(), // Base64 bitmap, bit i (LSB first in each byte) set when chunk i is still missing
+  missingCount: Type.Integer(),
   processingStarted: Type.Optional(Type.String()),
   processingCompleted: Type.Optional(Type.String()),
   processingError: Type.Optional(Type.String()),
+  scannedAt: Type.Optional(Type.String()),
+  threats: Type.Array(Type.String()), // Set when the status is QUARANTINED
   chunks: Type.Array(Type.Object({
     chunkIndex: Type.Integer(),
     chunkSize: Type.Integer(),
     isUploaded: Type.Boolean(),
     uploadedAt: Type.Optional(Type.String()),
   })),
+  job: Type.Optional(Type.Object({ // Ingest job, once the last chunk is in
+    jobId: Type.String(),
+    state: Type.String(),
+    attempts: Type.Integer(),
+    maxAttempts: Type.Integer(),
+    error: Type.Optional(Type.String()),
+  })),
+  gameId: Type.Optional(Type.String()), // Game created from the upload, once processing completed
+  isCollection: Type.Boolean(), // The archive held several games, one per entry
+  entries: Type.Array(Type.Object({
+    path: Type.String(),
+    status: Type.String(),
+    gameId: Type.Optional(Type.String()),
+    error: Type.Optional(Type.String()),
+  })),
+});
+
+const ChunkParamsSchema = Type.Object({
+  uploadId: Type.String(),
+  chunkIndex: Type.Integer({ minimum: 0 }),
 });
 
 const ChunkUploadResponseSchema = Type.Object({
@@ -65,10 +107,22 @@ export async function uploadRoutes(server: FastifyInstance) {
     keyGenerator: (request) => request.ip,
   });
 
+  // Chunks may also be sent as raw bodies; chunk sizes are capped at 10MB by the initiate schema
+  server.addContentTypeParser('application/octet-stream', {
+    parseAs: 'buffer',
+    bodyLimit: 10 * 1024 * 1024,
+  }, (request, body, done) => done(null, body));
+
+  // Clients send chunks in parallel, so the chunk routes get a budget scaled to the concurrency
+  const chunkRateLimit = {
+    rateLimit: { max: 100 * config.upload.concurrency, timeWindow: '1 minute' },
+  };
+
   /**
    * Initiate a new chunked upload
    */
   server.post('/initiate', {
+    onRequest: server.requireRole('uploader'),
     schema: {
       description: 'Initiate a new chunked file upload',
       tags: ['Upload'],
@@ -76,7 +130,6 @@ export async function uploadRoutes(server: FastifyInstance) {
       response: {
         200: UploadResponseSchema,
         400: { $ref: 'ErrorSchema#' },
-        409: { $ref: 'ErrorSchema#' }, // File already exists
         413: { $ref: 'ErrorSchema#' }, // File too large
       },
     },
@@ -98,7 +151,8 @@ export async function uploadRoutes(server: FastifyInstance) {
     },
   }, async (request, reply) => {
     try {
-      const upload = await uploadService.initiateUpload(request.body);
+      const { upload, alreadyPresent, reusedChunks } = await uploadService.initiateUpload(request.body);
+      const platformCandidates = (upload.platformCandidates as unknown as PlatformCandidate[]) || [];
 
       return {
         uploadId: upload.id,
@@ -107,15 +161,19 @@ export async function uploadRoutes(server: FastifyInstance) {
         totalChunks: upload.totalChunks,
         chunkSize: upload.chunkSize,
         detectedPlatform: upload.detectedPlatform,
+        platformCandidates,
+        platformAmbiguous: isAmbiguous(platformCandidates),
         status: upload.status,
         expiresAt: upload.expiresAt.toISOString(),
+        alreadyPresent: Boolean(alreadyPresent),
+        gameId: alreadyPresent?.id,
+        reusedChunks,
+        concurrency: config.upload.concurrency,
       };
     } catch (error) {
       server.log.error('Upload initiation failed:', error);
       
-      if (error.message.includes('already exists')) {
-        reply.status(409);
-      } else if (error.message.includes('Unsupported') || error.message.includes('exceeds')) {
+      if (error.message.includes('Unsupported') || error.message.includes('exceeds') || error.message.startsWith('Unknown platform') || error.message.includes('chunk hashes')) {
         reply.status(400);
       } else {
         reply.status(500);
@@ -129,13 +187,12 @@ export async function uploadRoutes(server: FastifyInstance) {
    * Upload a single chunk
    */
   server.post('/chunk/:uploadId/:chunkIndex', {
+    onRequest: server.requireRole('uploader'),
+    config: chunkRateLimit,
     schema: {
       description: 'Upload a single file chunk',
       tags: ['Upload'],
-      params: Type.Object({
-        uploadId: Type.String(),
-        chunkIndex: Type.Integer({ minimum: 0 }),
-      }),
+      params: ChunkParamsSchema,
       response: {
         200: ChunkUploadResponseSchema,
         400: { $ref: 'ErrorSchema#' },
@@ -191,6 +248,58 @@ export async function uploadRoutes(server: FastifyInstance) {
     }
   });
 
+  /**
+   * Upload a single chunk as a raw body; chunks may be sent concurrently and in any order
+   */
+  server.put('/chunk/:uploadId/:chunkIndex', {
+    onRequest: server.requireRole('uploader'),
+    config: chunkRateLimit,
+    schema: {
+      description: 'Upload a single file chunk as application/octet-stream',
+      tags: ['Upload'],
+      params: ChunkParamsSchema,
+      response: {
+        200: ChunkUploadResponseSchema,
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+        410: { $ref: 'ErrorSchema#' }, // Upload expired
+      },
+    },
+  }, async (request, reply) => {
+    const { uploadId, chunkIndex } = request.params;
+
+    try {
+      if (!Buffer.isBuffer(request.body)) {
+        reply.status(400);
+        throw new Error('Request must be application/octet-stream');
+      }
+
+      const result = await uploadService.uploadChunk(uploadId, chunkIndex, request.body);
+
+      return {
+        success: result.success,
+        chunkIndex,
+        isComplete: result.isComplete,
+        message: result.isComplete ? 'Upload completed, processing started' : 'Chunk uploaded successfully',
+      };
+
+    } catch (error) {
+      server.log.error(`Chunk upload failed for ${uploadId}:${chunkIndex}:`, error);
+
+      if (error.message.includes('not found')) {
+        reply.status(404);
+      } else if (error.message.includes('expired')) {
+        reply.status(410);
+      } else if (error.message.includes('mismatch') || error.message.includes('octet-stream')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
   /**
    * Get upload status
    */
@@ -217,29 +326,9 @@ export async function uploadRoutes(server: FastifyInstance) {
         throw new Error('Upload not found');
       }
 
-      return {
-        uploadId: upload.id,
-        fileName: upload.fileName,
-        originalName: upload.originalName,
-        fileSize: Number(upload.fileSize),
-        totalChunks: upload.totalChunks,
-        uploadedChunks: upload.uploadedChunks,
-        progress: (upload.uploadedChunks / upload.totalChunks) * 100,
-        status: upload.status,
-        detectedPlatform: upload.detectedPlatform,
-        createdAt: upload.createdAt.toISOString(),
-        updatedAt: upload.updatedAt.toISOString(),
-        expiresAt: upload.expiresAt.toISOString(),
-        processingStarted: upload.processingStarted?.toISOString(),
-        processingCompleted: upload.processingCompleted?.toISOString(),
-        processingError: upload.processingError,
-        chunks: upload.chunks.map(chunk => ({
-          chunkIndex: chunk.chunkIndex,
-          chunkSize: chunk.chunkSize,
-          isUploaded: chunk.isUploaded,
-          uploadedAt: chunk.uploadedAt?.toISOString(),
-        })),
-      };
+      const job = await uploadService.getProcessingJob(uploadId);
+
+      return formatUpload(upload, job);
 
     } catch (error) {
       server.log.error(`Failed to get upload status for ${uploadId}:`, error);
@@ -258,6 +347,7 @@ export async function uploadRoutes(server: FastifyInstance) {
    * Cancel an upload
    */
   server.delete('/cancel/:uploadId', {
+    onRequest: server.requireRole('uploader'),
     schema: {
       description: 'Cancel an active upload',
       tags: ['Upload'],
@@ -300,8 +390,9 @@ export async function uploadRoutes(server: FastifyInstance) {
    * Complete an upload (alternative to automatic processing)
    */
   server.post('/complete/:uploadId', {
+    onRequest: server.requireRole('uploader'),
     schema: {
-      description: 'Manually trigger upload completion and processing',
+      description: 'Queue a fully uploaded file for processing; data.jobId names the ingest job',
       tags: ['Upload'],
       params: Type.Object({
         uploadId: Type.String(),
@@ -333,12 +424,12 @@ export async function uploadRoutes(server: FastifyInstance) {
         throw new Error('Upload already completed');
       }
 
-      // Trigger processing
-      setImmediate(() => uploadService.processUpload(uploadId));
+      const job = await uploadService.queueProcessing(uploadId);
 
       return {
         success: true,
-        message: 'Upload processing started',
+        message: 'Upload queued for processing',
+        data: { jobId: job.id, state: job.state },
       };
 
     } catch (error) {
@@ -389,7 +480,11 @@ export async function uploadRoutes(server: FastifyInstance) {
       const [uploads, total] = await Promise.all([
         prisma.upload.findMany({
           where,
-          include: { chunks: true },
+          include: {
+            chunks: { orderBy: { chunkIndex: 'asc' } },
+            entries: { orderBy: { path: 'asc' } },
+            platform: true,
+          },
           orderBy: { createdAt: 'desc' },
           skip: (page - 1) * limit,
           take: limit,
@@ -398,29 +493,9 @@ export async function uploadRoutes(server: FastifyInstance) {
       ]);
 
       return {
-        uploads: uploads.map(upload => ({
-          uploadId: upload.id,
-          fileName: upload.fileName,
-          originalName: upload.originalName,
-          fileSize: Number(upload.fileSize),
-          totalChunks: upload.totalChunks,
-          uploadedChunks: upload.uploadedChunks,
-          progress: (upload.uploadedChunks / upload.totalChunks) * 100,
-          status: upload.status,
-          detectedPlatform: upload.detectedPlatform,
-          createdAt: upload.createdAt.toISOString(),
-          updatedAt: upload.updatedAt.toISOString(),
-          expiresAt: upload.expiresAt.toISOString(),
-          processingStarted: upload.processingStarted?.toISOString(),
-          processingCompleted: upload.processingCompleted?.toISOString(),
-          processingError: upload.processingError,
-          chunks: upload.chunks.map(chunk => ({
-            chunkIndex: chunk.chunkIndex,
-            chunkSize: chunk.chunkSize,
-            isUploaded: chunk.isUploaded,
-            uploadedAt: chunk.uploadedAt?.toISOString(),
-          })),
-        })),
+        uploads: await Promise.all(uploads.map(async upload =>
+          formatUpload(upload, await uploadService.getProcessingJob(upload.id))
+        )),
         pagination: {
           page,
           limit,
@@ -440,6 +515,7 @@ export async function uploadRoutes(server: FastifyInstance) {
    * Cleanup expired uploads manually
    */
   server.post('/cleanup', {
+    onRequest: server.requireRole('admin'),
     schema: {
       description: 'Manually trigger cleanup of expired uploads',
       tags: ['Upload'],
@@ -464,4 +540,51 @@ export async function uploadRoutes(server: FastifyInstance) {
   });
 }
 
+// Map an upload with its chunks, entries and ingest job to the status shape shared by /status and /list
+function formatUpload(upload: UploadDetails, job: Job | null) {
+  return {
+    uploadId: upload.id,
+    fileName: upload.fileName,
+    originalName: upload.originalName,
+    fileSize: Number(upload.fileSize),
+    totalChunks: upload.totalChunks,
+    uploadedChunks: upload.uploadedChunks,
+    progress: (upload.uploadedChunks / upload.totalChunks) * 100,
+    status: upload.status,
+    detectedPlatform: upload.detectedPlatform,
+    platformCandidates: upload.platformCandidates as unknown as PlatformCandidate[],
+    createdAt: upload.createdAt.toISOString(),
+    updatedAt: upload.updatedAt.toISOString(),
+    expiresAt: upload.expiresAt.toISOString(),
+    missingChunks: encodeMissingChunks(upload),
+    missingCount: upload.totalChunks - upload.uploadedChunks,
+    processingStarted: upload.processingStarted?.toISOString(),
+    processingCompleted: upload.processingCompleted?.toISOString(),
+    processingError: upload.processingError,
+    scannedAt: upload.scannedAt?.toISOString(),
+    threats: upload.threats,
+    job: job ? {
+      jobId: job.id,
+      state: job.state,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: job.error,
+    } : undefined,
+    chunks: upload.chunks.map(chunk => ({
+      chunkIndex: chunk.chunkIndex,
+      chunkSize: chunk.chunkSize,
+      isUploaded: chunk.isUploaded,
+      uploadedAt: chunk.uploadedAt?.toISOString(),
+    })),
+    gameId: upload.gameId || undefined,
+    isCollection: upload.isCollection,
+    entries: upload.entries.map(entry => ({
+      path: entry.path,
+      status: entry.status,
+      gameId: entry.gameId || undefined,
+      error: entry.error || undefined,
+    })),
+  };
+}
+
 export { uploadRoutes };
\ No newline at end of file
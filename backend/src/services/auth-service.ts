@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { PrismaClient, Prisma, User, UserRole } from '@prisma/client';
+import { config } from '../config';
+import { authLogger } from '../utils/logger';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+export type Role = 'admin' | 'uploader' | 'player';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: Role;
+}
+
+export interface AccessTokenPayload {
+  sub: string;
+  username: string;
+  role: Role;
+}
+
+export interface PublicUser {
+  id: string;
+  username: string;
+  email: string;
+  role: Role;
+  isActive: boolean;
+  lastLogin?: string;
+  createdAt: string;
+}
+
+export interface RegisterRequest {
+  username: string;
+  email: string;
+  password: string;
+}
+
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    payload: AccessTokenPayload;
+    user: AuthUser;
+  }
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    optionalAuth: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    requireRole: (role: Role) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+  }
+}
+
+// Each role includes the permissions of the roles below it
+const ROLE_RANK: Record<Role, number> = {
+  player: 1,
+  uploader: 2,
+  admin: 3,
+};
+
+const PASSWORD_KEY_LENGTH = 64;
+
+export class AuthService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create a new account. The first account created becomes admin.
+   */
+  async register(request: RegisterRequest): Promise<User> {
+    const { username, email, password } = request;
+    const passwordHash = await hashPassword(password);
+
+    // Counting and creating in one serializable transaction, so two first registrations cannot both
+    // become admin: the one that commits second fails instead
+    let user: User;
+    try {
+      user = await this.prisma.$transaction(async tx => {
+        const userCount = await tx.user.count();
+
+        if (userCount > 0 && !config.security.allowRegistration) {
+          throw new Error('Registration is disabled');
+        }
+
+        const existing = await tx.user.findFirst({
+          where: {
+            OR: [
+              { username: { equals: username, mode: 'insensitive' } },
+              { email: { equals: email, mode: 'insensitive' } },
+            ],
+          },
+        });
+
+        if (existing) {
+          throw new Error('Username or email already exists');
+        }
+
+        return tx.user.create({
+          data: {
+            username,
+            email: email.toLowerCase(),
+            passwordHash,
+            role: userCount === 0 ? UserRole.ADMIN : UserRole.PLAYER,
+          },
+        });
+      }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+        throw new Error('Registration conflicted with another one, try again');
+      }
+      throw error;
+    }
+
+    authLogger.info(`User registered: ${user.username} (${user.role})`);
+    return user;
+  }
+
+  /**
+   * Verify credentials by username or email
+   */
+  async login(login: string, password: string): Promise<User> {
+    const user = await this.prisma.user.findFirst({
+      where: {
+        OR: [
+          { username: { equals: login, mode: 'insensitive' } },
+          { email: { equals: login, mode: 'insensitive' } },
+        ],
+      },
+    });
+
+    if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+      authLogger.warn(`Failed login attempt for ${login}`);
+      throw new Error('Invalid credentials');
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date() },
+    });
+
+    authLogger.info(`User logged in: ${user.username}`);
+    return updated;
+  }
+
+  /**
+   * Issue a new opaque refresh token for a user
+   */
+  async issueRefreshToken(userId: string): Promise<string> {
+    const token = crypto.randomBytes(48).toString('base64url');
+
+    await this.prisma.refreshToken.create({
+      data: {
+        userId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + config.security.refreshTokenTtlMs),
+      },
+    });
+
+    return token;
+  }
+
+  /**
+   * Exchange a refresh token for a new one, revoking the old token
+   */
+  async rotateRefreshToken(token: string): Promise<{ user: User; refreshToken: string }> {
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: true },
+    });
+
+    if (!stored || stored.expiresAt < new Date() || !stored.user.isActive) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // Claim the token in one statement, so of two concurrent refreshes with it only one succeeds
+    const claimed = stored.revokedAt
+      ? { count: 0 }
+      : await this.prisma.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+    if (claimed.count !== 1) {
+      // A revoked token being replayed means it may have leaked; end every session for the user
+      await this.revokeAllRefreshTokens(stored.userId);
+      authLogger.warn(`Revoked refresh token reused for user ${stored.user.username}`);
+      throw new Error('Invalid refresh token');
+    }
+
+    const refreshToken = await this.issueRefreshToken(stored.userId);
+    return { user: stored.user, refreshToken };
+  }
+
+  /**
+   * Revoke a single refresh token (logout)
+   */
+  async revokeRefreshToken(token: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { tokenHash: hashToken(token), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Revoke every refresh token belonging to a user
+   */
+  async revokeAllRefreshTokens(userId: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Get a user by ID
+   */
+  async getUser(id: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * List all users
+   */
+  async listUsers(): Promise<User[]> {
+    return this.prisma.user.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  /**
+   * Change a user's role or active flag
+   */
+  async updateUser(id: string, updates: { role?: Role; isActive?: boolean }): Promise<User> {
+    await this.getUser(id);
+
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: {
+        role: updates.role ? toUserRole(updates.role) : undefined,
+        isActive: updates.isActive,
+      },
+    });
+
+    // Existing refresh tokens carry the old role, so force a fresh login
+    await this.revokeAllRefreshTokens(id);
+
+    authLogger.info(`User ${user.username} updated: role=${user.role} active=${user.isActive}`);
+    return user;
+  }
+}
+
+// Register the auth decorators used as route onRequest hooks
+export function setupAuth(server: FastifyInstance, prisma: PrismaClient) {
+  // Access tokens outlive a deactivation, so the account is looked up on every request
+  const requireActiveUser = async (request: FastifyRequest) => {
+    const user = await prisma.user.findUnique({
+      where: { id: request.user.id },
+      select: { isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      throw httpError(401, 'Account is disabled');
+    }
+  };
+
+  server.decorate('authenticate', async (request: FastifyRequest) => {
+    try {
+      await request.jwtVerify();
+    } catch {
+      throw httpError(401, 'Authentication required');
+    }
+
+    await requireActiveUser(request);
+  });
+
+  // Identify the caller when a token is sent, but allow anonymous requests
+  server.decorate('optionalAuth', async (request: FastifyRequest) => {
+    if (!request.headers.authorization) return;
+
+    try {
+      await request.jwtVerify();
+    } catch {
+      throw httpError(401, 'Invalid or expired token');
+    }
+
+    await requireActiveUser(request);
+  });
+
+  server.decorate('requireRole', (role: Role) => {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      await server.authenticate(request, reply);
+
+      if (ROLE_RANK[request.user.role] < ROLE_RANK[role]) {
+        authLogger.warn(`User ${request.user.username} denied ${request.method} ${request.url}`);
+        throw httpError(403, 'Insufficient permissions');
+      }
+    };
+  });
+}
+
+// Helper functions
+export function createAccessTokenPayload(user: User): AccessTokenPayload {
+  return {
+    sub: user.id,
+    username: user.username,
+    role: toRole(user.role),
+  };
+}
+
+export function formatUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: toRole(user.role),
+    isActive: user.isActive,
+    lastLogin: user.lastLogin?.toISOString(),
+    createdAt: user.createdAt.toISOString(),
+  };
+}
+
+export function hasRole(user: AuthUser | undefined, role: Role): boolean {
+  return !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+function toRole(role: UserRole): Role {
+  return role.toLowerCase() as Role;
+}
+
+function toUserRole(role: Role): UserRole {
+  return role.toUpperCase() as UserRole;
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function httpError(statusCode: number, message: string): Error & { statusCode: number } {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+export default AuthService;
@@ -0,0 +1,402 @@
+import fs from 'fs/promises';
+import { Stats } from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+import { PrismaClient, BiosFile, BiosStatus } from '@prisma/client';
+import { config, getAllPlatforms } from '../config';
+import { logger } from '../utils/logger';
+import { calculateFileHash, deleteFile, ensureDirectory, fileExists } from '../utils/fileUtils';
+import {
+  BiosDefinition,
+  getBiosDefinition,
+  getBiosDefinitionsForPlatform,
+  findKnownDump,
+} from '../config/biosCatalog';
+
+export interface BiosValidationResult {
+  isValid: boolean;
+  hash: string;
+  size: number;
+  format: string;
+  region?: string;
+  version?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+export type BiosFileStatus = 'present' | 'missing' | 'bad_dump' | 'unverified';
+
+export interface PlatformBiosStatus {
+  platformId: string;
+  platformName: string;
+  biosRequired: boolean;
+  status: 'complete' | 'partial' | 'missing';
+  files: Array<{
+    fileName: string;
+    description: string;
+    isOptional: boolean;
+    status: BiosFileStatus;
+    expectedHash?: string;
+    actualHash?: string;
+  }>;
+  missingFiles: string[];
+  badDumps: string[];
+}
+
+export interface BiosCheckResult {
+  missing: string[];
+  mismatched: Array<{ fileName: string; expected: string[]; actual: string }>;
+}
+
+export class BiosService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List BIOS files, optionally filtered by platform
+   */
+  async listBiosFiles(platformId?: string): Promise<BiosFile[]> {
+    const biosFiles = await this.prisma.biosFile.findMany({
+      orderBy: { fileName: 'asc' },
+    });
+
+    if (!platformId) {
+      return biosFiles;
+    }
+
+    const platformFileNames = new Set(
+      getBiosDefinitionsForPlatform(platformId).map(definition => definition.fileName)
+    );
+
+    return biosFiles.filter(
+      bios => bios.platformId === platformId || platformFileNames.has(bios.fileName)
+    );
+  }
+
+  /**
+   * Store an uploaded BIOS file and verify it against the known-good table
+   */
+  async uploadBiosFile(fileName: string, data: Buffer, platformId?: string): Promise<BiosFile> {
+    const safeName = this.assertSafeFileName(fileName);
+    const biosPath = path.join(config.storage.biosDir, safeName);
+
+    // The BIOS in use is only replaced once the upload has been verified and recorded
+    const tempPath = path.join(config.storage.biosDir, `.${safeName}.${crypto.randomBytes(6).toString('hex')}.tmp`);
+
+    await ensureDirectory(config.storage.biosDir);
+    await fs.writeFile(tempPath, data);
+
+    try {
+      const biosFile = await this.syncBiosFile(safeName, platformId, tempPath);
+      await fs.rename(tempPath, biosPath);
+      logger.info(`BIOS file uploaded: ${safeName} (${biosFile.status})`);
+      return biosFile;
+    } catch (error) {
+      await deleteFile(tempPath);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-hash a BIOS file on disk and update its record
+   */
+  async validateBiosFile(fileName: string): Promise<BiosValidationResult> {
+    const safeName = this.assertSafeFileName(fileName);
+    const biosPath = path.join(config.storage.biosDir, safeName);
+
+    if (!(await fileExists(biosPath))) {
+      throw new Error('BIOS file not found');
+    }
+
+    const result = await this.verifyFile(biosPath, safeName);
+    await this.syncBiosFile(safeName);
+
+    return result;
+  }
+
+  /**
+   * Delete a BIOS file and its record
+   */
+  async deleteBiosFile(id: string): Promise<void> {
+    const biosFile = await this.prisma.biosFile.findUnique({ where: { id } });
+
+    if (!biosFile) {
+      throw new Error('BIOS file not found');
+    }
+
+    await deleteFile(biosFile.filePath);
+    await this.prisma.biosFile.delete({ where: { id } });
+
+    logger.info(`BIOS file deleted: ${biosFile.fileName}`);
+  }
+
+  /**
+   * Resolve a BIOS file name to its path on disk
+   */
+  async getBiosFilePath(fileName: string): Promise<string> {
+    const safeName = this.assertSafeFileName(fileName);
+    const biosPath = path.join(config.storage.biosDir, safeName);
+
+    if (!(await fileExists(biosPath))) {
+      throw new Error('BIOS file not found');
+    }
+
+    return biosPath;
+  }
+
+  /**
+   * Get present/missing/bad-dump status for every platform
+   */
+  async getPlatformStatus(platformId?: string): Promise<PlatformBiosStatus[]> {
+    const biosFiles = await this.prisma.biosFile.findMany();
+    const byName = new Map(biosFiles.map(bios => [bios.fileName.toLowerCase(), bios]));
+
+    const platforms = getAllPlatforms().filter(platform => !platformId || platform.id === platformId);
+
+    return platforms.map(({ id, config: platformConfig }) => {
+      const definitions = this.getDefinitionsFor(id, platformConfig.biosFiles || []);
+
+      const files = definitions.map(definition => {
+        const record = byName.get(definition.fileName.toLowerCase());
+        return {
+          fileName: definition.fileName,
+          description: definition.description,
+          isOptional: definition.isOptional,
+          status: this.toFileStatus(record),
+          expectedHash: definition.dumps[0]?.md5,
+          actualHash: record?.md5Hash || undefined,
+        };
+      });
+
+      const missingFiles = files.filter(f => f.status === 'missing').map(f => f.fileName);
+      const badDumps = files.filter(f => f.status === 'bad_dump').map(f => f.fileName);
+      const required = files.filter(f => !f.isOptional);
+      const usable = required.filter(f => f.status === 'present' || f.status === 'unverified');
+
+      let status: PlatformBiosStatus['status'] = 'complete';
+      if (platformConfig.biosRequired && usable.length < required.length) {
+        status = usable.length > 0 ? 'partial' : 'missing';
+      }
+
+      return {
+        platformId: id,
+        platformName: platformConfig.description,
+        biosRequired: platformConfig.biosRequired,
+        status,
+        files,
+        missingFiles,
+        badDumps,
+      };
+    });
+  }
+
+  /**
+   * Check a list of required BIOS files for presence and hash mismatches
+   */
+  async checkBiosFiles(fileNames: string[]): Promise<BiosCheckResult> {
+    const result: BiosCheckResult = { missing: [], mismatched: [] };
+    const records = await this.prisma.biosFile.findMany({ where: { fileName: { in: fileNames } } });
+    const byName = new Map(records.map(bios => [bios.fileName, bios]));
+
+    for (const fileName of fileNames) {
+      const biosPath = path.join(config.storage.biosDir, fileName);
+      const stats = await fs.stat(biosPath).catch(() => null);
+
+      if (!stats?.isFile()) {
+        result.missing.push(fileName);
+        continue;
+      }
+
+      const definition = getBiosDefinition(fileName);
+      if (!definition || definition.dumps.length === 0) {
+        continue;
+      }
+
+      const { md5, sha1 } = await this.getHashes(fileName, stats, byName.get(fileName));
+
+      if (!findKnownDump(definition, { md5, sha1 })) {
+        result.mismatched.push({
+          fileName,
+          expected: definition.dumps.map(dump => (dump.md5 || dump.sha1) as string),
+          actual: md5,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * MD5 and SHA1 of a BIOS file, taken from its record unless the file changed since it was last hashed
+   */
+  private async getHashes(fileName: string, stats: Stats, record?: BiosFile): Promise<{ md5: string; sha1: string }> {
+    if (
+      record?.md5Hash && record.sha1Hash && record.lastValidated
+      && record.fileSize === BigInt(stats.size) && stats.mtime <= record.lastValidated
+    ) {
+      return { md5: record.md5Hash, sha1: record.sha1Hash };
+    }
+
+    try {
+      const synced = await this.syncBiosFile(fileName);
+      return { md5: synced.md5Hash!, sha1: synced.sha1Hash! };
+    } catch (error) {
+      logger.warn(`Failed to update the record of BIOS file ${fileName}: ${error.message}`);
+
+      const biosPath = path.join(config.storage.biosDir, fileName);
+      return {
+        md5: await calculateFileHash(biosPath, 'md5'),
+        sha1: await calculateFileHash(biosPath, 'sha1'),
+      };
+    }
+  }
+
+  /**
+   * Hash a file and compare it against the catalog
+   */
+  private async verifyFile(biosPath: string, fileName: string): Promise<BiosValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const stats = await fs.stat(biosPath);
+    const md5 = await calculateFileHash(biosPath, 'md5');
+    const sha1 = await calculateFileHash(biosPath, 'sha1');
+    const definition = getBiosDefinition(fileName);
+
+    if (stats.size === 0) {
+      errors.push('BIOS file is empty');
+    }
+
+    let region: string | undefined;
+    let version: string | undefined;
+
+    if (!definition) {
+      warnings.push(`${fileName} is not a known BIOS file name`);
+    } else if (definition.dumps.length === 0) {
+      warnings.push(`No reference hash available for ${fileName}; it cannot be verified`);
+    } else {
+      const dump = findKnownDump(definition, { md5, sha1 });
+
+      if (dump) {
+        region = dump.region;
+        version = dump.version;
+      } else {
+        errors.push(`Hash mismatch: ${md5} does not match any known good dump of ${fileName}`);
+
+        const expectedSizes = definition.dumps.map(d => d.size).filter(Boolean);
+        if (expectedSizes.length > 0 && !expectedSizes.includes(stats.size)) {
+          errors.push(`Unexpected size ${stats.size} bytes (expected ${expectedSizes.join(' or ')})`);
+        }
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      hash: md5,
+      size: stats.size,
+      format: path.extname(fileName).replace('.', '') || 'bin',
+      region,
+      version,
+      errors,
+      warnings,
+    };
+  }
+
+  /**
+   * Create or update the database record for a BIOS file on disk; sourcePath is read instead
+   * when the file has not been moved into place yet
+   */
+  private async syncBiosFile(fileName: string, platformId?: string, sourcePath?: string): Promise<BiosFile> {
+    const biosPath = path.join(config.storage.biosDir, fileName);
+    const filePath = sourcePath || biosPath;
+    const verification = await this.verifyFile(filePath, fileName);
+    const definition = getBiosDefinition(fileName);
+
+    const fileHash = await calculateFileHash(filePath);
+    const sha1Hash = await calculateFileHash(filePath, 'sha1');
+
+    const duplicate = await this.prisma.biosFile.findFirst({
+      where: { fileHash, fileName: { not: fileName } },
+    });
+    if (duplicate) {
+      throw new Error(`BIOS file already exists as ${duplicate.fileName}`);
+    }
+
+    const status = this.toBiosStatus(definition, verification);
+    const data = {
+      filePath: biosPath,
+      fileSize: verification.size,
+      fileHash,
+      md5Hash: verification.hash,
+      sha1Hash,
+      platformId: platformId || definition?.platforms[0] || null,
+      description: definition?.description,
+      version: verification.version,
+      region: verification.region,
+      status,
+      isValidated: status === BiosStatus.VERIFIED,
+      isRequired: definition ? !definition.isOptional : false,
+      validationError: verification.errors.length > 0 ? verification.errors.join('; ') : null,
+      lastValidated: new Date(),
+    };
+
+    return this.prisma.biosFile.upsert({
+      where: { fileName },
+      create: { fileName, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Merge catalog definitions with BIOS names from the platform config
+   */
+  private getDefinitionsFor(platformId: string, configuredFiles: string[]): BiosDefinition[] {
+    const definitions = [...getBiosDefinitionsForPlatform(platformId)];
+
+    for (const fileName of configuredFiles) {
+      if (!definitions.some(definition => definition.fileName === fileName)) {
+        definitions.push({
+          fileName,
+          description: fileName,
+          platforms: [platformId],
+          isOptional: false,
+          dumps: [],
+        });
+      }
+    }
+
+    return definitions;
+  }
+
+  private toBiosStatus(
+    definition: BiosDefinition | null,
+    verification: BiosValidationResult
+  ): BiosStatus {
+    if (!definition || definition.dumps.length === 0) return BiosStatus.UNKNOWN;
+    return verification.isValid ? BiosStatus.VERIFIED : BiosStatus.BAD_DUMP;
+  }
+
+  private toFileStatus(record?: BiosFile): BiosFileStatus {
+    if (!record) return 'missing';
+    switch (record.status) {
+      case BiosStatus.VERIFIED:
+        return 'present';
+      case BiosStatus.BAD_DUMP:
+        return 'bad_dump';
+      default:
+        return 'unverified';
+    }
+  }
+
+  /**
+   * Reject file names that could escape the BIOS directory
+   */
+  private assertSafeFileName(fileName: string): string {
+    const baseName = path.basename(fileName);
+    if (!baseName || baseName !== fileName || fileName.includes('..') || fileName.includes('\\')) {
+      throw new Error('Invalid BIOS filename');
+    }
+    return baseName;
+  }
+}
+
+export default BiosService;
@@ -0,0 +1,330 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { PrismaClient, Prisma, Game, Platform } from '@prisma/client';
+import { config, getAllPlatforms } from '../config';
+import { logger } from '../utils/logger';
+import { calculateChecksums, deleteFile, generateUniqueFilename } from '../utils/fileUtils';
+import { readChdHeader, ChdHeader } from '../utils/discImageUtils';
+import { DiscService, parseCueSheet, parseGdi } from './discs';
+import { jobQueue, Job } from './jobQueue';
+
+const execFileAsync = promisify(execFile);
+
+export interface ChdConversionResult {
+  gameId: string;
+  discsConverted: number;
+  originalSize: number;
+  convertedSize: number;
+}
+
+interface ConvertibleImage {
+  discId?: string;       // GameDisc record of the image, for multi-disc and cue/gdi games
+  sourcePath: string;    // .cue/.gdi/.iso handed to chdman
+  sourceFiles: string[]; // Descriptor and track files replaced by the CHD
+}
+
+type ChdMediaMode = 'cd' | 'dvd';
+
+// Disc images chdman can compress
+const CONVERTIBLE_EXTENSIONS = ['.cue', '.gdi', '.iso'];
+// Platforms whose emulators read CHD; MAME CHDs are hard disk images managed with their romsets
+const CHD_PLATFORMS = getAllPlatforms()
+  .filter(platform => platform.id !== 'mame' && platform.config.extensions.includes('.chd'))
+  .map(platform => platform.id);
+// Platforms whose images are DVDs rather than CDs
+const DVD_PLATFORMS = ['ps2'];
+const CONVERSION_BATCH_SIZE = 10;
+const CHDMAN_TIMEOUT = 2 * 60 * 60 * 1000; // 2 hours
+const CHDMAN_MAX_OUTPUT = 64 * 1024 * 1024; // chdman reports progress on stderr
+
+// Shared between the scheduled job and manual requests
+const activeConversions = new Set<string>();
+// Games that failed since startup are not retried by the scheduled job
+const failedConversions = new Set<string>();
+
+export class ChdService {
+  private discService: DiscService;
+
+  constructor(private prisma: PrismaClient) {
+    this.discService = new DiscService(prisma);
+  }
+
+  /**
+   * Find games still stored as uncompressed cue/bin, gdi or iso images
+   */
+  async findConversionCandidates(limit: number = CONVERSION_BATCH_SIZE): Promise<string[]> {
+    const convertible = CONVERTIBLE_EXTENSIONS.map(extension => ({
+      filePath: { endsWith: extension, mode: Prisma.QueryMode.insensitive },
+    }));
+
+    // Conversions that used up their attempts wait for an admin to retry them
+    const deadJobs = await jobQueue.listJobs('convert', 'dead', 1000);
+    const dead = deadJobs.map(job => job.data.gameId as string);
+
+    // Files in library folders belong to the user and are never replaced
+    const inLibrary = config.library.roots.map(root => ({
+      filePath: { startsWith: `${root}${path.sep}` },
+    }));
+
+    const games = await this.prisma.game.findMany({
+      where: {
+        id: { notIn: [...activeConversions, ...failedConversions, ...dead] },
+        platform: { shortName: { in: CHD_PLATFORMS } },
+        OR: [...convertible, { discs: { some: { OR: convertible } } }],
+        ...(inLibrary.length > 0 && { NOT: [...inLibrary, { discs: { some: { OR: inLibrary } } }] }),
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    return games.map(game => game.id);
+  }
+
+  /**
+   * Queue a convert job for each of the next batch of candidate games
+   */
+  async queuePending(limit: number = CONVERSION_BATCH_SIZE): Promise<Job[]> {
+    const gameIds = await this.findConversionCandidates(limit);
+    return Promise.all(gameIds.map(gameId => this.queueConversion(gameId)));
+  }
+
+  /**
+   * List the disc images of a game that can be converted to CHD
+   */
+  async getConvertibleImages(gameId: string): Promise<{ game: Game & { platform: Platform }; images: ConvertibleImage[] }> {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      include: { platform: true },
+    });
+
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    if (!CHD_PLATFORMS.includes(game.platform.shortName)) {
+      throw new Error(`CHD is not supported for platform ${game.platform.shortName}`);
+    }
+
+    const discs = await this.discService.getDiscs(gameId);
+    const images: ConvertibleImage[] = [];
+
+    if (discs.length > 0) {
+      for (const disc of discs.filter(disc => isConvertible(disc.filePath))) {
+        images.push({
+          discId: disc.id,
+          sourcePath: disc.filePath,
+          sourceFiles: Array.from(new Set([disc.filePath, ...disc.tracks.map(track => track.filePath)])),
+        });
+      }
+    } else if (isConvertible(game.filePath)) {
+      const tracks = await readImageTracks(game.filePath);
+      images.push({
+        sourcePath: game.filePath,
+        sourceFiles: Array.from(new Set([game.filePath, ...tracks])),
+      });
+    }
+
+    if (images.length === 0) {
+      throw new Error('Game has no convertible disc images');
+    }
+
+    // Conversion deletes the originals, which is only acceptable in managed storage
+    if (images.some(image => image.sourceFiles.some(isInLibraryRoot))) {
+      throw new Error('CHD conversion is not supported for games in library folders');
+    }
+
+    return { game, images };
+  }
+
+  /**
+   * Check a game can be converted and queue its conversion
+   */
+  async startConversion(gameId: string): Promise<{ imageCount: number; job: Job }> {
+    if (activeConversions.has(gameId)) {
+      throw new Error('CHD conversion already in progress');
+    }
+
+    const { images } = await this.getConvertibleImages(gameId);
+    const job = await this.queueConversion(gameId);
+
+    return { imageCount: images.length, job };
+  }
+
+  /**
+   * Convert a game's disc images to CHD, verifying every image before the originals are removed.
+   * Runs as a convert job.
+   */
+  async convertGame(gameId: string): Promise<ChdConversionResult> {
+    if (activeConversions.has(gameId)) {
+      throw new Error('CHD conversion already in progress');
+    }
+    activeConversions.add(gameId);
+
+    const created: string[] = [];
+
+    try {
+      const { game, images } = await this.getConvertibleImages(gameId);
+      const mode: ChdMediaMode = DVD_PLATFORMS.includes(game.platform.shortName) ? 'dvd' : 'cd';
+      const converted: Array<{ image: ConvertibleImage; chdPath: string; header: ChdHeader; size: number }> = [];
+
+      for (const image of images) {
+        const chdPath = await generateUniqueFilename(replaceExtension(image.sourcePath, '.chd'));
+        created.push(chdPath);
+
+        logger.info(`Converting ${path.basename(image.sourcePath)} to CHD (${mode})`);
+        await this.runChdman([mode === 'dvd' ? 'createdvd' : 'createcd', '-i', image.sourcePath, '-o', chdPath]);
+
+        const header = await this.verifyConversion(image, chdPath, mode);
+        converted.push({ image, chdPath, header, size: (await fs.stat(chdPath)).size });
+      }
+
+      const originalSize = await sumFileSizes(images.flatMap(image => image.sourceFiles));
+      const convertedSize = converted.reduce((sum, entry) => sum + entry.size, 0);
+      const singleImage = converted.find(entry => entry.image.sourcePath === game.filePath);
+
+      await this.prisma.$transaction(async tx => {
+        for (const entry of converted) {
+          if (!entry.image.discId) continue;
+
+          await tx.discTrack.deleteMany({ where: { discId: entry.image.discId } });
+          await tx.gameDisc.update({
+            where: { id: entry.image.discId },
+            data: { filePath: entry.chdPath, fileSize: BigInt(entry.size) },
+          });
+        }
+
+        await tx.game.update({
+          where: { id: gameId },
+          data: {
+            ...(singleImage && {
+              filePath: singleImage.chdPath,
+              fileName: path.basename(singleImage.chdPath),
+              fileExtension: '.chd',
+            }),
+            fileSize: BigInt(Math.max(0, Number(game.fileSize) - originalSize + convertedSize)),
+            headerInfo: {
+              ...((game.headerInfo as Prisma.JsonObject) || {}),
+              chd: converted[0].header,
+            } as unknown as Prisma.InputJsonValue,
+          },
+        });
+      });
+
+      // Multi-disc games launch from a stored playlist that still names the old images
+      if (!singleImage && path.extname(game.filePath).toLowerCase() === '.m3u') {
+        const discs = await this.discService.getDiscs(gameId);
+        await this.discService.writePlaylist(game.filePath, discs.map(disc => disc.filePath));
+      }
+
+      for (const file of images.flatMap(image => image.sourceFiles)) {
+        await deleteFile(file);
+      }
+
+      failedConversions.delete(gameId);
+      logger.info(`Converted ${game.title} (${gameId}) to CHD: ${originalSize} -> ${convertedSize} bytes`);
+
+      return {
+        gameId,
+        discsConverted: converted.length,
+        originalSize,
+        convertedSize,
+      };
+    } catch (error) {
+      failedConversions.add(gameId);
+
+      // Originals are only removed once the database points at the CHDs
+      for (const chdPath of created) {
+        await deleteFile(chdPath);
+      }
+
+      throw error;
+    } finally {
+      activeConversions.delete(gameId);
+    }
+  }
+
+  // A game has at most one pending convert job
+  private queueConversion(gameId: string): Promise<Job> {
+    return jobQueue.add('convert', { gameId }, { jobId: `convert-${gameId}` });
+  }
+
+  /**
+   * Check a new CHD with chdman and against the image it was created from
+   */
+  private async verifyConversion(image: ConvertibleImage, chdPath: string, mode: ChdMediaMode): Promise<ChdHeader> {
+    // Recomputes the data SHA1 and compares it with the one recorded at creation
+    await this.runChdman(['verify', '-i', chdPath]);
+
+    const header = await readChdHeader(chdPath);
+    const name = path.basename(image.sourcePath);
+
+    if (mode === 'dvd') {
+      // DVD CHDs store the ISO as-is, so the data SHA1 must equal the ISO's
+      const { sha1 } = await calculateChecksums(image.sourcePath);
+      if (header.rawSha1 !== sha1) {
+        throw new Error(`CHD data does not match ${name}`);
+      }
+    } else {
+      const tracks = await readImageTracks(image.sourcePath);
+      const expectedTracks = Math.max(tracks.length, 1);
+      if (header.tracks.length !== expectedTracks) {
+        throw new Error(`CHD has ${header.tracks.length} tracks, ${name} has ${expectedTracks}`);
+      }
+    }
+
+    return header;
+  }
+
+  /**
+   * Run chdman, surfacing its error output
+   */
+  private async runChdman(args: string[]): Promise<void> {
+    try {
+      await execFileAsync(config.processing.chdConversion.chdmanPath, args, {
+        timeout: CHDMAN_TIMEOUT,
+        maxBuffer: CHDMAN_MAX_OUTPUT,
+      });
+    } catch (error) {
+      const output = String(error.stderr || '').trim().split(/\r?\n|\r/).pop();
+      throw new Error(`chdman ${args[0]} failed: ${output || error.message}`);
+    }
+  }
+}
+
+// Helper functions
+function isConvertible(filePath: string): boolean {
+  return CONVERTIBLE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+function isInLibraryRoot(filePath: string): boolean {
+  return config.library.roots.some(root => {
+    const relative = path.relative(root, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
+}
+
+function replaceExtension(filePath: string, extension: string): string {
+  return path.join(path.dirname(filePath), `${path.basename(filePath, path.extname(filePath))}${extension}`);
+}
+
+// Track files referenced by a cue/gdi sheet; ISO images have none
+async function readImageTracks(filePath: string): Promise<string[]> {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.cue':
+      return (await parseCueSheet(filePath)).map(track => track.filePath);
+    case '.gdi':
+      return (await parseGdi(filePath)).map(track => track.filePath);
+    default:
+      return [];
+  }
+}
+
+async function sumFileSizes(files: string[]): Promise<number> {
+  const sizes = await Promise.all(Array.from(new Set(files)).map(async file => (await fs.stat(file)).size));
+  return sizes.reduce((sum, size) => sum + size, 0);
+}
+
+export default ChdService;
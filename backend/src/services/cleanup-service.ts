@@ -5,17 +5,20 @@ import { config } from '../config';
 import { cleanupOldFiles, getDirectorySize, deleteDirectory } from '../utils/fileUtils';
 import { UploadService } from './upload';
 import { RomProcessingService } from './romProcessor';
+import { ChdService } from './chd';
 
 export class CleanupService {
   private prisma: PrismaClient;
   private uploadService: UploadService;
   private romProcessor: RomProcessingService;
+  private chdService: ChdService;
   private jobs: cron.ScheduledTask[] = [];
 
   constructor() {
     this.prisma = new PrismaClient();
     this.uploadService = new UploadService(this.prisma);
-    this.romProcessor = new RomProcessingService();
+    this.romProcessor = new RomProcessingService(this.prisma);
+    this.chdService = new ChdService(this.prisma);
   }
 
   /**
@@ -78,6 +81,17 @@ export class CleanupService {
       }, { scheduled: false })
     );
 
+    // Queue uncompressed disc images for CHD conversion nightly at 4 AM
+    if (config.processing.chdConversion.enabled) {
+      this.jobs.push(
+        cron.schedule('0 4 * * *', () => {
+          this.convertDiscImages().catch(error => {
+            logger.error('Queueing CHD conversions failed:', error);
+          });
+        }, { scheduled: false })
+      );
+    }
+
     // Start all jobs
     this.jobs.forEach(job => job.start());
     logger.info(`Started ${this.jobs.length} cleanup jobs`);
@@ -111,6 +125,21 @@ export class CleanupService {
     }
   }
 
+  /**
+   * Queue stored cue/bin, gdi and iso disc images for conversion to CHD
+   */
+  async convertDiscImages(): Promise<void> {
+    logger.info('Queueing CHD conversions...');
+
+    try {
+      const jobs = await this.chdService.queuePending();
+      logger.info(`Queued ${jobs.length} CHD conversions`);
+    } catch (error) {
+      logger.error('Failed to queue CHD conversions:', error);
+      throw error;
+    }
+  }
+
   /**
    * Clean up temporary files
    */
@@ -0,0 +1,382 @@
+import { XMLParser } from 'fast-xml-parser';
+import { PrismaClient, DatFile, DatEntry, DatSource, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+export interface DatImportOptions {
+  platformId?: string; // Override the platform detected from the DAT header
+  source?: DatSource;  // Override the source detected from the DAT header
+}
+
+export interface DatImportResult {
+  datFile: DatFile;
+  entryCount: number;
+  skippedCount: number;  // ROM entries without any checksum
+  replaced: boolean;     // An older version of the same DAT was replaced
+  matchedGames: number;  // Existing games matched against the new entries
+}
+
+export interface ChecksumQuery {
+  crc32?: string;
+  md5?: string;
+  sha1?: string;
+  size?: number;
+}
+
+export interface DatMatch {
+  entryId: string;
+  datName: string;
+  source: DatSource;
+  platformId?: string;
+  gameName: string;
+  title: string;
+  region?: string;
+  revision?: string;
+  languages: string[];
+  isVerified: boolean;
+  matchedBy: 'sha1' | 'md5' | 'crc32' | 'title';
+}
+
+interface ParsedGameName {
+  title: string;
+  region?: string;
+  revision?: string;
+  languages: string[];
+  isBadDump: boolean;
+}
+
+// No-Intro / Redump system names mapped to platform keys
+const DAT_SYSTEM_PLATFORMS: Array<{ pattern: RegExp; platformId: string }> = [
+  { pattern: /Nintendo Entertainment System|Famicom/i, platformId: 'nes' },
+  { pattern: /Super Nintendo|Super Famicom/i, platformId: 'snes' },
+  { pattern: /Nintendo 64/i, platformId: 'n64' },
+  { pattern: /Game Boy Advance/i, platformId: 'gba' },
+  { pattern: /Game Boy/i, platformId: 'gameboy' },
+  { pattern: /Nintendo DS/i, platformId: 'ds' },
+  { pattern: /Mega Drive|Genesis/i, platformId: 'genesis' },
+  { pattern: /Master System|Game Gear/i, platformId: 'mastersystem' },
+  { pattern: /Saturn/i, platformId: 'saturn' },
+  { pattern: /Dreamcast/i, platformId: 'dreamcast' },
+  { pattern: /PlayStation Portable/i, platformId: 'psp' },
+  { pattern: /PlayStation 2/i, platformId: 'ps2' },
+  { pattern: /PlayStation/i, platformId: 'psx' },
+  { pattern: /Neo ?Geo/i, platformId: 'neogeo' },
+  { pattern: /Amiga/i, platformId: 'amiga' },
+  { pattern: /Commodore 64/i, platformId: 'c64' },
+  { pattern: /Atari 2600/i, platformId: 'atari2600' },
+];
+
+const LANGUAGE_CODE = /^[A-Z][a-z](-[A-Z][a-z])?$/;
+const REVISION_TAG = /^(Rev\s*[\w.]+|v\d[\w.]*)$/i;
+const INSERT_BATCH_SIZE = 1000;
+
+export class DatService {
+  private parser: XMLParser;
+
+  constructor(private prisma: PrismaClient) {
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+      parseAttributeValue: false,
+      parseTagValue: false,
+      isArray: name => name === 'game' || name === 'machine' || name === 'rom',
+    });
+  }
+
+  /**
+   * List imported DAT files
+   */
+  async listDatFiles(platformId?: string): Promise<DatFile[]> {
+    return this.prisma.datFile.findMany({
+      where: platformId ? { platformId } : undefined,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Import a Logiqx XML DAT, replacing any previous import with the same name
+   */
+  async importDat(fileName: string, content: Buffer | string, options: DatImportOptions = {}): Promise<DatImportResult> {
+    let document: any;
+    try {
+      document = this.parser.parse(content.toString());
+    } catch (error) {
+      throw new Error(`Invalid DAT file: ${error.message}`);
+    }
+
+    const datafile = document?.datafile;
+    if (!datafile?.header?.name) {
+      throw new Error('Invalid DAT file: missing datafile header');
+    }
+
+    const header = datafile.header;
+    const name = String(header.name);
+    const source = options.source || detectSource(header);
+    const platformId = options.platformId || detectPlatform(name);
+    const games: any[] = [...(datafile.game || []), ...(datafile.machine || [])];
+
+    const entries: Prisma.DatEntryCreateManyInput[] = [];
+    let skippedCount = 0;
+
+    for (const game of games) {
+      const gameName = String(game.name || game.description || '');
+      const parsed = parseGameName(gameName);
+
+      for (const rom of game.rom || []) {
+        const crc32 = normalizeChecksum(rom.crc);
+        const md5 = normalizeChecksum(rom.md5);
+        const sha1 = normalizeChecksum(rom.sha1);
+
+        if (!crc32 && !md5 && !sha1) {
+          skippedCount++;
+          continue;
+        }
+
+        const status = rom.status ? String(rom.status).toLowerCase() : undefined;
+
+        entries.push({
+          datFileId: '', // Filled in once the DAT record exists
+          gameName,
+          title: parsed.title,
+          region: parsed.region,
+          revision: parsed.revision,
+          languages: parsed.languages,
+          romName: String(rom.name || gameName),
+          romSize: BigInt(parseInt(rom.size, 10) || 0),
+          crc32Hash: crc32,
+          md5Hash: md5,
+          sha1Hash: sha1,
+          status,
+          isVerified: !parsed.isBadDump && status !== 'baddump' && status !== 'nodump',
+        });
+      }
+    }
+
+    if (entries.length === 0) {
+      throw new Error('Invalid DAT file: no ROM entries with checksums');
+    }
+
+    const existing = await this.prisma.datFile.findUnique({ where: { name } });
+
+    const datFile = await this.prisma.$transaction(async tx => {
+      if (existing) {
+        // Games matched against the old version are re-matched below
+        await tx.game.updateMany({
+          where: { datEntry: { datFileId: existing.id } },
+          data: { datEntryId: null, isVerifiedDump: false },
+        });
+        await tx.datFile.delete({ where: { id: existing.id } });
+      }
+
+      const created = await tx.datFile.create({
+        data: {
+          name,
+          description: optionalString(header.description),
+          version: optionalString(header.version),
+          author: optionalString(header.author),
+          homepage: optionalString(header.homepage) || optionalString(header.url),
+          source,
+          platformId,
+          fileName,
+          entryCount: entries.length,
+        },
+      });
+
+      for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+        await tx.datEntry.createMany({
+          data: entries.slice(i, i + INSERT_BATCH_SIZE).map(entry => ({ ...entry, datFileId: created.id })),
+        });
+      }
+
+      return created;
+    }, { timeout: 120000 });
+
+    const matchedGames = await this.matchUnverifiedGames(platformId);
+
+    logger.info(`Imported DAT ${name} (${source}): ${entries.length} entries, ${matchedGames} games matched`);
+
+    return {
+      datFile,
+      entryCount: entries.length,
+      skippedCount,
+      replaced: !!existing,
+      matchedGames,
+    };
+  }
+
+  /**
+   * Delete an imported DAT and its entries
+   */
+  async deleteDatFile(id: string): Promise<void> {
+    const datFile = await this.prisma.datFile.findUnique({ where: { id } });
+
+    if (!datFile) {
+      throw new Error('DAT file not found');
+    }
+
+    // Games keep their checksums but lose the verified status this DAT gave them
+    await this.prisma.$transaction([
+      this.prisma.game.updateMany({
+        where: { datEntry: { datFileId: id } },
+        data: { datEntryId: null, isVerifiedDump: false },
+      }),
+      this.prisma.datFile.delete({ where: { id } }),
+    ]);
+
+    logger.info(`DAT file deleted: ${datFile.name}`);
+  }
+
+  /**
+   * Find the DAT entry matching a set of checksums (SHA1, then MD5, then CRC32 + size)
+   */
+  async matchChecksums(query: ChecksumQuery, platformId?: string): Promise<DatMatch | null> {
+    const datFile = platformId ? { OR: [{ platformId }, { platformId: null }] } : undefined;
+    const candidates: Array<{ matchedBy: DatMatch['matchedBy']; where: Prisma.DatEntryWhereInput }> = [];
+
+    if (query.sha1) {
+      candidates.push({ matchedBy: 'sha1', where: { sha1Hash: query.sha1.toLowerCase() } });
+    }
+    if (query.md5) {
+      candidates.push({ matchedBy: 'md5', where: { md5Hash: query.md5.toLowerCase() } });
+    }
+    if (query.crc32) {
+      candidates.push({
+        matchedBy: 'crc32',
+        where: {
+          crc32Hash: query.crc32.toLowerCase(),
+          romSize: query.size !== undefined ? BigInt(query.size) : undefined,
+        },
+      });
+    }
+
+    for (const candidate of candidates) {
+      const entry = await this.prisma.datEntry.findFirst({
+        where: { ...candidate.where, datFile },
+        include: { datFile: true },
+        orderBy: { isVerified: 'desc' },
+      });
+
+      if (entry) {
+        return toDatMatch(entry, candidate.matchedBy);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Search DAT entries by title
+   */
+  async searchByTitle(title: string, platformId?: string, limit: number = 10): Promise<DatMatch[]> {
+    const entries = await this.prisma.datEntry.findMany({
+      where: {
+        title: { contains: title, mode: 'insensitive' },
+        isVerified: true,
+        datFile: platformId ? { platformId } : undefined,
+      },
+      include: { datFile: true },
+      orderBy: { title: 'asc' },
+      take: limit,
+    });
+
+    return entries.map(entry => toDatMatch(entry));
+  }
+
+  /**
+   * Match games that have checksums but no DAT entry yet
+   */
+  async matchUnverifiedGames(platformId?: string): Promise<number> {
+    const games = await this.prisma.game.findMany({
+      where: {
+        datEntryId: null,
+        OR: [{ sha1Hash: { not: null } }, { md5Hash: { not: null } }, { crc32Hash: { not: null } }],
+        platform: platformId ? { shortName: platformId } : undefined,
+      },
+      include: { platform: true },
+    });
+
+    let matched = 0;
+    for (const game of games) {
+      const match = await this.matchChecksums({
+        sha1: game.sha1Hash || undefined,
+        md5: game.md5Hash || undefined,
+        crc32: game.crc32Hash || undefined,
+      }, game.platform.shortName);
+
+      if (match) {
+        await this.prisma.game.update({
+          where: { id: game.id },
+          data: { datEntryId: match.entryId, isVerifiedDump: match.isVerified },
+        });
+        matched++;
+      }
+    }
+
+    return matched;
+  }
+}
+
+// Helper functions
+export function parseGameName(gameName: string): ParsedGameName {
+  const firstTag = gameName.search(/\s[\(\[]/);
+  const title = (firstTag >= 0 ? gameName.slice(0, firstTag) : gameName).trim();
+  const tags = Array.from(gameName.matchAll(/\(([^)]*)\)/g)).map(match => match[1].trim());
+
+  const result: ParsedGameName = {
+    title: title || gameName,
+    languages: [],
+    isBadDump: /\[b\d*\]/.test(gameName),
+  };
+
+  for (const tag of tags) {
+    if (REVISION_TAG.test(tag)) {
+      result.revision = result.revision || tag;
+    } else if (tag.split(',').every(part => LANGUAGE_CODE.test(part.trim()))) {
+      result.languages = tag.split(',').map(part => part.trim());
+    } else if (!result.region) {
+      // The first non-language, non-revision tag is the region in No-Intro/Redump naming
+      result.region = tag;
+    }
+  }
+
+  return result;
+}
+
+function detectSource(header: any): DatSource {
+  const text = `${header.name} ${header.homepage || ''} ${header.url || ''} ${header.author || ''}`;
+
+  if (/redump/i.test(text)) return DatSource.REDUMP;
+  if (/no-?intro/i.test(text)) return DatSource.NO_INTRO;
+  return DatSource.OTHER;
+}
+
+function detectPlatform(datName: string): string | undefined {
+  return DAT_SYSTEM_PLATFORMS.find(system => system.pattern.test(datName))?.platformId;
+}
+
+function normalizeChecksum(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return String(value).trim().toLowerCase();
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return String(value);
+}
+
+function toDatMatch(entry: DatEntry & { datFile: DatFile }, matchedBy: DatMatch['matchedBy'] = 'title'): DatMatch {
+  return {
+    entryId: entry.id,
+    datName: entry.datFile.name,
+    source: entry.datFile.source,
+    platformId: entry.datFile.platformId || undefined,
+    gameName: entry.gameName,
+    title: entry.title,
+    region: entry.region || undefined,
+    revision: entry.revision || undefined,
+    languages: entry.languages,
+    isVerified: entry.isVerified,
+    matchedBy,
+  };
+}
+
+export default DatService;
@@ -0,0 +1,380 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PrismaClient, GameDisc, DiscTrack } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { ensureDirectory, fileExists, moveFile } from '../utils/fileUtils';
+
+export interface DiscTrackInfo {
+  trackNumber: number;
+  filePath: string;
+  trackType?: string; // MODE1/2352, MODE2/2352, AUDIO, ...
+}
+
+export interface DiscInfo {
+  discNumber: number;
+  label: string;
+  descriptorPath: string;   // File the emulator loads (.cue, .gdi, .chd, .iso, ...)
+  tracks: DiscTrackInfo[];  // Track files referenced by the descriptor (empty for single-file images)
+}
+
+export interface DiscSet {
+  discs: DiscInfo[];
+}
+
+export type GameDiscWithTracks = GameDisc & { tracks: DiscTrack[] };
+
+// Descriptor formats that reference separate track files
+const SHEET_EXTENSIONS = ['.cue', '.gdi'];
+// Single-file disc images that can form a set when named "(Disc N)"
+const IMAGE_EXTENSIONS = ['.chd', '.iso', '.cdi', '.pbp', '.img', '.mdf'];
+const DISC_NUMBER_PATTERN = /\((?:Disc|Disk|CD)\s*(\d+)(?:\s*of\s*\d+)?\)/i;
+
+export class DiscService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Recognise a disc set among extracted archive files (.m3u, .cue/.gdi sheets or "(Disc N)" images);
+   * files of several games are not a set, and give null
+   */
+  async detectDiscSet(rootDir: string, files: string[]): Promise<DiscSet | null> {
+    const groups = await groupDiscFiles(rootDir, files);
+    if (groups.length !== 1) {
+      if (groups.length > 1) {
+        logger.info(`Found ${groups.length} separate disc games in ${rootDir}, not one disc set`);
+      }
+      return null;
+    }
+
+    return this.buildDiscSet(rootDir, groups[0]);
+  }
+
+  /**
+   * Build the disc set of one game from its group of files as returned by groupDiscFiles
+   */
+  async buildDiscSet(rootDir: string, group: string[]): Promise<DiscSet | null> {
+    const absolute = group.map(file => path.join(rootDir, file));
+    const byExtension = (extensions: string[]) =>
+      absolute.filter(file => extensions.includes(path.extname(file).toLowerCase()));
+
+    let descriptors: string[];
+    const playlists = byExtension(['.m3u']);
+
+    if (playlists.length > 0) {
+      // A bundled playlist defines the disc order
+      descriptors = await parseM3u(playlists[0]);
+    } else {
+      descriptors = byExtension(SHEET_EXTENSIONS);
+
+      if (descriptors.length === 0) {
+        const images = byExtension(IMAGE_EXTENSIONS).filter(file => DISC_NUMBER_PATTERN.test(path.basename(file)));
+        if (images.length < 2) {
+          return null;
+        }
+        descriptors = images;
+      }
+
+      descriptors.sort(compareDiscNames);
+    }
+
+    if (descriptors.length === 0) {
+      return null;
+    }
+
+    const discs: DiscInfo[] = [];
+    for (const [index, descriptorPath] of descriptors.entries()) {
+      assertInside(rootDir, descriptorPath);
+      if (!(await fileExists(descriptorPath))) {
+        throw new Error(`Disc image missing: ${path.basename(descriptorPath)}`);
+      }
+
+      const tracks = await readTracks(descriptorPath);
+      tracks.forEach(track => assertInside(rootDir, track.filePath));
+
+      discs.push({
+        discNumber: index + 1,
+        label: discLabel(descriptorPath, index + 1),
+        descriptorPath,
+        tracks,
+      });
+    }
+
+    logger.info(`Detected disc set with ${discs.length} disc(s) in ${rootDir}`);
+    return { discs };
+  }
+
+  /**
+   * Move every file of a disc set into a directory, keeping paths relative to the source root
+   */
+  async storeDiscSet(discSet: DiscSet, sourceRoot: string, targetDir: string): Promise<DiscSet> {
+    await ensureDirectory(targetDir);
+
+    // Several tracks of a cue sheet can share one file, so each file is moved once
+    const moved = new Map<string, string>();
+    const relocate = async (filePath: string): Promise<string> => {
+      const existing = moved.get(filePath);
+      if (existing) return existing;
+
+      assertInside(sourceRoot, filePath);
+      const destination = path.join(targetDir, path.relative(sourceRoot, filePath));
+      await moveFile(filePath, destination);
+      moved.set(filePath, destination);
+      return destination;
+    };
+
+    const discs: DiscInfo[] = [];
+    for (const disc of discSet.discs) {
+      const tracks: DiscTrackInfo[] = [];
+      for (const track of disc.tracks) {
+        tracks.push({ ...track, filePath: await relocate(track.filePath) });
+      }
+
+      discs.push({ ...disc, descriptorPath: await relocate(disc.descriptorPath), tracks });
+    }
+
+    return { discs };
+  }
+
+  /**
+   * Write an .m3u playlist for a disc set
+   */
+  async writePlaylist(playlistPath: string, descriptorPaths: string[]): Promise<void> {
+    const baseDir = path.dirname(playlistPath);
+    const lines = descriptorPaths.map(descriptor => {
+      // Paths inside the playlist directory are written relative so the set can be moved
+      const relative = path.relative(baseDir, descriptor);
+      return relative.startsWith('..') ? descriptor : relative.split(path.sep).join('/');
+    });
+
+    await ensureDirectory(baseDir);
+    await fs.writeFile(playlistPath, `${lines.join('\n')}\n`, 'utf8');
+  }
+
+  /**
+   * Store the discs and tracks of a game
+   */
+  async createDiscs(gameId: string, discSet: DiscSet): Promise<GameDiscWithTracks[]> {
+    const discs: GameDiscWithTracks[] = [];
+
+    for (const disc of discSet.discs) {
+      const files = Array.from(new Set([disc.descriptorPath, ...disc.tracks.map(track => track.filePath)]));
+      const sizes = await Promise.all(files.map(async file => (await fs.stat(file)).size));
+
+      discs.push(await this.prisma.gameDisc.create({
+        data: {
+          gameId,
+          discNumber: disc.discNumber,
+          label: disc.label,
+          filePath: disc.descriptorPath,
+          fileSize: BigInt(sizes.reduce((sum, size) => sum + size, 0)),
+          tracks: {
+            create: await Promise.all(disc.tracks.map(async track => ({
+              trackNumber: track.trackNumber,
+              filePath: track.filePath,
+              fileSize: BigInt((await fs.stat(track.filePath)).size),
+              trackType: track.trackType,
+            }))),
+          },
+        },
+        include: { tracks: true },
+      }));
+    }
+
+    return discs;
+  }
+
+  /**
+   * Get a game's discs in order
+   */
+  async getDiscs(gameId: string): Promise<GameDiscWithTracks[]> {
+    return this.prisma.gameDisc.findMany({
+      where: { gameId },
+      include: { tracks: { orderBy: { trackNumber: 'asc' } } },
+      orderBy: { discNumber: 'asc' },
+    });
+  }
+
+  /**
+   * Path to hand to the emulator: a generated .m3u for multi-disc games, otherwise the game file
+   */
+  async getLaunchPath(gameId: string, filePath: string, playlistPath: string): Promise<{ launchPath: string; discCount: number }> {
+    const discs = await this.getDiscs(gameId);
+
+    if (discs.length === 0) {
+      return { launchPath: filePath, discCount: 1 };
+    }
+
+    if (discs.length === 1) {
+      return { launchPath: discs[0].filePath, discCount: 1 };
+    }
+
+    await this.writePlaylist(playlistPath, discs.map(disc => disc.filePath));
+    return { launchPath: playlistPath, discCount: discs.length };
+  }
+
+  /**
+   * All files belonging to a game's discs, for deletion
+   */
+  async getDiscFiles(gameId: string): Promise<string[]> {
+    const discs = await this.getDiscs(gameId);
+    return Array.from(new Set(discs.flatMap(disc => [disc.filePath, ...disc.tracks.map(track => track.filePath)])));
+  }
+}
+
+// Helper functions
+export function isDiscDescriptor(filePath: string): boolean {
+  return [...SHEET_EXTENSIONS, '.m3u'].includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Split the disc files of one directory into per-game groups: each .m3u with the discs it lists,
+ * then .cue/.gdi sheets and "(Disc N)" images that share a title once the disc number is removed
+ */
+export async function groupDiscFiles(dir: string, files: string[]): Promise<string[][]> {
+  const groups: string[][] = [];
+  const listed = new Set<string>();
+
+  for (const playlist of files.filter(file => path.extname(file).toLowerCase() === '.m3u')) {
+    const discs = await parseM3u(path.join(dir, playlist));
+    discs.forEach(disc => listed.add(path.relative(dir, disc)));
+    groups.push([playlist]);
+  }
+
+  const byTitle = new Map<string, string[]>();
+  for (const file of files) {
+    if (listed.has(file)) continue;
+
+    const extension = path.extname(file).toLowerCase();
+    const isSheet = SHEET_EXTENSIONS.includes(extension);
+    if (!isSheet && !(IMAGE_EXTENSIONS.includes(extension) && DISC_NUMBER_PATTERN.test(path.basename(file)))) {
+      continue;
+    }
+
+    const title = path.basename(file, extension).replace(DISC_NUMBER_PATTERN, '').trim().toLowerCase();
+    const key = `${isSheet ? 'sheet' : 'image'}:${title}`;
+    byTitle.set(key, [...(byTitle.get(key) || []), file]);
+  }
+
+  for (const [key, group] of byTitle) {
+    // A lone "(Disc N)" image is an ordinary single-file game
+    if (key.startsWith('image:') && group.length < 2) continue;
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+/**
+ * Parse an .m3u playlist into absolute disc paths
+ */
+export async function parseM3u(playlistPath: string): Promise<string[]> {
+  const content = await fs.readFile(playlistPath, 'utf8');
+  const baseDir = path.dirname(playlistPath);
+
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'))
+    .map(line => path.resolve(baseDir, line.replace(/\\/g, '/')));
+}
+
+/**
+ * Parse a .cue sheet into its track files
+ */
+export async function parseCueSheet(cuePath: string): Promise<DiscTrackInfo[]> {
+  const content = await fs.readFile(cuePath, 'utf8');
+  const baseDir = path.dirname(cuePath);
+  const tracks: DiscTrackInfo[] = [];
+  let currentFile: string | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    const fileMatch = line.match(/^FILE\s+(?:"([^"]+)"|(\S+))\s+\S+$/i);
+    if (fileMatch) {
+      currentFile = path.resolve(baseDir, (fileMatch[1] || fileMatch[2]).replace(/\\/g, '/'));
+      continue;
+    }
+
+    const trackMatch = line.match(/^TRACK\s+(\d+)\s+(\S+)$/i);
+    if (trackMatch && currentFile) {
+      tracks.push({
+        trackNumber: parseInt(trackMatch[1], 10),
+        filePath: currentFile,
+        trackType: trackMatch[2].toUpperCase(),
+      });
+    }
+  }
+
+  return tracks;
+}
+
+/**
+ * Parse a Dreamcast .gdi descriptor into its track files
+ */
+export async function parseGdi(gdiPath: string): Promise<DiscTrackInfo[]> {
+  const content = await fs.readFile(gdiPath, 'utf8');
+  const baseDir = path.dirname(gdiPath);
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const tracks: DiscTrackInfo[] = [];
+
+  // First line is the track count; each following line is: number lba type sectorSize file offset
+  for (const line of lines.slice(1)) {
+    const match = line.match(/^(\d+)\s+\d+\s+(\d+)\s+(\d+)\s+(?:"([^"]+)"|(\S+))\s+-?\d+$/);
+    if (!match) continue;
+
+    tracks.push({
+      trackNumber: parseInt(match[1], 10),
+      filePath: path.resolve(baseDir, match[4] || match[5]),
+      trackType: match[2] === '4' ? `DATA/${match[3]}` : 'AUDIO',
+    });
+  }
+
+  return tracks;
+}
+
+async function readTracks(descriptorPath: string): Promise<DiscTrackInfo[]> {
+  const extension = path.extname(descriptorPath).toLowerCase();
+  const tracks = extension === '.cue'
+    ? await parseCueSheet(descriptorPath)
+    : extension === '.gdi'
+      ? await parseGdi(descriptorPath)
+      : [];
+
+  if (SHEET_EXTENSIONS.includes(extension) && tracks.length === 0) {
+    throw new Error(`No tracks found in ${path.basename(descriptorPath)}`);
+  }
+
+  for (const track of tracks) {
+    if (!(await fileExists(track.filePath))) {
+      throw new Error(`Disc track missing: ${path.basename(track.filePath)}`);
+    }
+  }
+
+  return tracks;
+}
+
+// Playlists and cue sheets come from uploaded archives and must not point outside them
+function assertInside(rootDir: string, filePath: string): void {
+  const relative = path.relative(rootDir, filePath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Disc file outside of archive: ${path.basename(filePath)}`);
+  }
+}
+
+function discLabel(descriptorPath: string, discNumber: number): string {
+  const match = path.basename(descriptorPath).match(DISC_NUMBER_PATTERN);
+  return `Disc ${match ? parseInt(match[1], 10) : discNumber}`;
+}
+
+function compareDiscNames(a: string, b: string): number {
+  const discA = path.basename(a).match(DISC_NUMBER_PATTERN);
+  const discB = path.basename(b).match(DISC_NUMBER_PATTERN);
+
+  if (discA && discB) {
+    return parseInt(discA[1], 10) - parseInt(discB[1], 10);
+  }
+
+  return a.localeCompare(b);
+}
+
+export default DiscService;
@@ -0,0 +1,311 @@
+import { spawn, execFile, ChildProcess } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+export interface ExitStatus {
+  process: 'retroarch' | 'xvfb';
+  code: number | null;
+  signal: string | null;
+  at: Date;
+}
+
+export interface DisplayOptions {
+  width: number;
+  height: number;
+  onFailure?: (status: ExitStatus) => void;   // Called when the X server dies while the display is leased
+}
+
+export interface DisplayLease {
+  sessionId: string;
+  displayNumber: number;
+  display: string;          // DISPLAY value, e.g. ":100"
+  audioSink: string;        // PulseAudio null sink; capture from "<sink>.monitor"
+}
+
+export interface DisplayPoolStats {
+  maxSessions: number;
+  active: number;
+  queued: number;
+}
+
+interface ActiveDisplay extends DisplayLease {
+  xvfb: ChildProcess;
+  sinkModule?: string;      // pactl module index of the null sink
+  releasing: boolean;
+  onFailure?: (status: ExitStatus) => void;
+}
+
+interface Waiter {
+  sessionId: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const X_READY_TIMEOUT = 5000;
+const X_STOP_GRACE = 3000;
+
+/**
+ * Virtual displays for native sessions: one Xvfb server and one PulseAudio null sink per session,
+ * shared by RetroArch and the stream capture. At most NATIVE_MAX_SESSIONS are leased at once;
+ * further sessions wait in a FIFO queue until a display is released or NATIVE_QUEUE_TIMEOUT passes.
+ */
+export class DisplayPoolService {
+  private displays = new Map<string, ActiveDisplay>();
+  private starting = new Set<string>();
+  private displayNumbers = new Set<number>();   // Numbers picked for a starting or leased display
+  private waiters: Waiter[] = [];
+
+  /**
+   * Start an X server and audio sink for a session, waiting for a free slot first
+   */
+  async acquire(sessionId: string, options: DisplayOptions): Promise<DisplayLease> {
+    if (this.displays.has(sessionId) || this.starting.has(sessionId)) {
+      throw new Error(`Session ${sessionId} already has a display`);
+    }
+
+    await this.waitForSlot(sessionId);
+    this.starting.add(sessionId);
+
+    let active: ActiveDisplay | undefined;
+    let displayNumber: number | undefined;
+    try {
+      displayNumber = await this.findFreeDisplayNumber();
+      const xvfb = await this.startXvfb(displayNumber, options);
+
+      active = {
+        sessionId,
+        displayNumber,
+        display: `:${displayNumber}`,
+        audioSink: `retrohub_${displayNumber}`,
+        xvfb,
+        releasing: false,
+        onFailure: options.onFailure
+      };
+      this.displays.set(sessionId, active);
+      this.starting.delete(sessionId);
+      this.watchXvfb(active);
+
+      active.sinkModule = await this.loadNullSink(active.audioSink);
+
+      logger.info(`Display ${active.display} with sink ${active.audioSink} leased to session ${sessionId}`);
+      return toLease(active);
+    } catch (error) {
+      this.starting.delete(sessionId);
+      if (active) {
+        await this.release(sessionId);
+      } else {
+        if (displayNumber !== undefined) this.displayNumbers.delete(displayNumber);
+        this.wakeNext();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a session's X server and unload its sink; a queued session gets the slot
+   */
+  async release(sessionId: string): Promise<void> {
+    // A session released while still queued just leaves the queue
+    const waiting = this.waiters.findIndex(waiter => waiter.sessionId === sessionId);
+    if (waiting !== -1) {
+      const [waiter] = this.waiters.splice(waiting, 1);
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Session stopped while waiting for a display'));
+      return;
+    }
+
+    const active = this.displays.get(sessionId);
+    if (!active || active.releasing) {
+      return;
+    }
+    active.releasing = true;
+
+    if (active.sinkModule) {
+      await execFileAsync(config.emulation.pactlPath, ['unload-module', active.sinkModule])
+        .catch(error => logger.warn(`Failed to unload audio sink ${active.audioSink}: ${error.message}`));
+    }
+    await stopProcess(active.xvfb);
+
+    this.displays.delete(sessionId);
+    this.displayNumbers.delete(active.displayNumber);
+    logger.info(`Display ${active.display} released by session ${sessionId}`);
+    this.wakeNext();
+  }
+
+  /**
+   * Get the display and audio sink leased to a session
+   */
+  getLease(sessionId: string): DisplayLease | null {
+    const active = this.displays.get(sessionId);
+    return active ? toLease(active) : null;
+  }
+
+  getStats(): DisplayPoolStats {
+    return {
+      maxSessions: config.emulation.maxSessions,
+      active: this.displays.size + this.starting.size,
+      queued: this.waiters.length
+    };
+  }
+
+  /**
+   * Stop every X server, for shutdown
+   */
+  async shutdown(): Promise<void> {
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Server shutting down'));
+    }
+    await Promise.all(Array.from(this.displays.keys()).map(sessionId => this.release(sessionId)));
+  }
+
+  // Helper functions
+  private waitForSlot(sessionId: string): Promise<void> {
+    if (this.waiters.length === 0 && this.displays.size + this.starting.size < config.emulation.maxSessions) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(waiter => waiter.sessionId !== sessionId);
+        reject(new Error('Native session limit reached, try again later'));
+      }, config.emulation.queueTimeout);
+
+      this.waiters.push({ sessionId, resolve, reject, timer });
+      logger.info(`Session ${sessionId} queued for a display (${this.waiters.length} waiting)`);
+    });
+  }
+
+  private wakeNext(): void {
+    if (this.displays.size + this.starting.size >= config.emulation.maxSessions) {
+      return;
+    }
+
+    // The slot is reserved now so a new request cannot take it before the waiter resumes
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.starting.add(waiter.sessionId);
+      waiter.resolve();
+    }
+  }
+
+  // The lowest number from DISPLAY_BASE not in use here and without an X lock file left by another server
+  private async findFreeDisplayNumber(): Promise<number> {
+    for (let number = config.emulation.displayBase; number < config.emulation.displayBase + 1000; number++) {
+      if (this.displayNumbers.has(number)) continue;
+      try {
+        await fs.access(`/tmp/.X${number}-lock`);
+      } catch {
+        // Checked again after the await: another session may have picked it meanwhile
+        if (!this.displayNumbers.has(number)) {
+          this.displayNumbers.add(number);
+          return number;
+        }
+      }
+    }
+    throw new Error('No free X display number');
+  }
+
+  private async startXvfb(displayNumber: number, options: DisplayOptions): Promise<ChildProcess> {
+    const xvfb = spawn(config.emulation.xvfbPath, [
+      `:${displayNumber}`,
+      '-screen', '0', `${options.width}x${options.height}x24`,
+      '-nolisten', 'tcp',
+      '-noreset'
+    ], {
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+
+    let stderr = '';
+    let spawnError: Error | undefined;
+    xvfb.stderr?.on('data', data => {
+      stderr = (stderr + data.toString()).slice(-2000);
+    });
+    xvfb.on('error', error => {
+      spawnError = error;
+      logger.error(`Xvfb process error on :${displayNumber}: ${error.message}`);
+    });
+
+    // The X socket appears once the server accepts clients
+    const socketPath = `/tmp/.X11-unix/X${displayNumber}`;
+    const startTime = Date.now();
+    while (Date.now() - startTime < X_READY_TIMEOUT) {
+      if (spawnError) {
+        throw new Error(`Failed to start Xvfb: ${spawnError.message}`);
+      }
+      if (xvfb.exitCode !== null || xvfb.signalCode !== null) {
+        throw new Error(`Xvfb exited on :${displayNumber}: ${stderr.trim() || `code ${xvfb.exitCode}`}`);
+      }
+      try {
+        await fs.access(socketPath);
+        return xvfb;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+
+    await stopProcess(xvfb);
+    throw new Error(`Xvfb did not start on :${displayNumber} within ${X_READY_TIMEOUT}ms`);
+  }
+
+  private watchXvfb(active: ActiveDisplay): void {
+    active.xvfb.once('exit', (code, signal) => {
+      if (active.releasing) return;
+
+      const status: ExitStatus = { process: 'xvfb', code, signal, at: new Date() };
+      logger.error(`Xvfb on ${active.display} exited unexpectedly (code ${code}, signal ${signal})`);
+      active.onFailure?.(status);
+    });
+  }
+
+  private async loadNullSink(sinkName: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(config.emulation.pactlPath, [
+        'load-module',
+        'module-null-sink',
+        `sink_name=${sinkName}`,
+        `sink_properties=device.description=${sinkName}`
+      ]);
+      return stdout.trim();
+    } catch (error) {
+      throw new Error(`Failed to create audio sink ${sinkName}: ${error.message}`);
+    }
+  }
+}
+
+function toLease(active: ActiveDisplay): DisplayLease {
+  return {
+    sessionId: active.sessionId,
+    displayNumber: active.displayNumber,
+    display: active.display,
+    audioSink: active.audioSink
+  };
+}
+
+/**
+ * Send SIGTERM, then SIGKILL if the process is still running after the grace period
+ */
+export async function stopProcess(child: ChildProcess, grace = X_STOP_GRACE): Promise<void> {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  await new Promise<void>(resolve => {
+    const timer = setTimeout(() => child.kill('SIGKILL'), grace);
+    child.once('exit', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    child.kill('SIGTERM');
+  });
+}
+
+export const displayPool = new DisplayPoolService();
+
+export default DisplayPoolService;
@@ -0,0 +1,339 @@
+import { PrismaClient, Game } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { deleteFile } from '../utils/fileUtils';
+import { DiscService, GameDiscWithTracks } from './discs';
+
+export interface DuplicateMatch {
+  exact: Game | null;     // Same file (identical fileHash)
+  related: Game[];        // Same game, different dump (identical canonicalHash)
+}
+
+export interface MergeResult {
+  keptGameId: string;
+  mergedGameIds: string[];
+  movedSaveStates: number;
+  mergedStats: number;
+  mergedUserStates: number;
+  movedPatches: number;
+  movedDiscs: number;
+}
+
+export class DuplicateService {
+  private discService: DiscService;
+
+  constructor(private prisma: PrismaClient) {
+    this.discService = new DiscService(prisma);
+  }
+
+  /**
+   * Find games matching a file hash or canonical hash
+   */
+  async findDuplicates(
+    fileHash: string,
+    canonicalHash?: string | null,
+    excludeGameId?: string
+  ): Promise<DuplicateMatch> {
+    const exact = await this.prisma.game.findFirst({
+      where: { fileHash, id: excludeGameId ? { not: excludeGameId } : undefined },
+    });
+
+    const related = canonicalHash
+      ? await this.prisma.game.findMany({
+        where: {
+          canonicalHash,
+          fileHash: { not: fileHash },
+          id: excludeGameId ? { not: excludeGameId } : undefined,
+        },
+        orderBy: { createdAt: 'asc' },
+      })
+      : [];
+
+    return { exact, related };
+  }
+
+  /**
+   * Link a newly ingested game to the primary copy of its duplicate group
+   */
+  async linkDuplicates(gameId: string): Promise<string | null> {
+    const game = await this.prisma.game.findUnique({ where: { id: gameId } });
+
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    const { related } = await this.findDuplicates(game.fileHash, game.canonicalHash, game.id);
+    if (related.length === 0) {
+      return null;
+    }
+
+    // The primary is the oldest game that is not itself marked as a duplicate
+    const candidate = related.find(match => !match.duplicateOf) || related[0];
+    const primary = candidate.duplicateOf
+      ? (await this.prisma.game.findUnique({ where: { id: candidate.duplicateOf } })) || candidate
+      : candidate;
+
+    await this.prisma.$transaction([
+      this.prisma.game.update({
+        where: { id: game.id },
+        data: { duplicateOf: primary.id },
+      }),
+      this.prisma.game.update({
+        where: { id: primary.id },
+        data: { duplicates: { set: Array.from(new Set([...primary.duplicates, game.id])) } },
+      }),
+    ]);
+
+    logger.info(`Game ${game.title} (${game.id}) linked as duplicate of ${primary.id}`);
+    return primary.id;
+  }
+
+  /**
+   * Get every other game in a game's duplicate group
+   */
+  async getDuplicateGroup(gameId: string): Promise<Game[]> {
+    const game = await this.prisma.game.findUnique({ where: { id: gameId } });
+
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    const primaryId = game.duplicateOf || game.id;
+    const conditions: any[] = [
+      { id: primaryId },
+      { duplicateOf: primaryId },
+      { fileHash: game.fileHash },
+    ];
+    if (game.canonicalHash) {
+      conditions.push({ canonicalHash: game.canonicalHash });
+    }
+
+    return this.prisma.game.findMany({
+      where: { OR: conditions, id: { not: game.id } },
+      include: { platform: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Keep one game and fold stats, save states, per-user state, patches, discs and uploads of the others into it
+   */
+  async mergeGames(keepGameId: string, mergeGameIds: string[], deleteFiles = true): Promise<MergeResult> {
+    const mergeIds = Array.from(new Set(mergeGameIds.filter(id => id !== keepGameId)));
+
+    if (mergeIds.length === 0) {
+      throw new Error('No games to merge');
+    }
+
+    const keep = await this.prisma.game.findUnique({ where: { id: keepGameId } });
+    if (!keep) {
+      throw new Error('Game not found');
+    }
+
+    const others = await this.prisma.game.findMany({ where: { id: { in: mergeIds } } });
+    if (others.length !== mergeIds.length) {
+      throw new Error('Game to merge not found');
+    }
+
+    // Discs the kept game lacks move over; the other disc rows are removed with the games, so collect their files first
+    const keepDiscs = await this.discService.getDiscs(keepGameId);
+    const keepFiles = new Set([keep.filePath, ...discFiles(keepDiscs)]);
+    const discNumbers = new Set(keepDiscs.map(disc => disc.discNumber));
+    const movedDiscIds: string[] = [];
+    const mergedFiles = new Set<string>();
+    for (const game of others) {
+      const discs = await this.discService.getDiscs(game.id);
+      for (const disc of discs) {
+        if (!discNumbers.has(disc.discNumber)) {
+          discNumbers.add(disc.discNumber);
+          movedDiscIds.push(disc.id);
+          discFiles([disc]).forEach(file => keepFiles.add(file));
+        }
+      }
+      if (deleteFiles) {
+        mergedFiles.add(game.filePath);
+        discFiles(discs).forEach(file => mergedFiles.add(file));
+      }
+    }
+
+    const result: MergeResult = {
+      keptGameId: keepGameId,
+      mergedGameIds: mergeIds,
+      movedSaveStates: 0,
+      mergedStats: 0,
+      mergedUserStates: 0,
+      movedPatches: 0,
+      movedDiscs: 0,
+    };
+
+    await this.prisma.$transaction(async tx => {
+      // Save states simply change owner game
+      const moved = await tx.saveState.updateMany({
+        where: { gameId: { in: mergeIds } },
+        data: { gameId: keepGameId },
+      });
+      result.movedSaveStates = moved.count;
+
+      // Monthly stats are unique per game/month, so add into existing rows
+      const stats = await tx.gameStats.findMany({ where: { gameId: { in: mergeIds } } });
+      for (const stat of stats) {
+        const existing = await tx.gameStats.findUnique({
+          where: { gameId_year_month: { gameId: keepGameId, year: stat.year, month: stat.month } },
+        });
+
+        if (existing) {
+          const sessionCount = existing.sessionCount + stat.sessionCount;
+          const totalPlayTime = existing.totalPlayTime + stat.totalPlayTime;
+
+          await tx.gameStats.update({
+            where: { id: existing.id },
+            data: {
+              totalPlayTime,
+              sessionCount,
+              averageSession: sessionCount > 0 ? Math.round(totalPlayTime / sessionCount) : 0,
+              firstPlayed: earliest(existing.firstPlayed, stat.firstPlayed),
+              lastPlayed: latest(existing.lastPlayed, stat.lastPlayed),
+              playTimeMonth: existing.playTimeMonth + stat.playTimeMonth,
+              sessionsMonth: existing.sessionsMonth + stat.sessionsMonth,
+            },
+          });
+          await tx.gameStats.delete({ where: { id: stat.id } });
+        } else {
+          await tx.gameStats.update({
+            where: { id: stat.id },
+            data: { gameId: keepGameId },
+          });
+        }
+        result.mergedStats++;
+      }
+
+      // Per-user state is unique per user/game as well
+      const userStates = await tx.userGameState.findMany({ where: { gameId: { in: mergeIds } } });
+      for (const state of userStates) {
+        const existing = await tx.userGameState.findUnique({
+          where: { userId_gameId: { userId: state.userId, gameId: keepGameId } },
+        });
+
+        if (existing) {
+          await tx.userGameState.update({
+            where: { id: existing.id },
+            data: {
+              isFavorite: existing.isFavorite || state.isFavorite,
+              rating: existing.rating ?? state.rating,
+              notes: existing.notes ?? state.notes,
+              playCount: existing.playCount + state.playCount,
+              lastPlayed: latest(existing.lastPlayed, state.lastPlayed),
+            },
+          });
+          await tx.userGameState.delete({ where: { id: state.id } });
+        } else {
+          await tx.userGameState.update({
+            where: { id: state.id },
+            data: { gameId: keepGameId },
+          });
+        }
+        result.mergedUserStates++;
+      }
+
+      // Patches are unique per game and patch file, so drop copies of ones the kept game already has
+      const patchHashes = new Set(
+        (await tx.romPatch.findMany({ where: { gameId: keepGameId }, select: { fileHash: true } }))
+          .map(patch => patch.fileHash)
+      );
+      const patches = await tx.romPatch.findMany({ where: { gameId: { in: mergeIds } } });
+      for (const patch of patches) {
+        if (patchHashes.has(patch.fileHash)) {
+          await tx.romPatch.delete({ where: { id: patch.id } });
+          if (deleteFiles) {
+            mergedFiles.add(patch.filePath);
+          }
+        } else {
+          patchHashes.add(patch.fileHash);
+          await tx.romPatch.update({
+            where: { id: patch.id },
+            data: { gameId: keepGameId },
+          });
+          result.movedPatches++;
+        }
+      }
+
+      const discs = await tx.gameDisc.updateMany({
+        where: { id: { in: movedDiscIds } },
+        data: { gameId: keepGameId },
+      });
+      result.movedDiscs = discs.count;
+
+      // Uploads keep pointing at the game they produced
+      await tx.upload.updateMany({
+        where: { gameId: { in: mergeIds } },
+        data: { gameId: keepGameId },
+      });
+      await tx.uploadEntry.updateMany({
+        where: { gameId: { in: mergeIds } },
+        data: { gameId: keepGameId },
+      });
+
+      // Games that pointed at a merged copy now point at the kept one
+      await tx.game.updateMany({
+        where: { duplicateOf: { in: mergeIds }, id: { notIn: mergeIds } },
+        data: { duplicateOf: keepGameId },
+      });
+
+      // Merged ids must not linger in the duplicate lists of other games
+      const listing = await tx.game.findMany({
+        where: { duplicates: { hasSome: mergeIds }, id: { notIn: [keepGameId, ...mergeIds] } },
+        select: { id: true, duplicates: true },
+      });
+      for (const game of listing) {
+        await tx.game.update({
+          where: { id: game.id },
+          data: { duplicates: { set: game.duplicates.filter(id => !mergeIds.includes(id)) } },
+        });
+      }
+
+      const remaining = await tx.game.findMany({
+        where: { duplicateOf: keepGameId, id: { notIn: mergeIds } },
+        select: { id: true },
+      });
+
+      await tx.game.update({
+        where: { id: keepGameId },
+        data: {
+          duplicateOf: null,
+          duplicates: { set: remaining.map(game => game.id) },
+          playCount: keep.playCount + others.reduce((sum, game) => sum + game.playCount, 0),
+          lastPlayed: others.reduce((last, game) => latest(last, game.lastPlayed), keep.lastPlayed),
+        },
+      });
+
+      await tx.game.deleteMany({ where: { id: { in: mergeIds } } });
+    });
+
+    for (const file of mergedFiles) {
+      if (!keepFiles.has(file)) {
+        await deleteFile(file);
+      }
+    }
+
+    logger.info(`Merged ${mergeIds.length} duplicate(s) into game ${keep.title} (${keepGameId})`);
+    return result;
+  }
+}
+
+// Helper functions
+function discFiles(discs: GameDiscWithTracks[]): string[] {
+  return discs.flatMap(disc => [disc.filePath, ...disc.tracks.map(track => track.filePath)]);
+}
+
+function earliest(a: Date | null, b: Date | null): Date | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a < b ? a : b;
+}
+
+function latest(a: Date | null, b: Date | null): Date | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+export default DuplicateService;
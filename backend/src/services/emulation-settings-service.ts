@@ -0,0 +1,151 @@
+import { PrismaClient, Prisma, Game, Platform } from '@prisma/client';
+import { z } from 'zod';
+import { getPlatformDefinition, retroarchSettingsSchema, RetroArchSettings } from '../config';
+import { logger } from '../utils/logger';
+import { mergeRetroArchSettings } from '../utils/retroarchConfig';
+
+export interface GameEmulationSettings {
+  gameId: string;
+  compatibleCores: string[];
+  emulationNotes: string | null;
+  settings: RetroArchSettings;          // Per-game overrides as stored
+  platformDefaults: RetroArchSettings;  // What the overrides are layered over
+  availableCores: string[];             // RetroArch cores of the game's platform
+}
+
+export interface GameEmulationUpdate {
+  compatibleCores?: string[];
+  emulationNotes?: string | null;
+  settings?: RetroArchSettings;
+}
+
+// Players choose how a game looks and which buttons do what; cores and core options are per game
+const userPreferencesSchema = retroarchSettingsSchema.pick({ video: true, inputRemaps: true }).strict();
+
+export class EmulationSettingsService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Get a game's RetroArch overrides next to its platform defaults
+   */
+  async getGameSettings(gameId: string): Promise<GameEmulationSettings> {
+    const game = await this.findGame(gameId);
+    return this.formatGameSettings(game);
+  }
+
+  /**
+   * Replace a game's RetroArch overrides, compatible cores or emulation notes
+   */
+  async updateGameSettings(gameId: string, update: GameEmulationUpdate): Promise<GameEmulationSettings> {
+    const game = await this.findGame(gameId);
+    const availableCores = getPlatformDefinition(game.platform.shortName)?.retroarchCores || [];
+
+    const data: Prisma.GameUpdateInput = {};
+
+    if (update.settings !== undefined) {
+      const settings = parseSettings(retroarchSettingsSchema.strict(), update.settings);
+      if (settings.core && !availableCores.includes(settings.core)) {
+        throw new Error(`Invalid emulation settings: core ${settings.core} is not available for ${game.platform.shortName}`);
+      }
+      data.emulationSettings = settings as Prisma.InputJsonObject;
+    }
+    if (update.compatibleCores !== undefined) {
+      data.compatibleCores = update.compatibleCores;
+    }
+    if (update.emulationNotes !== undefined) {
+      data.emulationNotes = update.emulationNotes;
+    }
+
+    const updated = await this.prisma.game.update({
+      where: { id: gameId },
+      data,
+      include: { platform: true },
+    });
+
+    logger.info(`Emulation settings updated for ${updated.title}`);
+    return this.formatGameSettings(updated);
+  }
+
+  /**
+   * Get the RetroArch preferences a user has set for their native sessions
+   */
+  async getUserPreferences(userId: string): Promise<RetroArchSettings> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { emulationPreferences: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return (user.emulationPreferences as RetroArchSettings) || {};
+  }
+
+  /**
+   * Replace a user's RetroArch preferences
+   */
+  async updateUserPreferences(userId: string, preferences: RetroArchSettings): Promise<RetroArchSettings> {
+    const parsed = parseSettings(userPreferencesSchema, preferences);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { emulationPreferences: parsed as Prisma.InputJsonObject },
+    });
+
+    return parsed;
+  }
+
+  /**
+   * Layer platform defaults, the game's overrides and the user's preferences for a session
+   */
+  async resolveSettings(game: Game & { platform: Platform }, userId?: string): Promise<RetroArchSettings> {
+    const preferences = userId
+      ? await this.prisma.user.findUnique({ where: { id: userId }, select: { emulationPreferences: true } })
+      : null;
+
+    return mergeRetroArchSettings(
+      getPlatformDefinition(game.platform.shortName)?.retroarchDefaults,
+      game.emulationSettings as RetroArchSettings | null,
+      preferences?.emulationPreferences as RetroArchSettings | null
+    );
+  }
+
+  // Helper functions
+  private async findGame(gameId: string): Promise<Game & { platform: Platform }> {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      include: { platform: true },
+    });
+
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    return game;
+  }
+
+  private formatGameSettings(game: Game & { platform: Platform }): GameEmulationSettings {
+    const platform = getPlatformDefinition(game.platform.shortName);
+
+    return {
+      gameId: game.id,
+      compatibleCores: game.compatibleCores,
+      emulationNotes: game.emulationNotes,
+      settings: (game.emulationSettings as RetroArchSettings) || {},
+      platformDefaults: platform?.retroarchDefaults || {},
+      availableCores: platform?.retroarchCores || [],
+    };
+  }
+}
+
+function parseSettings(schema: z.ZodType<RetroArchSettings, z.ZodTypeDef, unknown>, data: unknown): RetroArchSettings {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid emulation settings: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+export default EmulationSettingsService;
@@ -0,0 +1,188 @@
+import path from 'path';
+import { PrismaClient, Prisma, Game } from '@prisma/client';
+import { getPlatformConfig, getPlatformDefinition } from '../config';
+import { logger } from '../utils/logger';
+import { RomAnalysis, RomHeader, RomLayout } from './romProcessor';
+import { DuplicateService } from './duplicates';
+import { DiscService, DiscSet } from './discs';
+import { broadcastToAll } from './websocket';
+import { jobQueue } from './jobQueue';
+
+export interface IngestionResult {
+  game: Game;
+  created: boolean; // false when a game with the same fileHash already existed
+}
+
+export class GameIngestionService {
+  private duplicateService: DuplicateService;
+  private discService: DiscService;
+
+  constructor(private prisma: PrismaClient) {
+    this.duplicateService = new DuplicateService(prisma);
+    this.discService = new DiscService(prisma);
+  }
+
+  /**
+   * Turn an analysed ROM into a Game record. Idempotent on fileHash.
+   * Disc sets (already moved to their final location) get one GameDisc per disc.
+   */
+  async ingest(analysis: RomAnalysis, filePath: string, discSet?: DiscSet): Promise<IngestionResult> {
+    const existing = await this.prisma.game.findUnique({
+      where: { fileHash: analysis.fileHash },
+    });
+
+    if (existing) {
+      logger.info(`Game already ingested for hash ${analysis.fileHash}: ${existing.title} (${existing.id})`);
+      return { game: existing, created: false };
+    }
+
+    const platformId = await this.resolvePlatformId(analysis.detectedPlatform);
+    const platformConfig = getPlatformConfig(analysis.detectedPlatform);
+    const metadata = analysis.metadata;
+    const header = analysis.headerInfo;
+    const datMatch = analysis.datMatch;
+    const fileName = path.basename(filePath);
+
+    let game: Game;
+    try {
+      game = await this.prisma.game.create({
+        data: {
+          title: datMatch?.title || metadata?.title || header.title || path.basename(fileName, path.extname(fileName)),
+          alternativeTitles: metadata?.alternativeTitles || [],
+          fileName,
+          filePath,
+          fileSize: BigInt(analysis.fileSize),
+          fileHash: analysis.fileHash,
+          canonicalHash: analysis.canonicalHash,
+          fileExtension: path.extname(fileName).toLowerCase(),
+          platformId,
+          region: datMatch?.region || metadata?.region || header.region,
+          language: metadata?.language,
+          genre: metadata?.genre,
+          subGenre: metadata?.subGenre,
+          developer: metadata?.developer,
+          publisher: metadata?.publisher,
+          releaseDate: metadata?.releaseDate,
+          releaseYear: metadata?.releaseYear,
+          rating: metadata?.rating,
+          boxArtUrl: metadata?.boxArtUrl,
+          screenshotUrls: metadata?.screenshotUrls || [],
+          videoUrl: metadata?.videoUrl,
+          romVersion: datMatch?.revision || header.version,
+          romChecksum: header.checksum,
+          crc32Hash: analysis.checksums.crc32,
+          md5Hash: analysis.checksums.md5,
+          sha1Hash: analysis.checksums.sha1,
+          headerInfo: this.serializeHeader(header, analysis.romLayout),
+          players: metadata?.players,
+          inputMethods: ['gamepad'],
+          compatibleCores: analysis.compatibleEmulators,
+          isValidated: analysis.validationErrors.length === 0,
+          validationError: [...analysis.validationErrors, ...analysis.validationWarnings].join('; ') || undefined,
+          datEntryId: datMatch?.entryId,
+          isVerifiedDump: datMatch?.isVerified || false,
+          needsBios: analysis.needsBios,
+          requiredBios: analysis.needsBios ? platformConfig?.biosFiles || [] : [],
+          isArchive: analysis.isCompressed && !discSet,
+          archiveContents: analysis.archiveContents || [],
+          igdbId: metadata?.igdbId,
+          thegamesdbId: metadata?.thegamesdbId,
+        },
+      });
+    } catch (error) {
+      // Another ingestion of the same file won the race; uploads delete the copy they stored when created
+      // is false, while files found by the library scanner stay where they are
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const winner = await this.prisma.game.findUnique({ where: { fileHash: analysis.fileHash } });
+        if (winner) {
+          return { game: winner, created: false };
+        }
+      }
+      throw error;
+    }
+
+    if (discSet) {
+      const discs = await this.discService.createDiscs(game.id, discSet);
+      game = await this.prisma.game.update({
+        where: { id: game.id },
+        data: { fileSize: discs.reduce((sum, disc) => sum + disc.fileSize, BigInt(0)) },
+      });
+    }
+
+    if (analysis.relatedGames.length > 0) {
+      const primaryId = await this.duplicateService.linkDuplicates(game.id);
+      game = { ...game, duplicateOf: primaryId };
+    }
+
+    logger.info(`Game added: ${game.title} (${game.id}) on ${analysis.detectedPlatform}`);
+
+    // Remote metadata sources are slow, so they are scraped in the background
+    await jobQueue.add('scrape', { gameId: game.id }, { jobId: `scrape-${game.id}` }).catch(error => {
+      logger.warn(`Failed to queue metadata scrape for ${game.id}:`, error);
+    });
+
+    await broadcastToAll({
+      type: 'game_added',
+      data: {
+        gameId: game.id,
+        title: game.title,
+        platform: analysis.detectedPlatform,
+        duplicateOf: game.duplicateOf,
+      },
+      timestamp: new Date().toISOString(),
+    });
+
+    return { game, created: true };
+  }
+
+  /**
+   * Map a platform key (e.g. "nes") to its Platform row, creating it from config if needed
+   */
+  private async resolvePlatformId(platformKey: string): Promise<string> {
+    const platform = await this.prisma.platform.findUnique({
+      where: { shortName: platformKey },
+    });
+
+    if (platform) {
+      return platform.id;
+    }
+
+    const definition = getPlatformDefinition(platformKey);
+    if (!definition) {
+      throw new Error(`Unknown platform: ${platformKey}`);
+    }
+
+    const created = await this.prisma.platform.upsert({
+      where: { shortName: platformKey },
+      create: {
+        name: definition.name,
+        shortName: platformKey,
+        manufacturer: definition.manufacturer,
+        releaseYear: definition.releaseYear,
+        description: definition.name,
+        icon: definition.icon,
+        supportedFormats: definition.extensions,
+        emulatorCores: definition.retroarchCores,
+        biosRequired: definition.biosRequired,
+        biosFiles: definition.biosFiles || [],
+      },
+      update: {},
+    });
+
+    return created.id;
+  }
+
+  /**
+   * Convert header info to JSON (raw header bytes are stored as hex)
+   */
+  private serializeHeader(header: RomHeader, layout: RomLayout): Prisma.InputJsonValue {
+    const { raw, ...rest } = header;
+    return {
+      ...rest,
+      raw: raw ? raw.toString('hex') : undefined,
+      layout,
+    } as Prisma.InputJsonValue;
+  }
+}
+
+export default GameIngestionService;
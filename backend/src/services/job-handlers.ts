@@ -0,0 +1,40 @@
+import { PrismaClient } from '@prisma/client';
+import { jobQueue } from './jobQueue';
+import { UploadService } from './upload';
+import { RomProcessingService } from './romProcessor';
+import { MetadataScrapingService } from './metadataScraper';
+import { ChdService } from './chd';
+
+/**
+ * Register the handler of every job queue; jobQueue.start() then runs them
+ */
+export function registerJobHandlers(prisma: PrismaClient): void {
+  const uploadService = new UploadService(prisma);
+  const romProcessor = new RomProcessingService(prisma);
+  const metadataService = new MetadataScrapingService(prisma);
+  const chdService = new ChdService(prisma);
+
+  // Assemble, scan, analyse and store a fully uploaded file
+  jobQueue.registerHandler<{ uploadId: string }>('ingest', async job => {
+    await uploadService.processUpload(job.data.uploadId);
+  });
+
+  // Fill in a new game's metadata from IGDB, TheGamesDB and ScreenScraper
+  jobQueue.registerHandler<{ gameId: string }>('scrape', async job => {
+    const game = await metadataService.scrapeGame(job.data.gameId);
+    return { title: game.title };
+  });
+
+  // Recalculate a game's checksums and match them against the imported DATs
+  jobQueue.registerHandler<{ gameId: string }>('verify', async job => {
+    const { datMatch } = await romProcessor.verifyGame(job.data.gameId);
+    return { datEntry: datMatch?.gameName, isVerifiedDump: datMatch?.isVerified || false };
+  });
+
+  // Compress a game's disc images to CHD
+  jobQueue.registerHandler<{ gameId: string }>('convert', async job => {
+    return chdService.convertGame(job.data.gameId);
+  });
+}
+
+export default registerJobHandlers;
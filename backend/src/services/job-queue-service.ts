@@ -0,0 +1,413 @@
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { broadcastJobStatus } from './websocket';
+
+export type QueueName = 'ingest' | 'scrape' | 'verify' | 'convert';
+
+// delayed: waiting out the backoff before a retry; dead: out of attempts, kept in the dead-letter list
+export type JobState = 'waiting' | 'active' | 'delayed' | 'completed' | 'dead';
+
+export interface Job<T = any> {
+  id: string;
+  queue: QueueName;
+  data: T;
+  state: JobState;
+  attempts: number;         // Attempts started so far
+  maxAttempts: number;
+  backoff: number;          // Milliseconds before the first retry, doubled for each further retry
+  progress: number;         // 0-100, reported by the handler
+  result?: unknown;
+  error?: string;           // Message of the last failed attempt
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  runAt?: string;           // When a delayed job is due again
+}
+
+export interface JobOptions {
+  jobId?: string;           // Fixed id: while a job with this id is pending, adding it again returns that job
+  attempts?: number;
+  backoff?: number;
+}
+
+export interface QueueStats {
+  queue: QueueName;
+  waiting: number;
+  active: number;
+  delayed: number;
+  dead: number;
+  concurrency: number;
+  running: boolean;         // A handler is registered and workers are polling in this process
+}
+
+export type JobHandler<T = any> = (job: Job<T>, reportProgress: (progress: number) => Promise<void>) => Promise<unknown>;
+
+export const QUEUE_NAMES: QueueName[] = ['ingest', 'scrape', 'verify', 'convert'];
+
+const KEY_PREFIX = 'retrohub:jobs';
+const POLL_INTERVAL = 1000;                    // Idle workers and the scheduler check Redis this often
+const HEARTBEAT_INTERVAL = 15000;
+const STALL_TIMEOUT = 60000;                   // Active jobs without a heartbeat for this long are requeued
+const COMPLETED_TTL = 7 * 24 * 60 * 60;        // Seconds a completed job stays readable
+const SHUTDOWN_GRACE = 10000;
+const PENDING_STATES: JobState[] = ['waiting', 'active', 'delayed'];
+
+/**
+ * Persistent job queues in Redis. Each queue is a waiting list, an active list with worker heartbeats,
+ * a delayed set for retries and a dead-letter list; job bodies are stored as JSON under their own key.
+ */
+export class JobQueueService {
+  private redis: Redis;
+  private handlers = new Map<QueueName, JobHandler>();
+  private workers: Promise<void>[] = [];
+  private scheduler?: NodeJS.Timeout;
+  private running = false;
+
+  constructor() {
+    this.redis = new Redis({
+      host: config.redis.host,
+      port: config.redis.port,
+      password: config.redis.password,
+      db: config.redis.db,
+      lazyConnect: true,
+    });
+  }
+
+  /**
+   * Register the function that runs the jobs of a queue; workers start for registered queues only
+   */
+  registerHandler<T>(queue: QueueName, handler: JobHandler<T>): void {
+    this.handlers.set(queue, handler);
+  }
+
+  /**
+   * Start the workers of every registered queue and the retry/stall scheduler
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    await this.recoverOrphans();
+
+    for (const [queue] of this.handlers) {
+      const concurrency = config.jobs.concurrency[queue];
+      for (let slot = 0; slot < concurrency; slot++) {
+        this.workers.push(this.runWorker(queue));
+      }
+      logger.info(`Started ${concurrency} worker(s) for the ${queue} queue`);
+    }
+
+    this.scheduler = setInterval(() => {
+      this.schedule().catch(error => logger.error('Job scheduler failed:', error));
+    }, POLL_INTERVAL);
+  }
+
+  /**
+   * Stop taking jobs; jobs still running after the grace period are picked up again by the next start
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+
+    await Promise.race([Promise.all(this.workers), sleep(SHUTDOWN_GRACE)]);
+    this.workers = [];
+    await this.redis.quit();
+    logger.info('Job queue stopped');
+  }
+
+  /**
+   * Add a job to the end of a queue
+   */
+  async add<T>(queue: QueueName, data: T, options: JobOptions = {}): Promise<Job<T>> {
+    const job: Job<T> = {
+      id: options.jobId || randomUUID(),
+      queue,
+      data,
+      state: 'waiting',
+      attempts: 0,
+      maxAttempts: options.attempts || config.jobs.attempts,
+      backoff: options.backoff || config.jobs.backoff,
+      progress: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (options.jobId) {
+      const created = await this.redis.set(jobKey(job.id), JSON.stringify(job), 'NX');
+      if (!created) {
+        const existing = await this.getJob(job.id);
+        if (existing && PENDING_STATES.includes(existing.state)) {
+          return existing;
+        }
+        // A finished job with the same id is replaced by the new one
+        await this.redis.lrem(queueKey(queue, 'dead'), 0, job.id);
+      }
+    }
+
+    await this.redis.multi()
+      .set(jobKey(job.id), JSON.stringify(job))
+      .lpush(queueKey(queue, 'waiting'), job.id)
+      .exec();
+
+    logger.info(`Queued ${queue} job ${job.id}`);
+    this.broadcast(job);
+    return job;
+  }
+
+  /**
+   * Get a job by id
+   */
+  async getJob(jobId: string): Promise<Job | null> {
+    const body = await this.redis.get(jobKey(jobId));
+    return body ? JSON.parse(body) : null;
+  }
+
+  /**
+   * List the jobs of a queue in one of its lists, newest first
+   */
+  async listJobs(queue: QueueName, state: Exclude<JobState, 'completed'>, limit: number = 50): Promise<Job[]> {
+    const ids = state === 'delayed'
+      ? await this.redis.zrange(queueKey(queue, 'delayed'), 0, limit - 1)
+      : await this.redis.lrange(queueKey(queue, state), 0, limit - 1);
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const bodies = await this.redis.mget(ids.map(jobKey));
+    return bodies.filter((body): body is string => body !== null).map(body => JSON.parse(body));
+  }
+
+  /**
+   * Count the jobs of every queue
+   */
+  async getStats(): Promise<QueueStats[]> {
+    return Promise.all(QUEUE_NAMES.map(async queue => {
+      const [waiting, active, delayed, dead] = await Promise.all([
+        this.redis.llen(queueKey(queue, 'waiting')),
+        this.redis.llen(queueKey(queue, 'active')),
+        this.redis.zcard(queueKey(queue, 'delayed')),
+        this.redis.llen(queueKey(queue, 'dead')),
+      ]);
+
+      return {
+        queue,
+        waiting,
+        active,
+        delayed,
+        dead,
+        concurrency: config.jobs.concurrency[queue],
+        running: this.running && this.handlers.has(queue),
+      };
+    }));
+  }
+
+  /**
+   * Move a dead-lettered job back to its queue with a fresh set of attempts
+   */
+  async retryJob(jobId: string): Promise<Job> {
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    if (job.state !== 'dead') {
+      throw new Error('Only dead jobs can be retried');
+    }
+
+    Object.assign(job, { state: 'waiting', attempts: 0, progress: 0, finishedAt: undefined });
+
+    await this.redis.multi()
+      .lrem(queueKey(job.queue, 'dead'), 0, job.id)
+      .set(jobKey(job.id), JSON.stringify(job))
+      .lpush(queueKey(job.queue, 'waiting'), job.id)
+      .exec();
+
+    logger.info(`Retrying dead ${job.queue} job ${job.id}`);
+    this.broadcast(job);
+    return job;
+  }
+
+  /**
+   * Drop a dead-lettered job
+   */
+  async removeJob(jobId: string): Promise<void> {
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    if (PENDING_STATES.includes(job.state)) {
+      throw new Error('Cannot remove a pending job');
+    }
+
+    await this.redis.multi()
+      .lrem(queueKey(job.queue, 'dead'), 0, job.id)
+      .del(jobKey(job.id))
+      .exec();
+  }
+
+  // Helper functions
+  private async runWorker(queue: QueueName): Promise<void> {
+    while (this.running) {
+      try {
+        const jobId = await this.redis.rpoplpush(queueKey(queue, 'waiting'), queueKey(queue, 'active'));
+        if (!jobId) {
+          await sleep(POLL_INTERVAL);
+          continue;
+        }
+
+        await this.runJob(queue, jobId);
+      } catch (error) {
+        logger.error(`Worker for the ${queue} queue failed:`, error);
+        await sleep(POLL_INTERVAL);
+      }
+    }
+  }
+
+  private async runJob(queue: QueueName, jobId: string): Promise<void> {
+    const activeKey = queueKey(queue, 'active');
+    const heartbeatKey = queueKey(queue, 'heartbeats');
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      await this.redis.lrem(activeKey, 0, jobId);
+      return;
+    }
+
+    Object.assign(job, { state: 'active', attempts: job.attempts + 1, startedAt: new Date().toISOString(), runAt: undefined });
+    await this.redis.multi()
+      .set(jobKey(job.id), JSON.stringify(job))
+      .zadd(heartbeatKey, Date.now(), job.id)
+      .exec();
+    this.broadcast(job);
+
+    const heartbeat = setInterval(() => {
+      this.redis.zadd(heartbeatKey, Date.now(), job.id).catch(() => undefined);
+    }, HEARTBEAT_INTERVAL);
+
+    const transaction = this.redis.multi();
+    try {
+      const result = await this.handlers.get(queue)!(job, progress => this.reportProgress(job, progress));
+
+      Object.assign(job, { state: 'completed', progress: 100, result, error: undefined, finishedAt: new Date().toISOString() });
+      transaction.set(jobKey(job.id), JSON.stringify(job), 'EX', COMPLETED_TTL);
+      logger.info(`${queue} job ${job.id} completed`);
+    } catch (error) {
+      job.error = error.message;
+
+      if (job.attempts < job.maxAttempts) {
+        const runAt = Date.now() + job.backoff * 2 ** (job.attempts - 1);
+        Object.assign(job, { state: 'delayed', runAt: new Date(runAt).toISOString() });
+        transaction.set(jobKey(job.id), JSON.stringify(job)).zadd(queueKey(queue, 'delayed'), runAt, job.id);
+        logger.warn(`${queue} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying at ${job.runAt}: ${error.message}`);
+      } else {
+        Object.assign(job, { state: 'dead', finishedAt: new Date().toISOString() });
+        transaction.set(jobKey(job.id), JSON.stringify(job)).lpush(queueKey(queue, 'dead'), job.id);
+        logger.error(`${queue} job ${job.id} failed after ${job.attempts} attempts: ${error.message}`);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    await transaction.lrem(activeKey, 0, job.id).zrem(heartbeatKey, job.id).exec();
+    this.broadcast(job);
+  }
+
+  private async reportProgress(job: Job, progress: number): Promise<void> {
+    job.progress = Math.max(0, Math.min(100, Math.round(progress)));
+    await this.redis.set(jobKey(job.id), JSON.stringify(job));
+    this.broadcast(job);
+  }
+
+  /**
+   * Requeue retries that are due and active jobs whose worker stopped sending heartbeats
+   */
+  private async schedule(): Promise<void> {
+    const now = Date.now();
+
+    for (const queue of QUEUE_NAMES) {
+      const due = await this.redis.zrangebyscore(queueKey(queue, 'delayed'), 0, now);
+      for (const jobId of due) {
+        // Only the process that removes the entry requeues it
+        if (await this.redis.zrem(queueKey(queue, 'delayed'), jobId)) {
+          await this.requeue(queue, jobId, 'lpush');
+        }
+      }
+
+      const stalled = await this.redis.zrangebyscore(queueKey(queue, 'heartbeats'), 0, now - STALL_TIMEOUT);
+      for (const jobId of stalled) {
+        if (await this.redis.zrem(queueKey(queue, 'heartbeats'), jobId)) {
+          await this.redis.lrem(queueKey(queue, 'active'), 0, jobId);
+          await this.requeue(queue, jobId, 'rpush');
+          logger.warn(`${queue} job ${jobId} stalled and was requeued`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Active jobs that never got a heartbeat belong to a process that died right after taking them
+   */
+  private async recoverOrphans(): Promise<void> {
+    for (const queue of QUEUE_NAMES) {
+      const active = await this.redis.lrange(queueKey(queue, 'active'), 0, -1);
+
+      for (const jobId of active) {
+        if (await this.redis.zscore(queueKey(queue, 'heartbeats'), jobId) === null) {
+          await this.redis.lrem(queueKey(queue, 'active'), 0, jobId);
+          await this.requeue(queue, jobId, 'rpush');
+          logger.warn(`Recovered orphaned ${queue} job ${jobId}`);
+        }
+      }
+    }
+  }
+
+  // rpush puts a job at the head of the queue (workers pop from the right), lpush at the tail
+  private async requeue(queue: QueueName, jobId: string, position: 'lpush' | 'rpush'): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job) return;
+
+    Object.assign(job, { state: 'waiting', runAt: undefined });
+    await this.redis.multi()
+      .set(jobKey(job.id), JSON.stringify(job))
+      [position](queueKey(queue, 'waiting'), job.id)
+      .exec();
+    this.broadcast(job);
+  }
+
+  private broadcast(job: Job): void {
+    broadcastJobStatus({
+      jobId: job.id,
+      queue: job.queue,
+      state: job.state,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      progress: job.progress,
+      error: job.error,
+    }).catch(error => logger.warn('Failed to broadcast job status:', error));
+  }
+}
+
+function jobKey(jobId: string): string {
+  return `${KEY_PREFIX}:job:${jobId}`;
+}
+
+function queueKey(queue: QueueName, list: 'waiting' | 'active' | 'delayed' | 'dead' | 'heartbeats'): string {
+  return `${KEY_PREFIX}:${queue}:${list}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Create and export the job queue singleton
+export const jobQueue = new JobQueueService();
+
+export default JobQueueService;
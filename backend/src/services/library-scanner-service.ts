@@ -0,0 +1,537 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { watch, FSWatcher } from 'fs';
+import { PrismaClient } from '@prisma/client';
+import { config, getPlatformByExtension, isValidFileExtension } from '../config';
+import { logger } from '../utils/logger';
+import { deleteDirectory, fileExists } from '../utils/fileUtils';
+import { detectPlatform } from '../utils/platformDetector';
+import { RomProcessingService } from './romProcessor';
+import { GameIngestionService } from './gameIngestion';
+import { DiscService, DiscSet, groupDiscFiles } from './discs';
+import { broadcastToAll } from './websocket';
+
+export interface LibraryScanStatus {
+  state: 'idle' | 'scanning';
+  roots: string[];
+  watching: string[];      // Roots watched for changes
+  startedAt?: string;
+  finishedAt?: string;
+  filesFound: number;      // Games found on disk that are not in the library yet
+  filesProcessed: number;
+  added: number;
+  skipped: number;         // Unsupported, still being written, or same content as an existing game
+  failed: number;
+  orphaned: number;        // Games whose file disappeared
+  restored: number;        // Orphaned games whose file came back or was found elsewhere
+  currentFile?: string;
+  errors: Array<{ filePath: string; error: string }>;
+}
+
+interface ScanTarget {
+  dir: string;
+  recursive: boolean;
+}
+
+type ScanItem =
+  | { kind: 'file'; filePath: string }
+  | { kind: 'discSet'; filePath: string; discSet: DiscSet }; // filePath is the playlist or first sheet
+
+type ImportOutcome = 'added' | 'skipped' | 'restored';
+
+const FILE_SETTLE_MS = 30 * 1000;        // Files changed more recently may still be copying
+const PROGRESS_INTERVAL_MS = 1000;
+const MAX_REPORTED_ERRORS = 50;
+
+export class LibraryScannerService {
+  private romProcessor: RomProcessingService;
+  private gameIngestion: GameIngestionService;
+  private discService: DiscService;
+  private status: LibraryScanStatus = emptyStatus([]);
+  private running = false;
+  private watchers = new Map<string, Map<string, FSWatcher>>(); // Root -> watched directory -> watcher
+  private pendingChanges = new Set<string>();
+  private flushTimer?: NodeJS.Timeout;
+  private lastBroadcast = 0;
+
+  constructor(private prisma: PrismaClient = new PrismaClient()) {
+    this.romProcessor = new RomProcessingService(prisma);
+    this.gameIngestion = new GameIngestionService(prisma);
+    this.discService = new DiscService(prisma);
+  }
+
+  /**
+   * Library roots: the configured folders, or the ROM directory
+   */
+  getRoots(): string[] {
+    return config.library.roots.length > 0 ? config.library.roots : [config.storage.romDir];
+  }
+
+  /**
+   * Progress of the current or last scan
+   */
+  getStatus(): LibraryScanStatus {
+    return {
+      ...this.status,
+      watching: Array.from(this.watchers.keys()),
+      errors: [...this.status.errors],
+    };
+  }
+
+  /**
+   * Start a scan of the library roots (or folders inside them) in the background
+   */
+  startScan(paths?: string[]): LibraryScanStatus {
+    if (this.running) {
+      throw new Error('Library scan already running');
+    }
+
+    const roots = this.getRoots();
+    const targets = (paths && paths.length > 0 ? paths : roots).map(target => path.resolve(target));
+
+    for (const target of targets) {
+      if (!roots.some(root => isInside(root, target))) {
+        throw new Error(`Path is outside the library roots: ${target}`);
+      }
+    }
+
+    this.run(targets.map(dir => ({ dir, recursive: true })), targets).catch(error => {
+      logger.error('Library scan failed:', error);
+    });
+
+    return this.getStatus();
+  }
+
+  /**
+   * Watch the configured library roots and import changes once files settle.
+   * The ROM directory is not watched: uploads are moved there and ingested by the upload flow.
+   */
+  async startWatching(): Promise<void> {
+    for (const root of config.library.roots) {
+      if (root === config.storage.romDir || this.watchers.has(root)) continue;
+
+      const dirs = new Map<string, FSWatcher>();
+      await this.watchTree(root, dirs);
+
+      if (dirs.size === 0) {
+        logger.error(`Failed to watch library root ${root}`);
+        continue;
+      }
+
+      this.watchers.set(root, dirs);
+      logger.info(`Watching library root: ${root} (${dirs.size} folders)`);
+    }
+  }
+
+  /**
+   * Stop watching library roots
+   */
+  stopWatching(): void {
+    this.watchers.forEach(dirs => dirs.forEach(watcher => watcher.close()));
+    this.watchers.clear();
+    this.pendingChanges.clear();
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  /**
+   * Import new files from the targets, then flag games whose files are gone
+   */
+  private async run(targets: ScanTarget[], orphanRoots: string[]): Promise<void> {
+    this.running = true;
+    this.status = {
+      ...emptyStatus(targets.map(target => target.dir)),
+      state: 'scanning',
+      startedAt: new Date().toISOString(),
+    };
+    await this.broadcastStatus(true);
+
+    try {
+      const known = await this.loadKnownPaths();
+      const items: ScanItem[] = [];
+
+      for (const target of targets) {
+        if (!(await fileExists(target.dir))) {
+          this.recordError(target.dir, 'Folder not found');
+          continue;
+        }
+        items.push(...await this.collect(target.dir, target.recursive, known));
+      }
+
+      this.status.filesFound = items.length;
+      logger.info(`Library scan found ${items.length} new game(s) in ${targets.length} folder(s)`);
+
+      for (const item of items) {
+        this.status.currentFile = item.filePath;
+
+        try {
+          const outcome = await (item.kind === 'discSet'
+            ? this.importDiscSet(item.filePath, item.discSet)
+            : this.importFile(item.filePath));
+          this.status[outcome]++;
+        } catch (error) {
+          this.status.failed++;
+          this.recordError(item.filePath, error.message);
+          logger.warn(`Library import failed for ${item.filePath}:`, error);
+        }
+
+        this.status.filesProcessed++;
+        await this.broadcastStatus();
+      }
+
+      for (const root of orphanRoots) {
+        await this.markOrphans(root);
+      }
+    } finally {
+      this.running = false;
+      this.status.state = 'idle';
+      this.status.currentFile = undefined;
+      this.status.finishedAt = new Date().toISOString();
+      await this.broadcastStatus(true);
+
+      logger.info(`Library scan finished: ${this.status.added} added, ${this.status.skipped} skipped, ` +
+        `${this.status.failed} failed, ${this.status.orphaned} orphaned, ${this.status.restored} restored`);
+    }
+  }
+
+  /**
+   * Find files and disc sets in a folder that are not in the library yet
+   */
+  private async collect(dir: string, recursive: boolean, known: Set<string>): Promise<ScanItem[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files = entries.filter(entry => entry.isFile() && !entry.name.startsWith('.')).map(entry => entry.name);
+    const items: ScanItem[] = [];
+    const consumed = new Set<string>();
+
+    // Disc sets first, so their track files are not imported as separate games
+    for (const group of await groupDiscFiles(dir, files)) {
+      group.forEach(file => consumed.add(path.join(dir, file)));
+
+      let discSet: DiscSet | null;
+      try {
+        discSet = await this.discService.detectDiscSet(dir, group);
+      } catch (error) {
+        this.recordError(path.join(dir, group[0]), error.message);
+        continue;
+      }
+      if (!discSet) continue;
+
+      const members = discSet.discs.flatMap(disc => [disc.descriptorPath, ...disc.tracks.map(track => track.filePath)]);
+      members.forEach(member => consumed.add(member));
+
+      const launchPath = path.extname(group[0]).toLowerCase() === '.m3u'
+        ? path.join(dir, group[0])
+        : discSet.discs[0].descriptorPath;
+
+      if (known.has(launchPath) || members.some(member => known.has(member))) continue;
+      if (await this.isSettling(members)) {
+        this.status.skipped++;
+        continue;
+      }
+
+      items.push({ kind: 'discSet', filePath: launchPath, discSet });
+    }
+
+    for (const name of files) {
+      const filePath = path.join(dir, name);
+      if (consumed.has(filePath) || known.has(filePath) || !isValidFileExtension(name)) continue;
+
+      if (await this.isSettling([filePath])) {
+        this.status.skipped++;
+        continue;
+      }
+
+      items.push({ kind: 'file', filePath });
+    }
+
+    if (recursive) {
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          items.push(...await this.collect(path.join(dir, entry.name), true, known));
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Analyse a single ROM or archive and add it as a game, leaving the file where it is
+   */
+  private async importFile(filePath: string): Promise<ImportOutcome> {
+    const platform = await detectPlatform(filePath);
+    if (!platform) {
+      return 'skipped';
+    }
+
+    const analysis = await this.romProcessor.processRomFile(filePath, {
+      fileName: path.basename(filePath),
+      fileHash: null,
+      detectedPlatform: platform,
+      platformId: null,
+    });
+
+    try {
+      if (analysis.discSet) {
+        throw new Error('Archived disc sets must be extracted into the library folder');
+      }
+
+      const { game, created } = await this.gameIngestion.ingest(analysis, filePath);
+      return created ? 'added' : this.relocate(game.id, game.isOrphaned, filePath);
+    } finally {
+      if (analysis.extractDir) {
+        await deleteDirectory(analysis.extractDir);
+      }
+    }
+  }
+
+  /**
+   * Add a cue/gdi/m3u disc set as one game, analysing the first data track
+   */
+  private async importDiscSet(launchPath: string, discSet: DiscSet): Promise<ImportOutcome> {
+    const firstDisc = discSet.discs[0];
+    const dataTrack = firstDisc.tracks.find(track => track.trackType !== 'AUDIO') || firstDisc.tracks[0];
+    const mainPath = dataTrack?.filePath || firstDisc.descriptorPath;
+
+    const platform = await detectPlatform(mainPath) || getPlatformByExtension(path.extname(firstDisc.descriptorPath));
+    if (!platform) {
+      return 'skipped';
+    }
+
+    const analysis = await this.romProcessor.processRomFile(mainPath, {
+      fileName: path.basename(launchPath),
+      fileHash: null,
+      detectedPlatform: platform,
+      platformId: null,
+    });
+
+    const { game, created } = await this.gameIngestion.ingest(analysis, launchPath, discSet);
+    return created ? 'added' : this.relocate(game.id, game.isOrphaned, launchPath, discSet);
+  }
+
+  /**
+   * A file with the same content as an orphaned game is that game moved to a new place
+   */
+  private async relocate(gameId: string, isOrphaned: boolean, filePath: string, discSet?: DiscSet): Promise<ImportOutcome> {
+    if (!isOrphaned) {
+      return 'skipped';
+    }
+
+    if (discSet) {
+      await this.prisma.gameDisc.deleteMany({ where: { gameId } });
+      await this.discService.createDiscs(gameId, discSet);
+    }
+
+    await this.prisma.game.update({
+      where: { id: gameId },
+      data: {
+        filePath,
+        fileName: path.basename(filePath),
+        isOrphaned: false,
+        orphanedAt: null,
+      },
+    });
+
+    logger.info(`Orphaned game ${gameId} found at ${filePath}`);
+    return 'restored';
+  }
+
+  /**
+   * Flag games under a root whose file is missing, and unflag those whose file is back
+   */
+  private async markOrphans(root: string): Promise<void> {
+    const games = await this.prisma.game.findMany({
+      where: { filePath: { startsWith: `${root}${path.sep}` } },
+      select: { id: true, filePath: true, isOrphaned: true },
+    });
+
+    for (const game of games) {
+      const exists = await fileExists(game.filePath);
+
+      if (!exists && !game.isOrphaned) {
+        await this.prisma.game.update({
+          where: { id: game.id },
+          data: { isOrphaned: true, orphanedAt: new Date() },
+        });
+        this.status.orphaned++;
+        logger.warn(`Game file missing, marked orphaned: ${game.filePath}`);
+      } else if (exists && game.isOrphaned) {
+        await this.prisma.game.update({
+          where: { id: game.id },
+          data: { isOrphaned: false, orphanedAt: null },
+        });
+        this.status.restored++;
+      }
+    }
+  }
+
+  /**
+   * Every file already referenced by a game, disc or track
+   */
+  private async loadKnownPaths(): Promise<Set<string>> {
+    const [games, discs, tracks] = await Promise.all([
+      this.prisma.game.findMany({ select: { filePath: true } }),
+      this.prisma.gameDisc.findMany({ select: { filePath: true } }),
+      this.prisma.discTrack.findMany({ select: { filePath: true } }),
+    ]);
+
+    return new Set([...games, ...discs, ...tracks].map(record => record.filePath));
+  }
+
+  private async isSettling(files: string[]): Promise<boolean> {
+    for (const file of files) {
+      const stats = await fs.stat(file);
+      if (Date.now() - stats.mtimeMs < FILE_SETTLE_MS) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private queueChange(filePath: string): void {
+    this.pendingChanges.add(filePath);
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+
+    // Wait until events stop, so copies in progress are picked up once complete
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flushChanges().catch(error => {
+        logger.error('Library change import failed:', error);
+      });
+    }, FILE_SETTLE_MS);
+  }
+
+  private async flushChanges(): Promise<void> {
+    if (this.running) {
+      this.flushTimer = setTimeout(() => this.flushChanges().catch(error => {
+        logger.error('Library change import failed:', error);
+      }), FILE_SETTLE_MS);
+      return;
+    }
+
+    const changed = Array.from(this.pendingChanges);
+    this.pendingChanges.clear();
+
+    // New folders are scanned whole; changed files rescan their own folder
+    const targets = new Map<string, ScanTarget>();
+    for (const changedPath of changed) {
+      const stats = await fs.stat(changedPath).catch(() => null);
+      const target = stats?.isDirectory()
+        ? { dir: changedPath, recursive: true }
+        : { dir: path.dirname(changedPath), recursive: false };
+
+      // Deleted folders only matter for orphan detection below
+      if (!(await fileExists(target.dir))) continue;
+
+      if (!targets.get(target.dir)?.recursive) {
+        targets.set(target.dir, target);
+      }
+    }
+
+    const roots = Array.from(this.watchers.keys())
+      .filter(root => changed.some(changedPath => isInside(root, changedPath)));
+
+    await this.run(Array.from(targets.values()), roots);
+  }
+
+  /**
+   * Watch a folder and every folder below it, one watcher each: recursive fs.watch is not
+   * available on Linux before Node 20. Folders created later get watchers as they appear.
+   */
+  private async watchTree(dir: string, dirs: Map<string, FSWatcher>): Promise<void> {
+    if (dirs.has(dir)) return;
+
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(dir, (_event, fileName) => {
+        if (!fileName) return;
+
+        const changedPath = path.join(dir, fileName.toString());
+        this.queueChange(changedPath);
+
+        fs.stat(changedPath)
+          .then(stats => stats.isDirectory() ? this.watchTree(changedPath, dirs) : undefined)
+          .catch(() => this.unwatchTree(changedPath, dirs));
+      });
+    } catch (error) {
+      logger.warn(`Failed to watch library folder ${dir}:`, error);
+      return;
+    }
+
+    watcher.on('error', error => {
+      logger.warn(`Library watcher failed for ${dir}:`, error);
+      this.unwatchTree(dir, dirs);
+    });
+    dirs.set(dir, watcher);
+
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        await this.watchTree(path.join(dir, entry.name), dirs);
+      }
+    }
+  }
+
+  // Close the watchers of a removed folder and the folders that were below it
+  private unwatchTree(dir: string, dirs: Map<string, FSWatcher>): void {
+    for (const [watchedDir, watcher] of dirs) {
+      if (isInside(dir, watchedDir)) {
+        watcher.close();
+        dirs.delete(watchedDir);
+      }
+    }
+  }
+
+  private recordError(filePath: string, error: string): void {
+    this.status.errors.push({ filePath, error });
+    if (this.status.errors.length > MAX_REPORTED_ERRORS) {
+      this.status.errors.shift();
+    }
+  }
+
+  private async broadcastStatus(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - this.lastBroadcast < PROGRESS_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastBroadcast = Date.now();
+    await broadcastToAll({
+      type: 'library_scan',
+      data: this.getStatus(),
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// Helper functions
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function emptyStatus(roots: string[]): LibraryScanStatus {
+  return {
+    state: 'idle',
+    roots,
+    watching: [],
+    filesFound: 0,
+    filesProcessed: 0,
+    added: 0,
+    skipped: 0,
+    failed: 0,
+    orphaned: 0,
+    restored: 0,
+    errors: [],
+  };
+}
+
+// Shared scanner used by the routes and the server's file watcher
+export const libraryScanner = new LibraryScannerService();
+
+export default LibraryScannerService;
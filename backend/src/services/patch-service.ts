@@ -0,0 +1,245 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PrismaClient, RomPatch, Game, Platform, PatchFormat } from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import {
+  calculateBufferCrc32,
+  calculateBufferHash,
+  calculateFileHash,
+  deleteFile,
+  ensureDirectory,
+  generateUniqueFilename,
+  sanitizeFilename,
+} from '../utils/fileUtils';
+import { applyPatch, readPatchInfo, PatchInfo } from '../utils/patchUtils';
+import { RomProcessingService } from './romProcessor';
+import { GameIngestionService, IngestionResult } from './gameIngestion';
+
+export interface PatchUploadOptions {
+  name?: string;
+  description?: string;
+  uploadedBy?: string;
+}
+
+export interface PatchedRom {
+  fileName: string;
+  data: Buffer;
+}
+
+type PatchWithGame = RomPatch & { game: Game & { platform: Platform } };
+
+export class PatchService {
+  private romProcessor: RomProcessingService;
+  private gameIngestion: GameIngestionService;
+
+  constructor(private prisma: PrismaClient) {
+    this.romProcessor = new RomProcessingService(prisma);
+    this.gameIngestion = new GameIngestionService(prisma);
+  }
+
+  /**
+   * Validate a patch against its base game and store it
+   */
+  async uploadPatch(gameId: string, fileName: string, data: Buffer, options: PatchUploadOptions = {}): Promise<RomPatch> {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      include: { platform: true, _count: { select: { discs: true } } },
+    });
+
+    if (!game) {
+      throw new Error('Game not found');
+    }
+    if (game.isArchive || game._count.discs > 0) {
+      throw new Error('Patches can only be applied to single-file ROMs');
+    }
+
+    const info = readPatchInfo(data);
+    const fileHash = calculateBufferHash(data);
+
+    const existing = await this.prisma.romPatch.findUnique({
+      where: { gameId_fileHash: { gameId, fileHash } },
+    });
+    if (existing) {
+      throw new Error('Patch already exists for this game');
+    }
+
+    // A test run proves the patch applies and records what it produces
+    const canonicalSource = await this.matchSource(game, info);
+    const base = await this.readBase(game, canonicalSource);
+    const target = applyPatch(base, data);
+
+    const patchDir = path.join(config.storage.patchDir, gameId);
+    await ensureDirectory(patchDir);
+    const filePath = await generateUniqueFilename(path.join(patchDir, sanitizeFilename(fileName)));
+    await fs.writeFile(filePath, data);
+
+    try {
+      const patch = await this.prisma.romPatch.create({
+        data: {
+          gameId,
+          name: options.name || path.basename(fileName, path.extname(fileName)),
+          description: options.description,
+          format: info.format.toUpperCase() as PatchFormat,
+          fileName,
+          filePath,
+          fileSize: data.length,
+          fileHash,
+          sourceCrc32: info.sourceCrc32,
+          targetCrc32: info.targetCrc32 || calculateBufferCrc32(target).toString(16).padStart(8, '0'),
+          targetSize: target.length,
+          canonicalSource,
+          uploadedBy: options.uploadedBy,
+        },
+      });
+
+      logger.info(`Patch ${patch.name} (${info.format.toUpperCase()}) added to ${game.title}`);
+      return patch;
+    } catch (error) {
+      await deleteFile(filePath);
+      throw error;
+    }
+  }
+
+  /**
+   * List the patches of a base game
+   */
+  async listPatches(gameId: string): Promise<RomPatch[]> {
+    const game = await this.prisma.game.findUnique({ where: { id: gameId }, select: { id: true } });
+
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    return this.prisma.romPatch.findMany({
+      where: { gameId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Delete a patch file and its record; games materialised from it are kept
+   */
+  async deletePatch(gameId: string, patchId: string): Promise<void> {
+    const patch = await this.getPatch(gameId, patchId);
+
+    await deleteFile(patch.filePath);
+    await this.prisma.romPatch.delete({ where: { id: patch.id } });
+
+    logger.info(`Patch ${patch.name} deleted from ${patch.game.title}`);
+  }
+
+  /**
+   * Apply a patch to its base game in memory
+   */
+  async buildPatchedRom(gameId: string, patchId: string): Promise<PatchedRom> {
+    const patch = await this.getPatch(gameId, patchId);
+    const [base, data] = await Promise.all([
+      this.readBase(patch.game, patch.canonicalSource),
+      fs.readFile(patch.filePath),
+    ]);
+
+    const extension = path.extname(patch.game.fileName);
+    return {
+      fileName: `${path.basename(patch.game.fileName, extension)} [${patch.name}]${extension}`,
+      data: applyPatch(base, data),
+    };
+  }
+
+  /**
+   * Write the patched ROM to the library as a game of its own
+   */
+  async materialisePatch(gameId: string, patchId: string): Promise<Game> {
+    const patch = await this.getPatch(gameId, patchId);
+
+    if (patch.derivedGameId) {
+      const derived = await this.prisma.game.findUnique({ where: { id: patch.derivedGameId } });
+      if (derived) return derived;
+    }
+
+    const { fileName, data } = await this.buildPatchedRom(gameId, patchId);
+    const platform = patch.game.platform.shortName;
+    const filePath = await generateUniqueFilename(path.join(config.storage.romDir, platform, sanitizeFilename(fileName)));
+
+    await ensureDirectory(path.dirname(filePath));
+    await fs.writeFile(filePath, data);
+
+    let ingestion: IngestionResult;
+    try {
+      const analysis = await this.romProcessor.processRomFile(filePath, {
+        fileName,
+        fileHash: await calculateFileHash(filePath),
+        detectedPlatform: platform,
+        platformId: patch.game.platformId,
+      });
+      ingestion = await this.gameIngestion.ingest(analysis, filePath);
+    } catch (error) {
+      await deleteFile(filePath);
+      throw error;
+    }
+
+    // The same patched ROM is already in the library
+    const { game, created } = ingestion;
+    if (!created) {
+      await deleteFile(filePath);
+    }
+
+    const derived = await this.prisma.game.update({
+      where: { id: game.id },
+      data: {
+        title: created ? `${patch.game.title} [${patch.name}]` : game.title,
+        emulationNotes: game.emulationNotes || `Patched from ${patch.game.title} with ${patch.fileName}`,
+      },
+    });
+
+    await this.prisma.romPatch.update({
+      where: { id: patch.id },
+      data: { derivedGameId: derived.id },
+    });
+
+    logger.info(`Patch ${patch.name} materialised as game ${derived.id}`);
+    return derived;
+  }
+
+  // Helper functions
+  private async getPatch(gameId: string, patchId: string): Promise<PatchWithGame> {
+    const patch = await this.prisma.romPatch.findUnique({
+      where: { id: patchId },
+      include: { game: { include: { platform: true } } },
+    });
+
+    if (!patch || patch.gameId !== gameId) {
+      throw new Error('Patch not found');
+    }
+
+    return patch;
+  }
+
+  /**
+   * Decide whether a BPS/UPS patch was made against the file as stored or the canonical ROM body
+   * (for example without the copier header); IPS patches carry no CRC and apply to the file
+   */
+  private async matchSource(game: Game & { platform: Platform }, info: PatchInfo): Promise<boolean> {
+    if (!info.sourceCrc32) {
+      return false;
+    }
+    if (game.crc32Hash === info.sourceCrc32) {
+      return true;
+    }
+
+    const fileCrc = calculateBufferCrc32(await fs.readFile(game.filePath)).toString(16).padStart(8, '0');
+    if (fileCrc === info.sourceCrc32) {
+      return false;
+    }
+
+    throw new Error(`Patch expects a base ROM with CRC32 ${info.sourceCrc32}, but ${game.title} is ${game.crc32Hash || fileCrc}`);
+  }
+
+  private async readBase(game: Game & { platform: Platform }, canonicalSource: boolean): Promise<Buffer> {
+    return canonicalSource
+      ? this.romProcessor.readCanonicalRom(game.filePath, game.platform.shortName)
+      : fs.readFile(game.filePath);
+  }
+}
+
+export default PatchService;
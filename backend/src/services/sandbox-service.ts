@@ -0,0 +1,338 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface SandboxOptions {
+  readOnly: string[];       // Files and directories bound read-only at their own path
+  writable: string[];       // Files and directories bound read-write at their own path
+  displayNumber: number;    // X display whose socket is bound in
+  audioSink: string;
+  network: boolean;         // Share the host network, for netplay
+  onViolation?: (violation: LimitViolation) => void;   // Called when the session hits a cgroup limit
+}
+
+export interface SandboxedCommand {
+  command: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+export interface LimitViolation {
+  limit: 'memory' | 'pids';
+  detail: string;
+  at: Date;
+}
+
+interface SessionCgroup {
+  path: string;
+  counts: Record<string, number>;     // Last seen event counters, so each violation is reported once
+  timer: NodeJS.Timeout;
+  onViolation?: (violation: LimitViolation) => void;
+}
+
+// cgroup event counters that mean a session went over a limit
+const LIMIT_EVENTS: Array<{ file: string; key: string; limit: LimitViolation['limit']; detail: string }> = [
+  { file: 'memory.events', key: 'oom_kill', limit: 'memory', detail: 'killed for exceeding the memory limit' },
+  { file: 'pids.events', key: 'max', limit: 'pids', detail: 'refused new processes or threads at the pids limit' }
+];
+
+const LIMIT_POLL_INTERVAL = 5000;
+const CGROUP_REMOVE_TIMEOUT = 2000;
+
+// Host paths RetroArch, its cores, Mesa and the PulseAudio client need; missing ones are skipped
+const SYSTEM_PATHS = [
+  '/usr', '/lib', '/lib64', '/lib32', '/bin', '/sbin',
+  '/etc/ld.so.cache', '/etc/fonts', '/etc/pulse', '/etc/alsa', '/etc/localtime',
+  '/sys/devices/system/cpu'
+];
+const NETWORK_PATHS = ['/etc/resolv.conf', '/etc/hosts', '/etc/nsswitch.conf', '/etc/ssl'];
+
+const SANDBOX_PULSE_DIR = '/run/pulse';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Sandboxes for native emulator processes: bubblewrap namespaces with only the session's content,
+ * BIOS and writable directories mounted, no network unless asked for, a scrubbed environment,
+ * and a cgroup per session with CPU, memory and process limits.
+ */
+export class SandboxService {
+  private cgroups = new Map<string, SessionCgroup>();
+
+  /**
+   * Check once at startup that bubblewrap runs and the cgroup root can hold session cgroups,
+   * so a broken setup stops the server instead of failing every session at launch
+   */
+  async initialize(): Promise<void> {
+    const { mode, bwrapPath, cgroupRoot } = config.emulation.sandbox;
+
+    if (mode === 'bwrap') {
+      try {
+        await execFileAsync(bwrapPath, ['--version']);
+      } catch (error) {
+        throw new Error(`Sandbox tool ${bwrapPath} cannot be run (${error.message}); install bubblewrap or set NATIVE_SANDBOX=none`);
+      }
+    }
+
+    if (!cgroupRoot) {
+      logger.warn('Native sessions run without cgroup limits (SANDBOX_CGROUP_ROOT is empty)');
+      return;
+    }
+
+    try {
+      await fs.mkdir(cgroupRoot, { recursive: true });
+      const controllers = (await fs.readFile(path.join(cgroupRoot, 'cgroup.controllers'), 'utf8')).trim().split(/\s+/);
+      const missing = ['cpu', 'memory', 'pids'].filter(controller => !controllers.includes(controller));
+      if (missing.length > 0) {
+        throw new Error(`controllers ${missing.join(', ')} are not available`);
+      }
+
+      // Controllers have to be enabled on the delegated root before its children can use them
+      await fs.writeFile(path.join(cgroupRoot, 'cgroup.subtree_control'), '+cpu +memory +pids');
+    } catch (error) {
+      throw new Error(
+        `Sandbox cgroup root ${cgroupRoot} is not usable (${error.message}); delegate a cgroup v2 subtree ` +
+        'to the server user or leave SANDBOX_CGROUP_ROOT empty to run sessions without limits'
+      );
+    }
+
+    logger.info(`Native session limits enabled under ${cgroupRoot}`);
+  }
+
+  /**
+   * Set up a session's cgroup and wrap a command so it starts inside the sandbox
+   */
+  async prepare(
+    sessionId: string,
+    command: string,
+    args: string[],
+    options: SandboxOptions
+  ): Promise<SandboxedCommand> {
+    const sandboxed = config.emulation.sandbox.mode === 'bwrap';
+    const pulse = await findPulseFiles();
+
+    const env: NodeJS.ProcessEnv = {
+      PATH: '/usr/local/bin:/usr/bin:/bin',
+      HOME: sandboxed ? '/tmp' : config.storage.tempDir,
+      LANG: 'C.UTF-8',
+      DISPLAY: `:${options.displayNumber}`,
+      PULSE_SINK: options.audioSink,
+      SDL_VIDEODRIVER: 'x11'
+    };
+    if (pulse.socket) {
+      env.PULSE_SERVER = `unix:${sandboxed ? path.join(SANDBOX_PULSE_DIR, 'native') : pulse.socket}`;
+    }
+    if (pulse.cookie) {
+      env.PULSE_COOKIE = sandboxed ? path.join(SANDBOX_PULSE_DIR, 'cookie') : pulse.cookie;
+    }
+
+    let wrapped = { command, args };
+    if (sandboxed) {
+      wrapped = {
+        command: config.emulation.sandbox.bwrapPath,
+        args: [...buildBwrapArgs(command, options, pulse), '--', command, ...args]
+      };
+    } else {
+      logger.warn(`Session ${sessionId} runs without a sandbox (NATIVE_SANDBOX=none)`);
+    }
+
+    if (!config.emulation.sandbox.cgroupRoot) {
+      return { ...wrapped, env };
+    }
+
+    const cgroupPath = await this.createCgroup(sessionId, options.onViolation);
+
+    // The shell moves itself into the cgroup before exec, so nothing RetroArch starts escapes the limits
+    return {
+      command: '/bin/sh',
+      args: [
+        '-c', 'echo $$ > "$1" && shift && exec "$@"',
+        'sandbox',
+        path.join(cgroupPath, 'cgroup.procs'),
+        wrapped.command,
+        ...wrapped.args
+      ],
+      env
+    };
+  }
+
+  /**
+   * Read the session's cgroup events and return limit violations not reported before
+   */
+  async checkLimits(sessionId: string): Promise<LimitViolation[]> {
+    const cgroup = this.cgroups.get(sessionId);
+    if (!cgroup) {
+      return [];
+    }
+
+    const violations: LimitViolation[] = [];
+    for (const event of LIMIT_EVENTS) {
+      const counts = await readEvents(path.join(cgroup.path, event.file));
+      const count = counts[event.key] || 0;
+      const seenKey = `${event.file}:${event.key}`;
+
+      if (count > (cgroup.counts[seenKey] || 0)) {
+        cgroup.counts[seenKey] = count;
+        violations.push({ limit: event.limit, detail: `RetroArch ${event.detail}`, at: new Date() });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Kill anything left in the session's cgroup and remove it
+   */
+  async release(sessionId: string): Promise<void> {
+    const cgroup = this.cgroups.get(sessionId);
+    if (!cgroup) {
+      return;
+    }
+    clearInterval(cgroup.timer);
+    this.cgroups.delete(sessionId);
+
+    // cgroup.kill needs Linux 5.14; the session's processes have normally been stopped already
+    await fs.writeFile(path.join(cgroup.path, 'cgroup.kill'), '1').catch(() => undefined);
+
+    // A cgroup can only be removed once its last process has gone
+    const startTime = Date.now();
+    while (true) {
+      try {
+        await fs.rmdir(cgroup.path);
+        return;
+      } catch (error) {
+        if (error.code === 'ENOENT') return;
+        if (Date.now() - startTime >= CGROUP_REMOVE_TIMEOUT) {
+          logger.warn(`Failed to remove cgroup ${cgroup.path}: ${error.message}`);
+          return;
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+  }
+
+  // Helper functions
+  private async createCgroup(
+    sessionId: string,
+    onViolation?: (violation: LimitViolation) => void
+  ): Promise<string> {
+    const { cgroupRoot, memoryMax, cpuPercent, pidsMax } = config.emulation.sandbox;
+    const cgroupPath = path.join(cgroupRoot, `session-${sessionId}`);
+
+    try {
+      await fs.mkdir(cgroupPath);
+      await fs.writeFile(path.join(cgroupPath, 'memory.max'), memoryMax);
+      await fs.writeFile(path.join(cgroupPath, 'memory.oom.group'), '1');
+      await fs.writeFile(path.join(cgroupPath, 'cpu.max'), `${Math.round(cpuPercent * 1000)} 100000`);
+      await fs.writeFile(path.join(cgroupPath, 'pids.max'), String(pidsMax));
+    } catch (error) {
+      await fs.rmdir(cgroupPath).catch(() => undefined);
+      throw new Error(`Failed to set up sandbox limits in ${cgroupRoot}: ${error.message}`);
+    }
+    // Without swap accounting the file does not exist
+    await fs.writeFile(path.join(cgroupPath, 'memory.swap.max'), '0').catch(() => undefined);
+
+    const timer = setInterval(() => {
+      this.checkLimits(sessionId)
+        .then(violations => violations.forEach(violation => this.cgroups.get(sessionId)?.onViolation?.(violation)))
+        .catch(error => logger.warn(`Failed to read limits of session ${sessionId}: ${error.message}`));
+    }, LIMIT_POLL_INTERVAL);
+    timer.unref();
+
+    this.cgroups.set(sessionId, { path: cgroupPath, counts: {}, timer, onViolation });
+    return cgroupPath;
+  }
+}
+
+function buildBwrapArgs(
+  command: string,
+  options: SandboxOptions,
+  pulse: { socket?: string; cookie?: string }
+): string[] {
+  const args = [
+    '--die-with-parent',
+    '--new-session',
+    '--unshare-all',
+    ...(options.network ? ['--share-net'] : []),
+    '--cap-drop', 'ALL'
+  ];
+
+  const systemPaths = options.network ? [...SYSTEM_PATHS, ...NETWORK_PATHS] : SYSTEM_PATHS;
+  for (const systemPath of systemPaths) {
+    args.push('--ro-bind-try', systemPath, systemPath);
+  }
+  args.push('--proc', '/proc', '--dev', '/dev', '--tmpfs', '/tmp');
+
+  // Only the session's own X server is reachable; Xvfb listens on its socket and not on TCP
+  const xSocket = `/tmp/.X11-unix/X${options.displayNumber}`;
+  args.push('--ro-bind', xSocket, xSocket);
+
+  if (pulse.socket) {
+    args.push('--ro-bind', pulse.socket, path.join(SANDBOX_PULSE_DIR, 'native'));
+  }
+  if (pulse.cookie) {
+    args.push('--ro-bind', pulse.cookie, path.join(SANDBOX_PULSE_DIR, 'cookie'));
+  }
+
+  if (path.isAbsolute(command) && !command.startsWith('/usr/')) {
+    args.push('--ro-bind', command, command);
+  }
+  for (const readOnly of new Set(options.readOnly)) {
+    args.push('--ro-bind', readOnly, readOnly);
+  }
+  for (const writable of new Set(options.writable)) {
+    args.push('--bind', writable, writable);
+  }
+
+  args.push('--chdir', '/tmp');
+  return args;
+}
+
+// The PulseAudio socket and cookie the server itself would use
+async function findPulseFiles(): Promise<{ socket?: string; cookie?: string }> {
+  const socket = config.emulation.sandbox.pulseSocket
+    || (process.env.XDG_RUNTIME_DIR && path.join(process.env.XDG_RUNTIME_DIR, 'pulse', 'native'));
+  const cookie = process.env.PULSE_COOKIE || path.join(os.homedir(), '.config', 'pulse', 'cookie');
+
+  return {
+    socket: socket && await exists(socket) ? socket : undefined,
+    cookie: await exists(cookie) ? cookie : undefined
+  };
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Parse a cgroup "key value" events file; a missing file has no events
+async function readEvents(filePath: string): Promise<Record<string, number>> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+
+  const counts: Record<string, number> = {};
+  for (const line of content.split('\n')) {
+    const [key, value] = line.trim().split(/\s+/);
+    if (key && value !== undefined) {
+      counts[key] = Number(value);
+    }
+  }
+  return counts;
+}
+
+export const sandbox = new SandboxService();
+
+export default SandboxService;
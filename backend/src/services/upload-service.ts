@@ -3,12 +3,18 @@ import path from 'path';
 import crypto from 'crypto';
 import { createReadStream, createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
-import { PrismaClient, Upload, UploadStatus } from '@prisma/client';
-import { config, getPlatformByExtension, getPlatformConfig, getMaxFileSize } from '../config';
+import { PrismaClient, Prisma, Game, Platform, Upload, UploadChunk, UploadEntry, UploadEntryStatus, UploadStatus } from '@prisma/client';
+import { config, getPlatformConfig, getPlatformDefinition, getMaxFileSize } from '../config';
 import { logger } from '../utils/logger';
-import { validateFileSignature, calculateFileHash } from '../utils/fileUtils';
-import { broadcastUploadProgress } from './websocket';
-import { processRomFile } from './romProcessor';
+import { validateFileSignature, calculateFileHash, generateUniqueFilename, moveFile } from '../utils/fileUtils';
+import { isArchiveFile } from '../utils/archiveUtils';
+import { scanFile } from '../utils/clamavClient';
+import { getExtensionCandidates } from '../utils/platformDetector';
+import { broadcastUploadProgress, UploadEntryProgress } from './websocket';
+import { RomProcessingService, ArchiveInspection, RomAnalysis } from './romProcessor';
+import { GameIngestionService } from './gameIngestion';
+import { DiscService, DiscSet } from './discs';
+import { jobQueue, Job } from './jobQueue';
 
 export interface ChunkUploadRequest {
   uploadId: string;
@@ -26,6 +32,14 @@ export interface UploadInitiateRequest {
   fileHash: string;
   chunkSize: number;
   mimeType?: string;
+  platformId?: string; // Platform id or short name chosen by the uploader, skipping detection
+  chunkHashes?: string[]; // SHA-256 of each chunk; chunks the server already holds are not sent again
+}
+
+export interface UploadInitiateResult {
+  upload: Upload;
+  alreadyPresent?: Game;  // Game already holding a file with this hash; nothing needs to be sent
+  reusedChunks: number[]; // Chunks taken from earlier uploads, which the client skips
 }
 
 export interface UploadProgressUpdate {
@@ -38,48 +52,63 @@ export interface UploadProgressUpdate {
   speed?: number;
   eta?: number;
   error?: string;
+  threats?: string[];
+  entry?: UploadEntryProgress;
 }
 
+export type UploadDetails = Upload & { chunks: UploadChunk[]; entries: UploadEntry[]; platform: Platform | null };
+
 export class UploadService {
-  constructor(private prisma: PrismaClient) {}
+  private romProcessor: RomProcessingService;
+  private gameIngestion: GameIngestionService;
+  private discService: DiscService;
+
+  constructor(private prisma: PrismaClient) {
+    this.romProcessor = new RomProcessingService(prisma);
+    this.gameIngestion = new GameIngestionService(prisma);
+    this.discService = new DiscService(prisma);
+  }
 
   /**
    * Initiate a new chunked upload
    */
-  async initiateUpload(request: UploadInitiateRequest): Promise<Upload> {
-    const { fileName, fileSize, fileHash, chunkSize, mimeType } = request;
+  async initiateUpload(request: UploadInitiateRequest): Promise<UploadInitiateResult> {
+    const { fileName, fileSize, fileHash, chunkSize, mimeType, chunkHashes } = request;
 
     // Validate file extension
     const extension = path.extname(fileName).toLowerCase();
-    const detectedPlatform = getPlatformByExtension(extension);
+    const platformCandidates = getExtensionCandidates(fileName, fileSize);
     
-    if (!detectedPlatform) {
+    if (platformCandidates.length === 0) {
       throw new Error(`Unsupported file format: ${extension}`);
     }
 
-    // Validate file size
-    const maxSize = getMaxFileSize(detectedPlatform);
+    const chosenPlatform = request.platformId
+      ? await this.resolveChosenPlatform(request.platformId, fileName)
+      : null;
+    const detectedPlatform = chosenPlatform?.shortName || platformCandidates[0].platformId;
+
+    // Validate file size; until the contents decide, any platform using the extension may apply
+    const maxSize = chosenPlatform
+      ? getMaxFileSize(chosenPlatform.shortName)
+      : Math.max(...platformCandidates.map(candidate => getMaxFileSize(candidate.platformId)));
     if (fileSize > maxSize) {
-      throw new Error(`File size ${fileSize} exceeds maximum allowed size ${maxSize} for platform ${detectedPlatform}`);
+      throw new Error(`File size ${fileSize} exceeds maximum allowed size ${maxSize} for platform ${chosenPlatform?.shortName || extension}`);
     }
 
-    // Check for existing upload with same hash
-    const existingUpload = await this.prisma.upload.findFirst({
-      where: {
-        fileHash,
-        status: {
-          in: [UploadStatus.COMPLETED]
-        }
-      }
+    // Known content completes at once, pointing at the game that already holds it
+    const existingGame = await this.prisma.game.findUnique({
+      where: { fileHash },
+      include: { platform: true }
     });
 
-    if (existingUpload) {
-      throw new Error('File already exists in the system');
-    }
-
     // Calculate total chunks
     const totalChunks = Math.ceil(fileSize / chunkSize);
 
+    if (chunkHashes && chunkHashes.length !== totalChunks) {
+      throw new Error(`Expected ${totalChunks} chunk hashes, got ${chunkHashes.length}`);
+    }
+
     // Create upload record
     const upload = await this.prisma.upload.create({
       data: {
@@ -90,10 +119,15 @@ export class UploadService {
         mimeType,
         totalChunks,
         chunkSize,
-        detectedPlatform,
-        platformId: detectedPlatform,
+        detectedPlatform: existingGame?.platform.shortName || detectedPlatform,
+        platformId: existingGame ? existingGame.platformId : chosenPlatform?.id,
+        platformCandidates: (chosenPlatform || existingGame ? [] : platformCandidates) as unknown as Prisma.InputJsonValue,
         tempPath: path.join(config.storage.tempDir, `${crypto.randomUUID()}-${fileName}`),
-        status: UploadStatus.INITIATED,
+        status: existingGame ? UploadStatus.COMPLETED : UploadStatus.INITIATED,
+        uploadedChunks: existingGame ? totalChunks : 0,
+        finalPath: existingGame?.filePath,
+        processingCompleted: existingGame ? new Date() : undefined,
+        gameId: existingGame?.id,
         expiresAt: new Date(Date.now() + config.upload.timeout * 1000),
       },
       include: {
@@ -102,6 +136,12 @@ export class UploadService {
       }
     });
 
+    if (existingGame) {
+      logger.info(`Upload ${upload.id} of ${fileName} is already in the library as ${existingGame.title} (${existingGame.id})`);
+      await this.broadcastProgress(upload.id);
+      return { upload, alreadyPresent: existingGame, reusedChunks: [] };
+    }
+
     // Create chunk records
     const chunkPromises = Array.from({ length: totalChunks }, (_, index) => 
       this.prisma.uploadChunk.create({
@@ -111,20 +151,78 @@ export class UploadService {
           chunkSize: index === totalChunks - 1 
             ? fileSize - (index * chunkSize) // Last chunk may be smaller
             : chunkSize,
-          chunkHash: '',
+          chunkHash: chunkHashes?.[index]?.toLowerCase() || '',
           chunkPath: path.join(config.storage.tempDir, `${upload.id}-chunk-${index}`),
         }
       })
     );
 
-    await Promise.all(chunkPromises);
+    const chunks = await Promise.all(chunkPromises);
+    const reusedChunks = chunkHashes ? await this.reuseKnownChunks(upload.id, chunks) : [];
 
-    logger.info(`Upload initiated: ${upload.id} for file ${fileName}`);
+    logger.info(`Upload initiated: ${upload.id} for file ${fileName}` +
+      (reusedChunks.length > 0 ? `, ${reusedChunks.length}/${totalChunks} chunks already on the server` : ''));
     
     // Broadcast initial progress
     await this.broadcastProgress(upload.id);
 
-    return upload;
+    if (reusedChunks.length === totalChunks) {
+      await this.queueProcessing(upload.id);
+    }
+
+    const current = await this.prisma.upload.findUniqueOrThrow({
+      where: { id: upload.id },
+      include: { chunks: true, platform: true }
+    });
+    return { upload: current, reusedChunks };
+  }
+
+  /**
+   * Link chunks whose declared hash was already received by another upload, for example one that
+   * failed processing, so the client does not send them again
+   */
+  private async reuseKnownChunks(uploadId: string, chunks: UploadChunk[]): Promise<number[]> {
+    const hashes = [...new Set(chunks.map(chunk => chunk.chunkHash).filter(Boolean))];
+    const known = await this.prisma.uploadChunk.findMany({
+      where: {
+        chunkHash: { in: hashes },
+        isUploaded: true,
+        uploadId: { not: uploadId },
+      },
+      orderBy: { uploadedAt: 'desc' },
+    });
+
+    const reused: number[] = [];
+    for (const chunk of chunks) {
+      const sources = known.filter(source => source.chunkHash === chunk.chunkHash && source.chunkSize === chunk.chunkSize);
+
+      for (const source of sources) {
+        try {
+          await fs.link(source.chunkPath, chunk.chunkPath).catch(() => fs.copyFile(source.chunkPath, chunk.chunkPath));
+        } catch {
+          continue; // Chunk file already cleaned up
+        }
+
+        await this.prisma.uploadChunk.update({
+          where: { id: chunk.id },
+          data: { isUploaded: true, uploadedAt: new Date() }
+        });
+        reused.push(chunk.chunkIndex);
+        break;
+      }
+    }
+
+    if (reused.length > 0) {
+      await this.prisma.upload.update({
+        where: { id: uploadId },
+        data: {
+          uploadedChunks: reused.length,
+          status: reused.length === chunks.length ? UploadStatus.PROCESSING : UploadStatus.UPLOADING,
+        }
+      });
+    }
+
+    return reused;
   }
 
   /**
@@ -170,6 +268,9 @@ export class UploadService {
 
     // Calculate and verify chunk hash
     const chunkHash = crypto.createHash('sha256').update(chunkBuffer).digest('hex');
+    if (chunk.chunkHash && chunk.chunkHash !== chunkHash) {
+      throw new Error(`Chunk hash mismatch. Expected ${chunk.chunkHash}, got ${chunkHash}`);
+    }
 
     try {
       // Ensure temp directory exists
@@ -178,9 +279,9 @@ export class UploadService {
       // Write chunk to temporary file
       await fs.writeFile(chunk.chunkPath, chunkBuffer);
 
-      // Update chunk record
-      await this.prisma.uploadChunk.update({
-        where: { id: chunk.id },
+      // Chunks arrive concurrently: only the request that flips the chunk to uploaded counts it
+      const claimed = await this.prisma.uploadChunk.updateMany({
+        where: { id: chunk.id, isUploaded: false },
         data: {
           isUploaded: true,
           chunkHash,
@@ -188,29 +289,35 @@ export class UploadService {
         }
       });
 
-      // Update upload progress
-      const uploadedChunks = upload.uploadedChunks + 1;
-      await this.prisma.upload.update({
+      if (claimed.count === 0) {
+        return { success: true, isComplete: await this.checkUploadComplete(uploadId) };
+      }
+
+      // Update upload progress; activity keeps the upload from expiring
+      const { uploadedChunks } = await this.prisma.upload.update({
         where: { id: uploadId },
         data: {
-          uploadedChunks,
-          status: uploadedChunks === upload.totalChunks 
-            ? UploadStatus.PROCESSING 
-            : UploadStatus.UPLOADING,
-          updatedAt: new Date(),
+          uploadedChunks: { increment: 1 },
+          expiresAt: new Date(Date.now() + config.upload.timeout * 1000),
         }
       });
 
+      const isComplete = uploadedChunks === upload.totalChunks;
+      await this.prisma.upload.updateMany({
+        where: isComplete
+          ? { id: uploadId }
+          : { id: uploadId, status: UploadStatus.INITIATED },
+        data: { status: isComplete ? UploadStatus.PROCESSING : UploadStatus.UPLOADING }
+      });
+
       logger.info(`Chunk ${chunkIndex}/${upload.totalChunks} uploaded for ${uploadId}`);
 
       // Broadcast progress update
       await this.broadcastProgress(uploadId);
 
-      const isComplete = uploadedChunks === upload.totalChunks;
-
-      // If all chunks uploaded, start processing
+      // If all chunks uploaded, hand the upload to the ingest queue
       if (isComplete) {
-        setImmediate(() => this.processUpload(uploadId));
+        await this.queueProcessing(uploadId);
       }
 
       return { success: true, isComplete };
@@ -222,7 +329,21 @@ export class UploadService {
   }
 
   /**
-   * Process completed upload - assemble chunks and validate
+   * Queue a completed upload for processing; an upload has at most one pending ingest job
+   */
+  async queueProcessing(uploadId: string): Promise<Job> {
+    return jobQueue.add('ingest', { uploadId }, { jobId: getIngestJobId(uploadId) });
+  }
+
+  /**
+   * Get the ingest job of an upload, if one was queued
+   */
+  async getProcessingJob(uploadId: string): Promise<Job | null> {
+    return jobQueue.getJob(getIngestJobId(uploadId));
+  }
+
+  /**
+   * Process completed upload - assemble chunks and validate. Runs as an ingest job.
    */
   async processUpload(uploadId: string): Promise<void> {
     try {
@@ -235,6 +356,13 @@ export class UploadService {
         throw new Error('Upload not found');
       }
 
+      // A job requeued after a crash may find its upload already finished
+      const finished: UploadStatus[] = [UploadStatus.COMPLETED, UploadStatus.QUARANTINED, UploadStatus.CANCELLED];
+      if (finished.includes(upload.status)) {
+        logger.info(`Upload ${uploadId} is already ${upload.status}, nothing to process`);
+        return;
+      }
+
       logger.info(`Processing upload ${uploadId}: ${upload.fileName}`);
 
       // Update status to processing
@@ -254,23 +382,86 @@ export class UploadService {
       // Validate assembled file
       await this.validateAssembledFile(upload, finalPath);
 
+      // Archives holding several games are ingested one game per ROM
+      const archive = isArchiveFile(upload.fileName)
+        ? await this.romProcessor.inspectArchive(finalPath, upload)
+        : undefined;
+
+      // Malware scan of the upload and every extracted member, before anything reaches the library
+      if (config.processing.enableVirusScan) {
+        const threats = await this.scanForThreats(finalPath, archive);
+        if (threats.length > 0) {
+          await this.quarantineUpload(upload, finalPath, threats, archive);
+          return;
+        }
+
+        await this.prisma.upload.update({
+          where: { id: uploadId },
+          data: { scannedAt: new Date() }
+        });
+      }
+
+      if (archive?.kind === 'collection') {
+        await this.ingestCollection(upload, archive);
+        return;
+      }
+
       // Process ROM file (extract metadata, validate format, etc.)
-      const gameData = await processRomFile(finalPath, upload);
+      const gameData = await this.romProcessor.processRomFile(finalPath, upload, archive);
+
+      // Identical file already in the library: reuse its game instead of storing a second copy
+      const existingGame = gameData.isDuplicate
+        ? await this.prisma.game.findUnique({ where: { fileHash: gameData.fileHash } })
+        : null;
+
+      let finalStoragePath: string;
+      let discSet: DiscSet | undefined;
+      let setDir: string | undefined;
+      if (existingGame) {
+        finalStoragePath = existingGame.filePath;
+        await fs.unlink(finalPath);
+      } else if (gameData.discSet && gameData.extractDir) {
+        ({ finalStoragePath, discSet, setDir } = await this.storeDiscSet(upload, gameData));
+        await fs.unlink(finalPath);
+      } else {
+        // Move file to final location
+        finalStoragePath = await generateUniqueFilename(this.generateFinalPath(upload, gameData.detectedPlatform, gameData.metadata));
+        await fs.mkdir(path.dirname(finalStoragePath), { recursive: true });
+        await fs.rename(finalPath, finalStoragePath);
+      }
 
-      // Move file to final location
-      const finalStoragePath = this.generateFinalPath(upload, gameData);
-      await fs.mkdir(path.dirname(finalStoragePath), { recursive: true });
-      await fs.rename(finalPath, finalStoragePath);
+      // Create the game record
+      let game: Game;
+      if (existingGame) {
+        game = existingGame;
+      } else {
+        const ingestion = await this.gameIngestion.ingest(gameData, finalStoragePath, discSet);
+        game = ingestion.game;
+
+        // Another ingestion of the same file won the race, so the copy just stored is not needed
+        if (!ingestion.created) {
+          await fs.rm(setDir || finalStoragePath, { recursive: true, force: true });
+          finalStoragePath = game.filePath;
+        }
+      }
+
+      if (gameData.extractDir) {
+        await fs.rm(gameData.extractDir, { recursive: true, force: true });
+      }
 
       // Update upload record
       await this.prisma.upload.update({
         where: { id: uploadId },
         data: {
           status: UploadStatus.COMPLETED,
+          detectedPlatform: gameData.detectedPlatform,
+          platformId: game.platformId,
+          platformCandidates: gameData.platformCandidates as unknown as Prisma.InputJsonValue,
           finalPath: finalStoragePath,
           processingCompleted: new Date(),
           isValidated: true,
           extractedMetadata: gameData as any,
+          gameId: game.id,
         }
       });
 
@@ -292,15 +483,244 @@ export class UploadService {
       });
 
       await this.broadcastProgress(uploadId);
+
+      // The same file fails validation the same way every time, so only other errors are retried
+      if (isValidationError(error)) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Scan an assembled upload and, for archives, each extracted member with ClamAV
+   */
+  private async scanForThreats(filePath: string, archive?: ArchiveInspection): Promise<string[]> {
+    const threats: string[] = [];
+
+    const result = await scanFile(filePath, config.processing.clamav);
+    threats.push(...result.viruses);
+
+    for (const member of archive?.contents || []) {
+      const memberResult = await scanFile(path.join(archive!.extractDir, member), config.processing.clamav);
+      threats.push(...memberResult.viruses.map(virus => `${virus} (${member})`));
+    }
+
+    return threats;
+  }
+
+  /**
+   * Move an infected upload out of reach and mark it QUARANTINED
+   */
+  private async quarantineUpload(
+    upload: Upload & { chunks: any[] },
+    filePath: string,
+    threats: string[],
+    archive?: ArchiveInspection
+  ): Promise<void> {
+    const quarantinePath = await generateUniqueFilename(
+      path.join(config.storage.quarantineDir, `${upload.id}-${this.sanitizeFileName(upload.fileName)}`)
+    );
+
+    await moveFile(filePath, quarantinePath);
+    await fs.chmod(quarantinePath, 0o400);
+
+    if (archive) {
+      await fs.rm(archive.extractDir, { recursive: true, force: true });
+    }
+
+    await this.prisma.upload.update({
+      where: { id: upload.id },
+      data: {
+        status: UploadStatus.QUARANTINED,
+        scannedAt: new Date(),
+        threats,
+        quarantinePath,
+        processingCompleted: new Date(),
+        processingError: `Malware detected: ${threats.join(', ')}`,
+      }
+    });
+
+    await this.cleanupTempFiles(upload);
+
+    logger.warn(`Upload ${upload.id} (${upload.fileName}) quarantined to ${quarantinePath}: ${threats.join(', ')}`);
+    await this.broadcastProgress(upload.id);
+  }
+
+  /**
+   * Ingest every ROM of a collection archive as a game of its own; a ROM that fails is reported
+   * on its entry and the others carry on
+   */
+  private async ingestCollection(upload: Upload & { chunks: any[] }, archive: ArchiveInspection): Promise<void> {
+    // Disc sets are listed by their first disc
+    const members: Array<{ path: string; discSet?: DiscSet }> = [
+      ...archive.romFiles.map(romFile => ({ path: romFile })),
+      ...(archive.discSets || []).map(discSet => ({
+        path: path.relative(archive.extractDir, discSet.discs[0].descriptorPath),
+        discSet,
+      })),
+    ];
+    const total = members.length;
+    let ingested = 0;
+
+    logger.info(`Upload ${upload.id} is a collection of ${total} games`);
+
+    await this.prisma.upload.update({
+      where: { id: upload.id },
+      data: {
+        isCollection: true,
+        entries: { create: members.map(member => ({ path: member.path })) },
+      },
+    });
+
+    try {
+      for (const [index, member] of members.entries()) {
+        const entry = { path: member.path, index: index + 1, total };
+        await this.updateEntry(upload.id, { ...entry, status: UploadEntryStatus.PROCESSING });
+
+        try {
+          const game = await this.ingestCollectionEntry(upload, archive.extractDir, member.path, member.discSet);
+          ingested++;
+          await this.updateEntry(upload.id, { ...entry, status: UploadEntryStatus.COMPLETED, gameId: game.id });
+        } catch (error) {
+          logger.error(`Failed to ingest ${member.path} from upload ${upload.id}:`, error);
+          await this.updateEntry(upload.id, { ...entry, status: UploadEntryStatus.FAILED, error: error.message });
+        }
+      }
+    } finally {
+      await fs.rm(archive.extractDir, { recursive: true, force: true });
+    }
+
+    if (ingested === 0) {
+      throw new Error(`None of the ${total} ROMs in the archive could be ingested`);
+    }
+
+    await this.prisma.upload.update({
+      where: { id: upload.id },
+      data: {
+        status: UploadStatus.COMPLETED,
+        processingCompleted: new Date(),
+        processingError: ingested < total ? `${total - ingested} of ${total} ROMs could not be ingested` : null,
+        isValidated: true,
+        validationError: archive.skippedEntries.join('; ') || null,
+      }
+    });
+
+    // The games keep their own files; the archive itself is not stored
+    await this.cleanupTempFiles(upload);
+
+    logger.info(`Upload ${upload.id} processed successfully: ${ingested} of ${total} games`);
+    await this.broadcastProgress(upload.id);
+  }
+
+  /**
+   * Store one ROM of a collection and create its game, or return the game already holding the file
+   */
+  private async ingestCollectionEntry(upload: Upload, extractDir: string, entryPath: string, discSet?: DiscSet): Promise<Game> {
+    const romPath = path.join(extractDir, entryPath);
+    const fileName = path.basename(romPath);
+
+    // A disc set is analysed from its own files, as if it had been uploaded alone
+    const inspection: ArchiveInspection | undefined = discSet && {
+      kind: 'game',
+      extractDir,
+      contents: discSet.discs.flatMap(disc => [disc.descriptorPath, ...disc.tracks.map(track => track.filePath)])
+        .map(member => path.relative(extractDir, member)),
+      romFiles: [],
+      discSet,
+      skippedEntries: [],
+    };
+
+    // The archive's own platform guess came from its extension; each ROM is detected on its own
+    const gameData = await this.romProcessor.processRomFile(romPath, {
+      fileName,
+      fileHash: await calculateFileHash(romPath),
+      platformId: upload.platformId,
+      detectedPlatform: upload.platformId
+        ? upload.detectedPlatform
+        : getExtensionCandidates(fileName)[0]?.platformId || upload.detectedPlatform,
+    }, inspection);
+
+    if (gameData.isDuplicate) {
+      const existingGame = await this.prisma.game.findUnique({ where: { fileHash: gameData.fileHash } });
+      if (existingGame) {
+        return existingGame;
+      }
+    }
+
+    if (gameData.discSet) {
+      const stored = await this.storeDiscSet({ ...upload, fileName }, gameData);
+      try {
+        const { game, created } = await this.gameIngestion.ingest(gameData, stored.finalStoragePath, stored.discSet);
+        if (!created) {
+          await fs.rm(stored.setDir, { recursive: true, force: true });
+        }
+        return game;
+      } catch (error) {
+        await fs.rm(stored.setDir, { recursive: true, force: true });
+        throw error;
+      }
+    }
+
+    const finalStoragePath = await generateUniqueFilename(
+      this.generateFinalPath({ ...upload, fileName }, gameData.detectedPlatform, gameData.metadata)
+    );
+    await fs.mkdir(path.dirname(finalStoragePath), { recursive: true });
+    await fs.rename(romPath, finalStoragePath);
+
+    try {
+      const { game, created } = await this.gameIngestion.ingest(gameData, finalStoragePath);
+      if (!created) {
+        await fs.rm(finalStoragePath, { force: true });
+      }
+      return game;
+    } catch (error) {
+      await fs.rm(finalStoragePath, { force: true });
       throw error;
     }
   }
 
+  /**
+   * Move an analysed disc set into its own library directory, with an .m3u for multi-disc games
+   */
+  private async storeDiscSet(
+    upload: Upload,
+    gameData: RomAnalysis
+  ): Promise<{ finalStoragePath: string; discSet: DiscSet; setDir: string }> {
+    const setDir = await generateUniqueFilename(this.generateFinalPath(upload, gameData.detectedPlatform, gameData.metadata, ''));
+    const discSet = await this.discService.storeDiscSet(gameData.discSet!, gameData.extractDir!, setDir);
+
+    const descriptors = discSet.discs.map(disc => disc.descriptorPath);
+    if (descriptors.length === 1) {
+      return { finalStoragePath: descriptors[0], discSet, setDir };
+    }
+
+    const finalStoragePath = path.join(setDir, `${path.basename(setDir)}.m3u`);
+    await this.discService.writePlaylist(finalStoragePath, descriptors);
+    return { finalStoragePath, discSet, setDir };
+  }
+
+  /**
+   * Record the outcome of a collection entry and report it to the uploader
+   */
+  private async updateEntry(uploadId: string, entry: UploadEntryProgress & { status: UploadEntryStatus }): Promise<void> {
+    await this.prisma.uploadEntry.update({
+      where: { uploadId_path: { uploadId, path: entry.path } },
+      data: {
+        status: entry.status,
+        gameId: entry.gameId,
+        error: entry.error,
+      }
+    });
+
+    await this.broadcastProgress(uploadId, entry);
+  }
+
   /**
    * Assemble chunks into final file
    */
   private async assembleChunks(upload: Upload & { chunks: any[] }): Promise<string> {
-    const assembledPath = `${upload.tempPath}.assembled`;
+    const assembledPath = getAssembledPath(upload);
     const writeStream = createWriteStream(assembledPath);
 
     try {
@@ -357,10 +777,13 @@ export class UploadService {
   /**
    * Generate final storage path for processed ROM
    */
-  private generateFinalPath(upload: Upload, gameData: any): string {
-    const platform = upload.detectedPlatform || 'unknown';
+  private generateFinalPath(
+    upload: Upload,
+    platform: string,
+    gameData: any,
+    extension: string = path.extname(upload.fileName)
+  ): string {
     const sanitizedTitle = this.sanitizeFileName(gameData?.title || upload.fileName);
-    const extension = path.extname(upload.fileName);
     
     return path.join(
       config.storage.romDir,
@@ -375,7 +798,7 @@ export class UploadService {
   private async cleanupTempFiles(upload: Upload & { chunks: any[] }): Promise<void> {
     const filesToDelete = [
       upload.tempPath,
-      `${upload.tempPath}.assembled`,
+      getAssembledPath(upload),
       ...upload.chunks.map(chunk => chunk.chunkPath)
     ];
 
@@ -409,6 +832,9 @@ export class UploadService {
     if (upload.status === UploadStatus.COMPLETED) {
       throw new Error('Cannot cancel completed upload');
     }
+    if (upload.status === UploadStatus.QUARANTINED) {
+      throw new Error('Cannot cancel quarantined upload');
+    }
 
     // Update status
     await this.prisma.upload.update({
@@ -426,13 +852,16 @@ export class UploadService {
   /**
    * Get upload status
    */
-  async getUploadStatus(uploadId: string): Promise<Upload | null> {
+  async getUploadStatus(uploadId: string): Promise<UploadDetails | null> {
     return this.prisma.upload.findUnique({
       where: { id: uploadId },
       include: {
         chunks: {
           orderBy: { chunkIndex: 'asc' }
         },
+        entries: {
+          orderBy: { path: 'asc' }
+        },
         platform: true
       }
     });
@@ -453,7 +882,7 @@ export class UploadService {
   /**
    * Broadcast upload progress via WebSocket
    */
-  private async broadcastProgress(uploadId: string): Promise<void> {
+  private async broadcastProgress(uploadId: string, entry?: UploadEntryProgress): Promise<void> {
     const upload = await this.getUploadStatus(uploadId);
     if (!upload) return;
 
@@ -464,8 +893,14 @@ export class UploadService {
       uploadedChunks: upload.uploadedChunks,
       totalChunks: upload.totalChunks,
       status: upload.status,
+      error: upload.processingError || undefined,
+      entry,
     };
 
+    if (upload.status === UploadStatus.QUARANTINED) {
+      progressUpdate.threats = upload.threats;
+    }
+
     // Calculate speed and ETA if uploading
     if (upload.status === UploadStatus.UPLOADING && upload.uploadedChunks > 0) {
       const elapsedTime = (Date.now() - upload.createdAt.getTime()) / 1000;
@@ -479,6 +914,28 @@ export class UploadService {
     await broadcastUploadProgress(progressUpdate);
   }
 
+  /**
+   * Look up the platform chosen by the uploader and check it can take the file
+   */
+  private async resolveChosenPlatform(platformId: string, fileName: string): Promise<Platform> {
+    const platform = await this.prisma.platform.findFirst({
+      where: { OR: [{ id: platformId }, { shortName: platformId }] },
+    });
+
+    const definition = platform && getPlatformDefinition(platform.shortName);
+    if (!platform || !definition) {
+      throw new Error(`Unknown platform: ${platformId}`);
+    }
+
+    // Archives are checked against the platform once extracted
+    const extension = path.extname(fileName).toLowerCase();
+    if (!isArchiveFile(fileName) && !definition.extensions.includes(extension)) {
+      throw new Error(`Unsupported file format for platform ${platform.shortName}: ${extension}`);
+    }
+
+    return platform;
+  }
+
   /**
    * Sanitize filename for safe storage
    */
@@ -497,7 +954,12 @@ export class UploadService {
     const expiredUploads = await this.prisma.upload.findMany({
       where: {
         OR: [
-          { expiresAt: { lt: new Date() } },
+          // Quarantined uploads are kept as the record of what was found; uploads being processed
+          // outlive their expiry until the ingest job has finished with them
+          {
+            expiresAt: { lt: new Date() },
+            status: { notIn: [UploadStatus.QUARANTINED, UploadStatus.PROCESSING] }
+          },
           { 
             status: { in: [UploadStatus.FAILED, UploadStatus.CANCELLED] },
             updatedAt: { lt: new Date(Date.now() - 24 * 60 * 60 * 1000) } // 24 hours ago
@@ -507,20 +969,73 @@ export class UploadService {
       include: { chunks: true }
     });
 
+    let cleaned = 0;
     for (const upload of expiredUploads) {
       try {
+        // A completed upload still waiting for its ingest job needs its chunks
+        const job = await jobQueue.getJob(getIngestJobId(upload.id));
+        if (job && job.state !== 'completed' && job.state !== 'dead') {
+          continue;
+        }
+
         await this.cleanupTempFiles(upload);
         await this.prisma.upload.delete({ where: { id: upload.id } });
         logger.info(`Cleaned up expired upload: ${upload.id}`);
+        cleaned++;
       } catch (error) {
         logger.error(`Failed to cleanup upload ${upload.id}:`, error);
       }
     }
 
-    if (expiredUploads.length > 0) {
-      logger.info(`Cleaned up ${expiredUploads.length} expired uploads`);
+    if (cleaned > 0) {
+      logger.info(`Cleaned up ${cleaned} expired uploads`);
     }
   }
 }
 
+/**
+ * Pack the chunks still to be sent into a base64 bitmap: bit i (least significant bit first) is
+ * set when chunk i is missing
+ */
+export function encodeMissingChunks(upload: UploadDetails): string {
+  const bitmap = Buffer.alloc(Math.ceil(upload.totalChunks / 8));
+
+  // Uploads completed from an existing game have no chunk rows and nothing missing
+  if (upload.chunks.length > 0) {
+    const received = new Set(upload.chunks.filter(chunk => chunk.isUploaded).map(chunk => chunk.chunkIndex));
+    for (let index = 0; index < upload.totalChunks; index++) {
+      if (!received.has(index)) {
+        bitmap[index >> 3] |= 1 << (index & 7);
+      }
+    }
+  }
+
+  return bitmap.toString('base64');
+}
+
+function getIngestJobId(uploadId: string): string {
+  return `ingest-${uploadId}`;
+}
+
+// Messages of errors caused by the uploaded file itself rather than by the database or the disk
+const VALIDATION_ERRORS = [
+  'Upload not found',
+  'size mismatch',
+  'hash mismatch',
+  'Unsafe archive',
+  'Unsupported archive format',
+  'No files could be extracted',
+  'No files found in archive',
+  'No valid ROM files found in archive',
+];
+
+function isValidationError(error: Error): boolean {
+  return VALIDATION_ERRORS.some(message => error.message?.includes(message));
+}
+
+// Assembled files keep the uploaded name so archives are recognised by extension
+function getAssembledPath(upload: Upload): string {
+  return path.join(path.dirname(upload.tempPath), `assembled-${path.basename(upload.tempPath)}`);
+}
+
 export default UploadService;
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { PrismaClient, UserGameState } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+export interface UserGameStateUpdate {
+  isFavorite?: boolean;
+  rating?: number | null;
+  notes?: string | null;
+}
+
+// Per-user fields merged into game responses
+export interface UserGameFields {
+  isFavorite: boolean;
+  userRating?: number;
+  userNotes?: string;
+  playCount: number;
+  lastPlayed?: string;
+}
+
+// Sort keys that are resolved against the caller's own state
+export const USER_SORT_FIELDS = ['lastPlayed', 'playCount', 'userRating'] as const;
+export type UserSortField = typeof USER_SORT_FIELDS[number];
+
+export class UserLibraryService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Get the caller's state for a set of games, keyed by game ID
+   */
+  async getStates(userId: string | undefined, gameIds: string[]): Promise<Map<string, UserGameState>> {
+    if (!userId || gameIds.length === 0) {
+      return new Map();
+    }
+
+    const states = await this.prisma.userGameState.findMany({
+      where: { userId, gameId: { in: gameIds } },
+    });
+
+    return new Map(states.map(state => [state.gameId, state]));
+  }
+
+  /**
+   * Get the caller's state for a single game
+   */
+  async getState(userId: string | undefined, gameId: string): Promise<UserGameState | null> {
+    if (!userId) return null;
+
+    return this.prisma.userGameState.findUnique({
+      where: { userId_gameId: { userId, gameId } },
+    });
+  }
+
+  /**
+   * Update favorite/rating/notes for the caller
+   */
+  async updateState(userId: string, gameId: string, updates: UserGameStateUpdate): Promise<UserGameState> {
+    return this.prisma.userGameState.upsert({
+      where: { userId_gameId: { userId, gameId } },
+      create: { userId, gameId, ...updates },
+      update: updates,
+    });
+  }
+
+  /**
+   * Toggle the caller's favorite flag and return the new value
+   */
+  async toggleFavorite(userId: string, gameId: string): Promise<boolean> {
+    const current = await this.getState(userId, gameId);
+    const state = await this.updateState(userId, gameId, { isFavorite: !current?.isFavorite });
+
+    logger.info(`User ${userId} favorite for game ${gameId} changed to: ${state.isFavorite}`);
+    return state.isFavorite;
+  }
+
+  /**
+   * Record a play session in the caller's history
+   */
+  async recordPlay(userId: string, gameId: string, playedAt: Date = new Date()): Promise<UserGameState> {
+    return this.prisma.userGameState.upsert({
+      where: { userId_gameId: { userId, gameId } },
+      create: { userId, gameId, playCount: 1, lastPlayed: playedAt },
+      update: { playCount: { increment: 1 }, lastPlayed: playedAt },
+    });
+  }
+
+  /**
+   * Get game IDs matching a game filter, ordered by one of the caller's state fields.
+   * Games the caller has never played or rated are not included.
+   */
+  async getOrderedGameIds(
+    userId: string,
+    gameWhere: any,
+    sortBy: UserSortField,
+    sortOrder: 'asc' | 'desc'
+  ): Promise<string[]> {
+    const where: any = { userId, game: gameWhere };
+    let orderBy: any;
+
+    switch (sortBy) {
+      case 'lastPlayed':
+        where.lastPlayed = { not: null };
+        orderBy = { lastPlayed: sortOrder };
+        break;
+      case 'playCount':
+        where.playCount = { gt: 0 };
+        orderBy = { playCount: sortOrder };
+        break;
+      case 'userRating':
+        where.rating = { not: null };
+        orderBy = { rating: sortOrder };
+        break;
+    }
+
+    const states = await this.prisma.userGameState.findMany({
+      where,
+      orderBy,
+      select: { gameId: true },
+    });
+
+    return states.map(state => state.gameId);
+  }
+}
+
+// Helper functions
+export function isUserSortField(sortBy: string): sortBy is UserSortField {
+  return (USER_SORT_FIELDS as readonly string[]).includes(sortBy);
+}
+
+export function toUserGameFields(state?: UserGameState | null): UserGameFields {
+  return {
+    isFavorite: state?.isFavorite ?? false,
+    userRating: state?.rating ?? undefined,
+    userNotes: state?.notes ?? undefined,
+    playCount: state?.playCount ?? 0,
+    lastPlayed: state?.lastPlayed?.toISOString(),
+  };
+}
+
+export default UserLibraryService;
@@ -12,10 +12,31 @@ export interface UploadProgressUpdate {
   speed?: number;
   eta?: number;
   error?: string;
+  threats?: string[];          // ClamAV signatures when the upload was quarantined
+  entry?: UploadEntryProgress; // Set while the games of a collection archive are ingested
+}
+
+export interface UploadEntryProgress {
+  path: string;   // Path inside the archive
+  index: number;  // 1-based position among the archive's ROMs
+  total: number;
+  status: string;
+  gameId?: string;
+  error?: string;
+}
+
+export interface JobStatusUpdate {
+  jobId: string;
+  queue: string;
+  state: string;     // waiting, active, delayed, completed or dead
+  attempts: number;
+  maxAttempts: number;
+  progress: number;
+  error?: string;
 }
 
 export interface WebSocketMessage {
-  type: 'upload_progress' | 'system_status' | 'error';
+  type: 'upload_progress' | 'job_status' | 'system_status' | 'game_added' | 'library_scan' | 'error';
   data: any;
   timestamp: string;
 }
@@ -166,6 +187,16 @@ export async function broadcastUploadProgress(update: UploadProgressUpdate) {
   logger.debug(`Broadcast upload progress for ${update.uploadId} to ${activeConnections.size} connections`);
 }
 
+// Broadcast background job state changes and progress. Every socket receives these, so they carry
+// no job payload: clients match jobs by id, e.g. the jobId in an upload's status
+export async function broadcastJobStatus(update: JobStatusUpdate) {
+  await broadcastToAll({
+    type: 'job_status',
+    data: update,
+    timestamp: new Date().toISOString(),
+  });
+}
+
 // Broadcast system status updates
 export async function broadcastSystemStatus(status: any) {
   const message: WebSocketMessage = {
@@ -263,6 +294,7 @@ setInterval(() => {
 export default {
   setupWebSocket,
   broadcastUploadProgress,
+  broadcastJobStatus,
   broadcastSystemStatus,
   broadcastToAll,
   getConnectionStats,
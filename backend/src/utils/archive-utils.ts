@@ -1,15 +1,32 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { createReadStream, createWriteStream } from 'fs';
+import { spawn } from 'child_process';
+import { Transform } from 'stream';
 import { pipeline } from 'stream/promises';
 import yauzl from 'yauzl';
 import { Extract } from 'unzipper';
 import { logger } from './logger';
-import { ensureDirectory, deleteDirectory } from './fileUtils';
+import { ensureDirectory, deleteDirectory, generateUniqueFilename } from './fileUtils';
 
 // Supported archive formats
 const ARCHIVE_EXTENSIONS = ['.zip', '.7z', '.rar', '.tar', '.gz', '.bz2'];
 
+// Zip bomb limits
+const MAX_COMPRESSION_RATIO = 100;
+const MAX_UNCOMPRESSED_SIZE = 10 * 1024 * 1024 * 1024; // 10GB
+const MAX_FILE_COUNT = 10000;
+
+// How often the output of an external extraction tool is measured against the limits
+const EXTRACTION_CHECK_INTERVAL = 250;
+
+const DEFAULT_EXTRACTION_LIMITS: Required<ExtractionOptions> = {
+  maxDepth: 2,
+  maxTotalBytes: MAX_UNCOMPRESSED_SIZE,
+  maxEntryBytes: 8 * 1024 * 1024 * 1024, // 8GB, enough for a dual-layer DVD image
+  maxFiles: MAX_FILE_COUNT,
+};
+
 /**
  * Check if file is an archive based on extension
  */
@@ -18,38 +35,160 @@ export function isArchiveFile(filePath: string): boolean {
   return ARCHIVE_EXTENSIONS.includes(extension);
 }
 
+export interface ExtractionOptions {
+  maxDepth?: number;          // Levels of archives inside archives to unpack
+  maxTotalBytes?: number;     // Bytes written across the whole extraction, nested archives included
+  maxEntryBytes?: number;     // Bytes written for any one file
+  maxFiles?: number;
+}
+
+export interface ExtractionError {
+  path: string;               // Entry path inside the archive, nested archives joined with '/'
+  error: string;
+}
+
+export interface ExtractionResult {
+  files: string[];            // Extracted files relative to the extraction directory
+  errors: ExtractionError[];  // Entries that were skipped
+  bytesWritten: number;
+}
+
+// Shared by an extraction and the nested archives it unpacks
+interface ExtractionState {
+  limits: Required<ExtractionOptions>;
+  bytesWritten: number;
+  fileCount: number;
+}
+
 /**
- * Extract archive to specified directory
+ * Extract archive to specified directory; unsafe or oversized entries are skipped and reported
  */
-export async function extractArchive(archivePath: string, extractPath: string): Promise<string[]> {
+export async function extractArchive(
+  archivePath: string,
+  extractPath: string,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const state: ExtractionState = {
+    limits: { ...DEFAULT_EXTRACTION_LIMITS, ...options },
+    bytesWritten: 0,
+    fileCount: 0,
+  };
+
+  const { files, errors } = await extractNested(archivePath, extractPath, 0, state);
+
+  if (errors.length > 0) {
+    logger.warn(`Skipped ${errors.length} entries of ${archivePath}: ${errors.map(e => `${e.path} (${e.error})`).join(', ')}`);
+  }
+
+  return { files, errors, bytesWritten: state.bytesWritten };
+}
+
+/**
+ * Extract one archive level, then unpack the archives it contained in place
+ */
+async function extractNested(
+  archivePath: string,
+  extractPath: string,
+  depth: number,
+  state: ExtractionState
+): Promise<{ files: string[]; errors: ExtractionError[] }> {
   const extension = path.extname(archivePath).toLowerCase();
   
   // Ensure extraction directory exists
   await ensureDirectory(extractPath);
+  await assertExtractionSafe(archivePath);
   
   logger.info(`Extracting ${extension} archive: ${archivePath} to ${extractPath}`);
 
+  let extracted: { files: string[]; errors: ExtractionError[] };
   switch (extension) {
     case '.zip':
-      return extractZip(archivePath, extractPath);
+      extracted = await extractZip(archivePath, extractPath, state);
+      break;
     case '.7z':
-      return extract7z(archivePath, extractPath);
+      extracted = await extract7z(archivePath, extractPath, state);
+      break;
     case '.rar':
-      return extractRar(archivePath, extractPath);
+      extracted = await extractRar(archivePath, extractPath, state);
+      break;
     case '.tar':
     case '.gz':
     case '.bz2':
-      return extractTar(archivePath, extractPath);
+      extracted = await extractTar(archivePath, extractPath, state);
+      break;
     default:
       throw new Error(`Unsupported archive format: ${extension}`);
   }
+
+  const files: string[] = [];
+  const errors = [...extracted.errors];
+
+  for (const file of extracted.files) {
+    if (!isArchiveFile(file)) {
+      files.push(file);
+      continue;
+    }
+
+    if (depth + 1 > state.limits.maxDepth) {
+      errors.push({ path: file, error: `Nested archive not extracted: depth limit of ${state.limits.maxDepth} reached` });
+      files.push(file);
+      continue;
+    }
+
+    // A nested archive is replaced by a directory of its contents
+    const nestedPath = path.join(extractPath, file);
+    const nestedDir = await generateUniqueFilename(
+      path.join(path.dirname(nestedPath), path.basename(file, path.extname(file)))
+    );
+    const prefix = path.relative(extractPath, nestedDir);
+
+    try {
+      const nested = await extractNested(nestedPath, nestedDir, depth + 1, state);
+      files.push(...nested.files.map(nestedFile => path.join(prefix, nestedFile)));
+      errors.push(...nested.errors.map(error => ({ ...error, path: `${file}/${error.path}` })));
+      await fs.rm(nestedPath, { force: true });
+    } catch (error) {
+      await deleteDirectory(nestedDir);
+      errors.push({ path: file, error: error.message });
+      files.push(file);
+    }
+  }
+
+  return { files, errors };
+}
+
+/**
+ * Run the zip bomb checks on an archive's listing before writing anything. Declared sizes can be
+ * faked (gzip's ISIZE, zip headers), so they only reject an archive early; the extraction limits
+ * are enforced on the bytes actually written
+ */
+async function assertExtractionSafe(archivePath: string): Promise<void> {
+  const stats = await fs.stat(archivePath);
+
+  let info: Awaited<ReturnType<typeof getArchiveInfo>>;
+  try {
+    // ZIP listings come from yauzl, which also rejects absolute and '..' entry names
+    info = await getArchiveInfo(archivePath);
+  } catch (error) {
+    throw new Error(`Unsafe archive: could not be listed (${error.message})`);
+  }
+
+  const check = isExtractionSafe(stats.size, info.totalSize, info.fileCount);
+  if (!check.safe) {
+    throw new Error(`Unsafe archive: ${check.reason}`);
+  }
 }
 
 /**
- * Extract ZIP archive
+ * Extract ZIP archive; entries are streamed through a byte limit since declared sizes can lie
  */
-async function extractZip(zipPath: string, extractPath: string): Promise<string[]> {
+async function extractZip(
+  zipPath: string,
+  extractPath: string,
+  state: ExtractionState
+): Promise<{ files: string[]; errors: ExtractionError[] }> {
   const extractedFiles: string[] = [];
+  const errors: ExtractionError[] = [];
 
   return new Promise((resolve, reject) => {
     yauzl.open(zipPath, { lazyEntries: true }, (err, zipfile) => {
@@ -63,15 +202,24 @@ async function extractZip(zipPath: string, extractPath: string): Promise<string[
         return;
       }
 
+      let finished = false;
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        logger.info(`Extracted ${extractedFiles.length} files from ZIP archive`);
+        resolve({ files: extractedFiles, errors });
+      };
+
       zipfile.readEntry();
 
       zipfile.on('entry', async (entry) => {
         const fileName = entry.fileName;
-        const fullPath = path.join(extractPath, fileName);
+        const fullPath = resolveEntryPath(extractPath, fileName);
 
         // Security check - prevent directory traversal
-        if (!fullPath.startsWith(extractPath)) {
+        if (!fullPath) {
           logger.warn(`Skipping potentially dangerous path: ${fileName}`);
+          errors.push({ path: fileName, error: 'Path escapes the extraction directory' });
           zipfile.readEntry();
           return;
         }
@@ -84,42 +232,52 @@ async function extractZip(zipPath: string, extractPath: string): Promise<string[
           } catch (error) {
             reject(error);
           }
-        } else {
-          // File entry
+          return;
+        }
+
+        if (state.fileCount >= state.limits.maxFiles) {
+          errors.push({ path: fileName, error: `File limit of ${state.limits.maxFiles} reached` });
+          zipfile.close();
+          finish();
+          return;
+        }
+
+        // File entry
+        try {
+          await ensureDirectory(path.dirname(fullPath));
+        } catch (error) {
+          reject(error);
+          return;
+        }
+
+        zipfile.openReadStream(entry, async (err, readStream) => {
+          if (err || !readStream) {
+            errors.push({ path: fileName, error: err?.message || 'Failed to create read stream' });
+            zipfile.readEntry();
+            return;
+          }
+
           try {
-            await ensureDirectory(path.dirname(fullPath));
-            
-            zipfile.openReadStream(entry, (err, readStream) => {
-              if (err) {
-                reject(err);
-                return;
-              }
-
-              if (!readStream) {
-                reject(new Error('Failed to create read stream'));
-                return;
-              }
-
-              const writeStream = createWriteStream(fullPath);
-              
-              pipeline(readStream, writeStream)
-                .then(() => {
-                  extractedFiles.push(fileName);
-                  zipfile.readEntry();
-                })
-                .catch(reject);
-            });
+            await pipeline(readStream, limitBytes(state), createWriteStream(fullPath));
+            state.fileCount++;
+            extractedFiles.push(fileName);
           } catch (error) {
-            reject(error);
+            await fs.rm(fullPath, { force: true });
+            errors.push({ path: fileName, error: error.message });
           }
-        }
-      });
 
-      zipfile.on('end', () => {
-        logger.info(`Extracted ${extractedFiles.length} files from ZIP archive`);
-        resolve(extractedFiles);
+          // Past the total limit every further entry would fail the same way
+          if (state.bytesWritten >= state.limits.maxTotalBytes) {
+            zipfile.close();
+            finish();
+            return;
+          }
+          zipfile.readEntry();
+        });
       });
 
+      zipfile.on('end', finish);
+
       zipfile.on('error', reject);
     });
   });
@@ -153,141 +311,264 @@ async function extractZipUnzipper(zipPath: string, extractPath: string): Promise
 /**
  * Extract 7z archive using system command
  */
-async function extract7z(archivePath: string, extractPath: string): Promise<string[]> {
-  const { execFile } = require('child_process');
-  const { promisify } = require('util');
-  const execFileAsync = promisify(execFile);
-
+async function extract7z(
+  archivePath: string,
+  extractPath: string,
+  state: ExtractionState
+): Promise<{ files: string[]; errors: ExtractionError[] }> {
   try {
-    // Try to use 7z command line tool
-    await execFileAsync('7z', ['x', archivePath, `-o${extractPath}`, '-y']);
-    
-    // List extracted files
-    const files = await listDirectoryRecursive(extractPath);
-    logger.info(`Extracted ${files.length} files from 7z archive`);
-    return files;
-    
+    await runExtractionTool('7z', ['x', archivePath, `-o${extractPath}`, '-y'], extractPath, state);
   } catch (error) {
-    logger.error('7z extraction failed, trying alternative method:', error);
-    
-    // Fallback to node-7z if available
-    try {
-      const Seven = require('node-7z');
-      const stream = Seven.extractFull(archivePath, extractPath, {
-        $progress: true,
-        recursive: true,
-      });
-
-      return new Promise((resolve, reject) => {
-        const extractedFiles: string[] = [];
-
-        stream.on('data', (data) => {
-          if (data.file) {
-            extractedFiles.push(data.file);
-          }
-        });
-
-        stream.on('end', () => {
-          logger.info(`Extracted ${extractedFiles.length} files from 7z archive`);
-          resolve(extractedFiles);
-        });
-
-        stream.on('error', reject);
-      });
-    } catch (fallbackError) {
-      throw new Error('7z extraction failed and no alternative available');
-    }
+    logger.error('7z extraction failed:', error);
+    throw new Error(`7z extraction failed: ${error.message}`);
   }
+
+  const extracted = await collectExtractedFiles(extractPath, state);
+  logger.info(`Extracted ${extracted.files.length} files from 7z archive`);
+  return extracted;
 }
 
 /**
  * Extract RAR archive using system command
  */
-async function extractRar(rarPath: string, extractPath: string): Promise<string[]> {
-  const { execFile } = require('child_process');
-  const { promisify } = require('util');
-  const execFileAsync = promisify(execFile);
-
+async function extractRar(
+  rarPath: string,
+  extractPath: string,
+  state: ExtractionState
+): Promise<{ files: string[]; errors: ExtractionError[] }> {
   try {
-    // Try to use unrar command line tool
-    await execFileAsync('unrar', ['x', rarPath, extractPath]);
-    
-    // List extracted files
-    const files = await listDirectoryRecursive(extractPath);
-    logger.info(`Extracted ${files.length} files from RAR archive`);
-    return files;
-    
+    // unrar wants the target directory with a trailing separator
+    const target = extractPath + path.sep;
+    await runExtractionTool('unrar', ['x', '-o+', rarPath, target], extractPath, state).catch(error => {
+      // Fall back to the rar tool only when unrar is not installed
+      if (error.code !== 'ENOENT') throw error;
+      return runExtractionTool('rar', ['x', '-o+', rarPath, target], extractPath, state);
+    });
   } catch (error) {
     logger.error('RAR extraction failed:', error);
-    
-    // Try alternative command
-    try {
-      await execFileAsync('rar', ['x', rarPath, extractPath]);
-      const files = await listDirectoryRecursive(extractPath);
-      logger.info(`Extracted ${files.length} files from RAR archive`);
-      return files;
-    } catch (fallbackError) {
-      throw new Error('RAR extraction failed and no alternative available');
-    }
+    throw new Error(`RAR extraction failed: ${error.message}`);
   }
+
+  const extracted = await collectExtractedFiles(extractPath, state);
+  logger.info(`Extracted ${extracted.files.length} files from RAR archive`);
+  return extracted;
 }
 
 /**
  * Extract TAR/GZ/BZ2 archive using system tar command
  */
-async function extractTar(tarPath: string, extractPath: string): Promise<string[]> {
-  const { execFile } = require('child_process');
-  const { promisify } = require('util');
-  const execFileAsync = promisify(execFile);
+async function extractTar(
+  tarPath: string,
+  extractPath: string,
+  state: ExtractionState
+): Promise<{ files: string[]; errors: ExtractionError[] }> {
+  const extension = path.extname(tarPath).toLowerCase();
+  let tarFlags = '-xf';
+
+  if (extension === '.gz' || tarPath.includes('.tar.gz')) {
+    tarFlags = '-xzf';
+  } else if (extension === '.bz2' || tarPath.includes('.tar.bz2')) {
+    tarFlags = '-xjf';
+  }
 
   try {
-    const extension = path.extname(tarPath).toLowerCase();
-    let tarFlags = '-xf';
-    
-    if (extension === '.gz' || tarPath.includes('.tar.gz')) {
-      tarFlags = '-xzf';
-    } else if (extension === '.bz2' || tarPath.includes('.tar.bz2')) {
-      tarFlags = '-xjf';
-    }
-
-    await execFileAsync('tar', [tarFlags, tarPath, '-C', extractPath]);
-    
-    // List extracted files
-    const files = await listDirectoryRecursive(extractPath);
-    logger.info(`Extracted ${files.length} files from TAR archive`);
-    return files;
-    
+    // Never restore owners or permissions from the archive
+    await runExtractionTool(
+      'tar',
+      [tarFlags, tarPath, '-C', extractPath, '--no-same-owner', '--no-same-permissions'],
+      extractPath,
+      state
+    );
   } catch (error) {
     logger.error('TAR extraction failed:', error);
-    throw new Error('TAR extraction failed');
+    throw new Error(`TAR extraction failed: ${error.message}`);
   }
+
+  const extracted = await collectExtractedFiles(extractPath, state);
+  logger.info(`Extracted ${extracted.files.length} files from TAR archive`);
+  return extracted;
 }
 
 /**
- * List all files in directory recursively
+ * Run an external extraction tool while measuring what it writes; the tool is killed and its
+ * output removed as soon as a file, the whole extraction or the file count goes over its limit
  */
-async function listDirectoryRecursive(dirPath: string, baseDir: string = ''): Promise<string[]> {
-  const files: string[] = [];
-  
+async function runExtractionTool(
+  command: string,
+  args: string[],
+  extractPath: string,
+  state: ExtractionState
+): Promise<void> {
+  const child = spawn(command, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+
+  let stderr = '';
+  child.stderr.on('data', (data: Buffer) => {
+    stderr = (stderr + data.toString()).slice(-4096);
+  });
+
+  let exceeded: string | undefined;
+  let measuring = false;
+  const timer = setInterval(async () => {
+    if (measuring || exceeded) return;
+    measuring = true;
+
+    try {
+      const usage = await measureDirectory(extractPath);
+      if (usage.largestFile > state.limits.maxEntryBytes) {
+        exceeded = `Entry exceeds the extraction limit of ${state.limits.maxEntryBytes} bytes`;
+      } else if (state.bytesWritten + usage.bytes > state.limits.maxTotalBytes) {
+        exceeded = `Archive exceeds the extraction limit of ${state.limits.maxTotalBytes} bytes`;
+      } else if (state.fileCount + usage.files > state.limits.maxFiles) {
+        exceeded = `Archive exceeds the file limit of ${state.limits.maxFiles}`;
+      }
+
+      if (exceeded) {
+        child.kill('SIGKILL');
+      }
+    } catch {
+      // Files can disappear while the tool renames them; the next check sees the result
+    } finally {
+      measuring = false;
+    }
+  }, EXTRACTION_CHECK_INTERVAL);
+
   try {
+    await new Promise<void>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', code => {
+        if (exceeded || code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+  } finally {
+    clearInterval(timer);
+  }
+
+  if (exceeded) {
+    await fs.rm(extractPath, { recursive: true, force: true });
+    throw new Error(exceeded);
+  }
+}
+
+/**
+ * Total bytes, file count and largest file below a directory; links count as files of their own size
+ */
+async function measureDirectory(dirPath: string): Promise<{ bytes: number; files: number; largestFile: number }> {
+  const usage = { bytes: 0, files: 0, largestFile: 0 };
+
+  const walk = async (currentPath: string): Promise<void> => {
+    for (const entry of await fs.readdir(currentPath, { withFileTypes: true })) {
+      const fullPath = path.join(currentPath, entry.name);
+
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+        continue;
+      }
+
+      const { size } = await fs.lstat(fullPath);
+      usage.bytes += size;
+      usage.files++;
+      usage.largestFile = Math.max(usage.largestFile, size);
+    }
+  };
+
+  await walk(dirPath);
+  return usage;
+}
+
+/**
+ * List what an external tool extracted and check it once more: links and special files are
+ * removed, as are files past the size and count limits
+ */
+async function collectExtractedFiles(
+  extractPath: string,
+  state: ExtractionState
+): Promise<{ files: string[]; errors: ExtractionError[] }> {
+  const files: string[] = [];
+  const errors: ExtractionError[] = [];
+
+  const walk = async (dirPath: string): Promise<void> => {
     const entries = await fs.readdir(dirPath, { withFileTypes: true });
-    
+
     for (const entry of entries) {
-      const relativePath = path.join(baseDir, entry.name);
       const fullPath = path.join(dirPath, entry.name);
-      
+      const relativePath = path.relative(extractPath, fullPath);
+
       if (entry.isDirectory()) {
-        const subFiles = await listDirectoryRecursive(fullPath, relativePath);
-        files.push(...subFiles);
+        await walk(fullPath);
+        continue;
+      }
+
+      let error: string | undefined;
+      if (!entry.isFile()) {
+        error = entry.isSymbolicLink() ? 'Links are not extracted' : 'Not a regular file';
+      } else {
+        const { size } = await fs.stat(fullPath);
+        if (size > state.limits.maxEntryBytes) {
+          error = `Entry exceeds the extraction limit of ${state.limits.maxEntryBytes} bytes`;
+        } else if (state.bytesWritten + size > state.limits.maxTotalBytes) {
+          error = `Archive exceeds the extraction limit of ${state.limits.maxTotalBytes} bytes`;
+        } else if (state.fileCount >= state.limits.maxFiles) {
+          error = `File limit of ${state.limits.maxFiles} reached`;
+        } else {
+          state.bytesWritten += size;
+          state.fileCount++;
+        }
+      }
+
+      if (error) {
+        await fs.rm(fullPath, { force: true });
+        errors.push({ path: relativePath, error });
       } else {
         files.push(relativePath);
       }
     }
-  } catch (error) {
-    logger.error(`Failed to list directory ${dirPath}:`, error);
+  };
+
+  await walk(extractPath);
+  return { files, errors };
+}
+
+/**
+ * Resolve an entry name inside the extraction directory, or null when it would land outside it
+ */
+function resolveEntryPath(extractPath: string, entryName: string): string | null {
+  const root = path.resolve(extractPath);
+  const normalised = entryName.replace(/\\/g, '/');
+
+  if (path.isAbsolute(normalised) || /^[a-zA-Z]:/.test(normalised)) {
+    return null;
   }
-  
-  return files;
+
+  const fullPath = path.resolve(root, normalised);
+  return fullPath.startsWith(root + path.sep) ? fullPath : null;
+}
+
+/**
+ * Pass bytes through until an entry or the whole extraction goes over its limit
+ */
+function limitBytes(state: ExtractionState): Transform {
+  let entryBytes = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      entryBytes += chunk.length;
+      if (entryBytes > state.limits.maxEntryBytes) {
+        callback(new Error(`Entry exceeds the extraction limit of ${state.limits.maxEntryBytes} bytes`));
+        return;
+      }
+      if (state.bytesWritten + chunk.length > state.limits.maxTotalBytes) {
+        callback(new Error(`Archive exceeds the extraction limit of ${state.limits.maxTotalBytes} bytes`));
+        return;
+      }
+
+      state.bytesWritten += chunk.length;
+      callback(null, chunk);
+    },
+  });
 }
 
 /**
@@ -304,11 +585,69 @@ export async function getArchiveInfo(archivePath: string): Promise<{
   switch (extension) {
     case '.zip':
       return getZipInfo(archivePath);
+    case '.7z':
+    case '.rar':
+    case '.tar':
+    case '.gz':
+    case '.bz2':
+      return get7zListInfo(archivePath);
     default:
       throw new Error(`Archive info not supported for format: ${extension}`);
   }
 }
 
+/**
+ * Get 7Z/RAR/TAR archive information from the technical listing of the 7z tool
+ */
+async function get7zListInfo(archivePath: string): Promise<{
+  format: string;
+  fileCount: number;
+  totalSize: number;
+  files: Array<{ name: string; size: number; compressed: number }>;
+}> {
+  const { execFile } = require('child_process');
+  const { promisify } = require('util');
+  const execFileAsync = promisify(execFile);
+
+  const { stdout } = await execFileAsync('7z', ['l', '-slt', archivePath], { maxBuffer: 64 * 1024 * 1024 });
+
+  // Entries follow the '----------' separator as blank-line separated "Key = Value" blocks
+  const separator = stdout.indexOf('\n----------');
+  if (separator === -1) {
+    throw new Error('Failed to read archive listing');
+  }
+
+  const files: Array<{ name: string; size: number; compressed: number }> = [];
+  let totalSize = 0;
+
+  for (const block of stdout.slice(separator).split(/\r?\n\r?\n/)) {
+    const fields = new Map<string, string>();
+    for (const line of block.split(/\r?\n/)) {
+      const match = line.match(/^([\w ]+?) = (.*)$/);
+      if (match) fields.set(match[1], match[2]);
+    }
+
+    if (!fields.has('Path') || fields.get('Folder') === '+' || fields.get('Attributes')?.startsWith('D')) {
+      continue;
+    }
+
+    const size = Number(fields.get('Size')) || 0;
+    files.push({
+      name: fields.get('Path')!,
+      size,
+      compressed: Number(fields.get('Packed Size')) || 0,
+    });
+    totalSize += size;
+  }
+
+  return {
+    format: path.extname(archivePath).slice(1).toLowerCase(),
+    fileCount: files.length,
+    totalSize,
+    files,
+  };
+}
+
 /**
  * Get ZIP archive information
  */
@@ -399,13 +738,13 @@ export async function validateArchive(archivePath: string): Promise<{
         const info = await getZipInfo(archivePath);
         
         // Check for suspicious file count
-        if (info.fileCount > 10000) {
+        if (info.fileCount > MAX_FILE_COUNT) {
           warnings.push(`Archive contains ${info.fileCount} files, which is unusually high`);
         }
 
         // Check for zip bombs (high compression ratio)
         const compressionRatio = info.totalSize / stats.size;
-        if (compressionRatio > 100) {
+        if (compressionRatio > MAX_COMPRESSION_RATIO) {
           errors.push(`Suspicious compression ratio: ${compressionRatio.toFixed(2)}:1 (possible zip bomb)`);
         }
 
@@ -437,13 +776,14 @@ export async function validateArchive(archivePath: string): Promise<{
 export async function extractFileFromArchive(
   archivePath: string,
   fileName: string,
-  outputPath: string
+  outputPath: string,
+  options: ExtractionOptions = {}
 ): Promise<boolean> {
   const extension = path.extname(archivePath).toLowerCase();
   
   switch (extension) {
     case '.zip':
-      return extractFileFromZip(archivePath, fileName, outputPath);
+      return extractFileFromZip(archivePath, fileName, outputPath, { ...DEFAULT_EXTRACTION_LIMITS, ...options });
     default:
       throw new Error(`Single file extraction not supported for format: ${extension}`);
   }
@@ -455,8 +795,11 @@ export async function extractFileFromArchive(
 async function extractFileFromZip(
   zipPath: string,
   fileName: string,
-  outputPath: string
+  outputPath: string,
+  limits: Required<ExtractionOptions>
 ): Promise<boolean> {
+  await assertExtractionSafe(zipPath);
+
   return new Promise((resolve, reject) => {
     yauzl.open(zipPath, { lazyEntries: true }, (err, zipfile) => {
       if (err) {
@@ -484,12 +827,16 @@ async function extractFileFromZip(
               return;
             }
 
+            const state: ExtractionState = { limits, bytesWritten: 0, fileCount: 0 };
             try {
               await ensureDirectory(path.dirname(outputPath));
               const writeStream = createWriteStream(outputPath);
-              await pipeline(readStream, writeStream);
+              await pipeline(readStream, limitBytes(state), writeStream);
+              zipfile.close();
               resolve(true);
             } catch (error) {
+              await fs.rm(outputPath, { force: true });
+              zipfile.close();
               reject(error);
             }
           });
@@ -529,18 +876,17 @@ export function isExtractionSafe(
 ): { safe: boolean; reason?: string } {
   // Check compression ratio
   const compressionRatio = uncompressedSize / archiveSize;
-  if (compressionRatio > 100) {
+  if (compressionRatio > MAX_COMPRESSION_RATIO) {
     return { safe: false, reason: `Compression ratio too high: ${compressionRatio.toFixed(2)}:1` };
   }
 
-  // Check uncompressed size limit (10GB)
-  const maxUncompressedSize = 10 * 1024 * 1024 * 1024;
-  if (uncompressedSize > maxUncompressedSize) {
+  // Check uncompressed size limit
+  if (uncompressedSize > MAX_UNCOMPRESSED_SIZE) {
     return { safe: false, reason: `Uncompressed size too large: ${uncompressedSize} bytes` };
   }
 
   // Check file count limit
-  if (fileCount > 10000) {
+  if (fileCount > MAX_FILE_COUNT) {
     return { safe: false, reason: `Too many files: ${fileCount}` };
   }
 
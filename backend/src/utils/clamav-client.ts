@@ -0,0 +1,146 @@
+import net from 'net';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+
+export interface ClamAvOptions {
+  host: string;
+  port: number;
+  timeout?: number;         // Milliseconds without socket activity before the scan is abandoned
+}
+
+export interface ScanResult {
+  infected: boolean;
+  viruses: string[];        // Signature names, e.g. "Win.Test.EICAR_HDB-1"
+}
+
+// clamd reads INSTREAM data as length-prefixed chunks; a zero length ends the stream
+const INSTREAM_CHUNK_SIZE = 64 * 1024;
+const DEFAULT_TIMEOUT = 60000;
+
+/**
+ * Scan a file with clamd
+ */
+export async function scanFile(filePath: string, options: ClamAvOptions): Promise<ScanResult> {
+  return scanStream(createReadStream(filePath), options);
+}
+
+/**
+ * Stream data to clamd with the INSTREAM command and parse its verdict
+ */
+export async function scanStream(stream: Readable, options: ClamAvOptions): Promise<ScanResult> {
+  let socket: net.Socket;
+  try {
+    socket = await connect(options);
+  } catch (error) {
+    stream.destroy();
+    throw error;
+  }
+
+  const reply = readReply(socket);
+
+  try {
+    await write(socket, Buffer.from('zINSTREAM\0'));
+
+    for await (const data of stream) {
+      const buffer: Buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+
+      for (let offset = 0; offset < buffer.length; offset += INSTREAM_CHUNK_SIZE) {
+        const chunk = buffer.subarray(offset, offset + INSTREAM_CHUNK_SIZE);
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length);
+        await write(socket, Buffer.concat([length, chunk]));
+      }
+    }
+
+    await write(socket, Buffer.alloc(4));
+  } catch (error) {
+    // clamd answers and hangs up early when the stream is over its StreamMaxLength
+    stream.destroy();
+    const early = await reply.catch(() => '');
+    if (!early) {
+      socket.destroy();
+      throw new Error(`ClamAV scan failed: ${error.message}`);
+    }
+    return parseReply(early);
+  }
+
+  return parseReply(await reply);
+}
+
+/**
+ * Check that clamd is reachable
+ */
+export async function pingClamAv(options: ClamAvOptions): Promise<boolean> {
+  try {
+    const socket = await connect(options);
+    const reply = readReply(socket);
+    await write(socket, Buffer.from('zPING\0'));
+    return (await reply) === 'PONG';
+  } catch {
+    return false;
+  }
+}
+
+// Helper functions
+function connect(options: ClamAvOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: options.host, port: options.port });
+    socket.setTimeout(options.timeout || DEFAULT_TIMEOUT);
+
+    socket.once('connect', () => {
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', error => reject(new Error(`ClamAV unavailable at ${options.host}:${options.port}: ${error.message}`)));
+    socket.once('timeout', () => socket.destroy(new Error(`ClamAV at ${options.host}:${options.port} did not answer`)));
+  });
+}
+
+function write(socket: net.Socket, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.write(data, error => (error ? reject(error) : resolve()));
+  });
+}
+
+// Replies to 'z' commands are NUL-terminated; clamd closes the connection after one
+function readReply(socket: net.Socket): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    socket.on('data', chunk => {
+      chunks.push(chunk);
+      if (chunk.includes(0)) {
+        socket.end();
+      }
+    });
+    socket.on('timeout', () => socket.destroy(new Error('ClamAV scan timed out')));
+    socket.on('error', error => {
+      if (chunks.length === 0) reject(error);
+    });
+    socket.on('close', () => {
+      resolve(Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim());
+    });
+  });
+}
+
+function parseReply(reply: string): ScanResult {
+  // "stream: OK", "stream: <signature> FOUND" or "<reason> ERROR"
+  const message = reply.replace(/^stream:\s*/, '');
+
+  if (message === 'OK') {
+    return { infected: false, viruses: [] };
+  }
+
+  const found = message.match(/^(.+) FOUND$/);
+  if (found) {
+    return { infected: true, viruses: [found[1]] };
+  }
+
+  throw new Error(`ClamAV scan failed: ${message || 'empty reply'}`);
+}
+
+export default {
+  scanFile,
+  scanStream,
+  pingClamAv,
+};
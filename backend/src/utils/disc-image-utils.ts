@@ -0,0 +1,239 @@
+import fs, { FileHandle } from 'fs/promises';
+import path from 'path';
+
+// Compressed disc image containers read natively by emulators
+const CHD_EXTENSIONS = ['.chd'];
+const RVZ_EXTENSIONS = ['.rvz', '.wia'];
+
+const CHD_MAGIC = 'MComprHD';
+const CHD_V5_HEADER_SIZE = 124;
+const CHD_METADATA_ENTRY_SIZE = 16;
+const CHD_MAX_METADATA_ENTRIES = 1024;
+
+const RVZ_HEADER_SIZE = 0x48 + 0x10 + 0x80; // File header, disc struct fields, disc header copy
+
+export interface ChdTrack {
+  trackNumber: number;
+  type: string;      // MODE1/2048, MODE2_RAW, AUDIO, ...
+  subType: string;   // Subchannel data stored with the track
+  frames: number;
+  pregap: number;
+  postgap: number;
+}
+
+export interface ChdHeader {
+  version: number;
+  compressors: string[];  // Codec tags in use (zlib, lzma, huff, flac, cdzl, cdlz, cdfl, zstd, ...)
+  logicalBytes: number;   // Size of the uncompressed data
+  hunkBytes: number;
+  unitBytes: number;
+  sha1: string;           // SHA1 of the data and metadata
+  rawSha1: string;        // SHA1 of the data only
+  parentSha1?: string;    // Set for delta CHDs that need a parent image
+  mediaType: 'cd' | 'gdrom' | 'dvd' | 'harddisk' | 'unknown';
+  tracks: ChdTrack[];
+}
+
+export interface RvzHeader {
+  format: 'rvz' | 'wia';
+  discType: 'gamecube' | 'wii' | 'unknown';
+  compression: string;
+  compressionLevel: number;
+  chunkSize: number;
+  isoSize: number;        // Size of the uncompressed disc image
+  gameId: string;         // Six-character disc ID, e.g. GALE01
+  title: string;
+}
+
+const CHD_COMPRESSORS: Record<string, string> = {
+  zlib: 'zlib', lzma: 'lzma', huff: 'huffman', flac: 'flac', zstd: 'zstd',
+  cdzl: 'cd-zlib', cdlz: 'cd-lzma', cdfl: 'cd-flac', cdzs: 'cd-zstd', avhu: 'av-huffman',
+};
+
+const RVZ_COMPRESSION = ['none', 'purge', 'bzip2', 'lzma', 'lzma2', 'zstd'];
+
+/**
+ * Check if file is a CHD image based on extension
+ */
+export function isChdFile(filePath: string): boolean {
+  return CHD_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Check if file is a Dolphin RVZ/WIA image based on extension
+ */
+export function isRvzFile(filePath: string): boolean {
+  return RVZ_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Read a CHD v5 header and its track metadata without decompressing any hunks
+ */
+export async function readChdHeader(filePath: string): Promise<ChdHeader> {
+  const fileHandle = await fs.open(filePath, 'r');
+
+  try {
+    const buffer = Buffer.alloc(CHD_V5_HEADER_SIZE);
+    const { bytesRead } = await fileHandle.read(buffer, 0, CHD_V5_HEADER_SIZE, 0);
+
+    if (bytesRead < 16 || buffer.toString('ascii', 0, 8) !== CHD_MAGIC) {
+      throw new Error('Invalid CHD file: missing MComprHD signature');
+    }
+
+    const version = buffer.readUInt32BE(12);
+    if (version !== 5) {
+      throw new Error(`Unsupported CHD version ${version}: convert it with "chdman copy" first`);
+    }
+
+    if (bytesRead < CHD_V5_HEADER_SIZE || buffer.readUInt32BE(8) !== CHD_V5_HEADER_SIZE) {
+      throw new Error('Invalid CHD file: truncated header');
+    }
+
+    const compressors: string[] = [];
+    for (let offset = 16; offset < 32; offset += 4) {
+      if (buffer.readUInt32BE(offset) !== 0) {
+        const tag = buffer.toString('ascii', offset, offset + 4);
+        compressors.push(CHD_COMPRESSORS[tag] || tag);
+      }
+    }
+
+    const parentSha1 = buffer.subarray(104, 124);
+    const metadata = await readChdMetadata(fileHandle, Number(buffer.readBigUInt64BE(48)));
+
+    return {
+      version,
+      compressors,
+      logicalBytes: Number(buffer.readBigUInt64BE(32)),
+      hunkBytes: buffer.readUInt32BE(56),
+      unitBytes: buffer.readUInt32BE(60),
+      rawSha1: buffer.toString('hex', 64, 84),
+      sha1: buffer.toString('hex', 84, 104),
+      parentSha1: parentSha1.some(byte => byte !== 0) ? parentSha1.toString('hex') : undefined,
+      ...metadata,
+    };
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Read the header of a Dolphin RVZ/WIA GameCube or Wii image
+ */
+export async function readRvzHeader(filePath: string): Promise<RvzHeader> {
+  const buffer = Buffer.alloc(RVZ_HEADER_SIZE);
+  const fileHandle = await fs.open(filePath, 'r');
+
+  try {
+    const { bytesRead } = await fileHandle.read(buffer, 0, RVZ_HEADER_SIZE, 0);
+    const magic = buffer.toString('latin1', 0, 4);
+
+    if (magic !== 'RVZ\x01' && magic !== 'WIA\x01') {
+      throw new Error('Invalid RVZ/WIA file: missing signature');
+    }
+    if (bytesRead < RVZ_HEADER_SIZE) {
+      throw new Error('Invalid RVZ/WIA file: truncated header');
+    }
+
+    // Disc struct follows the 0x48-byte file header; it embeds the first 0x80 bytes of the disc
+    const disc = 0x48;
+    const discHeader = buffer.subarray(disc + 0x10, disc + 0x90);
+    const discType = buffer.readUInt32BE(disc);
+
+    return {
+      format: magic === 'RVZ\x01' ? 'rvz' : 'wia',
+      discType: discType === 1 ? 'gamecube' : discType === 2 ? 'wii' : 'unknown',
+      compression: RVZ_COMPRESSION[buffer.readUInt32BE(disc + 4)] || 'unknown',
+      compressionLevel: buffer.readInt32BE(disc + 8),
+      chunkSize: buffer.readUInt32BE(disc + 12),
+      isoSize: Number(buffer.readBigUInt64BE(0x24)),
+      gameId: cString(discHeader.subarray(0, 6)),
+      title: cString(discHeader.subarray(0x20, 0x80)),
+    };
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+// Helper functions
+
+/**
+ * Walk the CHD metadata chain for CD/GD-ROM track descriptions and media markers
+ */
+async function readChdMetadata(
+  fileHandle: FileHandle,
+  firstOffset: number
+): Promise<Pick<ChdHeader, 'mediaType' | 'tracks'>> {
+  const tracks: ChdTrack[] = [];
+  let mediaType: ChdHeader['mediaType'] = 'unknown';
+  const entryHeader = Buffer.alloc(CHD_METADATA_ENTRY_SIZE);
+  const visited = new Set<number>();
+  let offset = firstOffset;
+
+  while (offset !== 0 && !visited.has(offset) && visited.size < CHD_MAX_METADATA_ENTRIES) {
+    visited.add(offset);
+
+    const { bytesRead } = await fileHandle.read(entryHeader, 0, CHD_METADATA_ENTRY_SIZE, offset);
+    if (bytesRead < CHD_METADATA_ENTRY_SIZE) {
+      throw new Error('Invalid CHD file: truncated metadata');
+    }
+
+    // Entry: tag (4), flags (1), data length (3), next entry offset (8)
+    const tag = entryHeader.toString('ascii', 0, 4);
+    const length = entryHeader.readUIntBE(5, 3);
+    const next = Number(entryHeader.readBigUInt64BE(8));
+
+    switch (tag) {
+      case 'CHT2':
+      case 'CHTR':
+      case 'CHGD': {
+        const data = Buffer.alloc(length);
+        await fileHandle.read(data, 0, length, offset + CHD_METADATA_ENTRY_SIZE);
+        tracks.push(parseTrackMetadata(cString(data)));
+        mediaType = tag === 'CHGD' ? 'gdrom' : 'cd';
+        break;
+      }
+      case 'DVD ':
+        mediaType = 'dvd';
+        break;
+      case 'GDDD':
+        mediaType = 'harddisk';
+        break;
+    }
+
+    offset = next;
+  }
+
+  tracks.sort((a, b) => a.trackNumber - b.trackNumber);
+  return { mediaType, tracks };
+}
+
+/**
+ * Parse "TRACK:1 TYPE:MODE2_RAW SUBTYPE:NONE FRAMES:1234 PREGAP:0 ..." track metadata
+ */
+function parseTrackMetadata(text: string): ChdTrack {
+  const fields: Record<string, string> = {};
+  for (const match of text.matchAll(/(\w+):(\S+)/g)) {
+    fields[match[1].toUpperCase()] = match[2];
+  }
+
+  return {
+    trackNumber: parseInt(fields.TRACK, 10) || 0,
+    type: fields.TYPE || 'unknown',
+    subType: fields.SUBTYPE || 'NONE',
+    frames: parseInt(fields.FRAMES, 10) || 0,
+    pregap: parseInt(fields.PREGAP, 10) || 0,
+    postgap: parseInt(fields.POSTGAP, 10) || 0,
+  };
+}
+
+function cString(buffer: Buffer): string {
+  const end = buffer.indexOf(0);
+  return buffer.toString('latin1', 0, end >= 0 ? end : buffer.length).trim();
+}
+
+export default {
+  isChdFile,
+  isRvzFile,
+  readChdHeader,
+  readRvzHeader,
+};
@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import crypto from 'crypto';
 import { createReadStream } from 'fs';
+import { Readable } from 'stream';
 import path from 'path';
 import { logger } from './logger';
 
@@ -13,7 +14,7 @@ const FILE_SIGNATURES: Record<string, Buffer[]> = {
   
   // Nintendo formats
   '.nes': [Buffer.from([0x4E, 0x45, 0x53, 0x1A])], // 'NES\x1A'
-  '.n64': [Buffer.from([0x80, 0x37, 0x12, 0x40]), Buffer.from([0x37, 0x80, 0x40, 0x12])],
+  '.n64': [Buffer.from([0x80, 0x37, 0x12, 0x40]), Buffer.from([0x37, 0x80, 0x40, 0x12]), Buffer.from([0x40, 0x12, 0x37, 0x80])],
   
   // Disc image formats
   '.iso': [Buffer.from([0x43, 0x44, 0x30, 0x30, 0x31]), Buffer.from([0x00, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x00])],
@@ -22,6 +23,8 @@ const FILE_SIGNATURES: Record<string, Buffer[]> = {
   
   // Other formats
   '.chd': [Buffer.from([0x4D, 0x43, 0x6F, 0x6D, 0x70, 0x72, 0x48, 0x44])], // 'MComprHD'
+  '.rvz': [Buffer.from([0x52, 0x56, 0x5A, 0x01])], // 'RVZ\x01'
+  '.wia': [Buffer.from([0x57, 0x49, 0x41, 0x01])], // 'WIA\x01'
 };
 
 /**
@@ -38,6 +41,65 @@ export async function calculateFileHash(filePath: string, algorithm: string = 's
   });
 }
 
+// CRC32 lookup table (IEEE polynomial, as used by ZIP and DAT files)
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export interface FileChecksums {
+  crc32: string;
+  md5: string;
+  sha1: string;
+  sha256: string;
+  size: number;
+}
+
+/**
+ * Calculate CRC32, MD5, SHA1 and SHA256 of a file in a single pass, optionally skipping leading header bytes
+ */
+export async function calculateChecksums(filePath: string, start: number = 0): Promise<FileChecksums> {
+  return calculateStreamChecksums(createReadStream(filePath, { start }));
+}
+
+/**
+ * Calculate CRC32, MD5, SHA1 and SHA256 of everything a stream produces
+ */
+export async function calculateStreamChecksums(stream: Readable): Promise<FileChecksums> {
+  return new Promise((resolve, reject) => {
+    const md5 = crypto.createHash('md5');
+    const sha1 = crypto.createHash('sha1');
+    const sha256 = crypto.createHash('sha256');
+    let crc = 0xFFFFFFFF;
+    let size = 0;
+
+    stream.on('data', (data: Buffer) => {
+      md5.update(data);
+      sha1.update(data);
+      sha256.update(data);
+      for (let i = 0; i < data.length; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+      }
+      size += data.length;
+    });
+    stream.on('end', () => resolve({
+      crc32: ((crc ^ 0xFFFFFFFF) >>> 0).toString(16).padStart(8, '0'),
+      md5: md5.digest('hex'),
+      sha1: sha1.digest('hex'),
+      sha256: sha256.digest('hex'),
+      size,
+    }));
+    stream.on('error', reject);
+  });
+}
+
 /**
  * Calculate hash of a buffer
  */
@@ -45,6 +107,17 @@ export function calculateBufferHash(buffer: Buffer, algorithm: string = 'sha256'
   return crypto.createHash(algorithm).update(buffer).digest('hex');
 }
 
+/**
+ * Calculate the CRC32 of a buffer
+ */
+export function calculateBufferCrc32(buffer: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC32_TABLE[(crc ^ buffer[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
 /**
  * Validate file signature (magic numbers)
  */
@@ -100,6 +173,8 @@ export async function getFileMimeType(filePath: string): Promise<string> {
     '.bin': 'application/octet-stream',
     '.cue': 'application/x-cue',
     '.chd': 'application/x-mame-chd',
+    '.rvz': 'application/x-dolphin-rvz',
+    '.wia': 'application/x-dolphin-wia',
     '.nes': 'application/x-nes-rom',
     '.sfc': 'application/x-snes-rom',
     '.smc': 'application/x-snes-rom',
@@ -437,7 +512,10 @@ export async function processFileInChunks(
 
 export default {
   calculateFileHash,
+  calculateChecksums,
+  calculateStreamChecksums,
   calculateBufferHash,
+  calculateBufferCrc32,
   validateFileSignature,
   getFileMimeType,
   ensureDirectory,
@@ -0,0 +1,330 @@
+import { calculateBufferCrc32 } from './fileUtils';
+
+// Soft patch formats used for translations and romhacks
+export type PatchFormat = 'ips' | 'bps' | 'ups';
+
+export interface PatchInfo {
+  format: PatchFormat;
+  sourceSize?: number;      // BPS/UPS only
+  targetSize?: number;      // BPS/UPS only
+  sourceCrc32?: string;     // BPS/UPS only: CRC32 of the ROM the patch was made against
+  targetCrc32?: string;     // BPS/UPS only: CRC32 of the patched ROM
+  metadata?: string;        // BPS manifest, usually XML or empty
+  recordCount: number;      // IPS records, BPS actions or UPS hunks
+}
+
+const IPS_MAGIC = 'PATCH';
+const IPS_EOF = 0x454F46;   // "EOF"
+const BPS_MAGIC = 'BPS1';
+const UPS_MAGIC = 'UPS1';
+const CHECKSUM_FOOTER = 12; // Source, target and patch CRC32 at the end of BPS/UPS files
+
+/**
+ * Identify a patch format from its magic bytes
+ */
+export function detectPatchFormat(patch: Buffer): PatchFormat | null {
+  if (patch.toString('latin1', 0, 5) === IPS_MAGIC) return 'ips';
+  if (patch.toString('latin1', 0, 4) === BPS_MAGIC) return 'bps';
+  if (patch.toString('latin1', 0, 4) === UPS_MAGIC) return 'ups';
+  return null;
+}
+
+/**
+ * Check a patch's structure and its own checksum, and read the CRCs it expects
+ */
+export function readPatchInfo(patch: Buffer): PatchInfo {
+  const format = detectPatchFormat(patch);
+
+  switch (format) {
+    case 'ips':
+      return { format, recordCount: walkIps(patch, () => undefined).records };
+
+    case 'bps':
+    case 'ups': {
+      if (patch.length < 4 + 2 + CHECKSUM_FOOTER) {
+        throw new Error(`Invalid ${format.toUpperCase()} patch: file is truncated`);
+      }
+
+      const patchCrc = patch.readUInt32LE(patch.length - 4);
+      if (calculateBufferCrc32(patch.subarray(0, patch.length - 4)) !== patchCrc) {
+        throw new Error(`Invalid ${format.toUpperCase()} patch: patch checksum mismatch`);
+      }
+
+      const reader = new VarintReader(patch, 4);
+      const sourceSize = reader.next();
+      const targetSize = reader.next();
+      let metadata: string | undefined;
+
+      if (format === 'bps') {
+        const metadataSize = reader.next();
+        metadata = patch.toString('utf8', reader.offset, reader.offset + metadataSize);
+        reader.offset += metadataSize;
+      }
+
+      const recordCount = format === 'bps'
+        ? walkBps(patch, reader, () => undefined)
+        : walkUps(patch, reader, () => undefined);
+
+      return {
+        format,
+        sourceSize,
+        targetSize,
+        sourceCrc32: crcHex(patch.readUInt32LE(patch.length - 12)),
+        targetCrc32: crcHex(patch.readUInt32LE(patch.length - 8)),
+        metadata: metadata || undefined,
+        recordCount,
+      };
+    }
+
+    default:
+      throw new Error('Unsupported patch format: expected an IPS, BPS or UPS file');
+  }
+}
+
+/**
+ * Apply a patch to a ROM and return the patched copy; BPS/UPS source and target CRCs are enforced
+ */
+export function applyPatch(source: Buffer, patch: Buffer): Buffer {
+  const info = readPatchInfo(patch);
+
+  if (info.format === 'ips') {
+    return applyIps(source, patch);
+  }
+
+  if (info.sourceCrc32 !== crcHex(calculateBufferCrc32(source))) {
+    throw new Error(`Patch source CRC mismatch: expected ${info.sourceCrc32}`);
+  }
+
+  const target = info.format === 'bps'
+    ? applyBps(source, patch, info.targetSize!)
+    : applyUps(source, patch, info.targetSize!);
+
+  if (info.targetCrc32 !== crcHex(calculateBufferCrc32(target))) {
+    throw new Error(`Patch target CRC mismatch: expected ${info.targetCrc32}`);
+  }
+
+  return target;
+}
+
+// Helper functions
+class VarintReader {
+  constructor(private buffer: Buffer, public offset: number) {}
+
+  // BPS/UPS number encoding: 7 bits per byte, high bit ends the number, each continuation adds one
+  next(): number {
+    let value = 0;
+    let shift = 1;
+
+    for (;;) {
+      if (this.offset >= this.buffer.length) {
+        throw new Error('Invalid patch: number runs past the end of the file');
+      }
+      const byte = this.buffer[this.offset++];
+      value += (byte & 0x7F) * shift;
+      if (byte & 0x80) return value;
+      shift *= 128;
+      value += shift;
+    }
+  }
+}
+
+function walkIps(
+  patch: Buffer,
+  onRecord: (offset: number, data: Buffer | { rle: number; length: number }) => void
+): { records: number; end: number } {
+  let position = IPS_MAGIC.length;
+  let records = 0;
+
+  while (position + 3 <= patch.length) {
+    const offset = patch.readUIntBE(position, 3);
+    position += 3;
+    if (offset === IPS_EOF) {
+      return { records, end: position };
+    }
+
+    if (position + 2 > patch.length) break;
+    const size = patch.readUInt16BE(position);
+    position += 2;
+
+    if (size === 0) {
+      // Run-length record: a 16-bit count and one byte to repeat
+      if (position + 3 > patch.length) break;
+      onRecord(offset, { length: patch.readUInt16BE(position), rle: patch[position + 2] });
+      position += 3;
+    } else {
+      if (position + size > patch.length) break;
+      onRecord(offset, patch.subarray(position, position + size));
+      position += size;
+    }
+    records++;
+  }
+
+  throw new Error('Invalid IPS patch: missing EOF marker');
+}
+
+function applyIps(source: Buffer, patch: Buffer): Buffer {
+  let target = Buffer.from(source);
+
+  const grow = (size: number) => {
+    if (size > target.length) {
+      target = Buffer.concat([target, Buffer.alloc(size - target.length)]);
+    }
+  };
+
+  const { end } = walkIps(patch, (offset, data) => {
+    if (Buffer.isBuffer(data)) {
+      grow(offset + data.length);
+      data.copy(target, offset);
+    } else {
+      grow(offset + data.length);
+      target.fill(data.rle, offset, offset + data.length);
+    }
+  });
+
+  // Lunar IPS extension: a 24-bit size after EOF truncates the output
+  if (patch.length - end === 3) {
+    target = target.subarray(0, patch.readUIntBE(end, 3));
+  }
+
+  return target;
+}
+
+function walkBps(
+  patch: Buffer,
+  reader: VarintReader,
+  onAction: (action: number, length: number, relativeOffset?: number) => void
+): number {
+  const end = patch.length - CHECKSUM_FOOTER;
+  let actions = 0;
+
+  while (reader.offset < end) {
+    const data = reader.next();
+    const action = data & 0x03;
+    const length = Math.floor(data / 4) + 1;
+
+    if (action === 1) {
+      // TargetRead: the bytes follow in the patch
+      if (reader.offset + length > end) {
+        throw new Error('Invalid BPS patch: data runs past the end of the file');
+      }
+      onAction(action, length, reader.offset);
+      reader.offset += length;
+    } else if (action >= 2) {
+      // SourceCopy / TargetCopy: signed relative offset, sign in the lowest bit
+      const offset = reader.next();
+      onAction(action, length, (offset & 1 ? -1 : 1) * Math.floor(offset / 2));
+    } else {
+      onAction(action, length);
+    }
+    actions++;
+  }
+
+  if (reader.offset !== end) {
+    throw new Error('Invalid BPS patch: actions overlap the checksums');
+  }
+  return actions;
+}
+
+function applyBps(source: Buffer, patch: Buffer, targetSize: number): Buffer {
+  const target = Buffer.alloc(targetSize);
+  const reader = new VarintReader(patch, BPS_MAGIC.length);
+  reader.next();
+  reader.next();
+  const metadataSize = reader.next();
+  reader.offset += metadataSize;
+
+  let outputOffset = 0;
+  let sourceRelative = 0;
+  let targetRelative = 0;
+
+  const assertRange = (start: number, length: number, size: number) => {
+    if (start < 0 || start + length > size) {
+      throw new Error('Invalid BPS patch: copy outside the ROM');
+    }
+  };
+
+  walkBps(patch, reader, (action, length, value) => {
+    assertRange(outputOffset, length, targetSize);
+
+    switch (action) {
+      case 0: // SourceRead
+        assertRange(outputOffset, length, source.length);
+        source.copy(target, outputOffset, outputOffset, outputOffset + length);
+        break;
+      case 1: // TargetRead
+        patch.copy(target, outputOffset, value!, value! + length);
+        break;
+      case 2: // SourceCopy
+        sourceRelative += value!;
+        assertRange(sourceRelative, length, source.length);
+        source.copy(target, outputOffset, sourceRelative, sourceRelative + length);
+        sourceRelative += length;
+        break;
+      case 3: // TargetCopy: byte by byte, the ranges may overlap
+        targetRelative += value!;
+        if (targetRelative < 0 || targetRelative >= outputOffset) {
+          throw new Error('Invalid BPS patch: copy outside the ROM');
+        }
+        for (let i = 0; i < length; i++) {
+          target[outputOffset + i] = target[targetRelative++];
+        }
+        break;
+    }
+    outputOffset += length;
+  });
+
+  return target;
+}
+
+function walkUps(patch: Buffer, reader: VarintReader, onHunk: (skip: number, start: number, end: number) => void): number {
+  const end = patch.length - CHECKSUM_FOOTER;
+  let hunks = 0;
+
+  while (reader.offset < end) {
+    const skip = reader.next();
+    const start = reader.offset;
+    const terminator = patch.indexOf(0, start);
+
+    if (terminator === -1 || terminator >= end) {
+      throw new Error('Invalid UPS patch: unterminated hunk');
+    }
+    onHunk(skip, start, terminator);
+    reader.offset = terminator + 1;
+    hunks++;
+  }
+
+  return hunks;
+}
+
+function applyUps(source: Buffer, patch: Buffer, targetSize: number): Buffer {
+  const target = Buffer.alloc(targetSize);
+  source.copy(target, 0, 0, Math.min(source.length, targetSize));
+
+  const reader = new VarintReader(patch, UPS_MAGIC.length);
+  reader.next();
+  reader.next();
+
+  // Hunks XOR against the source; the zero terminator stands for one unchanged byte
+  let offset = 0;
+  walkUps(patch, reader, (skip, start, end) => {
+    offset += skip;
+    for (let i = start; i < end; i++, offset++) {
+      if (offset < targetSize) {
+        target[offset] = (offset < source.length ? source[offset] : 0) ^ patch[i];
+      }
+    }
+    offset++;
+  });
+
+  return target;
+}
+
+function crcHex(crc: number): string {
+  return crc.toString(16).padStart(8, '0');
+}
+
+export default {
+  detectPatchFormat,
+  readPatchInfo,
+  applyPatch,
+};
@@ -0,0 +1,228 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PLATFORM_REGISTRY, getPlatformsByMagic } from '../config';
+import { isChdFile, isRvzFile, readChdHeader, readRvzHeader } from './discImageUtils';
+import { logger } from './logger';
+
+export interface PlatformCandidate {
+  platformId: string;   // Platform key, e.g. "genesis"
+  confidence: number;   // 0 to 1
+  reasons: string[];    // Evidence behind the confidence
+}
+
+const SNIFF_BYTES = 0x10200;              // SNES HiROM header behind a 512-byte copier header
+const CD_MAX_SIZE = 900 * 1024 * 1024;    // Larger PlayStation images are PS2 DVDs
+
+// CHD media types that identify a platform; CD images need their data tracks
+const CHD_MEDIA_PLATFORMS: Record<string, string> = {
+  gdrom: 'dreamcast',
+  dvd: 'ps2',
+  harddisk: 'mame',
+};
+
+// Confidence per kind of evidence
+const EXTENSION_CONFIDENCE = 0.7;         // Split between the platforms sharing an extension
+const SIGNATURE_CONFIDENCE = 0.9;         // Header signature or disc image metadata
+const CHECKSUM_CONFIDENCE = 0.8;          // Internal header checksum that adds up
+const EXTENSION_BONUS = 0.05;             // Content evidence on a file with a matching extension
+const OVERSIZE_PENALTY = 0.25;            // File larger than the platform's size limit
+const AMBIGUITY_MARGIN = 0.2;             // Top candidates closer than this need a user decision
+
+interface Evidence {
+  confidence: number;
+  reasons: string[];
+  byExtension: boolean;
+  byContent: boolean;
+}
+
+/**
+ * Rank platforms by file extension alone, e.g. before an upload has been received
+ */
+export function getExtensionCandidates(fileName: string, fileSize?: number): PlatformCandidate[] {
+  const evidence = new Map<string, Evidence>();
+  addExtensionEvidence(evidence, fileName);
+  return rankCandidates(evidence, fileSize);
+}
+
+/**
+ * Rank platforms for a file by extension and contents: header signatures, internal checksums
+ * and disc image metadata
+ */
+export async function detectPlatformCandidates(
+  filePath: string,
+  fileName: string = path.basename(filePath)
+): Promise<PlatformCandidate[]> {
+  const evidence = new Map<string, Evidence>();
+  addExtensionEvidence(evidence, fileName);
+
+  let size: number | undefined;
+  try {
+    size = (await fs.stat(filePath)).size;
+    await addContentEvidence(evidence, filePath, fileName, size);
+  } catch (error) {
+    logger.debug(`Platform sniffing failed for ${filePath}:`, error);
+  }
+
+  return rankCandidates(evidence, size);
+}
+
+/**
+ * Most likely platform for a file, or null when no platform handles it
+ */
+export async function detectPlatform(filePath: string, fileName?: string): Promise<string | null> {
+  const candidates = await detectPlatformCandidates(filePath, fileName);
+  return candidates[0]?.platformId || null;
+}
+
+/**
+ * Whether the best candidates are too close to pick one without asking
+ */
+export function isAmbiguous(candidates: PlatformCandidate[]): boolean {
+  return candidates.length > 1 && candidates[0].confidence - candidates[1].confidence < AMBIGUITY_MARGIN;
+}
+
+// Helper functions
+function addEvidence(
+  evidence: Map<string, Evidence>,
+  platformId: string,
+  confidence: number,
+  reason: string,
+  kind: 'extension' | 'content'
+): void {
+  const entry = evidence.get(platformId) || { confidence: 0, reasons: [], byExtension: false, byContent: false };
+  entry.confidence = Math.max(entry.confidence, confidence);
+  entry.reasons.push(reason);
+  entry.byExtension = entry.byExtension || kind === 'extension';
+  entry.byContent = entry.byContent || kind === 'content';
+  evidence.set(platformId, entry);
+}
+
+function addExtensionEvidence(evidence: Map<string, Evidence>, fileName: string): void {
+  const extension = path.extname(fileName).toLowerCase();
+  const platforms = PLATFORM_REGISTRY.filter(platform => platform.extensions.includes(extension));
+
+  for (const platform of platforms) {
+    const reason = platforms.length > 1
+      ? `extension ${extension} (shared by ${platforms.length} platforms)`
+      : `extension ${extension}`;
+    addEvidence(evidence, platform.key, EXTENSION_CONFIDENCE / platforms.length, reason, 'extension');
+  }
+}
+
+async function addContentEvidence(
+  evidence: Map<string, Evidence>,
+  filePath: string,
+  fileName: string,
+  size: number
+): Promise<void> {
+  if (isChdFile(fileName)) {
+    const chd = await readChdHeader(filePath);
+    const platformId = CHD_MEDIA_PLATFORMS[chd.mediaType];
+    if (platformId) {
+      addEvidence(evidence, platformId, SIGNATURE_CONFIDENCE, `CHD ${chd.mediaType} image`, 'content');
+    }
+    return;
+  }
+
+  if (isRvzFile(fileName)) {
+    const rvz = await readRvzHeader(filePath);
+    if (rvz.discType !== 'unknown') {
+      addEvidence(evidence, rvz.discType, SIGNATURE_CONFIDENCE, `${rvz.format.toUpperCase()} ${rvz.discType} disc ${rvz.gameId}`, 'content');
+    }
+    return;
+  }
+
+  // Cue sheets are text: look at the first track they reference instead
+  if (path.extname(fileName).toLowerCase() === '.cue') {
+    const trackPath = await readFirstCueTrack(filePath);
+    if (!trackPath) return;
+    filePath = trackPath;
+    size = (await fs.stat(trackPath)).size;
+  }
+
+  const buffer = Buffer.alloc(SNIFF_BYTES);
+  const fileHandle = await fs.open(filePath, 'r');
+  let bytesRead: number;
+
+  try {
+    ({ bytesRead } = await fileHandle.read(buffer, 0, SNIFF_BYTES, 0));
+  } finally {
+    await fileHandle.close();
+  }
+
+  const header = buffer.subarray(0, bytesRead);
+  const text = (offset: number, length: number) => header.toString('latin1', offset, offset + length);
+
+  for (const platformId of getPlatformsByMagic(header)) {
+    addEvidence(evidence, platformId, SIGNATURE_CONFIDENCE, 'header signature', 'content');
+  }
+
+  // ISO 9660 primary volume descriptor in sector 16: 2048-byte ISO, raw Mode 1 or raw Mode 2 sectors
+  for (const offset of [0x8000, 0x9310, 0x9318]) {
+    if (text(offset + 1, 5) === 'CD001' && text(offset + 8, 11) === 'PLAYSTATION') {
+      // PS2 games also shipped on CDs, but images larger than a CD are always PS2 DVDs
+      if (size > CD_MAX_SIZE) {
+        addEvidence(evidence, 'ps2', SIGNATURE_CONFIDENCE, 'PLAYSTATION system area on a DVD-sized image', 'content');
+      } else {
+        addEvidence(evidence, 'psx', SIGNATURE_CONFIDENCE, 'PLAYSTATION system area', 'content');
+        addEvidence(evidence, 'ps2', SIGNATURE_CONFIDENCE / 2, 'PLAYSTATION system area', 'content');
+      }
+      break;
+    }
+  }
+
+  // SNES internal header: checksum and its complement add up to 0xFFFF (LoROM, HiROM, with or without a copier header)
+  for (const offset of [0x7FC0, 0xFFC0, 0x81C0, 0x101C0]) {
+    if (offset + 0x20 > header.length) continue;
+    const complement = header.readUInt16LE(offset + 0x1C);
+    const checksum = header.readUInt16LE(offset + 0x1E);
+    if (checksum + complement === 0xFFFF && checksum !== 0 && complement !== 0) {
+      addEvidence(evidence, 'snes', CHECKSUM_CONFIDENCE, `internal header checksum at 0x${offset.toString(16)}`, 'content');
+      break;
+    }
+  }
+}
+
+function rankCandidates(evidence: Map<string, Evidence>, fileSize?: number): PlatformCandidate[] {
+  const order = PLATFORM_REGISTRY.map(platform => platform.key);
+  const candidates: PlatformCandidate[] = [];
+
+  for (const [platformId, entry] of evidence) {
+    const platform = PLATFORM_REGISTRY.find(definition => definition.key === platformId);
+    if (!platform) continue;
+
+    let confidence = entry.confidence;
+    const reasons = [...entry.reasons];
+
+    if (entry.byContent && entry.byExtension) {
+      confidence += EXTENSION_BONUS;
+    }
+    if (fileSize !== undefined && platform.maxSize && fileSize > platform.maxSize) {
+      confidence *= OVERSIZE_PENALTY;
+      reasons.push(`larger than the ${Math.round(platform.maxSize / (1024 * 1024))}MB limit`);
+    }
+
+    candidates.push({ platformId, confidence: Math.round(Math.min(confidence, 1) * 100) / 100, reasons });
+  }
+
+  // Ties keep registry order
+  return candidates.sort((a, b) =>
+    b.confidence - a.confidence || order.indexOf(a.platformId) - order.indexOf(b.platformId)
+  );
+}
+
+async function readFirstCueTrack(cuePath: string): Promise<string | null> {
+  const contents = await fs.readFile(cuePath, 'utf8');
+  const match = contents.match(/^\s*FILE\s+(?:"([^"]+)"|(\S+))/im);
+  if (!match) return null;
+
+  const trackPath = path.resolve(path.dirname(cuePath), match[1] || match[2]);
+  return trackPath.startsWith(path.dirname(path.resolve(cuePath)) + path.sep) ? trackPath : null;
+}
+
+export default {
+  getExtensionCandidates,
+  detectPlatformCandidates,
+  detectPlatform,
+  isAmbiguous,
+};
@@ -0,0 +1,288 @@
+import dgram from 'dgram';
+import { ChildProcess } from 'child_process';
+
+export interface RetroArchCommandOptions {
+  host?: string;
+  port?: number;
+  process?: ChildProcess;   // RetroArch started with stdin_cmd_enable, used instead of the UDP port
+  timeout?: number;         // Milliseconds to wait for the answer to a query
+}
+
+export type RetroArchCommand =
+  | 'SAVE_STATE_SLOT'
+  | 'LOAD_STATE_SLOT'
+  | 'PAUSE_TOGGLE'
+  | 'FRAMEADVANCE'
+  | 'RESET'
+  | 'FAST_FORWARD'
+  | 'SCREENSHOT'
+  | 'DISK_EJECT_TOGGLE'
+  | 'DISK_NEXT'
+  | 'DISK_PREV'
+  | 'GET_STATUS';
+
+export type RetroArchState = 'playing' | 'paused' | 'contentless';
+
+export interface RetroArchStatus {
+  state: RetroArchState;
+  system?: string;          // Core system id, e.g. "super_nes"
+  game?: string;            // Content name as RetroArch knows it
+  crc32?: string;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_TIMEOUT = 2000;
+
+/**
+ * Client for RetroArch's UDP network command interface (network_cmd_enable).
+ * Commands are plain text datagrams; only queries such as GET_STATUS are answered,
+ * on the socket the query came from. RetroArch without network access is driven through
+ * its stdin command interface instead, which answers on stdout.
+ */
+export class RetroArchCommandClient {
+  private host: string;
+  private port?: number;
+  private process?: ChildProcess;
+  private timeout: number;
+
+  constructor(options: RetroArchCommandOptions) {
+    if (options.port === undefined && !options.process) {
+      throw new Error('RetroArch command client needs a port or a process');
+    }
+    this.host = options.host || DEFAULT_HOST;
+    this.port = options.port;
+    this.process = options.process;
+    this.timeout = options.timeout || DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Save the running content to a state slot
+   */
+  async saveState(slot: number): Promise<void> {
+    await this.send('SAVE_STATE_SLOT', assertSlot(slot));
+  }
+
+  /**
+   * Load a state slot into the running content
+   */
+  async loadState(slot: number): Promise<void> {
+    await this.send('LOAD_STATE_SLOT', assertSlot(slot));
+  }
+
+  /**
+   * Pause or unpause; the emulator keeps presenting frames and audio stays open while paused
+   */
+  async togglePause(): Promise<void> {
+    await this.send('PAUSE_TOGGLE');
+  }
+
+  /**
+   * Run a single frame, pausing first if the content is running
+   */
+  async frameAdvance(): Promise<void> {
+    await this.send('FRAMEADVANCE');
+  }
+
+  async reset(): Promise<void> {
+    await this.send('RESET');
+  }
+
+  /**
+   * Toggle fast-forward
+   */
+  async toggleFastForward(): Promise<void> {
+    await this.send('FAST_FORWARD');
+  }
+
+  /**
+   * Write a screenshot to RetroArch's screenshot directory
+   */
+  async screenshot(): Promise<void> {
+    await this.send('SCREENSHOT');
+  }
+
+  /**
+   * Open or close the virtual disc tray
+   */
+  async toggleDiscTray(): Promise<void> {
+    await this.send('DISK_EJECT_TOGGLE');
+  }
+
+  /**
+   * Select the next or previous image of the playlist; only takes effect while the tray is open
+   */
+  async selectDisc(direction: 'next' | 'previous'): Promise<void> {
+    await this.send(direction === 'next' ? 'DISK_NEXT' : 'DISK_PREV');
+  }
+
+  /**
+   * Ask RetroArch whether content is running and which
+   */
+  async getStatus(): Promise<RetroArchStatus> {
+    return parseStatus(await this.query('GET_STATUS'));
+  }
+
+  /**
+   * Check that RetroArch answers on the command port
+   */
+  async ping(): Promise<boolean> {
+    try {
+      await this.getStatus();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Send a command that RetroArch does not answer
+   */
+  async send(command: RetroArchCommand, ...args: Array<string | number>): Promise<void> {
+    if (this.process) {
+      await writeLine(this.process, formatCommand(command, args));
+      return;
+    }
+
+    const socket = dgram.createSocket('udp4');
+    try {
+      await sendDatagram(socket, formatCommand(command, args), this.port!, this.host);
+    } finally {
+      socket.close();
+    }
+  }
+
+  /**
+   * Send a query and wait for the answer, which starts with the query's name
+   */
+  async query(command: RetroArchCommand, ...args: Array<string | number>): Promise<string> {
+    if (this.process) {
+      return this.queryProcess(this.process, command, args);
+    }
+
+    const socket = dgram.createSocket('udp4');
+
+    try {
+      const reply = new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(
+          () => reject(new Error(`RetroArch at ${this.host}:${this.port} did not answer ${command}`)),
+          this.timeout
+        );
+
+        socket.on('message', message => {
+          const text = message.toString('utf8').trim();
+          if (text === command || text.startsWith(`${command} `)) {
+            clearTimeout(timer);
+            resolve(text.slice(command.length).trim());
+          }
+        });
+        socket.once('error', error => {
+          clearTimeout(timer);
+          reject(new Error(`RetroArch command ${command} failed: ${error.message}`));
+        });
+      });
+
+      await sendDatagram(socket, formatCommand(command, args), this.port!, this.host);
+      return await reply;
+    } finally {
+      socket.close();
+    }
+  }
+
+  // Answers arrive as lines on stdout, between RetroArch's own output
+  private async queryProcess(
+    child: ChildProcess,
+    command: RetroArchCommand,
+    args: Array<string | number>
+  ): Promise<string> {
+    const stdout = child.stdout;
+    if (!stdout) {
+      throw new Error(`RetroArch command ${command} failed: stdout is not a pipe`);
+    }
+
+    let onData: ((data: Buffer) => void) | undefined;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const reply = new Promise<string>((resolve, reject) => {
+        let buffered = '';
+        timer = setTimeout(
+          () => reject(new Error(`RetroArch process ${child.pid} did not answer ${command}`)),
+          this.timeout
+        );
+
+        onData = data => {
+          buffered += data.toString('utf8');
+          const lines = buffered.split('\n');
+          buffered = lines.pop() || '';
+          for (const line of lines.map(line => line.trim())) {
+            if (line === command || line.startsWith(`${command} `)) {
+              resolve(line.slice(command.length).trim());
+            }
+          }
+        };
+        stdout.on('data', onData);
+      });
+
+      await writeLine(child, formatCommand(command, args));
+      return await reply;
+    } finally {
+      clearTimeout(timer);
+      if (onData) stdout.off('data', onData);
+    }
+  }
+}
+
+// Helper functions
+function formatCommand(command: RetroArchCommand, args: Array<string | number>): string {
+  return [command, ...args].join(' ');
+}
+
+function sendDatagram(socket: dgram.Socket, message: string, port: number, host: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.send(Buffer.from(message), port, host, error => (
+      error ? reject(new Error(`RetroArch unavailable at ${host}:${port}: ${error.message}`)) : resolve()
+    ));
+  });
+}
+
+function writeLine(child: ChildProcess, message: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!child.stdin || !child.stdin.writable) {
+      reject(new Error(`RetroArch unavailable: process ${child.pid} does not accept commands`));
+      return;
+    }
+    child.stdin.write(`${message}\n`, error => (
+      error ? reject(new Error(`RetroArch unavailable: ${error.message}`)) : resolve()
+    ));
+  });
+}
+
+function assertSlot(slot: number): number {
+  if (!Number.isInteger(slot) || slot < 0 || slot > 999) {
+    throw new Error(`Invalid state slot: ${slot}`);
+  }
+  return slot;
+}
+
+function parseStatus(reply: string): RetroArchStatus {
+  // "CONTENTLESS", or "PLAYING|PAUSED <system>,<game>,crc32=<crc>"; the game name may contain commas
+  const match = reply.match(/^(PLAYING|PAUSED|CONTENTLESS)(?:\s+(.*))?$/);
+  if (!match) {
+    throw new Error(`Unexpected GET_STATUS answer: ${reply || 'empty reply'}`);
+  }
+
+  const status: RetroArchStatus = { state: match[1].toLowerCase() as RetroArchState };
+  if (match[2]) {
+    const fields = match[2].split(',');
+    const crc = fields[fields.length - 1].match(/^crc32=([0-9a-f]+)$/i);
+    if (crc) {
+      status.crc32 = crc[1].toLowerCase();
+      fields.pop();
+    }
+    status.system = fields.shift() || undefined;
+    status.game = fields.join(',') || undefined;
+  }
+
+  return status;
+}
+
+export default RetroArchCommandClient;
@@ -0,0 +1,142 @@
+import path from 'path';
+import { RetroArchSettings } from '../config';
+
+export interface RecordSettings {
+  resolution: '720p' | '1080p' | '1440p';
+  framerate: 30 | 60;
+  codec: 'h264' | 'h265';
+  enableAudio: boolean;
+}
+
+export interface SessionConfigOptions {
+  commandPort?: number;     // UDP network command port; without one, commands come on stdin
+  coreOptionsPath: string;  // Where the session's core options file is written
+  screenshotDir: string;
+  shaderDir: string;
+  record?: RecordSettings;
+}
+
+export interface RetroArchSessionConfig {
+  config: Record<string, string>;        // retroarch.cfg entries
+  coreOptions: Record<string, string>;   // Core options file entries
+  recordConfig?: Record<string, string>; // FFmpeg record config entries, when recording
+  args: string[];                        // Extra command line arguments
+}
+
+// Positions in RetroArch's aspect ratio list (aspect_ratio_index)
+const ASPECT_RATIO_INDEX: Record<NonNullable<NonNullable<RetroArchSettings['video']>['aspectRatio']>, number> = {
+  '4:3': 0,
+  '16:9': 1,
+  'square': 21,
+  'core': 22,
+  'full': 24,
+};
+
+const RECORD_SIZES: Record<RecordSettings['resolution'], string> = {
+  '720p': '1280x720',
+  '1080p': '1920x1080',
+  '1440p': '2560x1440',
+};
+
+/**
+ * Layer settings over each other; later layers win per video setting, core option and input bind
+ */
+export function mergeRetroArchSettings(...layers: Array<RetroArchSettings | null | undefined>): RetroArchSettings {
+  const merged: RetroArchSettings = {};
+
+  for (const layer of layers) {
+    if (!layer) continue;
+
+    if (layer.core) merged.core = layer.core;
+    if (layer.video) merged.video = { ...merged.video, ...layer.video };
+    if (layer.coreOptions) merged.coreOptions = { ...merged.coreOptions, ...layer.coreOptions };
+    if (layer.inputRemaps) merged.inputRemaps = { ...merged.inputRemaps, ...layer.inputRemaps };
+  }
+
+  return merged;
+}
+
+/**
+ * Turn merged settings and what the session itself needs into config, core options and record files
+ */
+export function buildSessionConfig(settings: RetroArchSettings, options: SessionConfigOptions): RetroArchSessionConfig {
+  const config: Record<string, string> = {};
+  const args: string[] = [];
+  const video = settings.video || {};
+
+  if (video.scale !== undefined) config.video_scale = String(video.scale);
+  if (video.integerScale !== undefined) config.video_scale_integer = String(video.integerScale);
+  if (video.smooth !== undefined) config.video_smooth = String(video.smooth);
+  if (video.aspectRatio) {
+    config.aspect_ratio_index = String(ASPECT_RATIO_INDEX[video.aspectRatio]);
+  }
+  if (video.shader) {
+    config.video_shader_enable = 'true';
+    args.push('--set-shader', path.join(options.shaderDir, video.shader));
+  }
+
+  Object.assign(config, settings.inputRemaps);
+
+  // Session needs come last so no preference can switch them off
+  Object.assign(config, {
+    network_cmd_enable: String(options.commandPort !== undefined),
+    stdin_cmd_enable: String(options.commandPort === undefined),
+    config_save_on_exit: 'false',
+    core_options_path: options.coreOptionsPath,
+    game_specific_options: 'false',
+    // The window fills the session's X screen and audio goes to its PulseAudio sink
+    video_fullscreen: 'true',
+    video_windowed_fullscreen: 'true',
+    audio_driver: 'pulse',
+    // Slot files land flat in the session's savestate directory, with a thumbnail beside them
+    savestate_auto_index: 'false',
+    savestate_thumbnail_enable: 'true',
+    sort_savestates_enable: 'false',
+    sort_savestates_by_content_enable: 'false',
+    // Content sits on a read-only mount, so screenshots cannot go next to it
+    screenshot_directory: options.screenshotDir,
+  });
+  if (options.commandPort !== undefined) {
+    config.network_cmd_port = String(options.commandPort);
+  }
+
+  let recordConfig: Record<string, string> | undefined;
+  if (options.record) {
+    const { resolution, framerate, codec, enableAudio } = options.record;
+    recordConfig = {
+      vcodec: codec === 'h265' ? 'libx265' : 'libx264',
+      acodec: 'aac',
+      pix_fmt: 'yuv420p',
+      threads: '2',
+      frame_drop_ratio: String(Math.max(1, Math.round(60 / framerate))),
+      video_preset: 'veryfast',
+      video_tune: 'zerolatency',
+    };
+    if (!enableAudio) {
+      config.audio_mute_enable = 'true';
+    }
+    args.push('--size', RECORD_SIZES[resolution]);
+  }
+
+  return {
+    config,
+    coreOptions: { ...settings.coreOptions },
+    recordConfig,
+    args,
+  };
+}
+
+/**
+ * Write entries in RetroArch's `key = "value"` file format, which has no escaping
+ */
+export function serializeConfig(entries: Record<string, string>): string {
+  return Object.entries(entries)
+    .map(([key, value]) => `${key} = "${value.replace(/["\r\n]/g, '')}"`)
+    .join('\n') + '\n';
+}
+
+export default {
+  mergeRetroArchSettings,
+  buildSessionConfig,
+  serializeConfig,
+};
@@ -0,0 +1,707 @@
+import { calculateBufferCrc32 } from './fileUtils';
+
+// Parsers for cartridge headers. Except for NES, they take the canonical ROM body:
+// copier headers stripped, N64 in big-endian order, Genesis de-interleaved.
+
+export interface NesHeaderInfo {
+  format: 'iNES' | 'NES 2.0';
+  mapper: number;
+  submapper?: number;       // NES 2.0 only
+  prgRomSize: number;       // Bytes
+  chrRomSize: number;       // Bytes; 0 means the board uses CHR RAM
+  prgRamSize?: number;      // NES 2.0 only: volatile PRG RAM bytes
+  prgNvramSize?: number;    // NES 2.0 only: battery-backed PRG RAM bytes
+  chrRamSize?: number;      // NES 2.0 only
+  chrNvramSize?: number;    // NES 2.0 only
+  mirroring: 'horizontal' | 'vertical' | 'four-screen';
+  battery: boolean;
+  trainer: boolean;
+  consoleType: 'nes' | 'vs-system' | 'playchoice-10' | 'extended';
+  timing: 'ntsc' | 'pal' | 'multi-region' | 'dendy';
+}
+
+export interface SnesHeaderInfo {
+  title: string;
+  mapping: 'LoROM' | 'HiROM' | 'ExHiROM';
+  headerOffset: number;     // Offset of the internal header in the ROM body
+  mapMode: number;          // Raw map mode byte, e.g. 0x20 LoROM, 0x31 fast HiROM
+  fastRom: boolean;
+  chipset: string;          // e.g. "ROM+RAM+Battery", "ROM+SuperFX+RAM"
+  coprocessor?: string;     // DSP, SuperFX, SA-1, S-DD1, SPC7110, CX4, ...
+  battery: boolean;
+  romSize: number;          // Bytes, as declared in the header
+  ramSize: number;          // Bytes of cartridge RAM
+  country: number;
+  region?: string;
+  developerId: number;
+  version: number;
+  checksum: number;
+  complement: number;
+  complementValid: boolean; // Checksum and complement add up to 0xFFFF
+  computedChecksum: number; // Sum of all ROM bytes, with the mirroring the console applies
+  checksumValid: boolean;
+}
+
+export interface GameBoyHeaderInfo {
+  title: string;
+  cgbFlag: 'none' | 'supported' | 'required';
+  sgb: boolean;
+  cartridgeType: number;
+  mbc: string;              // Memory bank controller: none, MBC1, MBC3, MBC5, HuC1, ...
+  features: string[];       // RAM, BATTERY, TIMER, RUMBLE, SENSOR
+  romSize: number;          // Bytes
+  ramSize: number;          // Bytes
+  destination: 'japan' | 'overseas';
+  licensee: string;
+  version: number;
+  headerChecksum: number;
+  computedHeaderChecksum: number;
+  headerChecksumValid: boolean; // Checked by the boot ROM: a mismatch does not boot on hardware
+  globalChecksum: number;
+  computedGlobalChecksum: number;
+  globalChecksumValid: boolean;
+}
+
+export interface GbaHeaderInfo {
+  title: string;
+  gameCode: string;
+  makerCode: string;
+  region?: string;
+  version: number;
+  complementCheck: number;
+  computedComplementCheck: number;
+  complementCheckValid: boolean; // Checked by the BIOS: a mismatch does not boot on hardware
+}
+
+export interface GenesisHeaderInfo {
+  system: string;
+  copyright: string;
+  domesticTitle: string;
+  overseasTitle: string;
+  serial: string;
+  checksum: number;
+  computedChecksum: number; // Sum of the 16-bit words after the header
+  checksumValid: boolean;
+  ioSupport: string[];      // Supported devices, e.g. "3-button controller", "mouse"
+  ioSupportCodes: string;   // Raw device letters
+  romStart: number;
+  romEnd: number;
+  sram?: { start: number; end: number };
+  regions: string[];
+}
+
+export type N64SaveType =
+  'none' | 'eeprom-4k' | 'eeprom-16k' | 'sram-256k' | 'sram-768k' | 'flashram' | 'sram-1m' | 'unknown';
+
+export interface N64HeaderInfo {
+  title: string;
+  mediaFormat: string;      // cartridge, 64dd, expandable, ...
+  gameCode: string;         // Four-character code, e.g. NSME
+  region?: string;
+  version: number;
+  crc1: string;
+  crc2: string;
+  cic: string;              // Lockout chip the boot code was written for, e.g. 6102
+  saveType: N64SaveType;
+}
+
+// An internal checksum as stored in the header and as recomputed from the ROM
+export interface HeaderChecksum {
+  name: string;             // e.g. "SNES checksum", "Game Boy header checksum"
+  stored: number;
+  computed: number;
+  valid: boolean;
+}
+
+// Platforms whose internal checksums fixHeaderChecksums can rewrite
+export const REPAIRABLE_PLATFORMS = ['snes', 'gameboy', 'gbc', 'gba', 'genesis'];
+
+// Country letters of GBA and N64 game codes
+const GAME_CODE_REGIONS: Record<string, string> = {
+  E: 'USA',
+  J: 'Japan',
+  P: 'Europe',
+  X: 'Europe',
+  Y: 'Europe',
+  D: 'Germany',
+  F: 'France',
+  I: 'Italy',
+  S: 'Spain',
+  H: 'Netherlands',
+  W: 'Scandinavia',
+  U: 'Australia',
+  N: 'Canada',
+  B: 'Brazil',
+  C: 'China',
+  K: 'Korea',
+  A: 'World',
+};
+
+const SNES_COUNTRIES = [
+  'Japan', 'USA', 'Europe', 'Sweden', 'Finland', 'Denmark', 'France', 'Netherlands', 'Spain',
+  'Germany', 'Italy', 'China', 'Indonesia', 'Korea', 'World', 'Canada', 'Brazil', 'Australia',
+];
+
+// Internal header locations in the ROM body, tried in order
+const SNES_HEADER_OFFSETS: Array<{ offset: number; mapping: SnesHeaderInfo['mapping']; modes: number[] }> = [
+  { offset: 0x7FC0, mapping: 'LoROM', modes: [0x20, 0x22, 0x23] },   // 0x22 S-DD1, 0x23 SA-1
+  { offset: 0xFFC0, mapping: 'HiROM', modes: [0x21, 0x2A] },         // 0x2A SPC7110
+  { offset: 0x40FFC0, mapping: 'ExHiROM', modes: [0x25] },
+];
+
+const SNES_COPROCESSORS: Record<number, string> = {
+  0x0: 'DSP',
+  0x1: 'SuperFX',
+  0x2: 'OBC1',
+  0x3: 'SA-1',
+  0x4: 'S-DD1',
+  0x5: 'S-RTC',
+  0xE: 'Super Game Boy/Satellaview',
+};
+
+// Chipset 0xF_: the coprocessor is named in the extended header
+const SNES_CUSTOM_COPROCESSORS: Record<number, string> = {
+  0x00: 'SPC7110',
+  0x01: 'ST010/ST011',
+  0x02: 'ST018',
+  0x10: 'CX4',
+};
+
+const GB_CARTRIDGE_TYPES: Record<number, string> = {
+  0x00: 'ROM',
+  0x01: 'MBC1',
+  0x02: 'MBC1+RAM',
+  0x03: 'MBC1+RAM+BATTERY',
+  0x05: 'MBC2',
+  0x06: 'MBC2+BATTERY',
+  0x08: 'ROM+RAM',
+  0x09: 'ROM+RAM+BATTERY',
+  0x0B: 'MMM01',
+  0x0C: 'MMM01+RAM',
+  0x0D: 'MMM01+RAM+BATTERY',
+  0x0F: 'MBC3+TIMER+BATTERY',
+  0x10: 'MBC3+TIMER+RAM+BATTERY',
+  0x11: 'MBC3',
+  0x12: 'MBC3+RAM',
+  0x13: 'MBC3+RAM+BATTERY',
+  0x19: 'MBC5',
+  0x1A: 'MBC5+RAM',
+  0x1B: 'MBC5+RAM+BATTERY',
+  0x1C: 'MBC5+RUMBLE',
+  0x1D: 'MBC5+RUMBLE+RAM',
+  0x1E: 'MBC5+RUMBLE+RAM+BATTERY',
+  0x20: 'MBC6',
+  0x22: 'MBC7+SENSOR+RUMBLE+RAM+BATTERY',
+  0xFC: 'POCKET CAMERA',
+  0xFD: 'TAMA5',
+  0xFE: 'HuC3',
+  0xFF: 'HuC1+RAM+BATTERY',
+};
+
+const GB_RAM_SIZES = [0, 0, 8192, 32768, 131072, 65536];
+
+const GENESIS_DEVICES: Record<string, string> = {
+  J: '3-button controller',
+  '6': '6-button controller',
+  '0': 'Master System controller',
+  A: 'analog joystick',
+  '4': 'multitap',
+  G: 'lightgun',
+  L: 'activator',
+  M: 'mouse',
+  B: 'trackball',
+  T: 'tablet',
+  V: 'paddle',
+  K: 'keyboard',
+  R: 'RS-232',
+  P: 'printer',
+  C: 'CD-ROM',
+  F: 'floppy drive',
+  D: 'download',
+};
+
+const N64_MEDIA_FORMATS: Record<string, string> = {
+  N: 'cartridge',
+  D: '64dd',
+  C: 'expandable',
+  E: '64dd-expansion',
+  Z: 'aleck64',
+};
+
+// CRC32 of the IPL3 boot code (0x40-0x1000), which each lockout chip variant checks
+const N64_CIC_BOOT_CODES: Record<number, string> = {
+  0x6170A4A1: '6101',
+  0x90BB6CB5: '6102',
+  0x0B050EE0: '6103',
+  0x98BC2C86: '6105',
+  0xACC8580A: '6106',
+  0x009E9EA3: '7102',
+  0x0E018159: '8303',
+};
+
+// Save types from the homebrew header (game ID "ED"), indexed by the high nibble of 0x3F
+const N64_HOMEBREW_SAVE_TYPES: N64SaveType[] = [
+  'none', 'eeprom-4k', 'eeprom-16k', 'sram-256k', 'sram-768k', 'flashram', 'sram-1m',
+];
+
+// Commercial carts do not declare their save chip; known games by two-letter game ID
+const N64_KNOWN_SAVE_TYPES: Record<string, N64SaveType> = {
+  SM: 'eeprom-4k',   // Super Mario 64
+  KT: 'eeprom-4k',   // Mario Kart 64
+  GE: 'eeprom-4k',   // GoldenEye 007
+  BK: 'eeprom-4k',   // Banjo-Kazooie
+  FX: 'eeprom-4k',   // Star Fox 64
+  PD: 'eeprom-16k',  // Perfect Dark
+  FU: 'eeprom-16k',  // Conker's Bad Fur Day
+  YS: 'eeprom-16k',  // Yoshi's Story
+  B7: 'eeprom-16k',  // Banjo-Tooie
+  DO: 'eeprom-16k',  // Donkey Kong 64
+  ZL: 'sram-256k',   // The Legend of Zelda: Ocarina of Time
+  AL: 'sram-256k',   // Super Smash Bros.
+  FZ: 'sram-256k',   // F-Zero X
+  ZS: 'flashram',    // The Legend of Zelda: Majora's Mask
+  MQ: 'flashram',    // Paper Mario
+};
+
+/**
+ * Parse an iNES or NES 2.0 file header (the first 16 bytes of the file)
+ */
+export function parseNesHeader(header: Buffer): NesHeaderInfo | null {
+  if (header.length < 16 || header.toString('latin1', 0, 4) !== 'NES\x1A') {
+    return null;
+  }
+
+  const flags6 = header[6];
+  const flags7 = header[7];
+  const isNes2 = (flags7 & 0x0C) === 0x08;
+
+  const mirroring = flags6 & 0x08 ? 'four-screen' : flags6 & 0x01 ? 'vertical' : 'horizontal';
+  const consoleTypes: NesHeaderInfo['consoleType'][] = ['nes', 'vs-system', 'playchoice-10', 'extended'];
+
+  if (isNes2) {
+    const timings: NesHeaderInfo['timing'][] = ['ntsc', 'pal', 'multi-region', 'dendy'];
+
+    return {
+      format: 'NES 2.0',
+      mapper: (flags6 >> 4) | (flags7 & 0xF0) | ((header[8] & 0x0F) << 8),
+      submapper: header[8] >> 4,
+      prgRomSize: nes2RomSize(header[4], header[9] & 0x0F, 16384),
+      chrRomSize: nes2RomSize(header[5], header[9] >> 4, 8192),
+      prgRamSize: nes2RamSize(header[10] & 0x0F),
+      prgNvramSize: nes2RamSize(header[10] >> 4),
+      chrRamSize: nes2RamSize(header[11] & 0x0F),
+      chrNvramSize: nes2RamSize(header[11] >> 4),
+      mirroring,
+      battery: (flags6 & 0x02) !== 0,
+      trainer: (flags6 & 0x04) !== 0,
+      consoleType: consoleTypes[flags7 & 0x03],
+      timing: timings[header[12] & 0x03],
+    };
+  }
+
+  // Old dumping tools wrote text such as "DiskDude!" over bytes 7-15, which garbles the upper mapper nibble
+  const dirty = header.readUInt32BE(12) !== 0;
+
+  return {
+    format: 'iNES',
+    mapper: (flags6 >> 4) | (dirty ? 0 : flags7 & 0xF0),
+    prgRomSize: header[4] * 16384,
+    chrRomSize: header[5] * 8192,
+    mirroring,
+    battery: (flags6 & 0x02) !== 0,
+    trainer: (flags6 & 0x04) !== 0,
+    consoleType: dirty ? 'nes' : consoleTypes[flags7 & 0x03],
+    timing: !dirty && header[9] & 0x01 ? 'pal' : 'ntsc',
+  };
+}
+
+/**
+ * Find and parse the SNES internal header, picking the LoROM/HiROM/ExHiROM location that looks most valid
+ */
+export function parseSnesHeader(rom: Buffer): SnesHeaderInfo | null {
+  let best: { offset: number; mapping: SnesHeaderInfo['mapping']; score: number } | null = null;
+
+  for (const { offset, mapping, modes } of SNES_HEADER_OFFSETS) {
+    if (offset + 0x40 > rom.length) continue;
+
+    let score = 0;
+    if (rom.readUInt16LE(offset + 0x1C) + rom.readUInt16LE(offset + 0x1E) === 0xFFFF) score += 4;
+    if (modes.includes(rom[offset + 0x15] & ~0x10)) score += 2;
+    if (rom.readUInt16LE(offset + 0x3C) >= 0x8000) score += 1; // Reset vector points into ROM
+    if (isPrintable(rom.subarray(offset, offset + 21))) score += 1;
+
+    if (!best || score > best.score) {
+      best = { offset, mapping, score };
+    }
+  }
+
+  if (!best) return null;
+
+  const { offset, mapping } = best;
+  const mapMode = rom[offset + 0x15];
+  const chipset = rom[offset + 0x16];
+  const memory = chipset & 0x0F;
+  const country = rom[offset + 0x19];
+  const checksum = rom.readUInt16LE(offset + 0x1E);
+  const complement = rom.readUInt16LE(offset + 0x1C);
+  const computedChecksum = snesChecksum(rom);
+
+  // Low nibble: which parts are on the board; high nibble: which coprocessor, when there is one
+  let coprocessor: string | undefined;
+  if (memory >= 0x03) {
+    coprocessor = (chipset >> 4) === 0xF
+      ? SNES_CUSTOM_COPROCESSORS[rom[offset - 1]] || 'custom'
+      : SNES_COPROCESSORS[chipset >> 4] || 'unknown';
+  }
+
+  const parts = ['ROM'];
+  if (coprocessor) parts.push(coprocessor);
+  if ([0x01, 0x02, 0x04, 0x05].includes(memory)) parts.push('RAM');
+  if ([0x02, 0x05, 0x06].includes(memory)) parts.push('Battery');
+
+  return {
+    title: cleanText(rom, offset, 21),
+    mapping,
+    headerOffset: offset,
+    mapMode,
+    fastRom: (mapMode & 0x10) !== 0,
+    chipset: parts.join('+'),
+    coprocessor,
+    battery: parts.includes('Battery'),
+    romSize: rom[offset + 0x17] ? 1024 << rom[offset + 0x17] : 0,
+    ramSize: rom[offset + 0x18] ? 1024 << rom[offset + 0x18] : 0,
+    country,
+    region: SNES_COUNTRIES[country],
+    developerId: rom[offset + 0x1A],
+    version: rom[offset + 0x1B],
+    checksum,
+    complement,
+    complementValid: checksum + complement === 0xFFFF,
+    computedChecksum,
+    checksumValid: checksum === computedChecksum,
+  };
+}
+
+/**
+ * Parse a Game Boy / Game Boy Color cartridge header and verify its header and global checksums
+ */
+export function parseGameBoyHeader(rom: Buffer): GameBoyHeaderInfo | null {
+  if (rom.length < 0x150) return null;
+
+  const cgb = rom[0x143];
+  const cartridgeType = rom[0x147];
+  const [mbc, ...features] = (GB_CARTRIDGE_TYPES[cartridgeType] || 'unknown').split('+');
+  const headerChecksum = rom[0x14D];
+  const computedHeaderChecksum = gameBoyHeaderChecksum(rom);
+  const globalChecksum = rom.readUInt16BE(0x14E);
+  const computedGlobalChecksum = gameBoyGlobalChecksum(rom);
+
+  return {
+    // CGB titles give up their last byte to the CGB flag
+    title: cleanText(rom, 0x134, cgb & 0x80 ? 15 : 16),
+    cgbFlag: cgb === 0xC0 ? 'required' : cgb === 0x80 ? 'supported' : 'none',
+    sgb: rom[0x146] === 0x03,
+    cartridgeType,
+    mbc: mbc === 'ROM' ? 'none' : mbc,
+    features,
+    romSize: rom[0x148] <= 8 ? 32768 << rom[0x148] : 0,
+    ramSize: GB_RAM_SIZES[rom[0x149]] || 0,
+    destination: rom[0x14A] === 0x00 ? 'japan' : 'overseas',
+    // 0x33 means the licensee is the two-character code at 0x144
+    licensee: rom[0x14B] === 0x33 ? cleanText(rom, 0x144, 2) : hex(rom[0x14B], 2),
+    version: rom[0x14C],
+    headerChecksum,
+    computedHeaderChecksum,
+    headerChecksumValid: headerChecksum === computedHeaderChecksum,
+    globalChecksum,
+    computedGlobalChecksum,
+    globalChecksumValid: globalChecksum === computedGlobalChecksum,
+  };
+}
+
+/**
+ * Parse a Game Boy Advance cartridge header and verify its complement check
+ */
+export function parseGbaHeader(rom: Buffer): GbaHeaderInfo | null {
+  if (rom.length < 0xC0) return null;
+
+  const gameCode = cleanText(rom, 0xAC, 4);
+  const complementCheck = rom[0xBD];
+  const computedComplementCheck = gbaComplementCheck(rom);
+
+  return {
+    title: cleanText(rom, 0xA0, 12),
+    gameCode,
+    makerCode: cleanText(rom, 0xB0, 2),
+    region: GAME_CODE_REGIONS[gameCode.charAt(3)],
+    version: rom[0xBC],
+    complementCheck,
+    computedComplementCheck,
+    complementCheckValid: complementCheck === computedComplementCheck,
+  };
+}
+
+/**
+ * Parse a Sega Genesis / Mega Drive header and verify its checksum against the ROM body
+ */
+export function parseGenesisHeader(rom: Buffer): GenesisHeaderInfo | null {
+  if (rom.length < 0x200 || !rom.toString('latin1', 0x100, 0x110).includes('SEGA')) {
+    return null;
+  }
+
+  const checksum = rom.readUInt16BE(0x18E);
+  const computedChecksum = genesisChecksum(rom);
+  const ioSupportCodes = cleanText(rom, 0x190, 16);
+
+  return {
+    system: cleanText(rom, 0x100, 16),
+    copyright: cleanText(rom, 0x110, 16),
+    domesticTitle: cleanText(rom, 0x120, 48),
+    overseasTitle: cleanText(rom, 0x150, 48),
+    serial: cleanText(rom, 0x180, 14),
+    checksum,
+    computedChecksum,
+    checksumValid: checksum === computedChecksum,
+    ioSupport: [...new Set(ioSupportCodes.split('').map(code => GENESIS_DEVICES[code]).filter(Boolean))],
+    ioSupportCodes,
+    romStart: rom.readUInt32BE(0x1A0),
+    romEnd: rom.readUInt32BE(0x1A4),
+    sram: rom.toString('latin1', 0x1B0, 0x1B2) === 'RA'
+      ? { start: rom.readUInt32BE(0x1B4), end: rom.readUInt32BE(0x1B8) }
+      : undefined,
+    regions: genesisRegions(cleanText(rom, 0x1F0, 3)),
+  };
+}
+
+/**
+ * Parse a Nintendo 64 header (big-endian order) and identify its CIC lockout chip and save type
+ */
+export function parseN64Header(rom: Buffer): N64HeaderInfo | null {
+  if (rom.length < 0x40 || rom.readUInt32BE(0) !== 0x80371240) {
+    return null;
+  }
+
+  const gameId = rom.toString('latin1', 0x3C, 0x3E);
+  const isHomebrew = gameId === 'ED';
+  const cic = rom.length >= 0x1000
+    ? N64_CIC_BOOT_CODES[calculateBufferCrc32(rom.subarray(0x40, 0x1000))] || 'unknown'
+    : 'unknown';
+
+  return {
+    title: cleanText(rom, 0x20, 20),
+    mediaFormat: N64_MEDIA_FORMATS[String.fromCharCode(rom[0x3B])] || 'unknown',
+    gameCode: cleanText(rom, 0x3B, 4),
+    region: GAME_CODE_REGIONS[String.fromCharCode(rom[0x3E])],
+    version: isHomebrew ? 0 : rom[0x3F],  // The homebrew header reuses the version byte for save type and flags
+    crc1: hex(rom.readUInt32BE(0x10), 8),
+    crc2: hex(rom.readUInt32BE(0x14), 8),
+    cic,
+    saveType: isHomebrew
+      ? N64_HOMEBREW_SAVE_TYPES[rom[0x3F] >> 4] || 'unknown'
+      : N64_KNOWN_SAVE_TYPES[gameId] || 'unknown',
+  };
+}
+
+/**
+ * List the internal checksums of parsed headers; mismatches are common in hacks and translations
+ */
+export function getHeaderChecksums(headers: {
+  snes?: SnesHeaderInfo;
+  gameboy?: GameBoyHeaderInfo;
+  gba?: GbaHeaderInfo;
+  genesis?: GenesisHeaderInfo;
+}): HeaderChecksum[] {
+  const checksums: HeaderChecksum[] = [];
+  const { snes, gameboy, gba, genesis } = headers;
+
+  if (snes) {
+    checksums.push({ name: 'SNES checksum', stored: snes.checksum, computed: snes.computedChecksum, valid: snes.checksumValid });
+    checksums.push({
+      name: 'SNES checksum complement',
+      stored: snes.complement,
+      computed: snes.checksum ^ 0xFFFF,
+      valid: snes.complementValid,
+    });
+  }
+  if (gameboy) {
+    checksums.push({
+      name: 'Game Boy header checksum',
+      stored: gameboy.headerChecksum,
+      computed: gameboy.computedHeaderChecksum,
+      valid: gameboy.headerChecksumValid,
+    });
+    checksums.push({
+      name: 'Game Boy global checksum',
+      stored: gameboy.globalChecksum,
+      computed: gameboy.computedGlobalChecksum,
+      valid: gameboy.globalChecksumValid,
+    });
+  }
+  if (gba) {
+    checksums.push({
+      name: 'GBA complement check',
+      stored: gba.complementCheck,
+      computed: gba.computedComplementCheck,
+      valid: gba.complementCheckValid,
+    });
+  }
+  if (genesis) {
+    checksums.push({ name: 'Genesis checksum', stored: genesis.checksum, computed: genesis.computedChecksum, valid: genesis.checksumValid });
+  }
+
+  return checksums;
+}
+
+/**
+ * Rewrite the internal checksums of a canonical ROM body in place; returns the checksums that were wrong
+ */
+export function fixHeaderChecksums(platform: string, rom: Buffer): HeaderChecksum[] {
+  switch (platform) {
+    case 'snes': {
+      const snes = parseSnesHeader(rom);
+      if (!snes) throw new Error('SNES header not found');
+
+      const before = getHeaderChecksums({ snes }).filter(checksum => !checksum.valid);
+      if (before.length > 0) {
+        // A valid checksum/complement pair always sums to 0x1FE, so seed it before summing the ROM
+        rom.writeUInt16LE(0xFFFF, snes.headerOffset + 0x1C);
+        rom.writeUInt16LE(0x0000, snes.headerOffset + 0x1E);
+        const checksum = snesChecksum(rom);
+        rom.writeUInt16LE(checksum ^ 0xFFFF, snes.headerOffset + 0x1C);
+        rom.writeUInt16LE(checksum, snes.headerOffset + 0x1E);
+      }
+      return before;
+    }
+
+    case 'gameboy':
+    case 'gbc': {
+      const gameboy = parseGameBoyHeader(rom);
+      if (!gameboy) throw new Error('Game Boy header not found');
+
+      const before = getHeaderChecksums({ gameboy }).filter(checksum => !checksum.valid);
+      if (before.length > 0) {
+        // The global checksum covers the header checksum byte, so it goes second
+        rom[0x14D] = gameBoyHeaderChecksum(rom);
+        rom.writeUInt16BE(gameBoyGlobalChecksum(rom), 0x14E);
+      }
+      return before;
+    }
+
+    case 'gba': {
+      const gba = parseGbaHeader(rom);
+      if (!gba) throw new Error('GBA header not found');
+
+      const before = getHeaderChecksums({ gba }).filter(checksum => !checksum.valid);
+      rom[0xBD] = gba.computedComplementCheck;
+      return before;
+    }
+
+    case 'genesis': {
+      const genesis = parseGenesisHeader(rom);
+      if (!genesis) throw new Error('Genesis header not found');
+
+      const before = getHeaderChecksums({ genesis }).filter(checksum => !checksum.valid);
+      rom.writeUInt16BE(genesis.computedChecksum, 0x18E);
+      return before;
+    }
+
+    default:
+      throw new Error(`Checksum repair is not supported for platform ${platform}`);
+  }
+}
+
+// Helper functions
+function nes2RomSize(lsb: number, msb: number, unit: number): number {
+  // MSB nibble 0xF switches to exponent-multiplier notation: 2^E * (M*2+1) bytes
+  if (msb === 0x0F) {
+    return 2 ** (lsb >> 2) * ((lsb & 0x03) * 2 + 1);
+  }
+  return ((msb << 8) | lsb) * unit;
+}
+
+function nes2RamSize(shift: number): number {
+  return shift ? 64 << shift : 0;
+}
+
+function snesChecksum(rom: Buffer): number {
+  // ROMs that are not a power of two in size mirror their last part up to the next power of two
+  let base = 1;
+  while (base * 2 <= rom.length) base *= 2;
+
+  let sum = sumBytes(rom, 0, base);
+  const remainder = rom.length - base;
+  if (remainder > 0) {
+    sum += sumBytes(rom, base, rom.length) * Math.floor(base / remainder);
+  }
+  return sum & 0xFFFF;
+}
+
+function gameBoyHeaderChecksum(rom: Buffer): number {
+  let checksum = 0;
+  for (let i = 0x134; i <= 0x14C; i++) {
+    checksum = (checksum - rom[i] - 1) & 0xFF;
+  }
+  return checksum;
+}
+
+function gameBoyGlobalChecksum(rom: Buffer): number {
+  return (sumBytes(rom, 0, rom.length) - rom[0x14E] - rom[0x14F]) & 0xFFFF;
+}
+
+function gbaComplementCheck(rom: Buffer): number {
+  return (-sumBytes(rom, 0xA0, 0xBD) - 0x19) & 0xFF;
+}
+
+function genesisChecksum(rom: Buffer): number {
+  let sum = 0;
+  for (let i = 0x200; i + 1 < rom.length; i += 2) {
+    sum = (sum + rom.readUInt16BE(i)) & 0xFFFF;
+  }
+  return sum;
+}
+
+function genesisRegions(code: string): string[] {
+  // Old carts list J/U/E letters; later ones use a hex digit bitmask
+  if (/^[JUE]+$/.test(code)) {
+    const names: Record<string, string> = { J: 'Japan', U: 'USA', E: 'Europe' };
+    return [...new Set(code.split('').map(letter => names[letter]))];
+  }
+
+  const mask = parseInt(code.charAt(0), 16);
+  if (isNaN(mask)) return [];
+
+  return [[0x1, 'Japan'], [0x2, 'Asia'], [0x4, 'USA'], [0x8, 'Europe']]
+    .filter(([bit]) => mask & (bit as number))
+    .map(([, name]) => name as string);
+}
+
+function sumBytes(buffer: Buffer, start: number, end: number): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += buffer[i];
+  }
+  return sum;
+}
+
+function isPrintable(buffer: Buffer): boolean {
+  return buffer.every(byte => byte === 0 || (byte >= 0x20 && byte < 0x7F));
+}
+
+function cleanText(buffer: Buffer, offset: number, length: number): string {
+  return buffer.toString('latin1', offset, offset + length).replace(/[\x00-\x1F\x7F-\xFF]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function hex(value: number, digits: number): string {
+  return value.toString(16).padStart(digits, '0');
+}
+
+export default {
+  parseNesHeader,
+  parseSnesHeader,
+  parseGameBoyHeader,
+  parseGbaHeader,
+  parseGenesisHeader,
+  parseN64Header,
+  getHeaderChecksums,
+  fixHeaderChecksums,
+};
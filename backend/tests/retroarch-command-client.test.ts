@@ -0,0 +1,111 @@
+import dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { RetroArchCommandClient } from '../src/utils/retroarchCommandClient';
+
+/**
+ * Stand-in for RetroArch's UDP command interface: records every datagram and answers queries
+ * from a table, on the socket the query came from
+ */
+class FakeRetroArch {
+  readonly received: string[] = [];
+  private socket = dgram.createSocket('udp4');
+
+  constructor(private answers: Record<string, string> = {}) {
+    this.socket.on('message', (message, remote) => {
+      const text = message.toString('utf8');
+      this.received.push(text);
+
+      const answer = this.answers[text];
+      if (answer !== undefined) {
+        this.socket.send(Buffer.from(answer), remote.port, remote.address);
+      }
+    });
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => this.socket.bind(0, '127.0.0.1', resolve));
+    return (this.socket.address() as AddressInfo).port;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.socket.close(() => resolve()));
+  }
+
+  // Datagrams are not acknowledged, so wait until the expected number has arrived
+  async waitForMessages(count: number): Promise<string[]> {
+    for (let waited = 0; this.received.length < count && waited < 1000; waited += 10) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return this.received;
+  }
+}
+
+describe('RetroArchCommandClient over UDP', () => {
+  let retroarch: FakeRetroArch;
+  let client: RetroArchCommandClient;
+
+  async function startRetroArch(answers?: Record<string, string>): Promise<void> {
+    retroarch = new FakeRetroArch(answers);
+    const port = await retroarch.start();
+    client = new RetroArchCommandClient({ port, timeout: 200 });
+  }
+
+  afterEach(async () => {
+    await retroarch.stop();
+  });
+
+  it('sends commands with their arguments as plain text datagrams', async () => {
+    await startRetroArch();
+
+    await client.saveState(3);
+    await client.loadState(0);
+    await client.togglePause();
+    await client.selectDisc('next');
+
+    expect(await retroarch.waitForMessages(4)).toEqual([
+      'SAVE_STATE_SLOT 3',
+      'LOAD_STATE_SLOT 0',
+      'PAUSE_TOGGLE',
+      'DISK_NEXT',
+    ]);
+  });
+
+  it('rejects invalid state slots without sending anything', async () => {
+    await startRetroArch();
+
+    await expect(client.saveState(-1)).rejects.toThrow('Invalid state slot: -1');
+    await expect(client.loadState(1.5)).rejects.toThrow('Invalid state slot: 1.5');
+    expect(retroarch.received).toEqual([]);
+  });
+
+  it('parses the GET_STATUS answer', async () => {
+    await startRetroArch({ GET_STATUS: 'GET_STATUS PLAYING super_nes,Super Mario World, The,crc32=B19ED489' });
+
+    await expect(client.getStatus()).resolves.toEqual({
+      state: 'playing',
+      system: 'super_nes',
+      game: 'Super Mario World, The',
+      crc32: 'b19ed489',
+    });
+  });
+
+  it('reports contentless RetroArch', async () => {
+    await startRetroArch({ GET_STATUS: 'GET_STATUS CONTENTLESS' });
+
+    await expect(client.getStatus()).resolves.toEqual({ state: 'contentless' });
+    await expect(client.ping()).resolves.toBe(true);
+  });
+
+  it('fails a query that is not answered within the timeout', async () => {
+    await startRetroArch();
+
+    await expect(client.getStatus()).rejects.toThrow('did not answer GET_STATUS');
+    await expect(client.ping()).resolves.toBe(false);
+  });
+
+  it('rejects answers it cannot parse', async () => {
+    await startRetroArch({ GET_STATUS: 'GET_STATUS LOADING' });
+
+    await expect(client.getStatus()).rejects.toThrow('Unexpected GET_STATUS answer: LOADING');
+  });
+});
@@ -0,0 +1,2 @@
+// Loaded before every test file (jest setupFilesAfterEnv)
+process.env.NODE_ENV = 'test';
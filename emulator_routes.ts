@@ -2,8 +2,11 @@ import { FastifyInstance } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { PrismaClient } from '@prisma/client';
 import { UniversalEmulatorService } from '../services/emulator';
+import { PatchService } from '../services/patches';
+import { EmulationSettingsService } from '../services/emulationSettings';
 import { logger } from '../utils/logger';
 import { broadcastToAll } from '../services/websocket';
+import { AuthUser, hasRole } from '../services/auth';
 
 // =====================================================
 // EMULATOR API SCHEMAS
@@ -44,7 +47,13 @@ const EmulatorConfigSchema = Type.Object({
       Type.Literal('poor')
     ])
   })),
-  requiredBios: Type.Array(Type.String())
+  requiredBios: Type.Array(Type.String()),
+  biosIssues: Type.Array(Type.Object({
+    fileName: Type.String(),
+    status: Type.Union([Type.Literal('missing'), Type.Literal('bad_dump')]),
+    expected: Type.Optional(Type.Array(Type.String())),
+    actual: Type.Optional(Type.String())
+  }))
 });
 
 const EmulatorSessionSchema = Type.Object({
@@ -55,6 +64,7 @@ const EmulatorSessionSchema = Type.Object({
   core: Type.String(),
   emulatorType: Type.Union([Type.Literal('browser'), Type.Literal('native')]),
   status: Type.Union([
+    Type.Literal('queued'),
     Type.Literal('starting'),
     Type.Literal('running'),
     Type.Literal('paused'),
@@ -74,7 +84,24 @@ const EmulatorSessionSchema = Type.Object({
     batteryLevel: Type.Optional(Type.Number())
   }),
   streamUrl: Type.Optional(Type.String()),
-  vncUrl: Type.Optional(Type.String())
+  vncUrl: Type.Optional(Type.String()),
+  discCount: Type.Optional(Type.Number()),
+  currentDisc: Type.Optional(Type.Number()),
+  display: Type.Optional(Type.String()),
+  restarts: Type.Optional(Type.Integer()),
+  exitStatus: Type.Optional(Type.Object({
+    process: Type.Union([Type.Literal('retroarch'), Type.Literal('xvfb')]),
+    code: Type.Union([Type.Integer(), Type.Null()]),
+    signal: Type.Union([Type.String(), Type.Null()]),
+    at: Type.String()
+  })),
+  netplay: Type.Optional(Type.Boolean()),
+  limitViolations: Type.Optional(Type.Array(Type.Object({
+    limit: Type.Union([Type.Literal('memory'), Type.Literal('pids')]),
+    detail: Type.String(),
+    at: Type.String()
+  }))),
+  error: Type.Optional(Type.String())
 });
 
 const SaveStateSchema = Type.Object({
@@ -99,7 +126,6 @@ const SaveStateSchema = Type.Object({
 
 const BrowserEmulatorRequestSchema = Type.Object({
   coreId: Type.String(),
-  userId: Type.Optional(Type.String()),
   settings: Type.Optional(Type.Object({
     volume: Type.Optional(Type.Number()),
     speed: Type.Optional(Type.Number()),
@@ -110,8 +136,7 @@ const BrowserEmulatorRequestSchema = Type.Object({
 });
 
 const NativeEmulatorRequestSchema = Type.Object({
-  coreId: Type.String(),
-  userId: Type.Optional(Type.String()),
+  coreId: Type.Optional(Type.String()), // Defaults to the game's preferred core
   streamConfig: Type.Optional(Type.Object({
     resolution: Type.Union([
       Type.Literal('720p'),
@@ -122,6 +147,7 @@ const NativeEmulatorRequestSchema = Type.Object({
     codec: Type.Union([Type.Literal('h264'), Type.Literal('h265')]),
     enableAudio: Type.Boolean()
   })),
+  netplay: Type.Optional(Type.Boolean()), // Native sessions have no network access otherwise
   settings: Type.Optional(Type.Object({
     rewind: Type.Optional(Type.Boolean()),
     saveStates: Type.Optional(Type.Boolean()),
@@ -136,11 +162,34 @@ const SaveStateRequestSchema = Type.Object({
   description: Type.Optional(Type.String({ maxLength: 500 }))
 });
 
+// RetroArch settings a player applies to all of their native sessions
+const EmulationPreferencesSchema = Type.Object({
+  video: Type.Optional(Type.Object({
+    scale: Type.Optional(Type.Integer({ minimum: 1, maximum: 10 })),
+    integerScale: Type.Optional(Type.Boolean()),
+    aspectRatio: Type.Optional(Type.Union([
+      Type.Literal('4:3'),
+      Type.Literal('16:9'),
+      Type.Literal('square'),
+      Type.Literal('core'),
+      Type.Literal('full')
+    ])),
+    smooth: Type.Optional(Type.Boolean()),
+    shader: Type.Optional(Type.String()) // Preset relative to RETROARCH_SHADER_DIR
+  })),
+  inputRemaps: Type.Optional(Type.Record(Type.String(), Type.String())) // e.g. { input_player1_a_btn: "1" }
+});
+
 const SystemStatusSchema = Type.Object({
   activeSessions: Type.Number(),
   supportedPlatforms: Type.Array(Type.String()),
   availableCores: Type.Record(Type.String(), Type.Array(Type.String())),
   biosStatus: Type.Record(Type.String(), Type.Boolean()),
+  nativeSlots: Type.Object({
+    maxSessions: Type.Number(),
+    active: Type.Number(),
+    queued: Type.Number()
+  }),
   performance: Type.Object({
     averageFps: Type.Number(),
     activeStreams: Type.Number(),
@@ -155,6 +204,8 @@ const SystemStatusSchema = Type.Object({
 export async function emulatorRoutes(server: FastifyInstance) {
   const prisma = new PrismaClient();
   const emulatorService = new UniversalEmulatorService(prisma);
+  const patchService = new PatchService(prisma);
+  const emulationSettings = new EmulationSettingsService(prisma);
 
   // Rate limiting for emulator endpoints
   await server.register(import('@fastify/rate-limit'), {
@@ -201,6 +252,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Start browser emulator session
    */
   server.post('/browser/:gameId', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Start a browser-based emulator session',
       tags: ['Emulator'],
@@ -222,10 +274,10 @@ export async function emulatorRoutes(server: FastifyInstance) {
     }
   }, async (request, reply) => {
     const { gameId } = request.params;
-    const { coreId, userId, settings } = request.body;
+    const { coreId, settings } = request.body;
 
     try {
-      const result = await emulatorService.startBrowserEmulator(gameId, coreId, userId);
+      const result = await emulatorService.startBrowserEmulator(gameId, coreId, request.user.id);
       
       // Broadcast session start event
       await broadcastToAll({
@@ -258,6 +310,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Start native emulator session
    */
   server.post('/native/:gameId', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Start a native emulator session with optional streaming',
       tags: ['Emulator'],
@@ -273,19 +326,21 @@ export async function emulatorRoutes(server: FastifyInstance) {
           webrtcOffer: Type.Optional(Type.Any())
         }),
         400: { $ref: 'ErrorSchema#' },
-        404: { $ref: 'ErrorSchema#' }
+        404: { $ref: 'ErrorSchema#' },
+        503: { $ref: 'ErrorSchema#' }
       }
     }
   }, async (request, reply) => {
     const { gameId } = request.params;
-    const { coreId, userId, streamConfig, settings } = request.body;
+    const { coreId, streamConfig, netplay, settings } = request.body;
 
     try {
       const result = await emulatorService.startNativeEmulator(
         gameId, 
         coreId, 
-        userId, 
-        streamConfig
+        request.user.id, 
+        streamConfig,
+        netplay
       );
       
       // Broadcast session start event
@@ -308,6 +363,8 @@ export async function emulatorRoutes(server: FastifyInstance) {
         reply.status(404);
       } else if (error.message.includes('not available')) {
         reply.status(400);
+      } else if (error.message.includes('session limit reached')) {
+        reply.status(503);
       } else {
         reply.status(500);
       }
@@ -354,7 +411,21 @@ export async function emulatorRoutes(server: FastifyInstance) {
         lastActivity: session.lastActivity.toISOString(),
         metrics: session.metrics,
         streamUrl: session.streamUrl,
-        vncUrl: session.streamUrl?.replace('rtmp://', 'ws://').replace('1935', '5900')
+        vncUrl: session.streamUrl?.replace('rtmp://', 'ws://').replace('1935', '5900'),
+        discCount: session.discCount,
+        currentDisc: session.currentDisc,
+        display: session.display,
+        restarts: session.restarts,
+        exitStatus: session.exitStatus && {
+          ...session.exitStatus,
+          at: session.exitStatus.at.toISOString()
+        },
+        netplay: session.netplay,
+        limitViolations: session.limitViolations?.map(violation => ({
+          ...violation,
+          at: violation.at.toISOString()
+        })),
+        error: session.error
       };
     } catch (error) {
       server.log.error(`Failed to get session ${sessionId}:`, error);
@@ -373,6 +444,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Stop emulator session
    */
   server.delete('/session/:sessionId', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Stop an active emulator session',
       tags: ['Emulator'],
@@ -388,6 +460,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
     const { sessionId } = request.params;
 
     try {
+      await assertSessionAccess(sessionId, request.user);
       await emulatorService.stopSession(sessionId);
       
       // Broadcast session stop event
@@ -406,6 +479,8 @@ export async function emulatorRoutes(server: FastifyInstance) {
       
       if (error.message === 'Session not found') {
         reply.status(404);
+      } else if (error.message.includes('Not allowed')) {
+        reply.status(403);
       } else {
         reply.status(500);
       }
@@ -418,6 +493,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Pause emulator session
    */
   server.post('/session/:sessionId/pause', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Pause an active emulator session',
       tags: ['Emulator'],
@@ -433,6 +509,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
     const { sessionId } = request.params;
 
     try {
+      await assertSessionAccess(sessionId, request.user);
       await emulatorService.pauseSession(sessionId);
       
       return {
@@ -444,6 +521,8 @@ export async function emulatorRoutes(server: FastifyInstance) {
       
       if (error.message === 'Session not found') {
         reply.status(404);
+      } else if (error.message.includes('Not allowed')) {
+        reply.status(403);
       } else {
         reply.status(500);
       }
@@ -456,6 +535,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Resume emulator session
    */
   server.post('/session/:sessionId/resume', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Resume a paused emulator session',
       tags: ['Emulator'],
@@ -471,6 +551,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
     const { sessionId } = request.params;
 
     try {
+      await assertSessionAccess(sessionId, request.user);
       await emulatorService.resumeSession(sessionId);
       
       return {
@@ -482,6 +563,8 @@ export async function emulatorRoutes(server: FastifyInstance) {
       
       if (error.message === 'Session not found') {
         reply.status(404);
+      } else if (error.message.includes('Not allowed')) {
+        reply.status(403);
       } else {
         reply.status(500);
       }
@@ -490,6 +573,153 @@ export async function emulatorRoutes(server: FastifyInstance) {
     }
   });
 
+  /**
+   * Swap disc in a multi-disc game
+   */
+  server.post('/session/:sessionId/disc', {
+    onRequest: server.requireRole('player'),
+    schema: {
+      description: 'Swap to another disc of a multi-disc game during a session',
+      tags: ['Emulator'],
+      params: Type.Object({
+        sessionId: Type.String()
+      }),
+      body: Type.Object({
+        discNumber: Type.Integer({ minimum: 1 })
+      }),
+      response: {
+        200: { $ref: 'SuccessSchema#' },
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' }
+      }
+    }
+  }, async (request, reply) => {
+    const { sessionId } = request.params;
+    const { discNumber } = request.body;
+
+    try {
+      await assertSessionAccess(sessionId, request.user);
+      await emulatorService.swapDisc(sessionId, discNumber);
+
+      return {
+        success: true,
+        message: `Swapped to disc ${discNumber}`
+      };
+    } catch (error) {
+      server.log.error(`Failed to swap disc in session ${sessionId}:`, error);
+
+      if (error.message === 'Session not found') {
+        reply.status(404);
+      } else if (error.message.includes('Not allowed')) {
+        reply.status(403);
+      } else if (error.message.includes('disc') || error.message.includes('client')) {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Send a control command to a native session
+   */
+  server.post('/session/:sessionId/control', {
+    onRequest: server.requireRole('player'),
+    schema: {
+      description: 'Advance one frame, reset, toggle fast-forward or take a screenshot in a native session',
+      tags: ['Emulator'],
+      params: Type.Object({
+        sessionId: Type.String()
+      }),
+      body: Type.Object({
+        action: Type.Union([
+          Type.Literal('frame_advance'),
+          Type.Literal('reset'),
+          Type.Literal('fast_forward'),
+          Type.Literal('screenshot')
+        ])
+      }),
+      response: {
+        200: { $ref: 'SuccessSchema#' },
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' }
+      }
+    }
+  }, async (request, reply) => {
+    const { sessionId } = request.params;
+    const { action } = request.body;
+
+    try {
+      await assertSessionAccess(sessionId, request.user);
+      await emulatorService.controlSession(sessionId, action);
+
+      return {
+        success: true,
+        message: `Sent ${action} to session`
+      };
+    } catch (error) {
+      server.log.error(`Failed to control session ${sessionId}:`, error);
+
+      if (error.message === 'Session not found') {
+        reply.status(404);
+      } else if (error.message.includes('Not allowed')) {
+        reply.status(403);
+      } else if (error.message === 'Native process not available') {
+        reply.status(400);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
+  /**
+   * Get what RetroArch is running in a native session
+   */
+  server.get('/session/:sessionId/emulator-status', {
+    schema: {
+      description: 'Query RetroArch over its network command port for the running state and content',
+      tags: ['Emulator'],
+      params: Type.Object({
+        sessionId: Type.String()
+      }),
+      response: {
+        200: Type.Object({
+          state: Type.Union([Type.Literal('playing'), Type.Literal('paused'), Type.Literal('contentless')]),
+          system: Type.Optional(Type.String()),
+          game: Type.Optional(Type.String()),
+          crc32: Type.Optional(Type.String())
+        }),
+        400: { $ref: 'ErrorSchema#' },
+        404: { $ref: 'ErrorSchema#' },
+        504: { $ref: 'ErrorSchema#' }
+      }
+    }
+  }, async (request, reply) => {
+    const { sessionId } = request.params;
+
+    try {
+      return await emulatorService.getEmulatorStatus(sessionId);
+    } catch (error) {
+      server.log.error(`Failed to get emulator status of session ${sessionId}:`, error);
+
+      if (error.message === 'Session not found') {
+        reply.status(404);
+      } else if (error.message === 'Native process not available') {
+        reply.status(400);
+      } else if (error.message.includes('did not answer')) {
+        reply.status(504);
+      } else {
+        reply.status(500);
+      }
+
+      throw error;
+    }
+  });
+
   /**
    * Get session metrics
    */
@@ -543,6 +773,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Create save state
    */
   server.post('/session/:sessionId/savestate', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Create a save state for the current emulator session',
       tags: ['Emulator'],
@@ -561,6 +792,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
     const { slotNumber, name, description } = request.body;
 
     try {
+      await assertSessionAccess(sessionId, request.user);
       const saveState = await emulatorService.createSaveState(
         sessionId,
         slotNumber,
@@ -592,6 +824,8 @@ export async function emulatorRoutes(server: FastifyInstance) {
       
       if (error.message === 'Session not found') {
         reply.status(404);
+      } else if (error.message.includes('Not allowed')) {
+        reply.status(403);
       } else if (error.message.includes('Browser save states')) {
         reply.status(400);
       } else {
@@ -606,6 +840,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Load save state
    */
   server.post('/session/:sessionId/savestate/:saveStateId/load', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Load a save state in the current emulator session',
       tags: ['Emulator'],
@@ -623,7 +858,8 @@ export async function emulatorRoutes(server: FastifyInstance) {
     const { sessionId, saveStateId } = request.params;
 
     try {
-      await emulatorService.loadSaveState(sessionId, saveStateId);
+      await assertSessionAccess(sessionId, request.user);
+      await emulatorService.loadSaveState(sessionId, saveStateId, request.user);
       
       return {
         success: true,
@@ -634,6 +870,8 @@ export async function emulatorRoutes(server: FastifyInstance) {
       
       if (error.message.includes('not found')) {
         reply.status(404);
+      } else if (error.message.includes('Not allowed')) {
+        reply.status(403);
       } else if (error.message.includes('Browser save state')) {
         reply.status(400);
       } else {
@@ -648,15 +886,13 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Get save states for a game
    */
   server.get('/games/:gameId/savestates', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Get all save states for a specific game',
       tags: ['Emulator'],
       params: Type.Object({
         gameId: Type.String()
       }),
-      querystring: Type.Object({
-        userId: Type.Optional(Type.String())
-      }),
       response: {
         200: Type.Object({
           saveStates: Type.Array(SaveStateSchema),
@@ -667,10 +903,9 @@ export async function emulatorRoutes(server: FastifyInstance) {
     }
   }, async (request, reply) => {
     const { gameId } = request.params;
-    const { userId } = request.query as any;
 
     try {
-      const saveStates = await emulatorService.getSaveStates(gameId, userId);
+      const saveStates = await emulatorService.getSaveStates(gameId, request.user.id);
       
       const formattedSaveStates = saveStates.map(state => ({
         id: state.id,
@@ -707,6 +942,7 @@ export async function emulatorRoutes(server: FastifyInstance) {
    * Delete save state
    */
   server.delete('/savestates/:saveStateId', {
+    onRequest: server.requireRole('player'),
     schema: {
       description: 'Delete a save state',
       tags: ['Emulator'],
@@ -731,6 +967,11 @@ export async function emulatorRoutes(server: FastifyInstance) {
         throw new Error('Save state not found');
       }
 
+      if (saveState.userId !== request.user.id && !hasRole(request.user, 'admin')) {
+        reply.status(403);
+        throw new Error('Not allowed to delete this save state');
+      }
+
       await prisma.saveState.delete({
         where: { id: saveStateId }
       });
@@ -757,6 +998,8 @@ export async function emulatorRoutes(server: FastifyInstance) {
       
       if (error.message === 'Save state not found') {
         reply.status(404);
+      } else if (error.message.includes('Not allowed')) {
+        reply.status(403);
       } else {
         reply.status(500);
       }
@@ -770,14 +1013,18 @@ export async function emulatorRoutes(server: FastifyInstance) {
    */
   server.get('/games/:gameId/rom', {
     schema: {
-      description: 'Get ROM file for emulator (streaming endpoint)',
+      description: 'Get ROM file for emulator (streaming endpoint). With patchId, the patch is applied on the fly.',
       tags: ['Emulator'],
       params: Type.Object({
         gameId: Type.String()
+      }),
+      querystring: Type.Object({
+        patchId: Type.Optional(Type.String())
       })
     }
   }, async (request, reply) => {
     const { gameId } = request.params;
+    const { patchId } = request.query;
 
     try {
       const game = await prisma.game.findUnique({
@@ -801,6 +1048,17 @@ export async function emulatorRoutes(server: FastifyInstance) {
         throw new Error('Access denied');
       }
 
+      if (patchId) {
+        const patched = await patchService.buildPatchedRom(gameId, patchId);
+
+        reply.header('Content-Type', 'application/octet-stream');
+        reply.header('Content-Length', patched.data.length.toString());
+        reply.header('Content-Disposition', `attachment; filename="${patched.fileName.replace(/"/g, '')}"`);
+        reply.header('Cache-Control', 'private, max-age=3600');
+
+        return reply.send(patched.data);
+      }
+
       const stream = fs.createReadStream(romPath);
       
       reply.header('Content-Type', 'application/octet-stream');
@@ -812,10 +1070,12 @@ export async function emulatorRoutes(server: FastifyInstance) {
     } catch (error) {
       server.log.error(`Failed to serve ROM for game ${gameId}:`, error);
       
-      if (error.message === 'Game not found') {
+      if (error.message === 'Game not found' || error.message === 'Patch not found') {
         reply.status(404);
       } else if (error.message === 'Access denied') {
         reply.status(403);
+      } else if (error.message.includes('CRC mismatch')) {
+        reply.status(422);
       } else {
         reply.status(500);
       }
@@ -880,6 +1140,53 @@ export async function emulatorRoutes(server: FastifyInstance) {
     }
   });
 
+  /**
+   * Get the caller's RetroArch preferences
+   */
+  server.get('/preferences', {
+    onRequest: server.requireRole('player'),
+    schema: {
+      description: 'Get the video settings and input binds applied to the caller\'s native sessions',
+      tags: ['Emulator'],
+      response: {
+        200: EmulationPreferencesSchema,
+        404: { $ref: 'ErrorSchema#' }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      return await emulationSettings.getUserPreferences(request.user.id);
+    } catch (error) {
+      server.log.error(`Failed to get emulation preferences of user ${request.user.id}:`, error);
+      reply.status(error.message === 'User not found' ? 404 : 500);
+      throw error;
+    }
+  });
+
+  /**
+   * Replace the caller's RetroArch preferences
+   */
+  server.put('/preferences', {
+    onRequest: server.requireRole('player'),
+    schema: {
+      description: 'Replace the video settings and input binds applied over platform and game settings in the caller\'s native sessions',
+      tags: ['Emulator'],
+      body: EmulationPreferencesSchema,
+      response: {
+        200: EmulationPreferencesSchema,
+        400: { $ref: 'ErrorSchema#' }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      return await emulationSettings.updateUserPreferences(request.user.id, request.body);
+    } catch (error) {
+      server.log.error(`Failed to update emulation preferences of user ${request.user.id}:`, error);
+      reply.status(error.message.startsWith('Invalid emulation settings') ? 400 : 500);
+      throw error;
+    }
+  });
+
   /**
    * Get system status
    */
@@ -941,10 +1248,36 @@ export async function emulatorRoutes(server: FastifyInstance) {
   });
 
   /**
-   * WebSocket endpoint for real-time emulator events
+   * WebSocket endpoint for real-time emulator events. Browsers cannot set headers on a WebSocket,
+   * so the access token may also be passed as ?token=
    */
   server.register(async function (server) {
-    server.get('/ws/:sessionId', { websocket: true }, (socket, request) => {
+    server.get('/ws/:sessionId', {
+      websocket: true,
+      onRequest: async (request, reply) => {
+        const { sessionId } = request.params as any;
+        const { token } = request.query as any;
+
+        if (token && !request.headers.authorization) {
+          request.headers.authorization = `Bearer ${token}`;
+        }
+        await server.requireRole('player')(request, reply);
+
+        try {
+          await assertSessionAccess(sessionId, request.user);
+        } catch (error) {
+          if (error.message === 'Session not found') {
+            reply.status(404);
+          } else if (error.message.includes('Not allowed')) {
+            reply.status(403);
+          } else {
+            reply.status(500);
+          }
+
+          throw error;
+        }
+      }
+    }, (socket, request) => {
       const { sessionId } = request.params as any;
       
       logger.info(`WebSocket connection established for emulator session ${sessionId}`);
@@ -972,6 +1305,17 @@ export async function emulatorRoutes(server: FastifyInstance) {
     });
   });
 
+  // Only the session owner (or an admin) may control a session
+  async function assertSessionAccess(sessionId: string, user: AuthUser): Promise<void> {
+    const session = await emulatorService.getSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    if (session.userId && session.userId !== user.id && !hasRole(user, 'admin')) {
+      throw new Error('Not allowed to control this session');
+    }
+  }
+
   // Helper function to handle WebSocket messages
   async function handleEmulatorWebSocketMessage(
     sessionId: string, 
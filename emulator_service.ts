@@ -6,20 +6,22 @@ import path from 'path';
 import fs from 'fs/promises';
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
-import { config } from '../config';
+import { config, PLATFORM_REGISTRY, EmulatorCore } from '../config';
+import { BiosService } from './bios';
+import { DiscService } from './discs';
+import { EmulationSettingsService } from './emulationSettings';
+import { displayPool, stopProcess, DisplayLease, ExitStatus } from './displayPool';
+import { sandbox, SandboxedCommand, LimitViolation } from './sandbox';
+import { AuthUser, hasRole } from './auth';
+import { RetroArchCommandClient, RetroArchStatus } from '../utils/retroarchCommandClient';
+import { buildSessionConfig, serializeConfig, RecordSettings } from '../utils/retroarchConfig';
+import { RetroArchSettings } from '../config';
 
 // =====================================================
 // COMPREHENSIVE EMULATOR CONFIGURATION
 // =====================================================
 
-export interface EmulatorCore {
-  name: string;
-  core: string;
-  wasm: boolean;
-  performance: 'excellent' | 'good' | 'fair' | 'poor';
-  fileSize?: number;
-  url?: string;
-}
+export type { EmulatorCore };
 
 export interface PlatformEmulatorConfig {
   fileExtensions: string[];
@@ -34,253 +36,37 @@ export interface PlatformEmulatorConfig {
   mobileOptimized?: boolean;
 }
 
-export const UNIVERSAL_EMULATOR_CONFIG: Record<string, Record<string, PlatformEmulatorConfig>> = {
-  nintendo: {
-    nes: {
-      fileExtensions: ['.nes', '.unif', '.fds', '.nsf', '.unf'],
-      browserEmulators: [
-        {
-          name: 'EmulatorJS-NES',
-          core: 'nestopia',
-          wasm: true,
-          performance: 'excellent',
-          fileSize: 1.2 * 1024 * 1024,
-          url: '/emulators/cores/nestopia.wasm'
-        },
-        {
-          name: 'JSNES',
-          core: 'jsnes',
-          wasm: false,
-          performance: 'good',
-          fileSize: 512 * 1024,
-          url: '/emulators/cores/jsnes.js'
-        }
-      ],
-      retroarchCores: ['nestopia', 'fceumm', 'mesen', 'quicknes'],
-      biosRequired: false,
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'nestopia',
-      mobileOptimized: true
-    },
-    
-    snes: {
-      fileExtensions: ['.sfc', '.smc', '.fig', '.swc', '.bs', '.st'],
-      browserEmulators: [
-        {
-          name: 'EmulatorJS-SNES',
-          core: 'snes9x',
-          wasm: true,
-          performance: 'excellent',
-          fileSize: 2.1 * 1024 * 1024,
-          url: '/emulators/cores/snes9x.wasm'
-        }
-      ],
-      retroarchCores: ['snes9x', 'bsnes', 'bsnes_balanced', 'bsnes_performance'],
-      biosRequired: false,
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'snes9x',
-      mobileOptimized: true
-    },
-    
-    n64: {
-      fileExtensions: ['.n64', '.v64', '.z64', '.rom', '.ndd'],
-      browserEmulators: [], // Too demanding for browser
-      retroarchCores: ['mupen64plus_next', 'parallel_n64'],
-      biosRequired: false,
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'mupen64plus_next',
-      requiresNative: true
-    },
-    
-    gameboy: {
-      fileExtensions: ['.gb', '.gbc', '.sgb', '.dmg'],
-      browserEmulators: [
-        {
-          name: 'EmulatorJS-GB',
-          core: 'gambatte',
-          wasm: true,
-          performance: 'excellent',
-          fileSize: 800 * 1024,
-          url: '/emulators/cores/gambatte.wasm'
-        }
-      ],
-      retroarchCores: ['gambatte', 'sameboy', 'tgbdual'],
-      biosRequired: false,
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'gambatte',
-      mobileOptimized: true
-    },
-    
-    gba: {
-      fileExtensions: ['.gba', '.agb', '.bin', '.elf'],
-      browserEmulators: [
-        {
-          name: 'EmulatorJS-GBA',
-          core: 'mgba',
-          wasm: true,
-          performance: 'good',
-          fileSize: 1.8 * 1024 * 1024,
-          url: '/emulators/cores/mgba.wasm'
-        }
-      ],
-      retroarchCores: ['mgba', 'vba_next', 'vbam'],
-      biosRequired: false, // Optional for better compatibility
-      biosFiles: ['gba_bios.bin'],
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'mgba',
-      mobileOptimized: true
-    }
-  },
-  
-  sega: {
-    genesis: {
-      fileExtensions: ['.md', '.gen', '.smd', '.bin', '.rom'],
-      browserEmulators: [
-        {
-          name: 'EmulatorJS-Genesis',
-          core: 'genesis_plus_gx',
-          wasm: true,
-          performance: 'excellent',
-          fileSize: 1.5 * 1024 * 1024,
-          url: '/emulators/cores/genesis_plus_gx.wasm'
-        }
-      ],
-      retroarchCores: ['genesis_plus_gx', 'picodrive'],
-      biosRequired: false,
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'genesis_plus_gx',
-      mobileOptimized: true
-    },
-    
-    saturn: {
-      fileExtensions: ['.iso', '.cue', '.ccd', '.mds', '.chd'],
-      browserEmulators: [], // Too demanding
-      retroarchCores: ['mednafen_saturn', 'kronos'],
-      biosRequired: true,
-      biosFiles: ['sega_101.bin', 'mpr-17933.bin'],
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'mednafen_saturn',
-      requiresNative: true
-    }
-  },
-  
-  sony: {
-    psx: {
-      fileExtensions: ['.bin', '.cue', '.iso', '.img', '.mdf', '.pbp', '.chd', '.ecm'],
-      browserEmulators: [
-        {
-          name: 'EmulatorJS-PSX',
-          core: 'mednafen_psx',
-          wasm: true,
-          performance: 'fair',
-          fileSize: 3.2 * 1024 * 1024,
-          url: '/emulators/cores/mednafen_psx.wasm'
-        }
-      ],
-      retroarchCores: ['mednafen_psx_hw', 'pcsx_rearmed', 'beetle_psx'],
-      biosRequired: true,
-      biosFiles: ['scph1001.bin', 'scph5501.bin', 'scph7001.bin'],
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'pcsx_rearmed'
-    },
-    
-    ps2: {
-      fileExtensions: ['.iso', '.bin', '.mdf', '.nrg', '.img', '.chd'],
-      browserEmulators: [], // Too demanding
-      retroarchCores: ['pcsx2'],
-      biosRequired: true,
-      biosFiles: ['ps2-0100a-20011027.bin', 'ps2-0120a-20020207.bin'],
-      controllerSupport: true,
-      saveStates: false, // Limited support
-      defaultCore: 'pcsx2',
-      requiresNative: true
-    }
-  },
-  
-  arcade: {
-    mame: {
-      fileExtensions: ['.zip', '.7z', '.rar', '.chd'],
-      browserEmulators: [
-        {
-          name: 'EmulatorJS-MAME',
-          core: 'mame2003_plus',
-          wasm: true,
-          performance: 'good',
-          fileSize: 4.5 * 1024 * 1024,
-          url: '/emulators/cores/mame2003_plus.wasm'
-        }
-      ],
-      retroarchCores: ['mame', 'mame2003_plus', 'mame2010', 'fbneo'],
-      biosRequired: false, // Game-dependent
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'mame2003_plus'
-    },
-    
-    neogeo: {
-      fileExtensions: ['.zip', '.neo', '.7z'],
-      browserEmulators: [
-        {
-          name: 'EmulatorJS-NeoGeo',
-          core: 'fbneo',
-          wasm: true,
-          performance: 'good',
-          fileSize: 2.8 * 1024 * 1024,
-          url: '/emulators/cores/fbneo.wasm'
-        }
-      ],
-      retroarchCores: ['fbneo', 'mame'],
-      biosRequired: true,
-      biosFiles: ['neogeo.zip'],
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'fbneo'
-    }
-  },
-  
-  computer: {
-    dos: {
-      fileExtensions: ['.exe', '.com', '.bat', '.img', '.ima', '.vhd', '.zip'],
-      browserEmulators: [
-        {
-          name: 'js-dos',
-          core: 'dosbox',
-          wasm: true,
-          performance: 'excellent',
-          fileSize: 2.5 * 1024 * 1024,
-          url: '/emulators/cores/dosbox.wasm'
-        },
-        {
-          name: 'EmulatorJS-DOS',
-          core: 'dosbox_pure',
-          wasm: true,
-          performance: 'excellent',
-          fileSize: 2.2 * 1024 * 1024,
-          url: '/emulators/cores/dosbox_pure.wasm'
-        }
-      ],
-      retroarchCores: ['dosbox_pure', 'dosbox_core'],
-      biosRequired: false,
-      controllerSupport: true,
-      saveStates: true,
-      defaultCore: 'dosbox_pure',
-      mobileOptimized: true
-    }
-  }
-};
+// Emulator view of the platform registry, grouped by category
+export const UNIVERSAL_EMULATOR_CONFIG: Record<string, Record<string, PlatformEmulatorConfig>> =
+  PLATFORM_REGISTRY.reduce((configs, platform) => {
+    configs[platform.category] = configs[platform.category] || {};
+    configs[platform.category][platform.key] = {
+      fileExtensions: platform.extensions,
+      browserEmulators: platform.browserEmulators,
+      retroarchCores: platform.retroarchCores,
+      biosRequired: platform.biosRequired,
+      biosFiles: platform.biosFiles,
+      controllerSupport: platform.controllerSupport,
+      saveStates: platform.saveStates,
+      defaultCore: platform.defaultCore,
+      requiresNative: platform.requiresNative,
+      mobileOptimized: platform.mobileOptimized,
+    };
+    return configs;
+  }, {} as Record<string, Record<string, PlatformEmulatorConfig>>);
 
 // =====================================================
 // SAVE STATE MANAGEMENT
 // =====================================================
 
+// Failed sessions stay readable this long so clients can see why they ended
+const FAILED_SESSION_TTL = 5 * 60 * 1000;
+// A RetroArch that crashes sooner than this after starting is not restarted again
+const RESTART_MIN_UPTIME = 10000;
+
+// 1x1 PNG shown for save states without a thumbnail
+const PLACEHOLDER_SCREENSHOT = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
 export interface SaveState {
   id: string;
   gameId: string;
@@ -309,15 +95,28 @@ export interface EmulatorSession {
   platform: string;
   core: string;
   emulatorType: 'browser' | 'native';
-  status: 'starting' | 'running' | 'paused' | 'stopped' | 'error';
+  status: 'queued' | 'starting' | 'running' | 'paused' | 'stopped' | 'error';
   startTime: Date;
   lastActivity: Date;
   metrics: EmulatorMetrics;
   nativeProcess?: ChildProcess;
   streamUrl?: string;
   websocket?: WebSocket;
+  discCount?: number;
+  currentDisc?: number;
+  commandPort?: number;     // RetroArch UDP network command port; sessions without network use stdin
+  contentPath?: string;     // ROM or playlist RetroArch was launched with
+  display?: string;         // X display shared by RetroArch and the stream capture
+  audioSink?: string;       // PulseAudio null sink RetroArch plays into
+  restarts?: number;        // Times RetroArch was restarted after a crash
+  exitStatus?: ExitStatus;  // Last unexpected exit of RetroArch or the X server
+  netplay?: boolean;        // The sandbox shares the host network
+  limitViolations?: LimitViolation[];   // Sandbox limits RetroArch ran into
+  error?: string;
 }
 
+export type SessionControlAction = 'frame_advance' | 'reset' | 'fast_forward' | 'screenshot';
+
 export interface EmulatorMetrics {
   fps: number;
   frameSkip: number;
@@ -329,20 +128,36 @@ export interface EmulatorMetrics {
   batteryLevel?: number;
 }
 
+export interface BiosIssue {
+  fileName: string;
+  status: 'missing' | 'bad_dump';
+  expected?: string[];
+  actual?: string;
+}
+
 // =====================================================
 // UNIVERSAL EMULATOR SERVICE
 // =====================================================
 
 export class UniversalEmulatorService {
   private prisma: PrismaClient;
+  private biosService: BiosService;
+  private discService: DiscService;
+  private emulationSettings: EmulationSettingsService;
   private activeSessions = new Map<string, EmulatorSession>();
+  private commandClients = new Map<string, RetroArchCommandClient>();
+  private usedCommandPorts = new Set<number>();
+  private launchCommands = new Map<string, SandboxedCommand>();
   private retroarchPath: string;
   private biosPath: string;
   private saveStatePath: string;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
-    this.retroarchPath = config.emulation?.retroarchPath || '/usr/bin/retroarch';
+    this.biosService = new BiosService(prisma);
+    this.discService = new DiscService(prisma);
+    this.emulationSettings = new EmulationSettingsService(prisma);
+    this.retroarchPath = config.emulation.retroarchPath;
     this.biosPath = config.storage.biosDir;
     this.saveStatePath = path.join(config.storage.tempDir, 'savestates');
     this.initializePaths();
@@ -362,6 +177,7 @@ export class UniversalEmulatorService {
     recommendedEmulator: 'browser' | 'native';
     availableEmulators: EmulatorCore[];
     requiredBios: string[];
+    biosIssues: BiosIssue[];
   }> {
     const game = await this.prisma.game.findUnique({
       where: { id: gameId },
@@ -372,18 +188,19 @@ export class UniversalEmulatorService {
       throw new Error('Game not found');
     }
 
-    const platformConfig = this.getPlatformConfig(game.platformId);
+    const platformConfig = this.getPlatformConfig(game.platform.shortName);
     const userAgent = this.detectUserAgent();
     
     const recommendedEmulator = this.selectOptimalEmulator(platformConfig, userAgent);
     const availableEmulators = this.getAvailableEmulators(platformConfig, userAgent);
-    const requiredBios = await this.checkRequiredBios(platformConfig);
+    const biosIssues = await this.checkRequiredBios(platformConfig);
 
     return {
       platformConfig,
       recommendedEmulator,
       availableEmulators,
-      requiredBios
+      requiredBios: biosIssues.map(issue => issue.fileName),
+      biosIssues
     };
   }
 
@@ -446,19 +263,20 @@ export class UniversalEmulatorService {
     return available;
   }
 
-  private async checkRequiredBios(config: PlatformEmulatorConfig): Promise<string[]> {
+  private async checkRequiredBios(config: PlatformEmulatorConfig): Promise<BiosIssue[]> {
     if (!config.biosRequired || !config.biosFiles) return [];
-    
-    const missing: string[] = [];
-    for (const biosFile of config.biosFiles) {
-      const biosPath = path.join(this.biosPath, biosFile);
-      try {
-        await fs.access(biosPath);
-      } catch {
-        missing.push(biosFile);
-      }
-    }
-    return missing;
+
+    const { missing, mismatched } = await this.biosService.checkBiosFiles(config.biosFiles);
+
+    return [
+      ...missing.map(fileName => ({ fileName, status: 'missing' as const })),
+      ...mismatched.map(({ fileName, expected, actual }) => ({
+        fileName,
+        status: 'bad_dump' as const,
+        expected,
+        actual
+      }))
+    ];
   }
 
   // =====================================================
@@ -477,14 +295,15 @@ export class UniversalEmulatorService {
     coreUrl: string;
   }> {
     const game = await this.prisma.game.findUnique({
-      where: { id: gameId }
+      where: { id: gameId },
+      include: { platform: true }
     });
 
     if (!game) {
       throw new Error('Game not found');
     }
 
-    const platformConfig = this.getPlatformConfig(game.platformId);
+    const platformConfig = this.getPlatformConfig(game.platform.shortName);
     const selectedCore = platformConfig.browserEmulators.find(e => e.core === coreId);
     
     if (!selectedCore) {
@@ -496,7 +315,7 @@ export class UniversalEmulatorService {
       id: crypto.randomUUID(),
       gameId,
       userId,
-      platform: game.platformId,
+      platform: game.platform.shortName,
       core: coreId,
       emulatorType: 'browser',
       status: 'starting',
@@ -525,7 +344,7 @@ export class UniversalEmulatorService {
       EJS_saveStates: platformConfig.saveStates,
       EJS_startOnLoaded: true,
       EJS_color: '#0066cc',
-      EJS_VirtualGamepadSettings: this.getVirtualGamepadConfig(game.platformId),
+      EJS_VirtualGamepadSettings: this.getVirtualGamepadConfig(game.platform.shortName),
       EJS_onGameStart: () => this.onBrowserGameStart(session.id),
       EJS_onSaveState: (state: any) => this.onSaveStateCreated(session.id, state),
       EJS_onLoadState: (state: any) => this.onSaveStateLoaded(session.id, state)
@@ -594,14 +413,10 @@ export class UniversalEmulatorService {
 
   async startNativeEmulator(
     gameId: string, 
-    coreId: string,
+    coreId?: string,
     userId?: string,
-    streamConfig?: {
-      resolution: '720p' | '1080p' | '1440p';
-      framerate: 30 | 60;
-      codec: 'h264' | 'h265';
-      enableAudio: boolean;
-    }
+    streamConfig?: RecordSettings,
+    netplay = false
   ): Promise<{
     sessionId: string;
     streamUrl?: string;
@@ -609,17 +424,20 @@ export class UniversalEmulatorService {
     webrtcOffer?: RTCSessionDescriptionInit;
   }> {
     const game = await this.prisma.game.findUnique({
-      where: { id: gameId }
+      where: { id: gameId },
+      include: { platform: true }
     });
 
     if (!game) {
       throw new Error('Game not found');
     }
 
-    const platformConfig = this.getPlatformConfig(game.platformId);
+    const platformConfig = this.getPlatformConfig(game.platform.shortName);
+    const settings = await this.emulationSettings.resolveSettings(game, userId);
+    coreId = coreId || this.selectNativeCore(platformConfig, game.compatibleCores, settings);
     
     if (!platformConfig.retroarchCores.includes(coreId)) {
-      throw new Error(`Core ${coreId} not available for platform ${game.platformId}`);
+      throw new Error(`Core ${coreId} not available for platform ${game.platform.shortName}`);
     }
 
     // Create session
@@ -627,53 +445,87 @@ export class UniversalEmulatorService {
       id: crypto.randomUUID(),
       gameId,
       userId,
-      platform: game.platformId,
+      platform: game.platform.shortName,
       core: coreId,
       emulatorType: 'native',
-      status: 'starting',
+      status: 'queued',
       startTime: new Date(),
       lastActivity: new Date(),
-      metrics: this.getInitialMetrics()
+      metrics: this.getInitialMetrics(),
+      netplay
     };
 
     this.activeSessions.set(session.id, session);
 
     try {
-      // Start RetroArch process
-      const retroarchArgs = this.buildRetroArchArgs(game.filePath, coreId, session.id, streamConfig);
-      const process = spawn(this.retroarchPath, retroarchArgs, {
-        cwd: config.storage.tempDir,
-        env: {
-          ...process.env,
-          DISPLAY: `:${this.getNextDisplayNumber()}`,
-          SDL_VIDEODRIVER: 'x11'
-        }
-      });
-
-      session.nativeProcess = process;
-      session.status = 'running';
-
-      // Handle process events
-      process.stdout?.on('data', (data) => {
-        logger.debug(`RetroArch stdout: ${data}`);
-        this.updateSessionMetrics(session.id, data.toString());
-      });
-
-      process.stderr?.on('data', (data) => {
-        logger.warn(`RetroArch stderr: ${data}`);
+      // Wait for a free display; RetroArch and the stream capture share its X server and audio sink
+      const lease = await displayPool.acquire(session.id, {
+        ...getDisplaySize(streamConfig),
+        onFailure: status => this.handleProcessFailure(session.id, status)
       });
+      if (!this.activeSessions.has(session.id)) {
+        await displayPool.release(session.id);
+        throw new Error('Session stopped while waiting for a display');
+      }
+      session.display = lease.display;
+      session.audioSink = lease.audioSink;
+      session.status = 'starting';
 
-      process.on('exit', (code) => {
-        logger.info(`RetroArch process exited with code ${code}`);
-        session.status = 'stopped';
-        this.cleanupSession(session.id);
-      });
+      // Multi-disc games are launched through a generated playlist so the core can swap discs
+      const { launchPath, discCount } = await this.discService.getLaunchPath(
+        gameId,
+        game.filePath,
+        path.join(config.storage.tempDir, `discs-${session.id}.m3u`)
+      );
+      session.discCount = discCount;
+      session.currentDisc = 1;
+      session.contentPath = launchPath;
+
+      // The UDP command interface is only reachable when RetroArch shares the server's network, i.e.
+      // for netplay or without a sandbox. The default sandbox gives RetroArch a network namespace of
+      // its own whose loopback the server cannot reach, so those sessions are driven through stdin and
+      // answer on stdout (see spawnRetroArch)
+      const network = netplay || config.emulation.sandbox.mode === 'none';
+      if (network) {
+        session.commandPort = this.allocateCommandPort();
+        this.commandClients.set(session.id, new RetroArchCommandClient({
+          port: session.commandPort,
+          timeout: config.emulation.commandTimeout
+        }));
+      }
+      await fs.mkdir(this.getSessionStatePath(session.id), { recursive: true });
+      await fs.mkdir(this.getSessionSavePath(session.id), { recursive: true });
+      const extraArgs = await this.writeSessionConfig(session, settings, streamConfig);
 
-      process.on('error', (error) => {
-        logger.error(`RetroArch process error: ${error}`);
-        session.status = 'error';
-        this.cleanupSession(session.id);
-      });
+      // Start RetroArch in its sandbox: content, BIOS and generated files read-only, saves writable
+      const retroarchArgs = this.buildRetroArchArgs(launchPath, coreId, session.id, extraArgs, streamConfig);
+      const recordPath = this.getSessionFilePath(session.id, 'recording');
+      if (streamConfig) {
+        await fs.writeFile(recordPath, '');
+      }
+      const discFiles = await this.discService.getDiscFiles(gameId);
+      this.launchCommands.set(session.id, await sandbox.prepare(session.id, this.retroarchPath, retroarchArgs, {
+        readOnly: [
+          launchPath,
+          ...discFiles,
+          this.biosPath,
+          this.getSessionFilePath(session.id, 'config'),
+          this.getSessionFilePath(session.id, 'coreOptions'),
+          ...(streamConfig ? [this.getSessionFilePath(session.id, 'record')] : []),
+          ...(settings.video?.shader ? [config.emulation.shaderDir] : [])
+        ],
+        writable: [
+          this.getSessionSavePath(session.id),
+          this.getSessionStatePath(session.id),
+          ...(streamConfig ? [recordPath] : [])
+        ],
+        displayNumber: lease.displayNumber,
+        audioSink: lease.audioSink,
+        network,
+        onViolation: violation => this.recordLimitViolation(session.id, violation)
+      }));
+      this.spawnRetroArch(session);
+      session.status = 'running';
 
       // Setup streaming if requested
       let streamUrl: string | undefined;
@@ -697,7 +549,7 @@ export class UniversalEmulatorService {
       };
 
     } catch (error) {
-      this.activeSessions.delete(session.id);
+      await this.cleanupSession(session.id);
       logger.error(`Failed to start native emulator: ${error}`);
       throw error;
     }
@@ -707,23 +559,25 @@ export class UniversalEmulatorService {
     romPath: string, 
     core: string, 
     sessionId: string,
-    streamConfig?: any
+    extraArgs: string[],
+    streamConfig?: RecordSettings
   ): string[] {
-    const configPath = path.join(config.storage.tempDir, `retroarch-${sessionId}.cfg`);
+    const configPath = this.getSessionFilePath(sessionId, 'config');
     
     const args = [
       '-L', `/usr/lib/libretro/${core}_libretro.so`,
       '--config', configPath,
-      '--save-path', path.join(config.storage.tempDir, 'saves'),
-      '--savestate-path', this.saveStatePath,
+      '--save-path', this.getSessionSavePath(sessionId),
+      '--savestate-path', this.getSessionStatePath(sessionId),
       '--system-path', this.biosPath,
-      '--verbose'
+      '--verbose',
+      ...extraArgs
     ];
 
     if (streamConfig) {
       args.push(
-        '--record', path.join(config.storage.tempDir, `stream-${sessionId}.mkv`),
-        '--record-config-path', this.getStreamConfigPath(streamConfig)
+        '--record', this.getSessionFilePath(sessionId, 'recording'),
+        '--record-config-path', this.getSessionFilePath(sessionId, 'record')
       );
     }
 
@@ -731,9 +585,203 @@ export class UniversalEmulatorService {
     return args;
   }
 
-  private getNextDisplayNumber(): number {
-    // Simple display number allocation
-    return Math.floor(Math.random() * 1000) + 1000;
+  /**
+   * Write the session's RetroArch config, core options and record config; returns extra arguments
+   */
+  private async writeSessionConfig(
+    session: EmulatorSession,
+    settings: RetroArchSettings,
+    streamConfig?: RecordSettings
+  ): Promise<string[]> {
+    const coreOptionsPath = this.getSessionFilePath(session.id, 'coreOptions');
+    const generated = buildSessionConfig(settings, {
+      commandPort: session.commandPort,
+      coreOptionsPath,
+      screenshotDir: this.getSessionStatePath(session.id),
+      shaderDir: config.emulation.shaderDir,
+      record: streamConfig
+    });
+
+    await fs.writeFile(this.getSessionFilePath(session.id, 'config'), serializeConfig(generated.config));
+    await fs.writeFile(coreOptionsPath, serializeConfig(generated.coreOptions));
+    if (generated.recordConfig) {
+      await fs.writeFile(this.getSessionFilePath(session.id, 'record'), serializeConfig(generated.recordConfig));
+    }
+
+    return generated.args;
+  }
+
+  // The game's preferred core, then one of its compatible cores, then the platform default
+  private selectNativeCore(
+    platformConfig: PlatformEmulatorConfig,
+    compatibleCores: string[],
+    settings: RetroArchSettings
+  ): string {
+    return settings.core
+      || compatibleCores.find(core => platformConfig.retroarchCores.includes(core))
+      || (platformConfig.retroarchCores.includes(platformConfig.defaultCore)
+        ? platformConfig.defaultCore
+        : platformConfig.retroarchCores[0]);
+  }
+
+  private getSessionFilePath(sessionId: string, file: 'config' | 'coreOptions' | 'record' | 'recording'): string {
+    const names = {
+      config: `retroarch-${sessionId}.cfg`,
+      coreOptions: `retroarch-${sessionId}.opt`,
+      record: `record-${sessionId}.cfg`,
+      recording: `stream-${sessionId}.mkv`
+    };
+    return path.join(config.storage.tempDir, names[file]);
+  }
+
+  private allocateCommandPort(): number {
+    const { base, count } = config.emulation.commandPorts;
+    for (let port = base; port < base + count; port++) {
+      if (!this.usedCommandPorts.has(port)) {
+        this.usedCommandPorts.add(port);
+        return port;
+      }
+    }
+    throw new Error('No free RetroArch command port');
+  }
+
+  private getCommandClient(session: EmulatorSession): RetroArchCommandClient {
+    const client = this.commandClients.get(session.id);
+    if (session.emulatorType === 'browser' || !client || !session.nativeProcess) {
+      throw new Error('Native process not available');
+    }
+    return client;
+  }
+
+  private getSessionStatePath(sessionId: string): string {
+    return path.join(this.saveStatePath, sessionId);
+  }
+
+  // The only directory besides the savestates that a sandboxed RetroArch can write to
+  private getSessionSavePath(sessionId: string): string {
+    return path.join(config.storage.tempDir, 'saves', sessionId);
+  }
+
+  // RetroArch names slot 0 "<content>.state" and slot n "<content>.state<n>"
+  private getSlotFilePath(session: EmulatorSession, slotNumber: number): string {
+    const contentName = path.basename(session.contentPath!, path.extname(session.contentPath!));
+    return path.join(this.getSessionStatePath(session.id), `${contentName}.state${slotNumber || ''}`);
+  }
+
+  private spawnRetroArch(session: EmulatorSession): void {
+    // The sandboxed command carries its own scrubbed environment; nothing of the server's is passed on
+    const { command, args, env } = this.launchCommands.get(session.id)!;
+    const retroarch = spawn(command, args, {
+      cwd: config.storage.tempDir,
+      env
+    });
+    const startedAt = Date.now();
+
+    session.nativeProcess = retroarch;
+    if (session.commandPort === undefined) {
+      this.commandClients.set(session.id, new RetroArchCommandClient({
+        process: retroarch,
+        timeout: config.emulation.commandTimeout
+      }));
+    }
+
+    // Handle process events
+    retroarch.stdout?.on('data', (data) => {
+      logger.debug(`RetroArch stdout: ${data}`);
+      this.updateSessionMetrics(session.id, data.toString());
+    });
+
+    retroarch.stderr?.on('data', (data) => {
+      logger.warn(`RetroArch stderr: ${data}`);
+    });
+
+    retroarch.on('exit', async (code, signal) => {
+      // Ignore processes that were stopped on purpose or already replaced by a restart
+      if (session.nativeProcess !== retroarch || session.status === 'stopped' || session.status === 'error') {
+        return;
+      }
+
+      if (code === 0) {
+        logger.info(`RetroArch process exited with code 0 in session ${session.id}`);
+        session.status = 'stopped';
+        this.cleanupSession(session.id);
+        return;
+      }
+
+      // An OOM kill looks like any SIGKILL; the session's cgroup tells whether a limit caused it
+      const status: ExitStatus = { process: 'retroarch', code, signal, at: new Date() };
+      const violations = await sandbox.checkLimits(session.id).catch(() => []);
+      violations.forEach(violation => this.recordLimitViolation(session.id, violation));
+
+      this.handleProcessFailure(session.id, status, status.at.getTime() - startedAt);
+    });
+
+    retroarch.on('error', (error) => {
+      logger.error(`RetroArch process error: ${error}`);
+      // Without a pid the process never started, and no exit event follows
+      if (retroarch.pid === undefined && session.status !== 'stopped') {
+        session.status = 'error';
+        session.error = `Failed to start RetroArch: ${error.message}`;
+        this.cleanupSession(session.id, true);
+      }
+    });
+  }
+
+  /**
+   * Restart a crashed RetroArch while the display is still up, or fail the session with the exit status
+   */
+  private handleProcessFailure(sessionId: string, status: ExitStatus, uptime = 0): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session || session.status === 'stopped' || session.status === 'error') {
+      return;
+    }
+
+    session.exitStatus = status;
+    const description = `${status.process === 'xvfb' ? 'Xvfb' : 'RetroArch'} exited with ${
+      status.signal ? `signal ${status.signal}` : `code ${status.code}`}`;
+
+    // A RetroArch killed at its memory limit would only run into it again
+    const startedAt = status.at.getTime() - uptime;
+    const memoryKill = status.process === 'retroarch' && session.limitViolations?.find(violation =>
+      violation.limit === 'memory' && violation.at.getTime() >= startedAt);
+    if (memoryKill) {
+      logger.error(`${memoryKill.detail} in session ${sessionId}`);
+      session.status = 'error';
+      session.error = memoryKill.detail;
+      this.cleanupSession(sessionId, true);
+      return;
+    }
+
+    const restarts = session.restarts || 0;
+    if (status.process === 'retroarch'
+        && restarts < config.emulation.maxRestarts
+        && uptime >= RESTART_MIN_UPTIME
+        && displayPool.getLease(sessionId)) {
+      session.restarts = restarts + 1;
+      logger.warn(`${description} in session ${sessionId}, restarting (${session.restarts}/${config.emulation.maxRestarts})`);
+      this.spawnRetroArch(session);
+      return;
+    }
+
+    logger.error(`${description} in session ${sessionId}`);
+    session.status = 'error';
+    session.error = description;
+    this.cleanupSession(sessionId, true);
+  }
+
+  private recordLimitViolation(sessionId: string, violation: LimitViolation): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    logger.warn(`Session ${sessionId}: ${violation.detail}`);
+    session.limitViolations = [...(session.limitViolations || []), violation];
+  }
+
+  /**
+   * Get the display and audio sink of a native session, for the stream capture
+   */
+  getSessionDisplay(sessionId: string): DisplayLease | null {
+    return displayPool.getLease(sessionId);
   }
 
   private async setupStreaming(
@@ -752,11 +800,6 @@ export class UniversalEmulatorService {
     };
   }
 
-  private getStreamConfigPath(config: any): string {
-    // Generate FFmpeg configuration for streaming
-    return path.join(config.storage.tempDir, 'stream.cfg');
-  }
-
   // =====================================================
   // SAVE STATE MANAGEMENT
   // =====================================================
@@ -782,21 +825,24 @@ export class UniversalEmulatorService {
       // Browser save state handled by client
       throw new Error('Browser save states must be created from client');
     } else {
-      // Native save state via RetroArch
+      // Native save state via RetroArch: save to the slot, then keep a copy under the state's id
+      const client = this.getCommandClient(session);
+      const slotPath = this.getSlotFilePath(session, slotNumber);
       const saveStatePath = path.join(this.saveStatePath, `${saveStateId}.state`);
-      const screenshotPath = path.join(this.saveStatePath, `${saveStateId}.png`);
-      
-      // Send save state command to RetroArch
-      if (session.nativeProcess) {
-        session.nativeProcess.stdin?.write('SAVE_STATE\n');
-        // Wait for save state file to be created
-        await this.waitForFile(saveStatePath, 5000);
-        await this.waitForFile(screenshotPath, 5000);
-        
-        saveData = await fs.readFile(saveStatePath);
-        screenshot = `data:image/png;base64,${(await fs.readFile(screenshotPath)).toString('base64')}`;
-      } else {
-        throw new Error('Native process not available');
+
+      await client.saveState(slotNumber);
+      await this.waitForFile(slotPath, 5000, timestamp);
+      await fs.copyFile(slotPath, saveStatePath);
+      saveData = await fs.readFile(saveStatePath);
+
+      // The thumbnail is written just after the state; not every video driver can produce one
+      try {
+        await this.waitForFile(`${slotPath}.png`, 2000, timestamp);
+        const thumbnail = await fs.readFile(`${slotPath}.png`);
+        await fs.writeFile(path.join(this.saveStatePath, `${saveStateId}.png`), thumbnail);
+        screenshot = `data:image/png;base64,${thumbnail.toString('base64')}`;
+      } catch {
+        screenshot = PLACEHOLDER_SCREENSHOT;
       }
     }
 
@@ -824,6 +870,7 @@ export class UniversalEmulatorService {
       data: {
         id: saveState.id,
         gameId: saveState.gameId,
+        userId: saveState.userId,
         name: saveState.name,
         description: saveState.description,
         filePath: path.join(this.saveStatePath, `${saveStateId}.state`),
@@ -836,7 +883,7 @@ export class UniversalEmulatorService {
     return saveState;
   }
 
-  async loadSaveState(sessionId: string, saveStateId: string): Promise<void> {
+  async loadSaveState(sessionId: string, saveStateId: string, user: AuthUser): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -850,20 +897,27 @@ export class UniversalEmulatorService {
       throw new Error('Save state not found');
     }
 
+    // A state only loads into a session of its own game, and only its owner's (or by an admin)
+    if (saveState.gameId !== session.gameId) {
+      throw new Error('Not allowed to load a save state of another game');
+    }
+    if (saveState.userId !== session.userId && !hasRole(user, 'admin')) {
+      throw new Error('Not allowed to load this save state');
+    }
+
     if (session.emulatorType === 'browser') {
       // Browser load state handled by client
       throw new Error('Browser save state loading must be handled by client');
     } else {
-      // Native load state via RetroArch
-      if (session.nativeProcess) {
-        const saveStatePath = path.join(this.saveStatePath, `${saveStateId}.state`);
-        await fs.copyFile(saveState.filePath, saveStatePath);
-        session.nativeProcess.stdin?.write('LOAD_STATE\n');
-      } else {
-        throw new Error('Native process not available');
-      }
+      // Native load state via RetroArch: put the state in its slot, then load the slot
+      const client = this.getCommandClient(session);
+      const slotNumber = saveState.slotNumber || 0;
+      await fs.copyFile(saveState.filePath, this.getSlotFilePath(session, slotNumber));
+      await client.loadState(slotNumber);
     }
 
+    session.lastActivity = new Date();
+
     logger.info(`Loaded save state ${saveStateId} for session ${sessionId}`);
   }
 
@@ -871,7 +925,7 @@ export class UniversalEmulatorService {
     const saveStates = await this.prisma.saveState.findMany({
       where: {
         gameId,
-        // Add userId filter if needed
+        ...(userId && { userId })
       },
       orderBy: { createdAt: 'desc' }
     });
@@ -886,13 +940,13 @@ export class UniversalEmulatorService {
         screenshot = `data:image/png;base64,${screenshotData.toString('base64')}`;
       } catch {
         // Use default screenshot
-        screenshot = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+        screenshot = PLACEHOLDER_SCREENSHOT;
       }
 
       result.push({
         id: state.id,
         gameId: state.gameId,
-        userId,
+        userId: state.userId || undefined,
         slotNumber: state.slotNumber || 0,
         name: state.name,
         description: state.description,
@@ -925,10 +979,6 @@ export class UniversalEmulatorService {
       throw new Error('Session not found');
     }
 
-    if (session.nativeProcess) {
-      session.nativeProcess.kill('SIGTERM');
-    }
-
     session.status = 'stopped';
     await this.cleanupSession(sessionId);
     
@@ -941,8 +991,13 @@ export class UniversalEmulatorService {
       throw new Error('Session not found');
     }
 
-    if (session.nativeProcess) {
-      session.nativeProcess.kill('SIGSTOP');
+    // PAUSE_TOGGLE keeps RetroArch presenting frames, so audio and the stream stay up
+    if (session.emulatorType === 'native') {
+      const client = this.getCommandClient(session);
+      const { state } = await client.getStatus();
+      if (state === 'playing') {
+        await client.togglePause();
+      }
     }
 
     session.status = 'paused';
@@ -955,8 +1010,12 @@ export class UniversalEmulatorService {
       throw new Error('Session not found');
     }
 
-    if (session.nativeProcess) {
-      session.nativeProcess.kill('SIGCONT');
+    if (session.emulatorType === 'native') {
+      const client = this.getCommandClient(session);
+      const { state } = await client.getStatus();
+      if (state === 'paused') {
+        await client.togglePause();
+      }
     }
 
     session.status = 'running';
@@ -964,13 +1023,107 @@ export class UniversalEmulatorService {
     logger.info(`Resumed emulator session ${sessionId}`);
   }
 
-  private async cleanupSession(sessionId: string): Promise<void> {
+  async swapDisc(sessionId: string, discNumber: number): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    if (session.emulatorType === 'browser') {
+      throw new Error('Browser disc swapping must be handled by client');
+    }
+
+    if (!session.discCount || session.discCount < 2) {
+      throw new Error('Game has only one disc');
+    }
+
+    if (discNumber < 1 || discNumber > session.discCount) {
+      throw new Error(`Invalid disc number: ${discNumber}`);
+    }
+
+    const client = this.getCommandClient(session);
+
+    // Open the tray, step through the playlist to the requested disc, close the tray
+    const current = session.currentDisc || 1;
+    await client.toggleDiscTray();
+    for (let i = 0; i < Math.abs(discNumber - current); i++) {
+      await client.selectDisc(discNumber > current ? 'next' : 'previous');
+    }
+    await client.toggleDiscTray();
+
+    session.currentDisc = discNumber;
+    session.lastActivity = new Date();
+    logger.info(`Swapped to disc ${discNumber} in emulator session ${sessionId}`);
+  }
+
+  /**
+   * Send a one-shot control command to a native session
+   */
+  async controlSession(sessionId: string, action: SessionControlAction): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const client = this.getCommandClient(session);
+    switch (action) {
+      case 'frame_advance':
+        // RetroArch pauses on the first frame advance
+        await client.frameAdvance();
+        session.status = 'paused';
+        break;
+      case 'reset':
+        await client.reset();
+        break;
+      case 'fast_forward':
+        await client.toggleFastForward();
+        break;
+      case 'screenshot':
+        await client.screenshot();
+        break;
+    }
+
+    session.lastActivity = new Date();
+    logger.info(`Sent ${action} to emulator session ${sessionId}`);
+  }
+
+  /**
+   * Ask RetroArch what a native session is running
+   */
+  async getEmulatorStatus(sessionId: string): Promise<RetroArchStatus> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    return this.getCommandClient(session).getStatus();
+  }
+
+  // With keep, the session stays listed with its status and exit status until FAILED_SESSION_TTL passes
+  private async cleanupSession(sessionId: string, keep = false): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (session) {
+      if (session.nativeProcess) {
+        await stopProcess(session.nativeProcess);
+      }
+      await sandbox.release(sessionId);
+      await displayPool.release(sessionId);
+      this.launchCommands.delete(sessionId);
+
+      if (session.commandPort) {
+        this.usedCommandPorts.delete(session.commandPort);
+      }
+      this.commandClients.delete(sessionId);
+      await fs.rm(this.getSessionStatePath(sessionId), { recursive: true, force: true });
+      await fs.rm(this.getSessionSavePath(sessionId), { recursive: true, force: true });
+
       // Clean up temporary files
       const tempFiles = [
-        path.join(config.storage.tempDir, `retroarch-${sessionId}.cfg`),
-        path.join(config.storage.tempDir, `stream-${sessionId}.mkv`)
+        this.getSessionFilePath(sessionId, 'config'),
+        this.getSessionFilePath(sessionId, 'coreOptions'),
+        this.getSessionFilePath(sessionId, 'record'),
+        this.getSessionFilePath(sessionId, 'recording'),
+        path.join(config.storage.tempDir, `discs-${sessionId}.m3u`)
       ];
 
       for (const file of tempFiles) {
@@ -981,7 +1134,11 @@ export class UniversalEmulatorService {
         }
       }
 
-      this.activeSessions.delete(sessionId);
+      if (keep) {
+        setTimeout(() => this.activeSessions.delete(sessionId), FAILED_SESSION_TTL).unref();
+      } else {
+        this.activeSessions.delete(sessionId);
+      }
     }
   }
 
@@ -1049,15 +1206,19 @@ export class UniversalEmulatorService {
   // UTILITY METHODS
   // =====================================================
 
-  private async waitForFile(filePath: string, timeout: number): Promise<void> {
+  // With `since`, an older file left from a previous write does not count
+  private async waitForFile(filePath: string, timeout: number, since?: Date): Promise<void> {
     const startTime = Date.now();
     while (Date.now() - startTime < timeout) {
       try {
-        await fs.access(filePath);
-        return;
+        const stats = await fs.stat(filePath);
+        if (!since || stats.mtimeMs >= since.getTime()) {
+          return;
+        }
       } catch {
-        await new Promise(resolve => setTimeout(resolve, 100));
+        // Not written yet
       }
+      await new Promise(resolve => setTimeout(resolve, 100));
     }
     throw new Error(`File ${filePath} not created within timeout`);
   }
@@ -1067,6 +1228,11 @@ export class UniversalEmulatorService {
     supportedPlatforms: string[];
     availableCores: Record<string, string[]>;
     biosStatus: Record<string, boolean>;
+    nativeSlots: {
+      maxSessions: number;
+      active: number;
+      queued: number;
+    };
     performance: {
       averageFps: number;
       activeStreams: number;
@@ -1086,32 +1252,32 @@ export class UniversalEmulatorService {
       }
     }
 
-    const biosStatus: Record<string, boolean> = {};
+    const biosFiles = new Set<string>();
     for (const [category, platforms] of Object.entries(UNIVERSAL_EMULATOR_CONFIG)) {
       for (const [platformId, config] of Object.entries(platforms)) {
-        if (config.biosFiles) {
-          for (const biosFile of config.biosFiles) {
-            const biosPath = path.join(this.biosPath, biosFile);
-            try {
-              await fs.access(biosPath);
-              biosStatus[biosFile] = true;
-            } catch {
-              biosStatus[biosFile] = false;
-            }
-          }
-        }
+        config.biosFiles?.forEach(biosFile => biosFiles.add(biosFile));
       }
     }
 
-    const sessions = Array.from(this.activeSessions.values());
+    // A BIOS counts as available only if present and not a known bad dump
+    const { missing, mismatched } = await this.biosService.checkBiosFiles(Array.from(biosFiles));
+    const unusable = new Set([...missing, ...mismatched.map(m => m.fileName)]);
+    const biosStatus: Record<string, boolean> = {};
+    for (const biosFile of biosFiles) {
+      biosStatus[biosFile] = !unusable.has(biosFile);
+    }
+
+    // Failed sessions kept for their exit status are not active
+    const sessions = Array.from(this.activeSessions.values()).filter(s => s.status !== 'error' && s.status !== 'stopped');
     const averageFps = sessions.reduce((sum, s) => sum + s.metrics.fps, 0) / sessions.length || 0;
     const activeStreams = sessions.filter(s => s.streamUrl).length;
 
     return {
-      activeSessions: this.activeSessions.size,
+      activeSessions: sessions.length,
       supportedPlatforms,
       availableCores,
       biosStatus,
+      nativeSlots: displayPool.getStats(),
       performance: {
         averageFps,
         activeStreams,
@@ -1121,4 +1287,13 @@ export class UniversalEmulatorService {
   }
 }
 
+// The X screen matches the stream resolution so the capture gets the whole frame
+function getDisplaySize(streamConfig?: RecordSettings): { width: number; height: number } {
+  switch (streamConfig?.resolution) {
+    case '720p': return { width: 1280, height: 720 };
+    case '1440p': return { width: 2560, height: 1440 };
+    default: return { width: 1920, height: 1080 };
+  }
+}
+
 export default UniversalEmulatorService;
\ No newline at end of file
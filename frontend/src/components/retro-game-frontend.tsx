@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Upload, Play, Search, Filter, Grid, List, CheckCircle, AlertCircle, Clock, X } from 'lucide-react';
 
 // Types
@@ -10,24 +10,36 @@ interface GamePlatform {
 }
 
 interface UploadProgress {
+  uploadId?: string;
   fileName: string;
   progress: number;
   speed: number;
   eta: number;
-  status: 'uploading' | 'processing' | 'complete' | 'error';
+  status: 'uploading' | 'paused' | 'processing' | 'complete' | 'error';
   chunks: number;
   totalChunks: number;
+  error?: string;
+}
+
+// Uploads kept in localStorage so they can resume after a reload
+interface StoredUpload {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+  totalChunks: number;
+  concurrency: number;
 }
 
 interface GameMetadata {
   id: string;
   title: string;
   platform: string;
-  genre: string;
-  year: number;
-  rating: number;
+  genre?: string;
+  year?: number;
+  rating?: number;
   boxArt?: string;
-  size: number;
+  size: string; // Formatted by the API, e.g. "512 KB"
   lastPlayed?: Date;
 }
 
@@ -44,6 +56,11 @@ const SUPPORTED_PLATFORMS: GamePlatform[] = [
   { id: 'arcade', name: 'Arcade', extensions: ['.zip', '.7z', '.rar'], icon: '🕹️' },
 ];
 
+const UPLOAD_STORAGE_KEY = 'retrohub.uploads';
+const CHUNK_SIZE = 1024 * 1024; // 1MB
+const MAX_CHUNK_ATTEMPTS = 3;
+const STATUS_POLL_INTERVAL = 2000;
+
 // Utility functions
 const formatBytes = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
@@ -88,6 +105,157 @@ const validateFile = (file: File): { valid: boolean; platform?: string; errors:
   return { valid: errors.length === 0, platform, errors };
 };
 
+const loadStoredUploads = (): StoredUpload[] => {
+  try {
+    return JSON.parse(localStorage.getItem(UPLOAD_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveStoredUploads = (uploads: StoredUpload[]) => {
+  localStorage.setItem(UPLOAD_STORAGE_KEY, JSON.stringify(uploads));
+};
+
+const forgetStoredUpload = (uploadId: string) => {
+  saveStoredUploads(loadStoredUploads().filter(stored => stored.uploadId !== uploadId));
+};
+
+// A file is recognised again by its name, size and modification time
+const findStoredUpload = (file: File): StoredUpload | undefined =>
+  loadStoredUploads().find(stored =>
+    stored.fileName === file.name && stored.fileSize === file.size && stored.lastModified === file.lastModified
+  );
+
+const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// SHA-256 fed a chunk at a time, for whole-file hashes without holding the file in memory
+// (WebCrypto only digests complete buffers)
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+class Sha256 {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(64);
+
+  update(data: Uint8Array) {
+    this.totalLength += data.length;
+    let offset = 0;
+
+    if (this.blockLength > 0) {
+      const take = Math.min(64 - this.blockLength, data.length);
+      this.block.set(data.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      offset = take;
+      if (this.blockLength < 64) return;
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+
+    for (; offset + 64 <= data.length; offset += 64) {
+      this.compress(data, offset);
+    }
+
+    this.block.set(data.subarray(offset));
+    this.blockLength = data.length - offset;
+  }
+
+  hex(): string {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array((this.blockLength < 56 ? 56 : 120) - this.blockLength + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(padding.length - 4, bitLength >>> 0);
+    this.update(padding);
+
+    return Array.from(this.state).map(word => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  private compress(data: Uint8Array, offset: number) {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const a = w[i - 15];
+      const b = w[i - 2];
+      const s0 = ((a >>> 7) | (a << 25)) ^ ((a >>> 18) | (a << 14)) ^ (a >>> 3);
+      const s1 = ((b >>> 17) | (b << 15)) ^ ((b >>> 19) | (b << 13)) ^ (b >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    const state = this.state;
+    state[0] += a; state[1] += b; state[2] += c; state[3] += d;
+    state[4] += e; state[5] += f; state[6] += g; state[7] += h;
+  }
+}
+
+// Map a game from the games API to a library card
+const toGameMetadata = (game: any): GameMetadata => ({
+  id: game.id,
+  title: game.title,
+  platform: game.platform.shortName,
+  genre: game.genre,
+  year: game.releaseYear,
+  rating: game.rating,
+  boxArt: game.boxArtUrl,
+  size: game.fileSize,
+});
+
+// The status endpoint sends a base64 bitmap with bit i (LSB first) set when chunk i is missing
+const decodeMissingChunks = (bitmap: string, totalChunks: number): number[] => {
+  const bytes = atob(bitmap);
+  const missing: number[] = [];
+  for (let index = 0; index < totalChunks; index++) {
+    if (bytes.charCodeAt(index >> 3) & (1 << (index & 7))) {
+      missing.push(index);
+    }
+  }
+  return missing;
+};
+
+const isResumable = (status: { status: string; expiresAt: string }): boolean =>
+  ['INITIATED', 'UPLOADING'].includes(status.status) && new Date(status.expiresAt) > new Date();
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  const body = await response.json().catch(() => null);
+  return body?.message || fallback;
+};
+
 // Components
 const ProgressBar: React.FC<{ progress: number; className?: string }> = ({ progress, className = '' }) => (
   <div className={`w-full bg-gray-200 rounded-full h-2 ${className}`}>
@@ -115,7 +283,7 @@ const UploadItem: React.FC<{ upload: UploadProgress; onCancel: () => void }> = (
           {getStatusIcon()}
           <span className="font-medium text-sm truncate max-w-xs">{upload.fileName}</span>
         </div>
-        {upload.status === 'uploading' && (
+        {(upload.status === 'uploading' || upload.status === 'paused') && (
           <button
             onClick={onCancel}
             className="text-gray-400 hover:text-red-500 transition-colors"
@@ -132,7 +300,10 @@ const UploadItem: React.FC<{ upload: UploadProgress; onCancel: () => void }> = (
           {upload.chunks}/{upload.totalChunks} chunks • {formatBytes(upload.speed)}/s
         </span>
         <span>
-          {upload.status === 'uploading' ? `${formatTime(upload.eta)} remaining` : upload.status}
+          {upload.status === 'uploading' && `${formatTime(upload.eta)} remaining`}
+          {upload.status === 'paused' && 'paused - choose the file again to resume'}
+          {upload.status === 'error' && (upload.error || 'error')}
+          {(upload.status === 'processing' || upload.status === 'complete') && upload.status}
         </span>
       </div>
     </div>
@@ -150,10 +321,10 @@ const GameCard: React.FC<{ game: GameMetadata; viewMode: 'grid' | 'list' }> = ({
         </div>
         <div className="flex-1 min-w-0">
           <h3 className="font-semibold text-gray-900 truncate">{game.title}</h3>
-          <p className="text-sm text-gray-500">{platform?.name} • {game.year}</p>
+          <p className="text-sm text-gray-500">{platform?.name}{game.year ? ` • ${game.year}` : ''}</p>
         </div>
         <div className="flex items-center space-x-2">
-          <span className="text-sm text-gray-500">{formatBytes(game.size)}</span>
+          <span className="text-sm text-gray-500">{game.size}</span>
           <button className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-1">
             <Play className="w-4 h-4" />
             <span>Play</span>
@@ -180,9 +351,22 @@ const GameCard: React.FC<{ game: GameMetadata; viewMode: 'grid' | 'list' }> = ({
   );
 };
 
-const RetroGameApp: React.FC = () => {
+// getAccessToken hands out the signed-in user's current access token; the upload routes need the uploader role
+const RetroGameApp: React.FC<{ getAccessToken: () => Promise<string | null> }> = ({ getAccessToken }) => {
   const [activeTab, setActiveTab] = useState<'library' | 'upload'>('library');
-  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const [uploads, setUploads] = useState<UploadProgress[]>(() =>
+    loadStoredUploads().map(stored => ({
+      uploadId: stored.uploadId,
+      fileName: stored.fileName,
+      progress: 0,
+      speed: 0,
+      eta: 0,
+      status: 'paused' as const,
+      chunks: 0,
+      totalChunks: stored.totalChunks,
+    }))
+  );
+  const uploadControllers = useRef(new Map<string, AbortController>());
   const [games, setGames] = useState<GameMetadata[]>([
     {
       id: '1',
@@ -191,7 +375,7 @@ const RetroGameApp: React.FC = () => {
       genre: 'Platform',
       year: 1985,
       rating: 4.8,
-      size: 32 * 1024,
+      size: formatBytes(32 * 1024),
     },
     {
       id: '2',
@@ -200,7 +384,7 @@ const RetroGameApp: React.FC = () => {
       genre: 'Adventure',
       year: 1991,
       rating: 4.9,
-      size: 1024 * 1024,
+      size: formatBytes(1024 * 1024),
     },
     {
       id: '3',
@@ -209,7 +393,7 @@ const RetroGameApp: React.FC = () => {
       genre: 'Platform',
       year: 1991,
       rating: 4.7,
-      size: 512 * 1024,
+      size: formatBytes(512 * 1024),
     },
   ]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
@@ -242,80 +426,239 @@ const RetroGameApp: React.FC = () => {
     processFiles(files);
   }, []);
 
-  const processFiles = useCallback((files: File[]) => {
-    files.forEach(file => {
-      const validation = validateFile(file);
-      
-      if (!validation.valid) {
-        console.error(`Validation failed for ${file.name}:`, validation.errors);
+  const authHeaders = useCallback(async (): Promise<Record<string, string>> => {
+    const token = await getAccessToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }, [getAccessToken]);
+
+  const updateUpload = useCallback((fileName: string, changes: Partial<UploadProgress>) => {
+    setUploads(prev => prev.map(upload =>
+      upload.fileName === fileName ? { ...upload, ...changes } : upload
+    ));
+  }, []);
+
+  // Show how far interrupted uploads got; drop the ones the server no longer accepts
+  useEffect(() => {
+    loadStoredUploads().forEach(async stored => {
+      const response = await fetch(`/api/upload/status/${stored.uploadId}`, { headers: await authHeaders() })
+        .catch(() => null);
+      if (!response) return;
+
+      const status = response.ok ? await response.json() : null;
+      if (!status || !isResumable(status)) {
+        forgetStoredUpload(stored.uploadId);
+        setUploads(prev => prev.filter(upload => upload.uploadId !== stored.uploadId || upload.status !== 'paused'));
         return;
       }
-      
-      // Simulate chunked upload
-      const totalChunks = Math.ceil(file.size / (1024 * 1024)); // 1MB chunks
-      const newUpload: UploadProgress = {
+
+      setUploads(prev => prev.map(upload =>
+        upload.uploadId === stored.uploadId && upload.status === 'paused'
+          ? { ...upload, chunks: status.uploadedChunks, progress: status.progress }
+          : upload
+      ));
+    });
+  }, []);
+
+  const uploadFile = useCallback(async (file: File) => {
+    uploadControllers.current.get(file.name)?.abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    uploadControllers.current.set(file.name, controller);
+
+    setUploads(prev => [
+      ...prev.filter(upload => upload.fileName !== file.name),
+      {
         fileName: file.name,
         progress: 0,
         speed: 0,
         eta: 0,
         status: 'uploading',
         chunks: 0,
-        totalChunks,
+        totalChunks: Math.ceil(file.size / CHUNK_SIZE),
+      },
+    ]);
+
+    try {
+      // Resume from the server's bitmap when this file was being uploaded before
+      let session = findStoredUpload(file);
+      let missing: number[] = [];
+
+      if (session) {
+        const response = await fetch(`/api/upload/status/${session.uploadId}`, { headers: await authHeaders(), signal });
+        const status = response.ok ? await response.json() : null;
+
+        if (status && isResumable(status)) {
+          missing = decodeMissingChunks(status.missingChunks, status.totalChunks);
+        } else {
+          forgetStoredUpload(session.uploadId);
+          session = undefined;
+        }
+      }
+
+      if (!session) {
+        // One pass over the file: each chunk is hashed on its own and fed into the whole-file hash
+        const chunkHashes: string[] = [];
+        const fileHasher = new Sha256();
+        for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+          const chunk = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+          chunkHashes.push(await sha256Hex(chunk));
+          fileHasher.update(new Uint8Array(chunk));
+        }
+
+        const response = await fetch('/api/upload/initiate', {
+          method: 'POST',
+          headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            fileName: file.name,
+            fileSize: file.size,
+            fileHash: fileHasher.hex(),
+            chunkSize: CHUNK_SIZE,
+            mimeType: file.type || undefined,
+            chunkHashes,
+          }),
+          signal,
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Upload could not be started'));
+        }
+
+        const initiated = await response.json();
+        if (initiated.alreadyPresent) {
+          updateUpload(file.name, { uploadId: initiated.uploadId, progress: 100, chunks: initiated.totalChunks, status: 'complete' });
+          return;
+        }
+
+        session = {
+          uploadId: initiated.uploadId,
+          fileName: file.name,
+          fileSize: file.size,
+          lastModified: file.lastModified,
+          totalChunks: initiated.totalChunks,
+          concurrency: initiated.concurrency,
+        };
+        saveStoredUploads([...loadStoredUploads(), session]);
+
+        const reused = new Set<number>(initiated.reusedChunks);
+        missing = Array.from({ length: initiated.totalChunks }, (_, index) => index).filter(index => !reused.has(index));
+      }
+
+      const { uploadId, totalChunks, concurrency } = session;
+      const startedAt = Date.now();
+      let received = totalChunks - missing.length;
+      let bytesSent = 0;
+
+      updateUpload(file.name, { uploadId, chunks: received, progress: (received / totalChunks) * 100 });
+
+      const sendChunk = async (index: number) => {
+        const body = file.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+
+        for (let attempt = 1; ; attempt++) {
+          const response = await fetch(`/api/upload/chunk/${uploadId}/${index}`, {
+            method: 'PUT',
+            headers: { ...(await authHeaders()), 'Content-Type': 'application/octet-stream' },
+            body,
+            signal,
+          }).catch(error => {
+            if (signal.aborted || attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+            return null;
+          });
+
+          if (response?.ok) {
+            bytesSent += body.size;
+            return;
+          }
+          // Only server errors and dropped connections are worth another try
+          if (response && (response.status < 500 || attempt >= MAX_CHUNK_ATTEMPTS)) {
+            throw new Error(await readError(response, `Chunk ${index} failed`));
+          }
+        }
       };
+
+      // Each worker takes the next missing chunk until none are left
+      const queue = [...missing];
+      const worker = async () => {
+        for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+          await sendChunk(index);
+          received++;
+
+          const speed = bytesSent / Math.max((Date.now() - startedAt) / 1000, 0.001);
+          updateUpload(file.name, {
+            chunks: received,
+            progress: (received / totalChunks) * 100,
+            speed,
+            eta: speed > 0 ? (totalChunks - received) * CHUNK_SIZE / speed : 0,
+          });
+        }
+      };
+
+      try {
+        await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+      } catch (error) {
+        controller.abort();
+        throw error;
+      }
+
+      // The server starts processing once the last chunk arrives
+      forgetStoredUpload(uploadId);
+      updateUpload(file.name, { status: 'processing', progress: 100, chunks: totalChunks });
+
+      let completed;
+      for (;;) {
+        await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL));
+        if (signal.aborted) return;
+
+        const response = await fetch(`/api/upload/status/${uploadId}`, { headers: await authHeaders(), signal });
+        if (!response.ok) continue;
+
+        const status = await response.json();
+        if (status.status === 'COMPLETED') {
+          completed = status;
+          break;
+        }
+        if (['FAILED', 'QUARANTINED', 'CANCELLED'].includes(status.status)) {
+          throw new Error(status.processingError || `Upload ${status.status.toLowerCase()}`);
+        }
+      }
+
+      updateUpload(file.name, { status: 'complete' });
+
+      // Show the games the server created, one per entry for a collection
+      const gameIds: string[] = completed.isCollection
+        ? completed.entries.map((entry: { gameId?: string }) => entry.gameId).filter(Boolean)
+        : [completed.gameId].filter(Boolean);
+      const added = await Promise.all(gameIds.map(async gameId => {
+        const response = await fetch(`/api/games/${gameId}`, { headers: await authHeaders(), signal });
+        return response.ok ? toGameMetadata(await response.json()) : null;
+      }));
+
+      setGames(prev => [
+        ...prev.filter(game => !gameIds.includes(game.id)),
+        ...added.filter((game): game is GameMetadata => game !== null),
+      ]);
+    } catch (error) {
+      if (signal.aborted && uploadControllers.current.get(file.name) !== controller) return;
+
+      console.error(`Upload failed for ${file.name}:`, error);
+      updateUpload(file.name, { status: 'error', error: (error as Error).message });
+    } finally {
+      if (uploadControllers.current.get(file.name) === controller) {
+        uploadControllers.current.delete(file.name);
+      }
+    }
+  }, [authHeaders, updateUpload]);
+
+  const processFiles = useCallback((files: File[]) => {
+    files.forEach(file => {
+      const validation = validateFile(file);
       
-      setUploads(prev => [...prev, newUpload]);
+      if (!validation.valid) {
+        console.error(`Validation failed for ${file.name}:`, validation.errors);
+        return;
+      }
       
-      // Simulate upload progress
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += Math.random() * 15;
-        if (progress >= 100) {
-          progress = 100;
-          clearInterval(interval);
-          
-          setUploads(prev => prev.map(upload => 
-            upload.fileName === file.name 
-              ? { ...upload, progress: 100, status: 'complete' as const }
-              : upload
-          ));
-          
-          // Add to games library
-          const platform = SUPPORTED_PLATFORMS.find(p => 
-            p.extensions.some(ext => file.name.toLowerCase().endsWith(ext))
-          );
-          
-          if (platform) {
-            const newGame: GameMetadata = {
-              id: Date.now().toString(),
-              title: file.name.replace(/\.[^/.]+$/, ''),
-              platform: platform.id,
-              genre: 'Unknown',
-              year: new Date().getFullYear(),
-              rating: 0,
-              size: file.size,
-            };
-            
-            setGames(prev => [...prev, newGame]);
-          }
-        } else {
-          const speed = Math.random() * 1024 * 1024 * 5; // Random speed up to 5MB/s
-          const eta = ((100 - progress) / progress) * (Date.now() / 1000);
-          
-          setUploads(prev => prev.map(upload => 
-            upload.fileName === file.name 
-              ? { 
-                  ...upload, 
-                  progress, 
-                  speed,
-                  eta,
-                  chunks: Math.floor((progress / 100) * totalChunks)
-                }
-              : upload
-          ));
-        }
-      }, 200);
+      uploadFile(file);
     });
-  }, []);
+  }, [uploadFile]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -323,9 +666,18 @@ const RetroGameApp: React.FC = () => {
     }
   }, [processFiles]);
 
-  const cancelUpload = useCallback((fileName: string) => {
-    setUploads(prev => prev.filter(upload => upload.fileName !== fileName));
-  }, []);
+  const cancelUpload = useCallback((upload: UploadProgress) => {
+    uploadControllers.current.get(upload.fileName)?.abort();
+    uploadControllers.current.delete(upload.fileName);
+
+    if (upload.uploadId) {
+      forgetStoredUpload(upload.uploadId);
+      authHeaders()
+        .then(headers => fetch(`/api/upload/cancel/${upload.uploadId}`, { method: 'DELETE', headers }))
+        .catch(() => undefined);
+    }
+    setUploads(prev => prev.filter(item => item.fileName !== upload.fileName));
+  }, [authHeaders]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -494,7 +846,7 @@ const RetroGameApp: React.FC = () => {
                     <UploadItem
                       key={`${upload.fileName}-${index}`}
                       upload={upload}
-                      onCancel={() => cancelUpload(upload.fileName)}
+                      onCancel={() => cancelUpload(upload)}
                     />
                   ))}
                 </div>
@@ -1,12 +1,15 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { PrismaClient, Game } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { DatService, ChecksumQuery } from './dat';
 
 export interface MetadataSearchRequest {
   title: string;
   platform: string;
   region?: string;
   fileHash?: string;
+  checksums?: ChecksumQuery; // CRC32/MD5/SHA1 for DAT lookups
   year?: number;
 }
 
@@ -30,6 +33,8 @@ export interface GameMetadata {
   igdbId?: string;
   thegamesdbId?: string;
   screenscrapeId?: string;
+  revision?: string;
+  verifiedDump?: boolean;   // Set when the result comes from a DAT checksum match
   confidence?: number;
 }
 
@@ -37,6 +42,7 @@ export interface ScrapingSource {
   name: string;
   priority: number;
   enabled: boolean;
+  remote: boolean;          // Queries an HTTP API rather than the local DATs
   search: (request: MetadataSearchRequest) => Promise<GameMetadata[]>;
 }
 
@@ -44,8 +50,11 @@ export class MetadataScrapingService {
   private httpClient: AxiosInstance;
   private sources: ScrapingSource[] = [];
   private cache: Map<string, GameMetadata> = new Map();
+  private datService: DatService;
+
+  constructor(private prisma: PrismaClient = new PrismaClient()) {
+    this.datService = new DatService(prisma);
 
-  constructor() {
     this.httpClient = axios.create({
       timeout: 30000,
       headers: {
@@ -64,6 +73,7 @@ export class MetadataScrapingService {
     if (config.apis.igdb.clientId && config.apis.igdb.clientSecret) {
       this.sources.push({
         name: 'IGDB',
+        remote: true,
         priority: 1,
         enabled: true,
         search: this.searchIGDB.bind(this),
@@ -74,6 +84,7 @@ export class MetadataScrapingService {
     if (config.apis.thegamesdb.apiKey) {
       this.sources.push({
         name: 'TheGamesDB',
+        remote: true,
         priority: 2,
         enabled: true,
         search: this.searchTheGamesDB.bind(this),
@@ -84,6 +95,7 @@ export class MetadataScrapingService {
     if (config.apis.screenscraper.username && config.apis.screenscraper.password) {
       this.sources.push({
         name: 'ScreenScraper',
+        remote: true,
         priority: 3,
         enabled: true,
         search: this.searchScreenScraper.bind(this),
@@ -93,6 +105,7 @@ export class MetadataScrapingService {
     // Local database fallback
     this.sources.push({
       name: 'Local',
+      remote: false,
       priority: 10,
       enabled: true,
       search: this.searchLocal.bind(this),
@@ -105,10 +118,11 @@ export class MetadataScrapingService {
   }
 
   /**
-   * Scrape metadata from all available sources
+   * Scrape metadata from all available sources, or only the local DATs when remote is false
    */
-  async scrapeMetadata(request: MetadataSearchRequest): Promise<GameMetadata | null> {
-    const cacheKey = this.getCacheKey(request);
+  async scrapeMetadata(request: MetadataSearchRequest, options: { remote?: boolean } = {}): Promise<GameMetadata | null> {
+    const remote = options.remote !== false;
+    const cacheKey = `${this.getCacheKey(request)}${remote ? '' : ':local'}`;
     
     // Check cache first
     if (this.cache.has(cacheKey)) {
@@ -121,7 +135,7 @@ export class MetadataScrapingService {
     const results: GameMetadata[] = [];
 
     // Try each source in priority order
-    for (const source of this.sources.filter(s => s.enabled)) {
+    for (const source of this.sources.filter(s => s.enabled && (remote || !s.remote))) {
       try {
         logger.debug(`Searching ${source.name} for: ${request.title}`);
         const sourceResults = await source.search(request);
@@ -155,6 +169,61 @@ export class MetadataScrapingService {
     return bestResult;
   }
 
+  /**
+   * Scrape a stored game from every source and fill in the fields it is missing
+   */
+  async scrapeGame(gameId: string): Promise<Game> {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      include: { platform: true },
+    });
+
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    const metadata = await this.scrapeMetadata({
+      title: game.title,
+      platform: game.platform.shortName,
+      region: game.region || undefined,
+      fileHash: game.fileHash,
+      checksums: {
+        sha1: game.sha1Hash || undefined,
+        md5: game.md5Hash || undefined,
+        crc32: game.crc32Hash || undefined,
+      },
+    });
+
+    if (!metadata) {
+      return game;
+    }
+
+    // Values already on the game, from its DAT entry, header or an edit, are kept
+    const updated = await this.prisma.game.update({
+      where: { id: gameId },
+      data: {
+        alternativeTitles: game.alternativeTitles.length > 0 ? undefined : metadata.alternativeTitles,
+        genre: game.genre ?? metadata.genre,
+        subGenre: game.subGenre ?? metadata.subGenre,
+        developer: game.developer ?? metadata.developer,
+        publisher: game.publisher ?? metadata.publisher,
+        releaseDate: game.releaseDate ?? metadata.releaseDate,
+        releaseYear: game.releaseYear ?? metadata.releaseYear,
+        rating: game.rating ?? metadata.rating,
+        boxArtUrl: game.boxArtUrl ?? metadata.boxArtUrl,
+        screenshotUrls: game.screenshotUrls.length > 0 ? undefined : metadata.screenshotUrls,
+        videoUrl: game.videoUrl ?? metadata.videoUrl,
+        players: game.players ?? metadata.players,
+        language: game.language ?? metadata.language,
+        igdbId: game.igdbId ?? metadata.igdbId,
+        thegamesdbId: game.thegamesdbId ?? metadata.thegamesdbId,
+      },
+    });
+
+    logger.info(`Scraped metadata for ${game.title} (${gameId})`);
+    return updated;
+  }
+
   /**
    * Search IGDB database
    */
@@ -255,16 +324,42 @@ export class MetadataScrapingService {
   }
 
   /**
-   * Search local database
+   * Search local No-Intro/Redump DAT database
    */
   private async searchLocal(request: MetadataSearchRequest): Promise<GameMetadata[]> {
-    // This would search a local database of game metadata
-    // For now, return basic metadata based on filename
+    // A checksum match identifies the exact dump
+    if (request.checksums) {
+      const match = await this.datService.matchChecksums(request.checksums, request.platform);
+
+      if (match) {
+        return [{
+          title: match.title,
+          alternativeTitles: match.gameName !== match.title ? [match.gameName] : [],
+          region: match.region,
+          language: match.languages.join(',') || undefined,
+          revision: match.revision,
+          verifiedDump: match.isVerified,
+        }];
+      }
+    }
+
+    const title = this.cleanTitle(request.title);
+    const matches = await this.datService.searchByTitle(title, request.platform, 5);
+
+    if (matches.length > 0) {
+      return matches.map(match => ({
+        title: match.title,
+        alternativeTitles: [match.gameName],
+        region: match.region,
+        language: match.languages.join(',') || undefined,
+        revision: match.revision,
+      }));
+    }
+
+    // Fall back to basic metadata based on filename
     return [{
-      title: this.cleanTitle(request.title),
-      platform: request.platform,
+      title,
       region: request.region,
-      confidence: 0.3, // Low confidence for local fallback
     }];
   }
 
@@ -336,6 +431,11 @@ export class MetadataScrapingService {
    * Calculate confidence score for search result
    */
   private calculateConfidence(request: MetadataSearchRequest, result: GameMetadata, source: string): number {
+    // DAT checksum matches are exact
+    if (result.verifiedDump !== undefined) {
+      return 1.0;
+    }
+
     let confidence = 0.5; // Base confidence
 
     // Exact title match
@@ -389,6 +489,8 @@ export class MetadataScrapingService {
       if (!bestResult.rating && result.rating) bestResult.rating = result.rating;
       if (!bestResult.description && result.description) bestResult.description = result.description;
       if (!bestResult.boxArtUrl && result.boxArtUrl) bestResult.boxArtUrl = result.boxArtUrl;
+      if (!bestResult.region && result.region) bestResult.region = result.region;
+      if (!bestResult.revision && result.revision) bestResult.revision = result.revision;
       
       // Merge screenshot URLs
       if (result.screenshotUrls && result.screenshotUrls.length > 0) {
@@ -457,7 +559,9 @@ export class MetadataScrapingService {
    * Utility functions
    */
   private getCacheKey(request: MetadataSearchRequest): string {
-    return `${request.platform}:${request.title.toLowerCase()}`;
+    // Different dumps of the same title can match different DAT entries
+    const dump = request.checksums?.sha1 ? `:${request.checksums.sha1}` : '';
+    return `${request.platform}:${request.title.toLowerCase()}${dump}`;
   }
 
   private cleanTitle(title: string): string {
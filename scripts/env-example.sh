@@ -38,6 +38,18 @@ ROM_DIR=./roms
 MEDIA_DIR=./media
 BIOS_DIR=./bios
 TEMP_DIR=./temp
+# IPS/BPS/UPS patches uploaded for games
+PATCH_DIR=./patches
+# Uploads ClamAV found infected
+QUARANTINE_DIR=./quarantine
+
+# Existing ROM folders to import in place (comma-separated, defaults to ROM_DIR)
+LIBRARY_ROOTS=
+# Watch LIBRARY_ROOTS for new, moved and deleted files
+LIBRARY_WATCH=true
+
+# Optional JSON/YAML file adding or overriding platform definitions
+PLATFORMS_FILE=
 
 # ===========================================
 # UPLOAD CONFIGURATION
@@ -48,9 +60,12 @@ MAX_FILE_SIZE=4294967296
 # Chunk size for upload in bytes (1MB default)
 CHUNK_SIZE=1048576
 
-# Upload timeout in seconds (1 hour default)
+# Upload timeout in seconds (1 hour default), extended by every chunk received
 UPLOAD_TIMEOUT=3600
 
+# Chunk uploads a client may send in parallel
+UPLOAD_CONCURRENCY=4
+
 # ===========================================
 # FRONTEND CONFIGURATION
 # ===========================================
@@ -93,6 +108,62 @@ ENABLE_VIRUS_SCAN=false
 # ClamAV configuration (if virus scanning enabled)
 CLAMAV_HOST=localhost
 CLAMAV_PORT=3310
+# Milliseconds to wait for clamd before the upload fails
+CLAMAV_TIMEOUT=60000
+
+# Convert uploaded cue/bin, gdi and iso disc images to CHD nightly (requires chdman from mame-tools)
+ENABLE_CHD_CONVERSION=false
+CHDMAN_PATH=chdman
+
+# ===========================================
+# NATIVE EMULATION
+# ===========================================
+RETROARCH_PATH=/usr/bin/retroarch
+# Per-game and per-player shader presets are looked up here
+RETROARCH_SHADER_DIR=/usr/share/libretro/shaders
+
+# Each native session gets its own UDP network command port from this range
+RETROARCH_CMD_PORT_BASE=55400
+RETROARCH_CMD_PORT_COUNT=100
+# Milliseconds to wait for RetroArch to answer a status query
+RETROARCH_CMD_TIMEOUT=2000
+
+# Native sessions run on their own Xvfb display and PulseAudio null sink (requires Xvfb and pactl)
+NATIVE_MAX_SESSIONS=4
+# Milliseconds a session waits in the queue for a free display
+NATIVE_QUEUE_TIMEOUT=60000
+# Times a crashed RetroArch is restarted before the session fails
+NATIVE_MAX_RESTARTS=1
+XVFB_PATH=Xvfb
+DISPLAY_BASE=100
+PACTL_PATH=pactl
+
+# RetroArch runs in a bubblewrap sandbox (requires bwrap); "none" runs it directly, for development only
+NATIVE_SANDBOX=bwrap
+BWRAP_PATH=bwrap
+# cgroup v2 subtree delegated to the server user, with cpu, memory and pids controllers available;
+# empty runs sessions without limits, e.g. /sys/fs/cgroup/retrohub turns them on
+SANDBOX_CGROUP_ROOT=
+SANDBOX_MEMORY_MAX=1G
+# Percent of one CPU per session
+SANDBOX_CPU_PERCENT=100
+SANDBOX_PIDS_MAX=256
+# PULSE_SOCKET=/run/user/1000/pulse/native
+
+# ===========================================
+# BACKGROUND JOBS
+# ===========================================
+# Attempts per job before it is moved to the dead-letter list
+JOB_ATTEMPTS=3
+
+# Delay before the first retry in milliseconds, doubled for each further retry
+JOB_BACKOFF=5000
+
+# Jobs run at once per queue
+INGEST_CONCURRENCY=2
+SCRAPE_CONCURRENCY=4
+VERIFY_CONCURRENCY=2
+CONVERT_CONCURRENCY=1
 
 # ===========================================
 # LOGGING CONFIGURATION
@@ -7,6 +7,7 @@ import path from 'path';
 import fs from 'fs/promises';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { DisplayLease } from './displayPool';
 
 // =====================================================
 // WEBRTC STREAMING SERVICE
@@ -36,6 +37,7 @@ export interface StreamSession {
   bitrate: number;
   latency: number;
   droppedFrames: number;
+  capture: DisplayLease;     // Display and audio sink of the native session being streamed
   ffmpegProcess?: ChildProcess;
   webrtcConnection?: RTCPeerConnection;
   streamUrl?: string;
@@ -105,7 +107,8 @@ export class StreamingService extends EventEmitter {
   async createStreamSession(
     gameId: string,
     userId: string,
-    streamConfig: Partial<StreamConfig>
+    streamConfig: Partial<StreamConfig>,
+    capture: DisplayLease
   ): Promise<StreamSession> {
     const sessionId = crypto.randomUUID();
     
@@ -131,6 +134,7 @@ export class StreamingService extends EventEmitter {
       gameId,
       userId,
       config: optimizedConfig,
+      capture,
       status: 'initializing',
       startTime: new Date(),
       lastActivity: new Date(),
@@ -210,12 +214,12 @@ export class StreamingService extends EventEmitter {
       '-f', 'x11grab',
       '-video_size', `${width}x${height}`,
       '-framerate', session.config.framerate.toString(),
-      '-i', ':99',
+      '-i', session.capture.display,
       
       // Audio input
       ...(session.config.enableAudio ? [
         '-f', 'pulse',
-        '-i', 'default'
+        '-i', `${session.capture.audioSink}.monitor`
       ] : ['-an']),
       
       // Video encoding settings